@@ -1,7 +1,7 @@
 import { app, BrowserWindow, ipcMain, dialog, shell } from 'electron';
 import { join, dirname, resolve } from 'path';
 import { fileURLToPath, pathToFileURL } from 'url';
-import { writeFile, readFile, access } from 'fs/promises';
+import { writeFile, readFile, access, mkdir } from 'fs/promises';
 import { constants as fsConstants } from 'fs';
 import { randomUUID } from 'crypto';
 
@@ -28,6 +28,8 @@ interface AutomationFailureMessage {
 }
 
 const DEFAULT_TIMEOUT_MS = 300_000;
+const CUSTOM_PALETTES_FILE = 'palettes.json';
+const CUSTOM_PALETTES_FILE_VERSION = 1;
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -387,6 +389,36 @@ ipcMain.handle('file:exists', async (_, filePath: string) => {
   }
 });
 
+function getCustomPalettesPath(): string {
+  return join(app.getPath('userData'), CUSTOM_PALETTES_FILE);
+}
+
+ipcMain.handle('palettes:load', async () => {
+  try {
+    const text = await readFile(getCustomPalettesPath(), 'utf8');
+    const parsed = JSON.parse(text) as { palettes?: unknown };
+    return { success: true, palettes: Array.isArray(parsed?.palettes) ? parsed.palettes : [] };
+  } catch (error) {
+    // A missing file just means no custom palettes have been saved yet.
+    if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+      return { success: true, palettes: [] };
+    }
+    return { success: false, error: String(error) };
+  }
+});
+
+ipcMain.handle('palettes:save', async (_, palettes: unknown[]) => {
+  try {
+    const filePath = getCustomPalettesPath();
+    await mkdir(dirname(filePath), { recursive: true });
+    const payload = { version: CUSTOM_PALETTES_FILE_VERSION, palettes };
+    await writeFile(filePath, `${JSON.stringify(payload, null, 2)}\n`, 'utf8');
+    return { success: true };
+  } catch (error) {
+    return { success: false, error: String(error) };
+  }
+});
+
 ipcMain.handle('path:resolve', (_, basePath: string, targetPath: string) => {
   return resolve(basePath, targetPath);
 });
@@ -42,6 +42,10 @@ contextBridge.exposeInMainWorld('electronAPI', {
     ipcRenderer.invoke('path:resolve', basePath, targetPath),
   toFileURL: (filePath: string) =>
     ipcRenderer.invoke('path:toFileURL', filePath),
+  loadCustomPalettes: () =>
+    ipcRenderer.invoke('palettes:load'),
+  saveCustomPalettes: (palettes: unknown[]) =>
+    ipcRenderer.invoke('palettes:save', palettes),
   onAutomationStart: (listener: (payload: AutomationStartPayload) => void) => {
     automationStartListener = listener;
     if (pendingAutomationStart) {
@@ -75,6 +79,8 @@ export type ElectronAPI = {
   fileExists: (filePath: string) => Promise<boolean>;
   resolvePath: (basePath: string, targetPath: string) => Promise<string>;
   toFileURL: (filePath: string) => Promise<string>;
+  loadCustomPalettes: () => Promise<{ success: boolean; palettes?: unknown[]; error?: string }>;
+  saveCustomPalettes: (palettes: unknown[]) => Promise<{ success: boolean; error?: string }>;
   onAutomationStart: (listener: (payload: AutomationStartPayload) => void) => void;
   emitAutomationEvent: (event: AutomationEventMessage) => void;
   notifyAutomationDone: () => void;
@@ -6,7 +6,8 @@ import { TimelineSlider } from './components/TimelineSlider';
 import { ExportDialog } from './components/ExportDialog';
 import { useAppStore, useVideoInfo } from './state/store';
 import { exportVideo, getExportFilename, getExportFilters } from './processing/ExportManager';
-import type { ExportFormat } from './state/store';
+import { useCustomPalettePersistence } from './hooks/useCustomPalettePersistence';
+import type { DitherMode, ExportFormat } from './state/store';
 
 interface ImportRequest {
   src: string;
@@ -17,27 +18,58 @@ interface ImportRequest {
 function App() {
   const [showExportDialog, setShowExportDialog] = useState(false);
   const [exportError, setExportError] = useState<string | null>(null);
+  const [exportWarning, setExportWarning] = useState<string | null>(null);
   const [importRequest, setImportRequest] = useState<ImportRequest | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  useCustomPalettePersistence();
+
   const videoInfo = useVideoInfo();
   const videoElement = useAppStore((s) => s.videoElement);
   const contrast = useAppStore((s) => s.contrast);
   const cameraResponse = useAppStore((s) => s.cameraResponse);
   const cropRegion = useAppStore((s) => s.cropRegion);
   const ditherMode = useAppStore((s) => s.ditherMode);
+  const processingResolution = useAppStore((s) => s.processingResolution);
   const palette = useAppStore((s) => s.palette);
   const invertPalette = useAppStore((s) => s.invertPalette);
+  const colorMetric = useAppStore((s) => s.colorMetric);
+  const serpentineDither = useAppStore((s) => s.serpentineDither);
+  const errorDiffusionBackend = useAppStore((s) => s.errorDiffusionBackend);
+  const thresholdMatrix = useAppStore((s) => s.thresholdMatrix);
+  const customThresholdMatrix = useAppStore((s) => s.customThresholdMatrix);
+  const frameBorder = useAppStore((s) => s.frameBorder);
+  const customFrameBorder = useAppStore((s) => s.customFrameBorder);
+  const temporalCoherence = useAppStore((s) => s.temporalCoherence);
+  const temporalThreshold = useAppStore((s) => s.temporalThreshold);
   const enableLcdEffects = useAppStore((s) => s.enableLcdEffects);
   const lcdGridIntensity = useAppStore((s) => s.lcdGridIntensity);
   const lcdShadowOpacity = useAppStore((s) => s.lcdShadowOpacity);
   const lcdGhostingStrength = useAppStore((s) => s.lcdGhostingStrength);
   const lcdBaselineAlpha = useAppStore((s) => s.lcdBaselineAlpha);
   const enableAudioBitcrush = useAppStore((s) => s.enableAudioBitcrush);
+  const gifLoopForever = useAppStore((s) => s.gifLoopForever);
+  const gifPlayCount = useAppStore((s) => s.gifPlayCount);
+  const gifEndHoldMs = useAppStore((s) => s.gifEndHoldMs);
+  const spriteSheetLayout = useAppStore((s) => s.spriteSheetLayout);
+  const videoCodec = useAppStore((s) => s.videoCodec);
+  const exportResolution = useAppStore((s) => s.exportResolution);
+  const audioMode = useAppStore((s) => s.audioMode);
   const audioHighpass = useAppStore((s) => s.audioHighpass);
   const audioLowpass = useAppStore((s) => s.audioLowpass);
   const audioBitDepth = useAppStore((s) => s.audioBitDepth);
   const audioDistortion = useAppStore((s) => s.audioDistortion);
+  const audioCrushRate = useAppStore((s) => s.audioCrushRate);
+  const audioResonance = useAppStore((s) => s.audioResonance);
+  const audioMono = useAppStore((s) => s.audioMono);
+  const audioNoise = useAppStore((s) => s.audioNoise);
+  const audioLimiter = useAppStore((s) => s.audioLimiter);
+  const audioTrackFile = useAppStore((s) => s.audioTrackFile);
+  const audioTrackMode = useAppStore((s) => s.audioTrackMode);
+  const audioTrackOffset = useAppStore((s) => s.audioTrackOffset);
+  const audioTrackGain = useAppStore((s) => s.audioTrackGain);
+  const audioTrackFadeIn = useAppStore((s) => s.audioTrackFadeIn);
+  const audioTrackFadeOut = useAppStore((s) => s.audioTrackFadeOut);
   const trimStart = useAppStore((s) => s.trimStart);
   const trimEnd = useAppStore((s) => s.trimEnd);
   const targetFps = useAppStore((s) => s.targetFps);
@@ -98,6 +130,7 @@ function App() {
     console.log('electronAPI available:', !!window.electronAPI);
 
     setExportError(null);
+    setExportWarning(null);
 
     if (!videoInfo || !videoElement) {
       const errorMsg = 'No video loaded';
@@ -107,8 +140,8 @@ function App() {
     }
 
     // Ask user where to save FIRST
-    const filename = getExportFilename(videoInfo.name, format);
-    const filters = getExportFilters(format);
+    const filename = getExportFilename(videoInfo.name, format, videoCodec);
+    const filters = getExportFilters(format, videoCodec);
 
     console.log('Requesting save dialog with filename:', filename);
 
@@ -128,6 +161,8 @@ function App() {
     setIsExporting(true);
     setExportProgress(0);
 
+    let paletteWarning: string | null = null;
+
     try {
       console.log('Starting export...');
       const blob = await exportVideo(videoElement, {
@@ -138,8 +173,18 @@ function App() {
           cameraResponse,
           cropRegion,
           ditherMode,
+          processingResolution,
           palette,
           invertPalette,
+          colorMetric,
+          serpentine: serpentineDither,
+          errorDiffusionBackend,
+          thresholdMatrix,
+          customThresholdMatrix,
+          frameBorder,
+          customFrameBorder,
+          temporalCoherence,
+          temporalThreshold,
           lcd: {
             enabled: enableLcdEffects,
             gridIntensity: lcdGridIntensity,
@@ -150,11 +195,37 @@ function App() {
         },
         enableAudioBitcrush,
         audioSettings: {
+          mode: audioMode,
           highpass: audioHighpass,
           lowpass: audioLowpass,
           bitDepth: audioBitDepth,
           distortion: audioDistortion,
+          crushRate: audioCrushRate,
+          resonance: audioResonance,
+          mono: audioMono,
+          noise: audioNoise,
+          limiter: audioLimiter,
+        },
+        audioTrack: audioTrackFile
+          ? {
+            src: audioTrackFile.url,
+            mode: audioTrackMode,
+            offsetSec: audioTrackOffset,
+            gainDb: audioTrackGain,
+            fadeInSec: audioTrackFadeIn,
+            fadeOutSec: audioTrackFadeOut,
+          }
+          : null,
+        gifOptions: {
+          // NETSCAPE2.0 counts repeats after the first play
+          loopCount: gifLoopForever ? 0 : gifPlayCount > 1 ? gifPlayCount - 1 : null,
+          endHoldMs: gifEndHoldMs,
         },
+        spriteSheetOptions: {
+          layout: spriteSheetLayout,
+        },
+        videoCodec,
+        resolution: exportResolution ?? undefined,
         sourceVideoDimensions: {
           width: videoInfo.width,
           height: videoInfo.height,
@@ -167,6 +238,16 @@ function App() {
           console.log('Export progress:', p);
           setExportProgress(p);
         },
+        onPaletteCheck: (report) => {
+          if (!report.verified) {
+            paletteWarning = `Could not verify palette colours: ${report.error}`;
+            return;
+          }
+          if (report.passed) return;
+          const first = report.samples[0];
+          paletteWarning = `${report.offPalettePixels} decoded pixels are not palette colours`
+            + (first ? ` (first: ${first.color} at ${first.x},${first.y} in frame ${first.frame})` : '');
+        },
       });
 
       console.log('Export complete, blob size:', blob.size);
@@ -180,6 +261,10 @@ function App() {
         const errorMsg = `Failed to write file: ${result.error}`;
         console.error(errorMsg);
         setExportError(errorMsg);
+      } else if (paletteWarning) {
+        // The file is saved, but keep the dialog open so the mismatch is seen
+        console.warn(paletteWarning);
+        setExportWarning(paletteWarning);
       } else {
         console.log('File written successfully!');
         setShowExportDialog(false);
@@ -192,11 +277,12 @@ function App() {
       setIsExporting(false);
       setExportProgress(0);
     }
-  }, [videoInfo, videoElement, contrast, cameraResponse, cropRegion, ditherMode, palette, invertPalette, enableLcdEffects, lcdGridIntensity, lcdShadowOpacity, lcdGhostingStrength, lcdBaselineAlpha, enableAudioBitcrush, audioHighpass, audioLowpass, audioBitDepth, audioDistortion, trimStart, trimEnd, targetFps, setIsExporting, setExportProgress]);
+  }, [videoInfo, videoElement, contrast, cameraResponse, cropRegion, ditherMode, processingResolution, palette, invertPalette, colorMetric, serpentineDither, errorDiffusionBackend, thresholdMatrix, customThresholdMatrix, frameBorder, customFrameBorder, temporalCoherence, temporalThreshold, enableLcdEffects, lcdGridIntensity, lcdShadowOpacity, lcdGhostingStrength, lcdBaselineAlpha, enableAudioBitcrush, gifLoopForever, gifPlayCount, gifEndHoldMs, spriteSheetLayout, videoCodec, exportResolution, audioMode, audioHighpass, audioLowpass, audioBitDepth, audioDistortion, audioCrushRate, audioResonance, audioMono, audioNoise, audioLimiter, audioTrackFile, audioTrackMode, audioTrackOffset, audioTrackGain, audioTrackFadeIn, audioTrackFadeOut, trimStart, trimEnd, targetFps, setIsExporting, setExportProgress]);
 
   const handleCloseExportDialog = useCallback(() => {
     setShowExportDialog(false);
     setExportError(null);
+    setExportWarning(null);
   }, []);
 
   // Keyboard shortcuts
@@ -245,8 +331,9 @@ function App() {
 
       // D to cycle dither modes
       if (e.code === 'KeyD' && !e.metaKey && !e.ctrlKey) {
-        const modes: Array<'none' | 'bayer2x2' | 'bayer4x4' | 'floydSteinberg' | 'gameBoyCamera'> = [
-          'none', 'bayer2x2', 'bayer4x4', 'floydSteinberg', 'gameBoyCamera'
+        const modes: DitherMode[] = [
+          'none', 'bayer2x2', 'bayer4x4', 'floydSteinberg', 'atkinson', 'jarvisJudiceNinke',
+          'stucki', 'burkes', 'sierra', 'thresholdMatrix', 'gameBoyCamera', 'gameBoyColor'
         ];
         const currentMode = useAppStore.getState().ditherMode;
         const currentIndex = modes.indexOf(currentMode);
@@ -282,6 +369,7 @@ function App() {
         onClose={handleCloseExportDialog}
         onExport={handleExport}
         error={exportError}
+        warning={exportWarning}
       />
     </MonolithWindow>
   );
@@ -1,35 +1,74 @@
 /**
  * Game Boy Audio Processor
- * Real-time audio processing chain that simulates the Game Boy DMG-01 speaker
- * Uses Web Audio API with AudioWorklet for bit crushing
+ * Real-time audio processing chain that simulates the Game Boy DMG-01 speaker,
+ * or re-renders the audio on an emulated DMG APU
+ * Uses Web Audio API with AudioWorklets running the same DSP as the export
  */
 
-export interface AudioSettings {
-  highpass: number;    // Hz (100-1000) - bass cut frequency
-  lowpass: number;     // Hz (2000-6000) - treble cut frequency
-  bitDepth: number;    // bits (4-8) - quantization depth
-  distortion: number;  // percent (0-100) - soft clipping amount
+import { APU_ANALYSIS_SIZE, DmgAudioAnalyzer } from './apuResynthesis';
+import { GB_FRAME_RATE } from './dmgApu';
+import { DEFAULT_SPEAKER_SETTINGS, type SpeakerDspSettings } from './speakerDsp';
+import { audioTrackGain, audioTrackTime, type AudioTrackSettings } from './audioTrack';
+import { measureLevels, type AudioLevels } from './waveform';
+import speakerWorkletUrl from './speaker-processor.ts?worker&url';
+import apuWorkletUrl from './apu-processor.ts?worker&url';
+
+// 'speaker' filters and crushes the source; 'apu' resynthesizes it as chiptune
+export type AudioMode = 'speaker' | 'apu';
+
+export const AUDIO_MODES: AudioMode[] = ['speaker', 'apu'];
+
+export interface AudioSettings extends SpeakerDspSettings {
+  mode: AudioMode;
 }
 
+// Video events after which the audio track is re-synced straight away
+const AUDIO_TRACK_SYNC_EVENTS = ['play', 'pause', 'seeked', 'ratechange'] as const;
+const AUDIO_TRACK_SYNC_INTERVAL_MS = 100;
+// Drift from the video's position before the audio track is re-seeked
+const MAX_AUDIO_TRACK_DRIFT_SEC = 0.08;
+// Time constant for gain changes, short enough to follow fades without clicks
+const GAIN_SMOOTHING_SEC = 0.02;
+// Meter window: about 40 ms at 48 kHz
+const METER_WINDOW_SIZE = 2048;
+
 export class GameBoyAudioProcessor {
   private audioContext: AudioContext | null = null;
   private sourceNode: MediaElementAudioSourceNode | null = null;
-  private highpassFilter: BiquadFilterNode | null = null;
-  private lowpassFilter: BiquadFilterNode | null = null;
-  private bitcrusherNode: AudioWorkletNode | null = null;
-  private waveShaperNode: WaveShaperNode | null = null;
+  // The video's audio and the audio track meet here, ahead of the effects
+  private inputNode: GainNode | null = null;
+  // Muted while an audio track replaces the video's audio
+  private sourceGainNode: GainNode | null = null;
+  // Speaker mode: filters, bitcrusher and soft clipping in one worklet
+  private speakerNode: AudioWorkletNode | null = null;
   private gainNode: GainNode | null = null;
+  // APU mode: the source only feeds the analyser; the worklet makes the sound
+  private analyserNode: AnalyserNode | null = null;
+  private apuNode: AudioWorkletNode | null = null;
+  private apuAnalyzer: DmgAudioAnalyzer | null = null;
+  private apuTimer: ReturnType<typeof setInterval> | null = null;
+  private apuBlock = new Float32Array(APU_ANALYSIS_SIZE);
+  // Taps the output for the level meter
+  private meterNode: AnalyserNode | null = null;
+  private meterBlock = new Float32Array(METER_WINDOW_SIZE);
   private videoElement: HTMLVideoElement | null = null;
   private isConnected = false;
   private isEnabled = false;
   // Track worklet loading per AudioContext (not global flag)
   private workletLoadedForContext = false;
+  private apuWorkletLoadedForContext = false;
+  // Audio track: an audio element kept in step with the video
+  private audioTrack: AudioTrackSettings | null = null;
+  private audioTrackClip = { startSec: 0, endSec: Infinity };
+  private trackElement: HTMLAudioElement | null = null;
+  private trackSourceNode: MediaElementAudioSourceNode | null = null;
+  private trackGainNode: GainNode | null = null;
+  private trackTimer: ReturnType<typeof setInterval> | null = null;
+  private readonly syncAudioTrackHandler = () => this.syncAudioTrack();
 
   private settings: AudioSettings = {
-    highpass: 500,
-    lowpass: 3500,
-    bitDepth: 6,
-    distortion: 30,
+    mode: 'speaker',
+    ...DEFAULT_SPEAKER_SETTINGS,
   };
 
   async connect(video: HTMLVideoElement): Promise<void> {
@@ -42,123 +81,223 @@ export class GameBoyAudioProcessor {
 
     this.videoElement = video;
     this.audioContext = new AudioContext();
-    // Reset worklet loaded flag for new AudioContext
+    // Reset worklet loaded flags for new AudioContext
     this.workletLoadedForContext = false;
+    this.apuWorkletLoadedForContext = false;
 
-    // Load the bitcrusher worklet for this AudioContext
+    // Load the speaker worklet for this AudioContext
     try {
-      const workletUrl = new URL('./bitcrusher-processor.js', import.meta.url).href;
-      await this.audioContext.audioWorklet.addModule(workletUrl);
+      await this.audioContext.audioWorklet.addModule(speakerWorkletUrl);
       this.workletLoadedForContext = true;
     } catch (err) {
-      console.error('Failed to load bitcrusher worklet:', err);
-      // Continue without bitcrusher - other effects will still work
+      console.error('Failed to load speaker worklet:', err);
+      // Continue without the speaker effect - audio plays unprocessed
+    }
+
+    try {
+      await this.audioContext.audioWorklet.addModule(apuWorkletUrl);
+      this.apuWorkletLoadedForContext = true;
+    } catch (err) {
+      console.error('Failed to load APU worklet:', err);
+      // APU mode falls back to the speaker chain
     }
 
     // Create source from video element
     this.sourceNode = this.audioContext.createMediaElementSource(video);
+    this.inputNode = this.audioContext.createGain();
+    this.sourceGainNode = this.audioContext.createGain();
+    this.sourceNode.connect(this.sourceGainNode);
+    this.sourceGainNode.connect(this.inputNode);
 
-    // Create filter chain
-    this.highpassFilter = this.audioContext.createBiquadFilter();
-    this.highpassFilter.type = 'highpass';
-    this.highpassFilter.frequency.value = this.settings.highpass;
-    this.highpassFilter.Q.value = 0.707; // Butterworth
-
-    this.lowpassFilter = this.audioContext.createBiquadFilter();
-    this.lowpassFilter.type = 'lowpass';
-    this.lowpassFilter.frequency.value = this.settings.lowpass;
-    this.lowpassFilter.Q.value = 0.707;
-
-    // Create bitcrusher (if worklet loaded for this context)
+    // Create the speaker (if worklet loaded for this context)
     if (this.workletLoadedForContext) {
-      this.bitcrusherNode = new AudioWorkletNode(this.audioContext, 'bitcrusher-processor', {
-        parameterData: {
-          bitDepth: this.settings.bitDepth,
-          sampleRateReduction: 6, // ~8kHz effective sample rate
-        },
+      this.speakerNode = new AudioWorkletNode(this.audioContext, 'speaker-processor', {
+        outputChannelCount: [2],
+        processorOptions: this.getSpeakerSettings(),
       });
     }
 
-    // Create waveshaper for soft clipping distortion
-    this.waveShaperNode = this.audioContext.createWaveShaper();
-    this.updateDistortionCurve();
+    // Create the APU and the analyser that drives it
+    if (this.apuWorkletLoadedForContext) {
+      this.apuNode = new AudioWorkletNode(this.audioContext, 'apu-processor', {
+        numberOfInputs: 0,
+        outputChannelCount: [2],
+      });
+      this.analyserNode = this.audioContext.createAnalyser();
+      this.analyserNode.fftSize = APU_ANALYSIS_SIZE;
+      this.apuAnalyzer = new DmgAudioAnalyzer(this.audioContext.sampleRate);
+    }
 
     // Create gain node for output level control
     this.gainNode = this.audioContext.createGain();
     this.gainNode.gain.value = 1.0;
 
+    // The meter hears what plays, whichever chain is routed
+    this.meterNode = this.audioContext.createAnalyser();
+    this.meterNode.fftSize = METER_WINDOW_SIZE;
+    this.gainNode.connect(this.meterNode);
+
     // Connect the chain based on enabled state
     this.updateAudioRouting();
 
+    // Pick up an audio track set before connecting
+    this.attachAudioTrack();
+    this.syncAudioTrack();
+
     this.isConnected = true;
   }
 
   private updateAudioRouting(): void {
-    if (!this.audioContext || !this.sourceNode || !this.gainNode) return;
+    if (!this.audioContext || !this.inputNode || !this.gainNode) return;
 
     // Disconnect everything first
-    this.sourceNode.disconnect();
-    this.highpassFilter?.disconnect();
-    this.lowpassFilter?.disconnect();
-    this.bitcrusherNode?.disconnect();
-    this.waveShaperNode?.disconnect();
-
-    if (this.isEnabled) {
-      // Connect through processing chain
-      let currentNode: AudioNode = this.sourceNode;
-
-      if (this.highpassFilter) {
-        currentNode.connect(this.highpassFilter);
-        currentNode = this.highpassFilter;
-      }
-
-      if (this.lowpassFilter) {
-        currentNode.connect(this.lowpassFilter);
-        currentNode = this.lowpassFilter;
-      }
-
-      if (this.bitcrusherNode) {
-        currentNode.connect(this.bitcrusherNode);
-        currentNode = this.bitcrusherNode;
-      }
-
-      if (this.waveShaperNode) {
-        currentNode.connect(this.waveShaperNode);
-        currentNode = this.waveShaperNode;
-      }
-
-      currentNode.connect(this.gainNode);
+    this.inputNode.disconnect();
+    this.speakerNode?.disconnect();
+    this.apuNode?.disconnect();
+    this.stopApuDriver();
+
+    if (this.isEnabled && this.settings.mode === 'apu' && this.apuNode && this.analyserNode) {
+      // AnalyserNode is pulled without an output, so the source stays silent
+      this.inputNode.connect(this.analyserNode);
+      this.apuNode.connect(this.gainNode);
+      this.gainNode.connect(this.audioContext.destination);
+      this.startApuDriver();
+    } else if (this.isEnabled && this.speakerNode) {
+      // Connect through the speaker
+      this.inputNode.connect(this.speakerNode);
+      this.speakerNode.connect(this.gainNode);
       this.gainNode.connect(this.audioContext.destination);
     } else {
       // Bypass - connect source directly to destination
-      this.sourceNode.connect(this.gainNode);
+      this.inputNode.connect(this.gainNode);
       this.gainNode.connect(this.audioContext.destination);
     }
   }
 
-  private updateDistortionCurve(): void {
-    if (!this.waveShaperNode) return;
+  /**
+   * Play an audio track along with the video, or remove it with null. Fades
+   * sit at the clip's ends (the trim range), as in the export.
+   */
+  setAudioTrack(track: AudioTrackSettings | null, clipStartSec: number, clipEndSec: number): void {
+    const srcChanged = track?.src !== this.audioTrack?.src;
+    this.audioTrack = track;
+    this.audioTrackClip = { startSec: clipStartSec, endSec: clipEndSec };
+
+    if (srcChanged) {
+      this.detachAudioTrack();
+      this.attachAudioTrack();
+    }
+    this.syncAudioTrack();
+  }
 
-    const amount = this.settings.distortion / 100;
+  private attachAudioTrack(): void {
+    if (!this.audioContext || !this.inputNode || !this.videoElement || !this.audioTrack) return;
 
-    if (amount === 0) {
-      this.waveShaperNode.curve = null;
-      return;
+    const element = new Audio(this.audioTrack.src);
+    element.preload = 'auto';
+    this.trackElement = element;
+    this.trackSourceNode = this.audioContext.createMediaElementSource(element);
+    this.trackGainNode = this.audioContext.createGain();
+    this.trackSourceNode.connect(this.trackGainNode);
+    this.trackGainNode.connect(this.inputNode);
+
+    for (const type of AUDIO_TRACK_SYNC_EVENTS) {
+      this.videoElement.addEventListener(type, this.syncAudioTrackHandler);
+    }
+    this.trackTimer = setInterval(this.syncAudioTrackHandler, AUDIO_TRACK_SYNC_INTERVAL_MS);
+  }
+
+  private detachAudioTrack(): void {
+    if (this.trackTimer !== null) {
+      clearInterval(this.trackTimer);
+      this.trackTimer = null;
+    }
+    for (const type of AUDIO_TRACK_SYNC_EVENTS) {
+      this.videoElement?.removeEventListener(type, this.syncAudioTrackHandler);
+    }
+
+    this.trackSourceNode?.disconnect();
+    this.trackGainNode?.disconnect();
+    if (this.trackElement) {
+      this.trackElement.pause();
+      // Release the decoder; the blob URL belongs to the caller
+      this.trackElement.removeAttribute('src');
+      this.trackElement.load();
     }
 
-    // Create soft clipping curve
-    const samples = 8192;
-    const curve = new Float32Array(samples);
-    const k = amount * 50; // Distortion intensity
+    this.trackElement = null;
+    this.trackSourceNode = null;
+    this.trackGainNode = null;
+  }
+
+  /**
+   * Keep the track element where the video's time maps to, playing only while
+   * the video plays, and follow the track's gain envelope.
+   */
+  private syncAudioTrack(): void {
+    const context = this.audioContext;
+    if (!context) return;
+
+    const track = this.audioTrack;
+    this.sourceGainNode?.gain.setTargetAtTime(track?.mode === 'replace' ? 0 : 1, context.currentTime, GAIN_SMOOTHING_SEC);
+
+    const video = this.videoElement;
+    const element = this.trackElement;
+    if (!track || !video || !element || !this.trackGainNode) return;
 
-    for (let i = 0; i < samples; i++) {
-      const x = (i * 2) / samples - 1;
-      // Soft clipping using tanh-like curve
-      curve[i] = ((3 + k) * x * 20 * (Math.PI / 180)) / (Math.PI + k * Math.abs(x));
+    const trackTime = audioTrackTime(video.currentTime, track);
+    const inTrack = trackTime >= 0 && !(Number.isFinite(element.duration) && trackTime >= element.duration);
+
+    if (!inTrack) {
+      // Before the track starts, wait at its beginning
+      if (trackTime < 0 && element.currentTime !== 0) {
+        element.currentTime = 0;
+      }
+    } else if (Math.abs(element.currentTime - trackTime) > MAX_AUDIO_TRACK_DRIFT_SEC) {
+      element.currentTime = trackTime;
+    }
+
+    element.playbackRate = video.playbackRate;
+    const shouldPlay = inTrack && !video.paused;
+    if (shouldPlay && element.paused) {
+      element.play().catch((err) => console.warn('Audio track playback failed:', err));
+    } else if (!shouldPlay && !element.paused) {
+      element.pause();
     }
 
-    this.waveShaperNode.curve = curve;
-    this.waveShaperNode.oversample = '2x';
+    const { startSec, endSec } = this.audioTrackClip;
+    this.trackGainNode.gain.setTargetAtTime(audioTrackGain(video.currentTime, track, startSec, endSec), context.currentTime, GAIN_SMOOTHING_SEC);
+  }
+
+  /**
+   * Act as the game's sound driver: once per Game Boy frame, analyse the
+   * latest audio and write the resulting registers to the APU.
+   */
+  private startApuDriver(): void {
+    this.apuTimer = setInterval(() => {
+      if (!this.analyserNode || !this.apuNode || !this.apuAnalyzer) return;
+
+      if (!this.videoElement || this.videoElement.paused) {
+        this.apuNode.port.postMessage(null);
+        return;
+      }
+
+      this.analyserNode.getFloatTimeDomainData(this.apuBlock);
+      this.apuNode.port.postMessage(this.apuAnalyzer.analyze(this.apuBlock));
+    }, 1000 / GB_FRAME_RATE);
+  }
+
+  private stopApuDriver(): void {
+    if (this.apuTimer !== null) {
+      clearInterval(this.apuTimer);
+      this.apuTimer = null;
+    }
+    this.apuNode?.port.postMessage(null);
+  }
+
+  private getSpeakerSettings(): SpeakerDspSettings {
+    const { mode, ...speakerSettings } = this.settings;
+    return speakerSettings;
   }
 
   setEnabled(enabled: boolean): void {
@@ -168,25 +307,13 @@ export class GameBoyAudioProcessor {
   }
 
   setSettings(settings: Partial<AudioSettings>): void {
+    const previousMode = this.settings.mode;
     this.settings = { ...this.settings, ...settings };
 
-    if (this.highpassFilter && settings.highpass !== undefined) {
-      this.highpassFilter.frequency.value = settings.highpass;
-    }
-
-    if (this.lowpassFilter && settings.lowpass !== undefined) {
-      this.lowpassFilter.frequency.value = settings.lowpass;
-    }
+    this.speakerNode?.port.postMessage(this.getSpeakerSettings());
 
-    if (this.bitcrusherNode && settings.bitDepth !== undefined) {
-      const bitDepthParam = this.bitcrusherNode.parameters.get('bitDepth');
-      if (bitDepthParam) {
-        bitDepthParam.value = settings.bitDepth;
-      }
-    }
-
-    if (settings.distortion !== undefined) {
-      this.updateDistortionCurve();
+    if (settings.mode !== undefined && settings.mode !== previousMode) {
+      this.updateAudioRouting();
     }
   }
 
@@ -198,13 +325,27 @@ export class GameBoyAudioProcessor {
     return this.isEnabled && this.isConnected;
   }
 
+  /**
+   * Peak and RMS of the output over the last meter window, or null before
+   * the processor is connected.
+   */
+  getOutputLevels(): AudioLevels | null {
+    if (!this.meterNode) return null;
+    this.meterNode.getFloatTimeDomainData(this.meterBlock);
+    return measureLevels([this.meterBlock]);
+  }
+
   dispose(): void {
+    this.stopApuDriver();
+    this.detachAudioTrack();
     this.sourceNode?.disconnect();
-    this.highpassFilter?.disconnect();
-    this.lowpassFilter?.disconnect();
-    this.bitcrusherNode?.disconnect();
-    this.waveShaperNode?.disconnect();
+    this.sourceGainNode?.disconnect();
+    this.inputNode?.disconnect();
+    this.speakerNode?.disconnect();
+    this.analyserNode?.disconnect();
+    this.apuNode?.disconnect();
     this.gainNode?.disconnect();
+    this.meterNode?.disconnect();
 
     // Close the AudioContext to free system resources
     if (this.audioContext && this.audioContext.state !== 'closed') {
@@ -212,14 +353,18 @@ export class GameBoyAudioProcessor {
     }
 
     this.sourceNode = null;
-    this.highpassFilter = null;
-    this.lowpassFilter = null;
-    this.bitcrusherNode = null;
-    this.waveShaperNode = null;
+    this.sourceGainNode = null;
+    this.inputNode = null;
+    this.speakerNode = null;
+    this.analyserNode = null;
+    this.apuNode = null;
+    this.apuAnalyzer = null;
     this.gainNode = null;
+    this.meterNode = null;
     this.videoElement = null;
     this.isConnected = false;
     this.audioContext = null;
     this.workletLoadedForContext = false;
+    this.apuWorkletLoadedForContext = false;
   }
 }
@@ -0,0 +1,31 @@
+/**
+ * DMG APU AudioWorklet Processor
+ * Plays APU register frames posted from the main thread, where the source
+ * audio is analysed. Runs the same DmgApu the export renders with.
+ */
+import { DmgApu, createSilentApuFrame, type ApuFrame } from './dmgApu';
+
+class ApuProcessor extends AudioWorkletProcessor {
+  private readonly apu = new DmgApu(sampleRate);
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+
+    this.port.onmessage = (event: MessageEvent<ApuFrame | null>) => {
+      // null silences the APU (playback paused or mode switched off); the
+      // output capacitor still settles so the next note doesn't click
+      this.apu.write(event.data ?? createSilentApuFrame());
+    };
+  }
+
+  process(_inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    const [first, ...rest] = outputs[0];
+    this.apu.render(first);
+    for (const channel of rest) {
+      channel.set(first);
+    }
+    return true;
+  }
+}
+
+registerProcessor('apu-processor', ApuProcessor);
@@ -0,0 +1,416 @@
+/**
+ * DMG APU resynthesis
+ * Pitch tracking and spectral analysis turn the source audio into one set of
+ * APU registers per Game Boy frame: the two strongest melodic voices on the
+ * pulse channels, the bass line on the wave channel and the noisy remainder
+ * (percussion, breath, hiss) on the noise channel.
+ */
+
+import {
+  DmgApu,
+  GB_FRAME_RATE,
+  createSilentApuFrame,
+  hzToPulseFrequency,
+  hzToWaveFrequency,
+  pulseFrequencyToHz,
+  waveFrequencyToHz,
+  type ApuFrame,
+  type NoiseRegisters,
+  type PulseDuty,
+  type PulseRegisters,
+  type WaveOutputLevel,
+  type WaveRegisters,
+} from './dmgApu';
+
+// Samples per analysis block; the preview's AnalyserNode uses the same size
+export const APU_ANALYSIS_SIZE = 2048;
+
+const MAX_PEAKS = 24;
+const MAX_HARMONICS = 8;
+// Peaks quieter than this fraction of the loudest are ignored
+const PEAK_FLOOR_RATIO = 0.04;
+const MIN_PEAK_AMPLITUDE = 0.002;
+// A peak counts as a harmonic when within this ratio of the expected pitch
+const HARMONIC_TOLERANCE = 0.03;
+const BASS_RANGE_HZ = [40, 260];
+const MELODY_RANGE_HZ = [130, 2100];
+// Second pulse voice must be at least this loud relative to the lead
+const HARMONY_MIN_RATIO = 0.3;
+// Keep the previous register when the pitch moves less than this (in semitones)
+const PITCH_HOLD_SEMITONES = 0.35;
+const NOISE_RANGE_HZ = 2000;
+// 4-bit volume steps; 15 is full scale
+const DB_PER_VOLUME_STEP = 2.4;
+// Quieter channels are switched off rather than left buzzing
+const MIN_AUDIBLE_VOLUME = 2;
+const NOISE_GAIN = 3;
+// Spectral flatness below this uses the metallic 7-bit noise
+const TONAL_NOISE_FLATNESS = 0.15;
+
+interface SpectralPeak {
+  hz: number;
+  amplitude: number;
+  bin: number;
+}
+
+interface Voice {
+  hz: number;
+  // Harmonic amplitudes, fundamental first
+  harmonics: number[];
+  amplitude: number;
+  peaks: SpectralPeak[];
+}
+
+function createHannWindow(size: number): Float32Array {
+  const window = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (size - 1));
+  }
+  return window;
+}
+
+// In-place iterative radix-2 FFT; size must be a power of two
+function fft(real: Float32Array, imag: Float32Array): void {
+  const n = real.length;
+
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) {
+      j ^= bit;
+    }
+    j ^= bit;
+    if (i < j) {
+      [real[i], real[j]] = [real[j], real[i]];
+      [imag[i], imag[j]] = [imag[j], imag[i]];
+    }
+  }
+
+  for (let size = 2; size <= n; size <<= 1) {
+    const angle = (-2 * Math.PI) / size;
+    const stepReal = Math.cos(angle);
+    const stepImag = Math.sin(angle);
+    for (let start = 0; start < n; start += size) {
+      let wReal = 1;
+      let wImag = 0;
+      for (let k = 0; k < size / 2; k++) {
+        const a = start + k;
+        const b = a + size / 2;
+        const tReal = real[b] * wReal - imag[b] * wImag;
+        const tImag = real[b] * wImag + imag[b] * wReal;
+        real[b] = real[a] - tReal;
+        imag[b] = imag[a] - tImag;
+        real[a] += tReal;
+        imag[a] += tImag;
+        const nextReal = wReal * stepReal - wImag * stepImag;
+        wImag = wReal * stepImag + wImag * stepReal;
+        wReal = nextReal;
+      }
+    }
+  }
+}
+
+function volumeFromAmplitude(amplitude: number): number {
+  if (amplitude <= 0) return 0;
+  const volume = Math.round(15 + (20 * Math.log10(amplitude)) / DB_PER_VOLUME_STEP);
+  return volume < MIN_AUDIBLE_VOLUME ? 0 : Math.min(15, volume);
+}
+
+function semitonesBetween(a: number, b: number): number {
+  return Math.abs(12 * Math.log2(a / b));
+}
+
+/**
+ * Turns blocks of mono audio into APU register frames. Keeps the previous
+ * frame and spectrum so notes hold steady and onsets can be detected.
+ */
+export class DmgAudioAnalyzer {
+  private readonly window = createHannWindow(APU_ANALYSIS_SIZE);
+  private readonly real = new Float32Array(APU_ANALYSIS_SIZE);
+  private readonly imag = new Float32Array(APU_ANALYSIS_SIZE);
+  private readonly magnitudes = new Float32Array(APU_ANALYSIS_SIZE / 2);
+  private readonly previousMagnitudes = new Float32Array(APU_ANALYSIS_SIZE / 2);
+  // Hann window coherent gain, for converting bins to sine amplitudes
+  private readonly amplitudeScale: number;
+  private previous: ApuFrame = createSilentApuFrame();
+
+  constructor(private readonly sampleRate: number) {
+    const windowSum = this.window.reduce((sum, value) => sum + value, 0);
+    this.amplitudeScale = 2 / windowSum;
+  }
+
+  /**
+   * Analyse the most recent APU_ANALYSIS_SIZE samples (shorter blocks are
+   * zero-padded at the start) and return the registers for the next frame.
+   */
+  analyze(block: Float32Array): ApuFrame {
+    this.computeSpectrum(block);
+
+    const peaks = this.findPeaks();
+    const remaining = [...peaks];
+
+    // Melody goes first: a bass note's upper harmonics would otherwise claim
+    // melody notes that happen to sit on them
+    const lead = this.takeVoice(remaining, MELODY_RANGE_HZ);
+    const harmony = lead ? this.takeVoice(remaining, MELODY_RANGE_HZ) : null;
+    const bass = this.takeVoice(remaining, BASS_RANGE_HZ);
+    const loudHarmony = lead && harmony && harmony.amplitude >= lead.amplitude * HARMONY_MIN_RATIO ? harmony : null;
+
+    // Keep each pulse channel on the voice nearest its previous pitch
+    const [first, second] = this.assignPulseVoices(lead, loudHarmony);
+    const frame: ApuFrame = {
+      pulse1: this.toPulse(first, this.previous.pulse1),
+      pulse2: this.toPulse(second, this.previous.pulse2),
+      wave: this.toWave(bass, this.previous.wave),
+      noise: this.toNoise(peaks.filter((peak) => !remaining.includes(peak))),
+    };
+
+    this.previousMagnitudes.set(this.magnitudes);
+    this.previous = frame;
+    return frame;
+  }
+
+  private computeSpectrum(block: Float32Array): void {
+    const offset = APU_ANALYSIS_SIZE - Math.min(block.length, APU_ANALYSIS_SIZE);
+    const source = block.subarray(Math.max(0, block.length - APU_ANALYSIS_SIZE));
+
+    this.real.fill(0);
+    this.imag.fill(0);
+    for (let i = 0; i < source.length; i++) {
+      this.real[offset + i] = source[i] * this.window[offset + i];
+    }
+
+    fft(this.real, this.imag);
+
+    for (let k = 0; k < this.magnitudes.length; k++) {
+      this.magnitudes[k] = Math.hypot(this.real[k], this.imag[k]) * this.amplitudeScale;
+    }
+  }
+
+  private binToHz(bin: number): number {
+    return (bin * this.sampleRate) / APU_ANALYSIS_SIZE;
+  }
+
+  private findPeaks(): SpectralPeak[] {
+    const mags = this.magnitudes;
+    const maxBin = Math.min(mags.length - 1, Math.floor((MELODY_RANGE_HZ[1] * MAX_HARMONICS * APU_ANALYSIS_SIZE) / this.sampleRate));
+    let loudest = 0;
+    for (let k = 1; k < maxBin; k++) {
+      loudest = Math.max(loudest, mags[k]);
+    }
+
+    const floor = Math.max(MIN_PEAK_AMPLITUDE, loudest * PEAK_FLOOR_RATIO);
+    const peaks: SpectralPeak[] = [];
+    for (let k = 2; k < maxBin; k++) {
+      if (mags[k] < floor || mags[k] <= mags[k - 1] || mags[k] < mags[k + 1]) continue;
+
+      // Parabolic interpolation on log magnitudes for a sub-bin pitch
+      const a = Math.log(mags[k - 1] + 1e-12);
+      const b = Math.log(mags[k] + 1e-12);
+      const c = Math.log(mags[k + 1] + 1e-12);
+      const denominator = a - 2 * b + c;
+      const shift = denominator === 0 ? 0 : (0.5 * (a - c)) / denominator;
+      peaks.push({ hz: this.binToHz(k + shift), amplitude: mags[k], bin: k });
+    }
+
+    return peaks.sort((a, b) => b.amplitude - a.amplitude).slice(0, MAX_PEAKS);
+  }
+
+  /**
+   * Pick the pitch in range whose harmonic series explains the most energy
+   * among the remaining peaks, and remove those peaks.
+   */
+  private takeVoice(remaining: SpectralPeak[], [minHz, maxHz]: number[]): Voice | null {
+    let best: Voice | null = null;
+
+    for (const candidate of remaining) {
+      if (candidate.hz < minHz || candidate.hz > maxHz) continue;
+
+      const harmonics: number[] = [];
+      const matched: SpectralPeak[] = [];
+      let energy = 0;
+      for (let h = 1; h <= MAX_HARMONICS; h++) {
+        const target = candidate.hz * h;
+        const peak = remaining.find((p) => Math.abs(p.hz - target) <= target * HARMONIC_TOLERANCE);
+        harmonics.push(peak ? peak.amplitude : 0);
+        if (peak) {
+          matched.push(peak);
+          energy += peak.amplitude ** 2;
+        }
+      }
+
+      const voice = { hz: candidate.hz, harmonics, amplitude: Math.sqrt(energy), peaks: matched };
+      if (!best || voice.amplitude > best.amplitude) {
+        best = voice;
+      }
+    }
+
+    if (best) {
+      for (const peak of best.peaks) {
+        remaining.splice(remaining.indexOf(peak), 1);
+      }
+    }
+    return best;
+  }
+
+  private assignPulseVoices(a: Voice | null, b: Voice | null): [Voice | null, Voice | null] {
+    if (!a || !b) return [a, b];
+    const previous1 = pulseFrequencyToHz(this.previous.pulse1.frequency);
+    const previous2 = pulseFrequencyToHz(this.previous.pulse2.frequency);
+    const straight = semitonesBetween(a.hz, previous1) + semitonesBetween(b.hz, previous2);
+    const swapped = semitonesBetween(b.hz, previous1) + semitonesBetween(a.hz, previous2);
+    return swapped < straight ? [b, a] : [a, b];
+  }
+
+  private toPulse(voice: Voice | null, previous: PulseRegisters): PulseRegisters {
+    if (!voice) {
+      return { ...previous, volume: 0 };
+    }
+
+    const held = previous.volume > 0 && semitonesBetween(voice.hz, pulseFrequencyToHz(previous.frequency)) < PITCH_HOLD_SEMITONES;
+    return {
+      frequency: held ? previous.frequency : hzToPulseFrequency(voice.hz),
+      duty: dutyFromHarmonics(voice.harmonics),
+      volume: volumeFromAmplitude(voice.amplitude),
+    };
+  }
+
+  private toWave(voice: Voice | null, previous: WaveRegisters): WaveRegisters {
+    if (!voice) {
+      return { ...previous, outputLevel: 0 };
+    }
+
+    const held = previous.outputLevel !== 0 && semitonesBetween(voice.hz, waveFrequencyToHz(previous.frequency)) < PITCH_HOLD_SEMITONES;
+    return {
+      frequency: held ? previous.frequency : hzToWaveFrequency(voice.hz),
+      outputLevel: outputLevelFromVolume(volumeFromAmplitude(voice.amplitude)),
+      table: waveTableFromHarmonics(voice.harmonics),
+    };
+  }
+
+  /**
+   * Noise takes the energy above NOISE_RANGE_HZ that no voice explains, plus
+   * any sudden rise there (drum hits).
+   */
+  private toNoise(voicePeaks: SpectralPeak[]): NoiseRegisters {
+    const mags = this.magnitudes;
+    const startBin = Math.ceil((NOISE_RANGE_HZ * APU_ANALYSIS_SIZE) / this.sampleRate);
+    const voiceBins = new Set<number>();
+    for (const peak of voicePeaks) {
+      for (let k = peak.bin - 2; k <= peak.bin + 2; k++) voiceBins.add(k);
+    }
+
+    let energy = 0;
+    let flux = 0;
+    let weightedHz = 0;
+    let logSum = 0;
+    let count = 0;
+    for (let k = startBin; k < mags.length; k++) {
+      if (voiceBins.has(k)) continue;
+      const power = mags[k] ** 2;
+      energy += power;
+      weightedHz += power * this.binToHz(k);
+      flux += Math.max(0, mags[k] - this.previousMagnitudes[k]) ** 2;
+      logSum += Math.log(power + 1e-12);
+      count++;
+    }
+
+    if (count === 0 || energy <= 0) {
+      return { ...this.previous.noise, volume: 0 };
+    }
+
+    // Geometric over arithmetic mean power: 1 for white noise, near 0 for tones
+    const flatness = Math.exp(logSum / count) / (energy / count);
+    const centroid = weightedHz / energy;
+    const { shift, divisor } = noiseClockForHz(centroid * 2);
+
+    return {
+      shift,
+      divisor,
+      shortMode: flatness < TONAL_NOISE_FLATNESS,
+      volume: volumeFromAmplitude(Math.sqrt(energy + flux) * NOISE_GAIN),
+    };
+  }
+}
+
+// Pulse waves at 50% have no even harmonics; narrower duties have more
+function dutyFromHarmonics(harmonics: number[]): PulseDuty {
+  const even = harmonics[1] + harmonics[3];
+  const odd = harmonics[0] + harmonics[2];
+  const ratio = odd > 0 ? even / odd : 0;
+  if (ratio < 0.2) return 2;
+  if (ratio < 0.5) return 1;
+  return 0;
+}
+
+function outputLevelFromVolume(volume: number): WaveOutputLevel {
+  if (volume >= 11) return 1;
+  if (volume >= 6) return 2;
+  if (volume >= MIN_AUDIBLE_VOLUME) return 3;
+  return 0;
+}
+
+// One period from the harmonic magnitudes (phases aligned), scaled to 0-15
+function waveTableFromHarmonics(harmonics: number[]): number[] {
+  const samples = Array.from({ length: 32 }, (_, i) =>
+    harmonics.reduce((sum, amplitude, h) => sum + amplitude * Math.sin((2 * Math.PI * (h + 1) * i) / 32), 0)
+  );
+  const min = Math.min(...samples);
+  const max = Math.max(...samples);
+  const range = max - min || 1;
+  return samples.map((sample) => Math.round(((sample - min) / range) * 15));
+}
+
+function noiseClockForHz(hz: number): { shift: number; divisor: number } {
+  let best = { shift: 0, divisor: 0 };
+  let bestDistance = Infinity;
+  for (let shift = 0; shift <= 13; shift++) {
+    for (let divisor = 0; divisor <= 7; divisor++) {
+      const clock = 262144 / ((divisor === 0 ? 0.5 : divisor) * 2 ** shift);
+      const distance = Math.abs(Math.log2(clock / hz));
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = { shift, divisor };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Re-render audio as DMG APU output. Each Game Boy frame is analysed from a
+ * block centred on it (the preview can only look back), and every channel
+ * gets the same mono APU mix.
+ */
+export function resynthesizeDmgAudio(channelData: Float32Array[], sampleRate: number): Float32Array[] {
+  const length = channelData[0]?.length ?? 0;
+  const mono = new Float32Array(length);
+  for (const channel of channelData) {
+    for (let i = 0; i < length; i++) {
+      mono[i] += channel[i] / channelData.length;
+    }
+  }
+
+  const analyzer = new DmgAudioAnalyzer(sampleRate);
+  const apu = new DmgApu(sampleRate);
+  const output = new Float32Array(length);
+  const samplesPerFrame = sampleRate / GB_FRAME_RATE;
+  const block = new Float32Array(APU_ANALYSIS_SIZE);
+
+  for (let frame = 0; Math.round(frame * samplesPerFrame) < length; frame++) {
+    const start = Math.round(frame * samplesPerFrame);
+    const end = Math.min(length, Math.round((frame + 1) * samplesPerFrame));
+    const blockStart = Math.round(start + samplesPerFrame / 2 - APU_ANALYSIS_SIZE / 2);
+
+    block.fill(0);
+    const from = Math.max(0, blockStart);
+    const to = Math.min(length, blockStart + APU_ANALYSIS_SIZE);
+    if (to > from) {
+      block.set(mono.subarray(from, to), from - blockStart);
+    }
+
+    apu.write(analyzer.analyze(block));
+    apu.render(output, start, end);
+  }
+
+  return channelData.map(() => output.slice());
+}
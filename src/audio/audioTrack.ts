@@ -0,0 +1,110 @@
+/**
+ * External audio track
+ * A music file laid over the video: it replaces the source audio or mixes
+ * with it, placed on the video timeline with an offset, a gain and fades at
+ * the ends of the clip. The preview and the export share the gain envelope.
+ */
+
+// 'replace' drops the source audio; 'mix' plays both
+export type AudioTrackMode = 'replace' | 'mix';
+
+export const AUDIO_TRACK_MODES: AudioTrackMode[] = ['replace', 'mix'];
+
+export interface AudioTrackSettings {
+  // URL of the WAV/MP3/OGG file (blob: or file:)
+  src: string;
+  mode: AudioTrackMode;
+  // Video time at which the track starts; negative skips into the track
+  offsetSec: number;
+  gainDb: number;
+  // Fades at the start and end of the exported clip (the trim range)
+  fadeInSec: number;
+  fadeOutSec: number;
+}
+
+export const DEFAULT_AUDIO_TRACK_SETTINGS: Omit<AudioTrackSettings, 'src'> = {
+  mode: 'replace',
+  offsetSec: 0,
+  gainDb: 0,
+  fadeInSec: 0,
+  fadeOutSec: 0,
+};
+
+export interface AudioTrackMixOptions {
+  sampleRate: number;
+  // Output length; the track is cut or padded with silence to fit
+  frames: number;
+  // Video time of output frame 0 and the clip's end, for the fades
+  clipStartSec: number;
+  clipEndSec: number;
+  // Output frame that the first decoded track frame lands on
+  trackStartFrame: number;
+}
+
+/**
+ * Position in the track that plays at a given video time. Outside
+ * [0, track duration) the track is silent.
+ */
+export function audioTrackTime(videoTimeSec: number, track: Pick<AudioTrackSettings, 'offsetSec'>): number {
+  return videoTimeSec - track.offsetSec;
+}
+
+/**
+ * Linear gain of the track at a given video time: its gain setting times
+ * the fade-in from the clip start and the fade-out to the clip end.
+ */
+export function audioTrackGain(
+  videoTimeSec: number,
+  track: Omit<AudioTrackSettings, 'src'>,
+  clipStartSec: number,
+  clipEndSec: number
+): number {
+  let gain = 10 ** (track.gainDb / 20);
+  if (track.fadeInSec > 0) {
+    gain *= Math.max(0, Math.min(1, (videoTimeSec - clipStartSec) / track.fadeInSec));
+  }
+  if (track.fadeOutSec > 0) {
+    gain *= Math.max(0, Math.min(1, (clipEndSec - videoTimeSec) / track.fadeOutSec));
+  }
+  return gain;
+}
+
+/**
+ * Lay decoded track audio over the clip's source audio (or over silence in
+ * 'replace' mode, or when the source has none). Mono inputs are spread to
+ * every output channel.
+ */
+export function mixAudioTrack(
+  source: Float32Array[] | null,
+  track: Float32Array[],
+  settings: Omit<AudioTrackSettings, 'src'>,
+  options: AudioTrackMixOptions
+): Float32Array[] {
+  const { sampleRate, frames, clipStartSec, clipEndSec, trackStartFrame } = options;
+  const useSource = settings.mode === 'mix' && source !== null && source.length > 0;
+  const channels = Math.max(2, track.length, useSource ? source.length : 0);
+  const output = Array.from({ length: channels }, () => new Float32Array(frames));
+
+  if (useSource) {
+    output.forEach((channel, index) => {
+      const from = source[index] ?? source[0];
+      channel.set(from.subarray(0, Math.min(frames, from.length)));
+    });
+  }
+
+  if (track.length === 0) {
+    return output;
+  }
+
+  const start = Math.max(0, trackStartFrame);
+  const end = Math.min(frames, trackStartFrame + track[0].length);
+  for (let i = start; i < end; i++) {
+    const gain = audioTrackGain(clipStartSec + i / sampleRate, settings, clipStartSec, clipEndSec);
+    const trackIndex = i - trackStartFrame;
+    for (let channel = 0; channel < channels; channel++) {
+      output[channel][i] += (track[channel] ?? track[0])[trackIndex] * gain;
+    }
+  }
+
+  return output;
+}
@@ -0,0 +1,171 @@
+/**
+ * DMG-01 APU emulation
+ * Two pulse channels, the 4-bit wave channel and the LFSR noise channel,
+ * mixed through the channel DACs and the output capacitor like the hardware.
+ * Register state changes once per frame, the way game sound drivers run.
+ * apu-processor.ts runs this for the real-time preview.
+ */
+
+// DMG master clock and frame (VBlank) rate
+export const GB_CLOCK_HZ = 4194304;
+export const GB_FRAME_RATE = GB_CLOCK_HZ / 70224;
+
+// Pulse waveforms per duty setting (12.5%, 25%, 50%, 75%)
+const DUTY_PATTERNS = [
+  [0, 0, 0, 0, 0, 0, 0, 1],
+  [1, 0, 0, 0, 0, 0, 0, 1],
+  [1, 0, 0, 0, 0, 1, 1, 1],
+  [0, 1, 1, 1, 1, 1, 1, 0],
+];
+
+// NR32 output level codes: mute, 100%, 50%, 25% as right shifts
+const WAVE_LEVEL_SHIFTS = [4, 0, 1, 2];
+
+// Output capacitor charge factor per master clock (DMG)
+const CAPACITOR_CHARGE_PER_CLOCK = 0.999958;
+
+const OUTPUT_GAIN = 0.5;
+
+export type PulseDuty = 0 | 1 | 2 | 3;
+export type WaveOutputLevel = 0 | 1 | 2 | 3;
+
+export interface PulseRegisters {
+  // 11-bit period value; tone is 131072 / (2048 - frequency) Hz
+  frequency: number;
+  duty: PulseDuty;
+  // 0-15; 0 turns the channel DAC off
+  volume: number;
+}
+
+export interface WaveRegisters {
+  // 11-bit period value; the 32-sample table plays at 65536 / (2048 - frequency) Hz
+  frequency: number;
+  outputLevel: WaveOutputLevel;
+  // 32 4-bit samples
+  table: number[];
+}
+
+export interface NoiseRegisters {
+  // LFSR clock is 262144 / (divisor * 2^shift) Hz, divisor code 0 counting as 0.5
+  shift: number;
+  divisor: number;
+  // 7-bit LFSR for metallic, pitched noise
+  shortMode: boolean;
+  volume: number;
+}
+
+export interface ApuFrame {
+  pulse1: PulseRegisters;
+  pulse2: PulseRegisters;
+  wave: WaveRegisters;
+  noise: NoiseRegisters;
+}
+
+export function createSilentApuFrame(): ApuFrame {
+  return {
+    pulse1: { frequency: 0, duty: 2, volume: 0 },
+    pulse2: { frequency: 0, duty: 2, volume: 0 },
+    wave: { frequency: 0, outputLevel: 0, table: new Array(32).fill(8) },
+    noise: { shift: 0, divisor: 0, shortMode: false, volume: 0 },
+  };
+}
+
+export function pulseFrequencyToHz(frequency: number): number {
+  return 131072 / (2048 - frequency);
+}
+
+export function waveFrequencyToHz(frequency: number): number {
+  return 65536 / (2048 - frequency);
+}
+
+export function noiseClockHz(shift: number, divisor: number): number {
+  return 262144 / ((divisor === 0 ? 0.5 : divisor) * 2 ** shift);
+}
+
+// Nearest register value for a pitch; out-of-range pitches clamp to the ends
+export function hzToPulseFrequency(hz: number): number {
+  return Math.max(0, Math.min(2047, Math.round(2048 - 131072 / hz)));
+}
+
+export function hzToWaveFrequency(hz: number): number {
+  return Math.max(0, Math.min(2047, Math.round(2048 - 65536 / hz)));
+}
+
+export class DmgApu {
+  private frame: ApuFrame = createSilentApuFrame();
+  private pulsePhase = [0, 0];
+  private wavePosition = 0;
+  private lfsr = 0x7fff;
+  private noiseClock = 0;
+  private capacitor = 0;
+  private readonly charge: number;
+
+  constructor(private readonly sampleRate: number) {
+    this.charge = CAPACITOR_CHARGE_PER_CLOCK ** (GB_CLOCK_HZ / sampleRate);
+  }
+
+  write(frame: ApuFrame): void {
+    this.frame = frame;
+  }
+
+  /**
+   * Render mono samples into output[start, end) with the current registers.
+   */
+  render(output: Float32Array, start = 0, end = output.length): void {
+    const { pulse1, pulse2, wave, noise } = this.frame;
+    const pulseSteps = [
+      (pulseFrequencyToHz(pulse1.frequency) * 8) / this.sampleRate,
+      (pulseFrequencyToHz(pulse2.frequency) * 8) / this.sampleRate,
+    ];
+    const waveStep = (waveFrequencyToHz(wave.frequency) * 32) / this.sampleRate;
+    const noiseStep = noiseClockHz(noise.shift, noise.divisor) / this.sampleRate;
+    const waveShift = WAVE_LEVEL_SHIFTS[wave.outputLevel];
+
+    for (let i = start; i < end; i++) {
+      let mix = 0;
+
+      // A channel's DAC is off at volume 0 and adds nothing, not even its DC offset
+      for (let channel = 0; channel < 2; channel++) {
+        const pulse = channel === 0 ? pulse1 : pulse2;
+        this.pulsePhase[channel] = (this.pulsePhase[channel] + pulseSteps[channel]) % 8;
+        if (pulse.volume > 0) {
+          const high = DUTY_PATTERNS[pulse.duty][Math.floor(this.pulsePhase[channel])];
+          mix += dac(high ? pulse.volume : 0);
+        }
+      }
+
+      this.wavePosition = (this.wavePosition + waveStep) % 32;
+      if (wave.outputLevel !== 0) {
+        mix += dac(wave.table[Math.floor(this.wavePosition)] >> waveShift);
+      }
+
+      this.noiseClock += noiseStep;
+      while (this.noiseClock >= 1) {
+        this.noiseClock -= 1;
+        this.clockLfsr(noise.shortMode);
+      }
+      if (noise.volume > 0) {
+        mix += dac(this.lfsr & 1 ? 0 : noise.volume);
+      }
+
+      // Output capacitor: high-pass that removes the DACs' DC offset
+      const sample = mix / 4;
+      const out = sample - this.capacitor;
+      this.capacitor = sample - out * this.charge;
+      output[i] = out * OUTPUT_GAIN;
+    }
+  }
+
+  private clockLfsr(shortMode: boolean): void {
+    const bit = (this.lfsr ^ (this.lfsr >> 1)) & 1;
+    this.lfsr = (this.lfsr >> 1) | (bit << 14);
+    if (shortMode) {
+      this.lfsr = (this.lfsr & ~0x40) | (bit << 6);
+    }
+  }
+}
+
+// Channel DAC: digital 0-15 to analog -1..1
+function dac(value: number): number {
+  return value / 7.5 - 1;
+}
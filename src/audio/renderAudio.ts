@@ -0,0 +1,43 @@
+/**
+ * Offline audio render
+ * The export's bitcrush chain over whole decoded channels: the speaker DSP,
+ * or APU resynthesis in 'apu' mode. Video exports run it on the soundtrack
+ * and the timeline runs it in a worker for the processed waveform.
+ */
+
+import type { AudioMode } from './GameBoyAudioProcessor';
+import { resynthesizeDmgAudio } from './apuResynthesis';
+import { DEFAULT_SPEAKER_SETTINGS, renderSpeakerDsp, type SpeakerDspSettings } from './speakerDsp';
+
+export interface AudioExportSettings extends SpeakerDspSettings {
+  // Defaults to 'speaker'; 'apu' ignores the filter and crush settings
+  mode?: AudioMode;
+}
+
+/**
+ * The bitcrush chain on decoded channels. Without settings it uses the
+ * preview's defaults.
+ */
+export function renderAudioBitcrush(
+  channelData: Float32Array[],
+  sampleRate: number,
+  audioSettings?: AudioExportSettings
+): Float32Array[] {
+  if (audioSettings?.mode === 'apu') {
+    return resynthesizeDmgAudio(channelData, sampleRate);
+  }
+
+  // Same DSP as the preview worklet, rendered over the whole soundtrack
+  const settings: SpeakerDspSettings = {
+    highpass: audioSettings?.highpass ?? DEFAULT_SPEAKER_SETTINGS.highpass,
+    lowpass: audioSettings?.lowpass ?? DEFAULT_SPEAKER_SETTINGS.lowpass,
+    bitDepth: audioSettings?.bitDepth ?? DEFAULT_SPEAKER_SETTINGS.bitDepth,
+    distortion: audioSettings?.distortion ?? DEFAULT_SPEAKER_SETTINGS.distortion,
+    crushRate: audioSettings?.crushRate ?? DEFAULT_SPEAKER_SETTINGS.crushRate,
+    resonance: audioSettings?.resonance ?? DEFAULT_SPEAKER_SETTINGS.resonance,
+    mono: audioSettings?.mono ?? DEFAULT_SPEAKER_SETTINGS.mono,
+    noise: audioSettings?.noise ?? DEFAULT_SPEAKER_SETTINGS.noise,
+    limiter: audioSettings?.limiter ?? DEFAULT_SPEAKER_SETTINGS.limiter,
+  };
+  return renderSpeakerDsp(channelData, sampleRate, settings);
+}
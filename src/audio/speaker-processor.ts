@@ -0,0 +1,26 @@
+/**
+ * DMG-01 Speaker AudioWorklet Processor
+ * Runs SpeakerDsp for the real-time preview; exports render the same DSP
+ * offline. Settings arrive in processorOptions and then as port messages.
+ */
+import { SpeakerDsp, type SpeakerDspSettings } from './speakerDsp';
+
+class SpeakerProcessor extends AudioWorkletProcessor {
+  private readonly dsp: SpeakerDsp;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    this.dsp = new SpeakerDsp(sampleRate, options.processorOptions as Partial<SpeakerDspSettings> | undefined);
+
+    this.port.onmessage = (event: MessageEvent<Partial<SpeakerDspSettings>>) => {
+      this.dsp.setSettings(event.data);
+    };
+  }
+
+  process(inputs: Float32Array[][], outputs: Float32Array[][]): boolean {
+    this.dsp.process(inputs[0] ?? [], outputs[0]);
+    return true;
+  }
+}
+
+registerProcessor('speaker-processor', SpeakerProcessor);
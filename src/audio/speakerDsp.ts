@@ -0,0 +1,267 @@
+/**
+ * DMG-01 speaker DSP
+ * Mono fold-down, high-pass, cone resonance and low-pass filters for the
+ * small speaker, a sample-and-hold bitcrusher, soft clipping, a hiss floor
+ * and an output limiter. The preview worklet and the export render both run
+ * this, so they produce the same samples.
+ */
+
+export interface SpeakerDspSettings {
+  highpass: number;    // Hz (100-1000) - bass cut frequency
+  lowpass: number;     // Hz (2000-6000) - treble cut frequency
+  bitDepth: number;    // bits (4-8) - quantization depth
+  distortion: number;  // percent (0-100) - soft clipping amount
+  crushRate: number;   // Hz (2000-22000) - held-sample rate of the bitcrusher
+  resonance: number;   // dB (0-12) - peak at the speaker cone's resonance
+  mono: number;        // percent (0-100) - fold-down of the channels to mono
+  noise: number;       // percent (0-100) - hiss floor level
+  limiter: number;     // dB (-24-0) - output ceiling
+}
+
+export const DEFAULT_SPEAKER_SETTINGS: SpeakerDspSettings = {
+  highpass: 500,
+  lowpass: 3500,
+  bitDepth: 6,
+  distortion: 30,
+  crushRate: 8000,
+  resonance: 0,
+  mono: 0,
+  noise: 0,
+  limiter: 0,
+};
+
+// Butterworth response for the high-pass and low-pass filters
+const FILTER_Q = Math.SQRT1_2;
+
+// Cone resonance of the DMG speaker, as a fairly narrow peak
+const RESONANCE_HZ = 1200;
+const RESONANCE_Q = 2;
+
+// Hiss peak amplitude at 100% noise (about -26 dBFS)
+const MAX_NOISE_AMPLITUDE = 0.05;
+
+// Limiter gain recovery time constant; attack is instant so peaks never pass
+const LIMITER_RELEASE_SECONDS = 0.05;
+
+interface BiquadCoefficients {
+  b0: number;
+  b1: number;
+  b2: number;
+  a1: number;
+  a2: number;
+}
+
+interface BiquadState {
+  x1: number;
+  x2: number;
+  y1: number;
+  y2: number;
+}
+
+function createBiquadCoefficients(
+  type: 'highpass' | 'lowpass',
+  frequency: number,
+  sampleRate: number
+): BiquadCoefficients {
+  const nyquist = sampleRate * 0.5;
+  const safeFrequency = Math.max(10, Math.min(frequency, nyquist - 10));
+  const w0 = (2 * Math.PI * safeFrequency) / sampleRate;
+  const cosW0 = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * FILTER_Q);
+  const a0 = 1 + alpha;
+
+  const b0 = type === 'highpass' ? (1 + cosW0) / 2 : (1 - cosW0) / 2;
+  const b1 = type === 'highpass' ? -(1 + cosW0) : 1 - cosW0;
+
+  return {
+    b0: b0 / a0,
+    b1: b1 / a0,
+    b2: b0 / a0,
+    a1: (-2 * cosW0) / a0,
+    a2: (1 - alpha) / a0,
+  };
+}
+
+// Peaking EQ (RBJ cookbook) boosting gainDb around frequency
+function createPeakingCoefficients(
+  frequency: number,
+  gainDb: number,
+  q: number,
+  sampleRate: number
+): BiquadCoefficients {
+  const w0 = (2 * Math.PI * Math.min(frequency, sampleRate * 0.5 - 10)) / sampleRate;
+  const cosW0 = Math.cos(w0);
+  const alpha = Math.sin(w0) / (2 * q);
+  const a = 10 ** (gainDb / 40);
+  const a0 = 1 + alpha / a;
+
+  return {
+    b0: (1 + alpha * a) / a0,
+    b1: (-2 * cosW0) / a0,
+    b2: (1 - alpha * a) / a0,
+    a1: (-2 * cosW0) / a0,
+    a2: (1 - alpha / a) / a0,
+  };
+}
+
+function createBiquadState(): BiquadState {
+  return { x1: 0, x2: 0, y1: 0, y2: 0 };
+}
+
+function runBiquad(coeffs: BiquadCoefficients, state: BiquadState, x0: number): number {
+  const y0 = coeffs.b0 * x0 + coeffs.b1 * state.x1 + coeffs.b2 * state.x2 - coeffs.a1 * state.y1 - coeffs.a2 * state.y2;
+  state.x2 = state.x1;
+  state.x1 = x0;
+  state.y2 = state.y1;
+  state.y1 = y0;
+  return y0;
+}
+
+function clampSample(sample: number): number {
+  return Math.max(-1, Math.min(1, sample));
+}
+
+// Soft clipping curve; k grows with the distortion amount
+function softClip(sample: number, k: number): number {
+  return ((3 + k) * sample * 20 * (Math.PI / 180)) / (Math.PI + k * Math.abs(sample));
+}
+
+export class SpeakerDsp {
+  private settings: SpeakerDspSettings = { ...DEFAULT_SPEAKER_SETTINGS };
+  private highpass!: BiquadCoefficients;
+  private resonance!: BiquadCoefficients;
+  private lowpass!: BiquadCoefficients;
+  private quantStep = 0;
+  private clipAmount = 0;
+  private monoAmount = 0;
+  private noiseAmplitude = 0;
+  private ceiling = 1;
+  // Per channel: [highpass, resonance, lowpass]
+  private filterStates: BiquadState[][] = [];
+  private heldSamples: number[] = [];
+  // Channels share the hold clock so they stay in step
+  private holdPhase = 1;
+  private holdStep = 1;
+  // Fixed seed: every render of the same input hisses identically
+  private noiseSeed = 0x2545f491;
+  // Channels share the limiter gain so the stereo image doesn't shift
+  private limiterGain = 1;
+  private readonly limiterRelease: number;
+
+  constructor(private readonly sampleRate: number, settings: Partial<SpeakerDspSettings> = {}) {
+    this.limiterRelease = 1 - Math.exp(-1 / (LIMITER_RELEASE_SECONDS * sampleRate));
+    this.setSettings(settings);
+  }
+
+  /**
+   * Settings apply from the next processed sample; filter state carries over.
+   */
+  setSettings(settings: Partial<SpeakerDspSettings>): void {
+    this.settings = { ...this.settings, ...settings };
+    const { highpass, lowpass, bitDepth, distortion, crushRate, resonance, mono, noise, limiter } = this.settings;
+
+    this.highpass = createBiquadCoefficients('highpass', highpass, this.sampleRate);
+    this.resonance = createPeakingCoefficients(RESONANCE_HZ, Math.max(0, Math.min(24, resonance)), RESONANCE_Q, this.sampleRate);
+    this.lowpass = createBiquadCoefficients('lowpass', lowpass, this.sampleRate);
+    this.quantStep = 2 / 2 ** Math.max(2, Math.min(16, Math.round(bitDepth)));
+    this.clipAmount = (Math.max(0, Math.min(100, distortion)) / 100) * 50;
+    // Held-sample rate is in Hz, so the crush sounds the same at any output rate
+    this.holdStep = Math.min(1, Math.max(1, crushRate) / this.sampleRate);
+    this.monoAmount = Math.max(0, Math.min(100, mono)) / 100;
+    this.noiseAmplitude = (Math.max(0, Math.min(100, noise)) / 100) * MAX_NOISE_AMPLITUDE;
+    this.ceiling = 10 ** (Math.max(-60, Math.min(0, limiter)) / 20);
+  }
+
+  getSettings(): SpeakerDspSettings {
+    return { ...this.settings };
+  }
+
+  /**
+   * Process one block. Output channels without a matching input channel
+   * take the first input channel (mono sources); a missing input is silence.
+   */
+  process(input: readonly Float32Array[], output: Float32Array[]): void {
+    if (output.length === 0) return;
+    this.ensureChannels(output.length);
+
+    const frames = output[0].length;
+    for (let i = 0; i < frames; i++) {
+      this.holdPhase += this.holdStep;
+      const hold = this.holdPhase >= 1;
+      if (hold) {
+        this.holdPhase -= 1;
+      }
+
+      let monoSum = 0;
+      for (let channel = 0; channel < output.length; channel++) {
+        const source = input[channel] ?? input[0];
+        monoSum += source ? source[i] : 0;
+      }
+      const monoSample = monoSum / output.length;
+      // One speaker, so every channel hisses the same
+      const hiss = this.noiseAmplitude > 0 ? this.nextNoise() * this.noiseAmplitude : 0;
+      let peak = 0;
+
+      for (let channel = 0; channel < output.length; channel++) {
+        const source = input[channel] ?? input[0];
+        const sample = source ? source[i] : 0;
+        const folded = sample + (monoSample - sample) * this.monoAmount;
+
+        const [highpassState, resonanceState, lowpassState] = this.filterStates[channel];
+        let filtered = runBiquad(this.highpass, highpassState, folded);
+        filtered = runBiquad(this.resonance, resonanceState, filtered);
+        filtered = runBiquad(this.lowpass, lowpassState, filtered);
+
+        if (hold) {
+          this.heldSamples[channel] = clampSample(Math.round(filtered / this.quantStep) * this.quantStep);
+        }
+
+        const held = this.heldSamples[channel];
+        const clipped = this.clipAmount > 0 ? clampSample(softClip(held, this.clipAmount)) : held;
+        const out = clipped + hiss;
+        output[channel][i] = out;
+        peak = Math.max(peak, Math.abs(out));
+      }
+
+      // Peak limiter: drop to the ceiling at once, recover smoothly
+      const targetGain = peak > this.ceiling ? this.ceiling / peak : 1;
+      this.limiterGain = targetGain < this.limiterGain
+        ? targetGain
+        : this.limiterGain + (targetGain - this.limiterGain) * this.limiterRelease;
+
+      for (let channel = 0; channel < output.length; channel++) {
+        output[channel][i] = clampSample(output[channel][i] * this.limiterGain);
+      }
+    }
+  }
+
+  // Uniform white noise in [-1, 1) from a 32-bit xorshift generator
+  private nextNoise(): number {
+    let x = this.noiseSeed;
+    x ^= x << 13;
+    x ^= x >>> 17;
+    x ^= x << 5;
+    this.noiseSeed = x >>> 0;
+    return this.noiseSeed / 0x80000000 - 1;
+  }
+
+  private ensureChannels(count: number): void {
+    while (this.filterStates.length < count) {
+      this.filterStates.push([createBiquadState(), createBiquadState(), createBiquadState()]);
+      this.heldSamples.push(0);
+    }
+  }
+}
+
+/**
+ * Render whole channels through a fresh SpeakerDsp, as the export does.
+ */
+export function renderSpeakerDsp(
+  channelData: Float32Array[],
+  sampleRate: number,
+  settings: Partial<SpeakerDspSettings> = {}
+): Float32Array[] {
+  const output = channelData.map((channel) => new Float32Array(channel.length));
+  new SpeakerDsp(sampleRate, settings).process(channelData, output);
+  return output;
+}
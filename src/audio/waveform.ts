@@ -0,0 +1,94 @@
+/**
+ * Waveform and loudness measurement
+ * Peak and RMS levels for the timeline's waveform lane, computed from the
+ * source's decoded audio, and for the playback meter.
+ */
+
+// Rate the timeline decodes at; above twice the speaker's highest low-pass
+export const WAVEFORM_SAMPLE_RATE = 16000;
+
+// Floor of the meter scale
+export const MIN_LEVEL_DB = -60;
+
+export interface AudioLevels {
+  peak: number; // linear, 0-1
+  rms: number;  // linear, 0-1
+}
+
+export interface DecodedAudio {
+  channelData: Float32Array[];
+  sampleRate: number;
+}
+
+// One level pair per bin, across the whole source
+export interface Waveform {
+  peaks: Float32Array;
+  rms: Float32Array;
+}
+
+/**
+ * Peak and RMS of samples[start, end), over every channel.
+ */
+export function measureLevels(
+  channelData: readonly Float32Array[],
+  start = 0,
+  end = channelData[0]?.length ?? 0
+): AudioLevels {
+  let peak = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (const channel of channelData) {
+    const last = Math.min(end, channel.length);
+    for (let i = Math.max(0, start); i < last; i++) {
+      const sample = channel[i];
+      peak = Math.max(peak, Math.abs(sample));
+      sumSquares += sample * sample;
+      count++;
+    }
+  }
+  return { peak: Math.min(1, peak), rms: count > 0 ? Math.min(1, Math.sqrt(sumSquares / count)) : 0 };
+}
+
+/**
+ * Split the audio into equal time bins and measure each one.
+ */
+export function computeWaveform(channelData: readonly Float32Array[], bins: number): Waveform {
+  const count = Math.max(0, Math.floor(bins));
+  const peaks = new Float32Array(count);
+  const rms = new Float32Array(count);
+  const frames = channelData[0]?.length ?? 0;
+
+  for (let bin = 0; bin < count; bin++) {
+    const start = Math.floor((bin * frames) / count);
+    const end = Math.max(start + 1, Math.floor(((bin + 1) * frames) / count));
+    const levels = measureLevels(channelData, start, end);
+    peaks[bin] = levels.peak;
+    rms[bin] = levels.rms;
+  }
+
+  return { peaks, rms };
+}
+
+// dBFS of a linear level, floored at the meter's range
+export function levelToDb(level: number): number {
+  return level > 0 ? Math.max(MIN_LEVEL_DB, 20 * Math.log10(level)) : MIN_LEVEL_DB;
+}
+
+/**
+ * Decode a media file's audio at WAVEFORM_SAMPLE_RATE. Returns null when it
+ * has no audio or the browser can't decode it.
+ */
+export async function decodeWaveformAudio(src: string): Promise<DecodedAudio | null> {
+  try {
+    const response = await fetch(src);
+    const data = await response.arrayBuffer();
+    // Decoding resamples to the context's rate; the context never renders
+    const context = new OfflineAudioContext(1, 1, WAVEFORM_SAMPLE_RATE);
+    const buffer = await context.decodeAudioData(data);
+    const channelData = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+    return { channelData, sampleRate: buffer.sampleRate };
+  } catch (error) {
+    console.warn('No waveform for this video:', error);
+    return null;
+  }
+}
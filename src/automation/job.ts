@@ -1,8 +1,63 @@
 import { SLIDERS } from '../constants/ui';
-import type { CropRegionNormalized, DitherMode } from '../state/store';
-import { PALETTE_NAMES, type PaletteName } from '../palettes';
+import type { ColorMetric, CropRegionNormalized, DitherMode, ExportFormat } from '../state/store';
+import {
+  CUSTOM_PALETTE_ID_PREFIX,
+  DEFAULT_PALETTE,
+  isKnownPalette,
+  isPaletteSize,
+  registerTransientPalette,
+  setCustomPalettes,
+  type PaletteName,
+  type PaletteSize,
+} from '../palettes';
+import { autoReducePalette, getImportPaletteSize, parsePaletteFile } from '../palettes/import';
+import { loadStoredCustomPalettes } from '../palettes/storage';
 import type { ProcessingSettings } from '../processing/VideoProcessor';
-import { clampAndNormalizeCrop, getDefaultCenteredCrop } from '../utils';
+import { isErrorDiffusionMode, type ErrorDiffusionBackend } from '../processing/dither/errorDiffusion';
+import {
+  DEFAULT_SPRITE_SHEET_OPTIONS,
+  SPRITE_SHEET_LAYOUTS,
+  type SpriteSheetLayout,
+  type SpriteSheetOptions,
+} from '../processing/encoders/SpriteSheetEncoder';
+import { DEFAULT_VIDEO_CODEC, isVideoCodec, type VideoCodec } from '../processing/encoders/videoCodecs';
+import { AUDIO_MODES, type AudioMode } from '../audio/GameBoyAudioProcessor';
+import {
+  AUDIO_TRACK_MODES,
+  DEFAULT_AUDIO_TRACK_SETTINGS,
+  type AudioTrackMode,
+  type AudioTrackSettings,
+} from '../audio/audioTrack';
+import {
+  BUILTIN_THRESHOLD_MATRICES,
+  loadThresholdMatrixImageUrl,
+  parseThresholdMatrixJson,
+  type ThresholdMatrix,
+  type ThresholdMatrixName,
+} from '../processing/dither/thresholdMatrix';
+import {
+  BUILTIN_FRAME_BORDERS,
+  loadFrameBorderImageUrl,
+  type BorderWindow,
+  type FrameBorder,
+  type FrameBorderName,
+} from '../processing/frameBorder';
+import {
+  clampAndNormalizeCrop,
+  clampCustomProcessingSize,
+  clampExportScale,
+  DEFAULT_PROCESSING_RESOLUTION,
+  getDefaultCenteredCrop,
+  getDefaultExportResolution,
+  PROCESSING_PRESET_IDS,
+  RESIZE_POLICIES,
+  type ExportFitTarget,
+  type ExportResolution,
+  type ProcessingPreset,
+  type ProcessingResolutionSettings,
+  type ResizePolicy,
+} from '../utils';
+import { EXPORT_FIT_TARGETS } from '../constants';
 import jobSchema from './schema/job.v1.json';
 
 export type AutomationCommand = 'run' | 'inspect';
@@ -15,9 +70,25 @@ export interface AutomationStartPayload {
   timeoutMs: number;
 }
 
+// GIF, the PNG sequence and GB tiles stay UI-only
+export type AutomationExportFormat = Extract<ExportFormat, 'mp4' | 'webp' | 'apng' | 'spritesheet'>;
+
+const AUTOMATION_EXPORT_FORMATS: AutomationExportFormat[] = ['mp4', 'webp', 'apng', 'spritesheet'];
+
+// settings.audioTrack, with the file as a resolved path rather than a URL
+export interface AutomationAudioTrack extends Omit<AudioTrackSettings, 'src'> {
+  path: string;
+}
+
 export interface ParsedAutomationJob {
   schemaVersion: 1;
-  format: 'mp4';
+  format: AutomationExportFormat;
+  // Integer scale or fit-to-target; defaults to the format's own scale
+  resolution: ExportResolution;
+  // Only used by the spritesheet format
+  spriteSheet: SpriteSheetOptions;
+  // Only used by the mp4 format; VP9 and AV1 are written as WebM
+  codec: VideoCodec;
   inputPath: string;
   outputPath: string | null;
   settings: {
@@ -25,16 +96,39 @@ export interface ParsedAutomationJob {
     cameraResponse: number;
     crop: CropRegionNormalized | null;
     ditherMode: DitherMode;
+    processingResolution: ProcessingResolutionSettings;
     palette: PaletteName;
+    paletteFile: string | null;
     invertPalette: boolean;
+    colorMetric: ColorMetric;
+    serpentine: boolean;
+    errorDiffusionBackend: ErrorDiffusionBackend;
+    // After the export, time both backends on the same frames
+    benchmarkErrorDiffusion: boolean;
+    thresholdMatrix: ThresholdMatrixName;
+    thresholdMatrixFile: string | null;
+    customThresholdMatrix: ThresholdMatrix | null;
+    temporalCoherence: boolean;
+    temporalThreshold: number;
+    frameBorder: FrameBorderName;
+    frameBorderFile: string | null;
+    customFrameBorder: FrameBorder | null;
     targetFps: number;
     enableAudioBitcrush: boolean;
     audio: {
+      mode: AudioMode;
       highpass: number;
       lowpass: number;
       bitDepth: number;
       distortion: number;
+      crushRate: number;
+      resonance: number;
+      mono: number;
+      noise: number;
+      limiter: number;
     };
+    // Only used by the mp4 format
+    audioTrack: AutomationAudioTrack | null;
     lcd: {
       enabled: boolean;
       gridIntensity: number;
@@ -60,20 +154,34 @@ export interface SourceVideoMetadata {
 export interface ResolvedAutomationJob {
   command: AutomationCommand;
   schemaVersion: 1;
-  format: 'mp4';
+  format: AutomationExportFormat;
+  // Integer scale or fit-to-target; defaults to the format's own scale
+  resolution: ExportResolution;
+  // Only used by the spritesheet format
+  spriteSheet: SpriteSheetOptions;
+  // Only used by the mp4 format; VP9 and AV1 are written as WebM
+  codec: VideoCodec;
   inputPath: string;
   outputPath: string | null;
   source: SourceVideoMetadata;
   settings: {
     processing: ProcessingSettings;
+    benchmarkErrorDiffusion: boolean;
     targetFps: number;
     enableAudioBitcrush: boolean;
     audio: {
+      mode: AudioMode;
       highpass: number;
       lowpass: number;
       bitDepth: number;
       distortion: number;
+      crushRate: number;
+      resonance: number;
+      mono: number;
+      noise: number;
+      limiter: number;
     };
+    audioTrack: AutomationAudioTrack | null;
     trim: {
       startSec: number;
       endSec: number;
@@ -85,6 +193,9 @@ export interface ResolvedAutomationJob {
 
 type JsonRecord = Record<string, unknown>;
 
+// Id under which a job's settings.paletteFile is registered for the session
+const JOB_PALETTE_FILE_ID = `${CUSTOM_PALETTE_ID_PREFIX}job-palette-file`;
+
 const SCHEMA_VERSION = Number(jobSchema.properties.schemaVersion.const || 1) as 1;
 
 export class JobValidationError extends Error {
@@ -100,14 +211,32 @@ const DEFAULTS = {
   contrast: 1.0,
   cameraResponse: 0.8,
   ditherMode: 'bayer4x4' as DitherMode,
-  palette: '1989Green' as PaletteName,
+  palette: DEFAULT_PALETTE as PaletteName,
   invertPalette: false,
+  colorMetric: 'luminance' as ColorMetric,
+  serpentine: false,
+  errorDiffusionBackend: 'gpu' as ErrorDiffusionBackend,
+  benchmarkErrorDiffusion: false,
+  thresholdMatrix: 'bayer8x8' as ThresholdMatrixName,
+  temporalCoherence: false,
+  temporalThreshold: 0.04,
+  frameBorder: 'none' as FrameBorderName,
   targetFps: 30,
   enableAudioBitcrush: false,
+  audioMode: 'speaker' as AudioMode,
   audioHighpass: 500,
   audioLowpass: 3500,
   audioBitDepth: 6,
   audioDistortion: 30,
+  audioCrushRate: 8000,
+  audioResonance: 0,
+  audioMono: 0,
+  audioNoise: 0,
+  audioLimiter: 0,
+  audioTrackMode: DEFAULT_AUDIO_TRACK_SETTINGS.mode,
+  audioTrackOffset: DEFAULT_AUDIO_TRACK_SETTINGS.offsetSec,
+  audioTrackGain: DEFAULT_AUDIO_TRACK_SETTINGS.gainDb,
+  audioTrackFade: 0,
   lcdEnabled: true,
   lcdGridIntensity: 0.7,
   lcdShadowOpacity: 0.35,
@@ -141,16 +270,82 @@ function ensureString(value: unknown, label: string): string {
 }
 
 function validateDitherMode(value: unknown): DitherMode {
-  const allowed: DitherMode[] = ['none', 'bayer2x2', 'bayer4x4', 'floydSteinberg', 'gameBoyCamera'];
+  const allowed: DitherMode[] = [
+    'none', 'bayer2x2', 'bayer4x4', 'floydSteinberg', 'atkinson', 'jarvisJudiceNinke',
+    'stucki', 'burkes', 'sierra', 'thresholdMatrix', 'gameBoyCamera', 'gameBoyColor',
+  ];
   if (typeof value === 'string' && allowed.includes(value as DitherMode)) {
     return value as DitherMode;
   }
   return DEFAULTS.ditherMode;
 }
 
+function validateColorMetric(value: unknown): ColorMetric {
+  const allowed: ColorMetric[] = ['luminance', 'rgb', 'weightedRgb', 'cielab', 'oklab'];
+  if (typeof value === 'string' && allowed.includes(value as ColorMetric)) {
+    return value as ColorMetric;
+  }
+  return DEFAULTS.colorMetric;
+}
+
+function validateAudioMode(value: unknown): AudioMode {
+  if (typeof value === 'string' && AUDIO_MODES.includes(value as AudioMode)) {
+    return value as AudioMode;
+  }
+  return DEFAULTS.audioMode;
+}
+
+function validateAudioTrackMode(value: unknown): AudioTrackMode {
+  if (typeof value === 'string' && AUDIO_TRACK_MODES.includes(value as AudioTrackMode)) {
+    return value as AudioTrackMode;
+  }
+  return DEFAULTS.audioTrackMode;
+}
+
+function validateErrorDiffusionBackend(value: unknown): ErrorDiffusionBackend {
+  if (value === 'gpu' || value === 'cpu') {
+    return value;
+  }
+  return DEFAULTS.errorDiffusionBackend;
+}
+
+function validateThresholdMatrix(value: unknown): ThresholdMatrixName {
+  const allowed: ThresholdMatrixName[] = [...BUILTIN_THRESHOLD_MATRICES, 'custom'];
+  if (typeof value === 'string' && allowed.includes(value as ThresholdMatrixName)) {
+    return value as ThresholdMatrixName;
+  }
+  return DEFAULTS.thresholdMatrix;
+}
+
+function validateFrameBorder(value: unknown): FrameBorderName {
+  const allowed: FrameBorderName[] = ['none', ...BUILTIN_FRAME_BORDERS, 'custom'];
+  if (typeof value === 'string' && allowed.includes(value as FrameBorderName)) {
+    return value as FrameBorderName;
+  }
+  return DEFAULTS.frameBorder;
+}
+
+// Omitted means the PNG's transparent area is the screen
+function validateFrameBorderWindow(value: unknown): BorderWindow | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const record = optionalRecord(value);
+  const x = asNumber(record.x);
+  const y = asNumber(record.y);
+  const width = asNumber(record.width);
+  const height = asNumber(record.height);
+  if (x === null || y === null || width === null || height === null) {
+    throw new JobValidationError('settings.frameBorderWindow must have numeric x, y, width and height');
+  }
+
+  return { x: Math.round(x), y: Math.round(y), width: Math.round(width), height: Math.round(height) };
+}
+
 function validatePalette(value: unknown): PaletteName {
-  if (typeof value === 'string' && PALETTE_NAMES.includes(value as PaletteName)) {
-    return value as PaletteName;
+  if (typeof value === 'string' && isKnownPalette(value)) {
+    return value;
   }
   return DEFAULTS.palette;
 }
@@ -177,6 +372,56 @@ function validateCrop(value: unknown): CropRegionNormalized | null {
   };
 }
 
+function validateProcessingResolution(value: unknown): ProcessingResolutionSettings {
+  const record = optionalRecord(value);
+  const preset = typeof record.preset === 'string' && PROCESSING_PRESET_IDS.includes(record.preset as ProcessingPreset)
+    ? record.preset as ProcessingPreset
+    : DEFAULT_PROCESSING_RESOLUTION.preset;
+  const policy = typeof record.policy === 'string' && RESIZE_POLICIES.includes(record.policy as ResizePolicy)
+    ? record.policy as ResizePolicy
+    : DEFAULT_PROCESSING_RESOLUTION.policy;
+
+  return {
+    preset,
+    customWidth: clampCustomProcessingSize(asNumber(record.customWidth) ?? DEFAULT_PROCESSING_RESOLUTION.customWidth),
+    customHeight: clampCustomProcessingSize(asNumber(record.customHeight) ?? DEFAULT_PROCESSING_RESOLUTION.customHeight),
+    policy,
+  };
+}
+
+function validateSpriteSheet(value: unknown): SpriteSheetOptions {
+  const record = optionalRecord(value);
+  const layout = typeof record.layout === 'string' && SPRITE_SHEET_LAYOUTS.includes(record.layout as SpriteSheetLayout)
+    ? record.layout as SpriteSheetLayout
+    : DEFAULT_SPRITE_SHEET_OPTIONS.layout;
+
+  return { layout };
+}
+
+function validateResolution(value: unknown, format: AutomationExportFormat, spriteSheet: unknown): ExportResolution {
+  // spriteSheet.scale predates modeConfig.resolution and still works as an alias for it
+  const legacyScale = asNumber(optionalRecord(spriteSheet).scale);
+  if (value === undefined && format === 'spritesheet' && legacyScale !== null) {
+    return { mode: 'scale', scale: clampExportScale(legacyScale) };
+  }
+
+  const record = optionalRecord(value);
+
+  if (record.mode === 'fit') {
+    const target = typeof record.target === 'string' && record.target in EXPORT_FIT_TARGETS
+      ? record.target as ExportFitTarget
+      : '1080p';
+    return { mode: 'fit', target };
+  }
+
+  const scale = asNumber(record.scale);
+  if (record.mode === 'scale' && scale !== null) {
+    return { mode: 'scale', scale: clampExportScale(scale) };
+  }
+
+  return getDefaultExportResolution(format);
+}
+
 function optionalRecord(value: unknown): JsonRecord {
   if (isRecord(value)) {
     return value;
@@ -206,6 +451,99 @@ async function assertPathExists(pathValue: string, label: string): Promise<void>
   }
 }
 
+async function loadPaletteFile(cwd: string, pathValue: string, size: PaletteSize | null): Promise<string> {
+  const api = window.electronAPI;
+  if (!api) {
+    throw new JobValidationError('Electron API unavailable in automation mode');
+  }
+
+  const palettePath = await resolvePath(cwd, pathValue);
+  await assertPathExists(palettePath, 'settings.paletteFile');
+
+  const readResult = await api.readTextFile(palettePath);
+  if (!readResult.success || !readResult.text) {
+    throw new JobValidationError(`Failed to read palette file: ${readResult.error || palettePath}`);
+  }
+
+  let imported;
+  try {
+    imported = parsePaletteFile(palettePath, readResult.text);
+  } catch (error) {
+    throw new JobValidationError(`Invalid settings.paletteFile: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  // No interactive pick step in automation: larger palettes are auto-reduced
+  registerTransientPalette({
+    id: JOB_PALETTE_FILE_ID,
+    name: imported.name,
+    colors: autoReducePalette(imported.colors, size ?? getImportPaletteSize(imported.colors.length)),
+  });
+
+  return palettePath;
+}
+
+async function loadThresholdMatrixFile(cwd: string, pathValue: string): Promise<{ path: string; matrix: ThresholdMatrix }> {
+  const api = window.electronAPI;
+  if (!api) {
+    throw new JobValidationError('Electron API unavailable in automation mode');
+  }
+
+  const matrixPath = await resolvePath(cwd, pathValue);
+  await assertPathExists(matrixPath, 'settings.thresholdMatrixFile');
+
+  try {
+    if (/\.json$/i.test(matrixPath)) {
+      const readResult = await api.readTextFile(matrixPath);
+      if (!readResult.success || !readResult.text) {
+        throw new Error(readResult.error || `Failed to read ${matrixPath}`);
+      }
+      return { path: matrixPath, matrix: parseThresholdMatrixJson(readResult.text) };
+    }
+
+    return { path: matrixPath, matrix: await loadThresholdMatrixImageUrl(await api.toFileURL(matrixPath)) };
+  } catch (error) {
+    throw new JobValidationError(`Invalid settings.thresholdMatrixFile: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function loadFrameBorderFile(
+  cwd: string,
+  pathValue: string,
+  screenWindow: BorderWindow | undefined
+): Promise<{ path: string; border: FrameBorder }> {
+  const api = window.electronAPI;
+  if (!api) {
+    throw new JobValidationError('Electron API unavailable in automation mode');
+  }
+
+  const borderPath = await resolvePath(cwd, pathValue);
+  await assertPathExists(borderPath, 'settings.frameBorderFile');
+
+  try {
+    return { path: borderPath, border: await loadFrameBorderImageUrl(await api.toFileURL(borderPath), screenWindow) };
+  } catch (error) {
+    throw new JobValidationError(`Invalid settings.frameBorderFile: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+async function loadAudioTrack(cwd: string, value: unknown): Promise<AutomationAudioTrack> {
+  if (!isRecord(value)) {
+    throw new JobValidationError('settings.audioTrack must be an object');
+  }
+
+  const trackPath = await resolvePath(cwd, ensureString(value.path, 'settings.audioTrack.path'));
+  await assertPathExists(trackPath, 'settings.audioTrack.path');
+
+  return {
+    path: trackPath,
+    mode: validateAudioTrackMode(value.mode),
+    offsetSec: clamp(asNumber(value.offsetSec) ?? DEFAULTS.audioTrackOffset, SLIDERS.AUDIO_TRACK_OFFSET.MIN, SLIDERS.AUDIO_TRACK_OFFSET.MAX),
+    gainDb: clamp(asNumber(value.gainDb) ?? DEFAULTS.audioTrackGain, SLIDERS.AUDIO_TRACK_GAIN.MIN, SLIDERS.AUDIO_TRACK_GAIN.MAX),
+    fadeInSec: clamp(asNumber(value.fadeInSec) ?? DEFAULTS.audioTrackFade, SLIDERS.AUDIO_TRACK_FADE.MIN, SLIDERS.AUDIO_TRACK_FADE.MAX),
+    fadeOutSec: clamp(asNumber(value.fadeOutSec) ?? DEFAULTS.audioTrackFade, SLIDERS.AUDIO_TRACK_FADE.MIN, SLIDERS.AUDIO_TRACK_FADE.MAX),
+  };
+}
+
 export async function parseAndValidateJob(start: AutomationStartPayload): Promise<ParsedAutomationJob> {
   const api = window.electronAPI;
   if (!api) {
@@ -235,8 +573,9 @@ export async function parseAndValidateJob(start: AutomationStartPayload): Promis
 
   const inputPathRaw = ensureString(jsonValue.inputPath, 'inputPath');
   const modeConfig = optionalRecord(jsonValue.modeConfig);
-  if (modeConfig.format !== 'mp4') {
-    throw new JobValidationError('modeConfig.format must be "mp4" in v1');
+  const format = modeConfig.format;
+  if (typeof format !== 'string' || !AUTOMATION_EXPORT_FORMATS.includes(format as AutomationExportFormat)) {
+    throw new JobValidationError(`modeConfig.format must be one of ${AUTOMATION_EXPORT_FORMATS.map((f) => `"${f}"`).join(', ')}`);
   }
 
   const outputPathRaw = jsonValue.outputPath;
@@ -258,11 +597,51 @@ export async function parseAndValidateJob(start: AutomationStartPayload): Promis
     }
   }
 
+  // Jobs may reference custom palettes saved from the UI by id; an
+  // unreadable palettes file only matters if the job names one of them
+  setCustomPalettes(await loadStoredCustomPalettes() ?? []);
+
   const settingsRecord = optionalRecord(jsonValue.settings);
+  const paletteFile = settingsRecord.paletteFile !== undefined
+    ? await loadPaletteFile(
+      start.cwd,
+      ensureString(settingsRecord.paletteFile, 'settings.paletteFile'),
+      isPaletteSize(settingsRecord.paletteSize) ? settingsRecord.paletteSize : null
+    )
+    : null;
+  const thresholdMatrixFile = settingsRecord.thresholdMatrixFile !== undefined
+    ? await loadThresholdMatrixFile(start.cwd, ensureString(settingsRecord.thresholdMatrixFile, 'settings.thresholdMatrixFile'))
+    : null;
+  // thresholdMatrixFile implies the custom matrix, mirroring paletteFile
+  const thresholdMatrix = thresholdMatrixFile ? 'custom' : validateThresholdMatrix(settingsRecord.thresholdMatrix);
+  if (thresholdMatrix === 'custom' && !thresholdMatrixFile) {
+    throw new JobValidationError('settings.thresholdMatrix "custom" requires settings.thresholdMatrixFile');
+  }
+  const frameBorderFile = settingsRecord.frameBorderFile !== undefined
+    ? await loadFrameBorderFile(
+      start.cwd,
+      ensureString(settingsRecord.frameBorderFile, 'settings.frameBorderFile'),
+      validateFrameBorderWindow(settingsRecord.frameBorderWindow)
+    )
+    : null;
+  // frameBorderFile implies the custom border, like thresholdMatrixFile
+  const frameBorder = frameBorderFile ? 'custom' : validateFrameBorder(settingsRecord.frameBorder);
+  if (frameBorder === 'custom' && !frameBorderFile) {
+    throw new JobValidationError('settings.frameBorder "custom" requires settings.frameBorderFile');
+  }
+  const audioTrack = settingsRecord.audioTrack !== undefined
+    ? await loadAudioTrack(start.cwd, settingsRecord.audioTrack)
+    : null;
   const audioRecord = optionalRecord(settingsRecord.audio);
   const lcdRecord = optionalRecord(settingsRecord.lcd);
   const trimRecord = optionalRecord(settingsRecord.trim);
 
+  const ditherMode = validateDitherMode(settingsRecord.ditherMode);
+  const benchmarkErrorDiffusion = Boolean(settingsRecord.benchmarkErrorDiffusion ?? DEFAULTS.benchmarkErrorDiffusion);
+  if (benchmarkErrorDiffusion && !isErrorDiffusionMode(ditherMode)) {
+    throw new JobValidationError('settings.benchmarkErrorDiffusion requires an error-diffusion settings.ditherMode');
+  }
+
   const contrast = clamp(asNumber(settingsRecord.contrast) ?? DEFAULTS.contrast, SLIDERS.CONTRAST.MIN, SLIDERS.CONTRAST.MAX);
   const targetFps = Math.round(clamp(asNumber(settingsRecord.targetFps) ?? DEFAULTS.targetFps, SLIDERS.FRAME_RATE.MIN, SLIDERS.FRAME_RATE.MAX));
 
@@ -272,24 +651,49 @@ export async function parseAndValidateJob(start: AutomationStartPayload): Promis
 
   return {
     schemaVersion: 1,
-    format: 'mp4',
+    format: format as AutomationExportFormat,
+    resolution: validateResolution(modeConfig.resolution, format as AutomationExportFormat, modeConfig.spriteSheet),
+    spriteSheet: validateSpriteSheet(modeConfig.spriteSheet),
+    codec: isVideoCodec(modeConfig.codec) ? modeConfig.codec : DEFAULT_VIDEO_CODEC,
     inputPath,
     outputPath,
     settings: {
       contrast,
       cameraResponse: clamp(asNumber(settingsRecord.cameraResponse) ?? DEFAULTS.cameraResponse, 0, 1),
       crop: validateCrop(settingsRecord.crop),
-      ditherMode: validateDitherMode(settingsRecord.ditherMode),
-      palette: validatePalette(settingsRecord.palette),
+      ditherMode,
+      processingResolution: validateProcessingResolution(settingsRecord.processingResolution),
+      // paletteFile takes precedence over palette when both are given
+      palette: paletteFile ? JOB_PALETTE_FILE_ID : validatePalette(settingsRecord.palette),
+      paletteFile,
       invertPalette: Boolean(settingsRecord.invertPalette ?? DEFAULTS.invertPalette),
+      colorMetric: validateColorMetric(settingsRecord.colorMetric),
+      serpentine: Boolean(settingsRecord.serpentine ?? DEFAULTS.serpentine),
+      errorDiffusionBackend: validateErrorDiffusionBackend(settingsRecord.errorDiffusionBackend),
+      benchmarkErrorDiffusion,
+      thresholdMatrix,
+      thresholdMatrixFile: thresholdMatrixFile?.path ?? null,
+      customThresholdMatrix: thresholdMatrixFile?.matrix ?? null,
+      temporalCoherence: Boolean(settingsRecord.temporalCoherence ?? DEFAULTS.temporalCoherence),
+      temporalThreshold: clamp(asNumber(settingsRecord.temporalThreshold) ?? DEFAULTS.temporalThreshold, SLIDERS.TEMPORAL_THRESHOLD.MIN, SLIDERS.TEMPORAL_THRESHOLD.MAX),
+      frameBorder,
+      frameBorderFile: frameBorderFile?.path ?? null,
+      customFrameBorder: frameBorderFile?.border ?? null,
       targetFps,
       enableAudioBitcrush: Boolean(settingsRecord.enableAudioBitcrush ?? DEFAULTS.enableAudioBitcrush),
       audio: {
+        mode: validateAudioMode(audioRecord.mode),
         highpass: Math.round(clamp(asNumber(audioRecord.highpass) ?? DEFAULTS.audioHighpass, SLIDERS.AUDIO_HIGHPASS.MIN, SLIDERS.AUDIO_HIGHPASS.MAX)),
         lowpass: Math.round(clamp(asNumber(audioRecord.lowpass) ?? DEFAULTS.audioLowpass, SLIDERS.AUDIO_LOWPASS.MIN, SLIDERS.AUDIO_LOWPASS.MAX)),
         bitDepth: Math.round(clamp(asNumber(audioRecord.bitDepth) ?? DEFAULTS.audioBitDepth, SLIDERS.AUDIO_BIT_DEPTH.MIN, SLIDERS.AUDIO_BIT_DEPTH.MAX)),
         distortion: Math.round(clamp(asNumber(audioRecord.distortion) ?? DEFAULTS.audioDistortion, SLIDERS.AUDIO_DISTORTION.MIN, SLIDERS.AUDIO_DISTORTION.MAX)),
+        crushRate: Math.round(clamp(asNumber(audioRecord.crushRate) ?? DEFAULTS.audioCrushRate, SLIDERS.AUDIO_CRUSH_RATE.MIN, SLIDERS.AUDIO_CRUSH_RATE.MAX)),
+        resonance: clamp(asNumber(audioRecord.resonance) ?? DEFAULTS.audioResonance, SLIDERS.AUDIO_RESONANCE.MIN, SLIDERS.AUDIO_RESONANCE.MAX),
+        mono: Math.round(clamp(asNumber(audioRecord.mono) ?? DEFAULTS.audioMono, SLIDERS.AUDIO_MONO.MIN, SLIDERS.AUDIO_MONO.MAX)),
+        noise: Math.round(clamp(asNumber(audioRecord.noise) ?? DEFAULTS.audioNoise, SLIDERS.AUDIO_NOISE.MIN, SLIDERS.AUDIO_NOISE.MAX)),
+        limiter: clamp(asNumber(audioRecord.limiter) ?? DEFAULTS.audioLimiter, SLIDERS.AUDIO_LIMITER.MIN, SLIDERS.AUDIO_LIMITER.MAX),
       },
+      audioTrack,
       lcd: {
         enabled: Boolean(lcdRecord.enabled ?? DEFAULTS.lcdEnabled),
         gridIntensity: clamp(asNumber(lcdRecord.gridIntensity) ?? DEFAULTS.lcdGridIntensity, SLIDERS.LCD_GRID.MIN, SLIDERS.LCD_GRID.MAX),
@@ -328,6 +732,9 @@ export function resolveJobForSource(
     command,
     schemaVersion: parsedJob.schemaVersion,
     format: parsedJob.format,
+    resolution: { ...parsedJob.resolution },
+    spriteSheet: { ...parsedJob.spriteSheet },
+    codec: parsedJob.codec,
     inputPath: parsedJob.inputPath,
     outputPath: parsedJob.outputPath,
     source,
@@ -337,8 +744,18 @@ export function resolveJobForSource(
         cameraResponse: parsedJob.settings.cameraResponse,
         cropRegion: crop as CropRegionNormalized,
         ditherMode: parsedJob.settings.ditherMode,
+        processingResolution: { ...parsedJob.settings.processingResolution },
         palette: parsedJob.settings.palette,
         invertPalette: parsedJob.settings.invertPalette,
+        colorMetric: parsedJob.settings.colorMetric,
+        serpentine: parsedJob.settings.serpentine,
+        errorDiffusionBackend: parsedJob.settings.errorDiffusionBackend,
+        thresholdMatrix: parsedJob.settings.thresholdMatrix,
+        customThresholdMatrix: parsedJob.settings.customThresholdMatrix,
+        temporalCoherence: parsedJob.settings.temporalCoherence,
+        temporalThreshold: parsedJob.settings.temporalThreshold,
+        frameBorder: parsedJob.settings.frameBorder,
+        customFrameBorder: parsedJob.settings.customFrameBorder,
         lcd: {
           enabled: parsedJob.settings.lcd.enabled,
           gridIntensity: parsedJob.settings.lcd.gridIntensity,
@@ -347,14 +764,22 @@ export function resolveJobForSource(
           baselineAlpha: parsedJob.settings.lcd.baselineAlpha,
         },
       },
+      benchmarkErrorDiffusion: parsedJob.settings.benchmarkErrorDiffusion,
       targetFps,
       enableAudioBitcrush: parsedJob.settings.enableAudioBitcrush,
       audio: {
+        mode: parsedJob.settings.audio.mode,
         highpass: parsedJob.settings.audio.highpass,
         lowpass: parsedJob.settings.audio.lowpass,
         bitDepth: parsedJob.settings.audio.bitDepth,
         distortion: parsedJob.settings.audio.distortion,
+        crushRate: parsedJob.settings.audio.crushRate,
+        resonance: parsedJob.settings.audio.resonance,
+        mono: parsedJob.settings.audio.mono,
+        noise: parsedJob.settings.audio.noise,
+        limiter: parsedJob.settings.audio.limiter,
       },
+      audioTrack: parsedJob.settings.audioTrack ? { ...parsedJob.settings.audioTrack } : null,
       trim: {
         startSec: trimStartSec,
         endSec: trimEndSec,
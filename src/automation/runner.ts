@@ -1,8 +1,13 @@
+import type { AudioTrackSettings } from '../audio/audioTrack';
 import { exportVideo } from '../processing/ExportManager';
+import { getVideoProcessor } from '../processing/VideoProcessor';
+import { resolveFrameBorder } from '../processing/frameBorder';
+import type { PaletteCheckReport } from '../processing/paletteCheck';
 import { calculateOutputDimensions, calculateProcessingResolution } from '../utils';
 import {
   parseAndValidateJob,
   resolveJobForSource,
+  type AutomationAudioTrack,
   type AutomationStartPayload,
   type ResolvedAutomationJob,
 } from './job';
@@ -33,13 +38,17 @@ function getDimensions(job: ResolvedAutomationJob) {
   const processing = calculateProcessingResolution(
     job.source.width,
     job.source.height,
-    job.settings.processing.ditherMode
+    job.settings.processing.ditherMode,
+    job.settings.processing.processingResolution
   );
   const output = calculateOutputDimensions(
     job.source.width,
     job.source.height,
-    'mp4',
-    job.settings.processing.ditherMode
+    job.format,
+    job.settings.processing.ditherMode,
+    job.resolution,
+    job.settings.processing.processingResolution,
+    resolveFrameBorder(job.settings.processing.frameBorder, job.settings.processing.customFrameBorder)
   );
 
   return {
@@ -109,6 +118,21 @@ async function loadVideo(inputPath: string): Promise<LoadedVideo> {
   return loaded;
 }
 
+// The export reads the track through a file URL, like the input video
+async function toAudioTrackSettings(track: AutomationAudioTrack | null): Promise<AudioTrackSettings | null> {
+  if (!track) {
+    return null;
+  }
+
+  const api = window.electronAPI;
+  if (!api) {
+    throw new Error('Electron API unavailable in automation mode');
+  }
+
+  const { path, ...settings } = track;
+  return { ...settings, src: await api.toFileURL(path) };
+}
+
 function toResolvedSettingsPayload(job: ResolvedAutomationJob) {
   return {
     targetFps: job.settings.targetFps,
@@ -117,12 +141,22 @@ function toResolvedSettingsPayload(job: ResolvedAutomationJob) {
       cameraResponse: job.settings.processing.cameraResponse,
       cropRegion: { ...job.settings.processing.cropRegion },
       ditherMode: job.settings.processing.ditherMode,
+      processingResolution: { ...job.settings.processing.processingResolution },
       palette: job.settings.processing.palette,
       invertPalette: job.settings.processing.invertPalette,
+      colorMetric: job.settings.processing.colorMetric,
+      serpentine: job.settings.processing.serpentine,
+      errorDiffusionBackend: job.settings.processing.errorDiffusionBackend,
+      thresholdMatrix: job.settings.processing.thresholdMatrix,
+      temporalCoherence: job.settings.processing.temporalCoherence,
+      temporalThreshold: job.settings.processing.temporalThreshold,
+      frameBorder: job.settings.processing.frameBorder,
       lcd: { ...job.settings.processing.lcd },
     },
+    benchmarkErrorDiffusion: job.settings.benchmarkErrorDiffusion,
     enableAudioBitcrush: job.settings.enableAudioBitcrush,
     audio: { ...job.settings.audio },
+    audioTrack: job.settings.audioTrack ? { ...job.settings.audioTrack } : null,
     trim: { ...job.settings.trim },
   };
 }
@@ -151,6 +185,9 @@ export async function runAutomationCommand(
       command: start.command,
       schemaVersion: resolved.schemaVersion,
       format: resolved.format,
+      resolution: resolved.resolution,
+      ...(resolved.format === 'spritesheet' ? { spriteSheet: resolved.spriteSheet } : {}),
+      ...(resolved.format === 'mp4' ? { codec: resolved.codec } : {}),
       inputPath: resolved.inputPath,
       outputPath: resolved.outputPath,
       source: resolved.source,
@@ -180,18 +217,30 @@ export async function runAutomationCommand(
     }
 
     const startedAt = Date.now();
+    const audioTrack = await toAudioTrackSettings(resolved.settings.audioTrack);
+    let paletteCheck: PaletteCheckReport | null = null;
 
     const blob = await exportVideo(loaded.element, {
-      format: 'mp4',
+      format: resolved.format,
       fps: resolved.settings.targetFps,
       settings: resolved.settings.processing,
       enableAudioBitcrush: resolved.settings.enableAudioBitcrush,
       audioSettings: {
+        mode: resolved.settings.audio.mode,
         highpass: resolved.settings.audio.highpass,
         lowpass: resolved.settings.audio.lowpass,
         bitDepth: resolved.settings.audio.bitDepth,
         distortion: resolved.settings.audio.distortion,
+        crushRate: resolved.settings.audio.crushRate,
+        resonance: resolved.settings.audio.resonance,
+        mono: resolved.settings.audio.mono,
+        noise: resolved.settings.audio.noise,
+        limiter: resolved.settings.audio.limiter,
       },
+      audioTrack,
+      spriteSheetOptions: resolved.spriteSheet,
+      videoCodec: resolved.codec,
+      resolution: resolved.resolution,
       sourceVideoDimensions: {
         width: resolved.source.width,
         height: resolved.source.height,
@@ -210,6 +259,9 @@ export async function runAutomationCommand(
           value,
         });
       },
+      onPaletteCheck: (report) => {
+        paletteCheck = report;
+      },
     });
 
     emit({
@@ -230,6 +282,15 @@ export async function runAutomationCommand(
       value: 1,
     });
 
+    // Timed after the export so it can't slow the export down
+    const errorDiffusionBenchmark = resolved.settings.benchmarkErrorDiffusion
+      ? await getVideoProcessor().benchmarkErrorDiffusion(
+        loaded.element,
+        resolved.settings.trim.startSec,
+        resolved.settings.trim.endSec
+      )
+      : null;
+
     emit({
       type: 'job_complete',
       outputPath: resolved.outputPath,
@@ -238,6 +299,9 @@ export async function runAutomationCommand(
       source: resolved.source,
       dimensions,
       resolvedSettings: toResolvedSettingsPayload(resolved),
+      frameTiming: getVideoProcessor().getFrameTimingStats(),
+      ...(paletteCheck ? { paletteCheck } : {}),
+      ...(errorDiffusionBenchmark ? { errorDiffusionBenchmark } : {}),
     });
   } finally {
     loaded?.cleanup();
@@ -1,25 +1,67 @@
-import { useCallback, useId, useRef, useEffect, useMemo } from 'react';
+import { useCallback, useId, useRef, useEffect, useMemo, useState } from 'react';
 import FocusTrap from 'focus-trap-react';
 import { useAppStore, useIsExporting, useExportProgress, useVideoInfo } from '../../state/store';
 import type { ExportFormat } from '../../state/store';
 import { Toggle } from '../common/Toggle';
-import { calculateOutputDimensions } from '../../utils';
-import { BASE_PIXEL_DENSITY, EXPORT_SCALE } from '../../constants';
+import { calculateOutputDimensions, isNativeOnlyFormat, type ExportResolution } from '../../utils';
+import type { SpriteSheetLayout } from '../../processing/encoders/SpriteSheetEncoder';
+import {
+  DEFAULT_VIDEO_CODEC,
+  VIDEO_CODECS,
+  VIDEO_CODEC_INFO,
+  type VideoCodec,
+} from '../../processing/encoders/videoCodecs';
+import { getAvailableVideoCodecs } from '../../processing/ExportManager';
+import { resolveFrameBorder } from '../../processing/frameBorder';
+import { BASE_PIXEL_DENSITY, EXPORT_SCALE, EXPORT_SCALE_LIMITS, GIF_PLAYBACK_LIMITS } from '../../constants';
 
 interface ExportDialogProps {
   isOpen: boolean;
   onClose: () => void;
   onExport: (format: ExportFormat) => void;
   error?: string | null;
+  // Export finished, but something about the file needs attention
+  warning?: string | null;
 }
 
 const FORMAT_OPTIONS: { value: ExportFormat; label: string; description: string }[] = [
-  { value: 'mp4', label: 'MP4 Video', description: 'H.264 encoded, best compatibility' },
-  { value: 'gif', label: 'GIF Animation', description: 'Animated GIF, larger file size' },
+  { value: 'mp4', label: 'Video', description: 'H.264 or HEVC in MP4, VP9 or AV1 in WebM, lossless FFV1 or RGB H.264 in MKV' },
+  { value: 'gif', label: 'GIF Animation', description: 'Indexed GIF using the exact palette, no LCD effects' },
+  { value: 'webp', label: 'Animated WebP', description: 'Lossless, much smaller than GIF' },
+  { value: 'apng', label: 'Animated PNG', description: 'Lossless APNG, plays in modern browsers' },
   { value: 'png', label: 'PNG Sequence', description: 'ZIP bundle of PNG frames' },
+  { value: 'spritesheet', label: 'Sprite Sheet', description: 'Single atlas PNG with Aseprite/TexturePacker JSON' },
+  { value: 'aseprite', label: 'Aseprite', description: 'Indexed .aseprite at native resolution, no LCD effects' },
+  { value: 'gbtiles', label: 'GB Tiles', description: '2bpp tiles, tilemaps and GBDK/RGBDS sources' },
 ];
 
-export function ExportDialog({ isOpen, onClose, onExport, error }: ExportDialogProps) {
+// Select values for export resolution; 'default' follows the format's own scale
+const RESOLUTION_OPTIONS: { value: string; label: string }[] = [
+  { value: 'default', label: 'Format default' },
+  ...Array.from({ length: EXPORT_SCALE_LIMITS.MAX - EXPORT_SCALE_LIMITS.MIN + 1 }, (_, i) => {
+    const scale = EXPORT_SCALE_LIMITS.MIN + i;
+    return { value: `scale:${scale}`, label: scale === 1 ? 'Native (1×)' : `${scale}×` };
+  }),
+  { value: 'fit:1080p', label: 'Fit 1080p (letterboxed)' },
+  { value: 'fit:4k', label: 'Fit 4K (letterboxed)' },
+];
+
+function toResolutionValue(resolution: ExportResolution | null): string {
+  if (!resolution) return 'default';
+  return resolution.mode === 'scale' ? `scale:${resolution.scale}` : `fit:${resolution.target}`;
+}
+
+function fromResolutionValue(value: string): ExportResolution | null {
+  const [mode, arg] = value.split(':');
+  if (mode === 'scale') return { mode: 'scale', scale: Number(arg) };
+  if (mode === 'fit') return { mode: 'fit', target: arg === '4k' ? '4k' : '1080p' };
+  return null;
+}
+
+// Until the encoder probe finishes, offer the codecs FFmpeg can always fall back to
+const FALLBACK_VIDEO_CODECS = VIDEO_CODECS.filter((codec) => VIDEO_CODEC_INFO[codec].ffmpegArgs);
+
+export function ExportDialog({ isOpen, onClose, onExport, error, warning }: ExportDialogProps) {
   const videoInfo = useVideoInfo();
   const isExporting = useIsExporting();
   const exportProgress = useExportProgress();
@@ -27,21 +69,68 @@ export function ExportDialog({ isOpen, onClose, onExport, error }: ExportDialogP
   const setExportFormat = useAppStore((s) => s.setExportFormat);
   const enableAudioBitcrush = useAppStore((s) => s.enableAudioBitcrush);
   const setEnableAudioBitcrush = useAppStore((s) => s.setEnableAudioBitcrush);
+  const gifLoopForever = useAppStore((s) => s.gifLoopForever);
+  const setGifLoopForever = useAppStore((s) => s.setGifLoopForever);
+  const gifPlayCount = useAppStore((s) => s.gifPlayCount);
+  const setGifPlayCount = useAppStore((s) => s.setGifPlayCount);
+  const gifEndHoldMs = useAppStore((s) => s.gifEndHoldMs);
+  const setGifEndHoldMs = useAppStore((s) => s.setGifEndHoldMs);
+  const spriteSheetLayout = useAppStore((s) => s.spriteSheetLayout);
+  const setSpriteSheetLayout = useAppStore((s) => s.setSpriteSheetLayout);
+  const videoCodec = useAppStore((s) => s.videoCodec);
+  const setVideoCodec = useAppStore((s) => s.setVideoCodec);
+  const [availableCodecs, setAvailableCodecs] = useState<VideoCodec[]>(FALLBACK_VIDEO_CODECS);
+  const exportResolution = useAppStore((s) => s.exportResolution);
+  const setExportResolution = useAppStore((s) => s.setExportResolution);
   const ditherMode = useAppStore((s) => s.ditherMode);
+  const processingResolution = useAppStore((s) => s.processingResolution);
+  const frameBorder = useAppStore((s) => s.frameBorder);
+  const customFrameBorder = useAppStore((s) => s.customFrameBorder);
 
   const titleId = useId();
+  const sheetLayoutId = useId();
+  const codecId = useId();
+  const resolutionId = useId();
+  const gifPlayCountId = useId();
+  const gifEndHoldId = useId();
   const dialogRef = useRef<HTMLDivElement>(null);
 
   // Calculate output dimensions based on source video and format
   const outputDimensions = useMemo(() => {
     if (!videoInfo) return { width: BASE_PIXEL_DENSITY * EXPORT_SCALE.HIGH_QUALITY, height: BASE_PIXEL_DENSITY * EXPORT_SCALE.HIGH_QUALITY };
-    return calculateOutputDimensions(videoInfo.width, videoInfo.height, exportFormat, ditherMode);
-  }, [videoInfo, exportFormat, ditherMode]);
+    return calculateOutputDimensions(
+      videoInfo.width,
+      videoInfo.height,
+      exportFormat,
+      ditherMode,
+      exportResolution ?? undefined,
+      processingResolution,
+      resolveFrameBorder(frameBorder, customFrameBorder)
+    );
+  }, [videoInfo, exportFormat, ditherMode, exportResolution, processingResolution, frameBorder, customFrameBorder]);
 
   const handleExport = useCallback(() => {
     onExport(exportFormat);
   }, [exportFormat, onExport]);
 
+  // AV1 has no FFmpeg fallback, so it's only offered when WebCodecs can encode it
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    getAvailableVideoCodecs().then((codecs) => {
+      if (cancelled) return;
+      setAvailableCodecs(codecs);
+      if (!codecs.includes(useAppStore.getState().videoCodec)) {
+        setVideoCodec(DEFAULT_VIDEO_CODEC);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, setVideoCodec]);
+
   // Handle escape key to close modal
   useEffect(() => {
     if (!isOpen || isExporting) return;
@@ -155,7 +244,31 @@ export function ExportDialog({ isOpen, onClose, onExport, error }: ExportDialogP
                 </div>
               </div>
 
-              {/* Audio options (for MP4) */}
+              {/* Codec (for video) */}
+              {exportFormat === 'mp4' && (
+                <div className="pt-2">
+                  <label htmlFor={codecId} className="block text-sm text-neutral-400 mb-1">
+                    Codec
+                  </label>
+                  <select
+                    id={codecId}
+                    value={videoCodec}
+                    onChange={(e) => setVideoCodec(e.target.value as VideoCodec)}
+                    className="w-full bg-neutral-800 text-sm rounded px-2 py-1.5 border border-neutral-700 focus:border-gb-light focus:outline-none focus-visible:ring-2 focus-visible:ring-gb-light focus-visible:ring-offset-1 focus-visible:ring-offset-neutral-900"
+                  >
+                    {availableCodecs.map((codec) => (
+                      <option key={codec} value={codec}>{VIDEO_CODEC_INFO[codec].label}</option>
+                    ))}
+                  </select>
+                  {VIDEO_CODEC_INFO[videoCodec].lossless && (
+                    <p className="text-xs text-neutral-500 mt-1">
+                      Exact palette colours without LCD effects; the saved file is decoded and checked.
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Audio options (for video) */}
               {exportFormat === 'mp4' && (
                 <div className="pt-2">
                   <Toggle
@@ -166,6 +279,89 @@ export function ExportDialog({ isOpen, onClose, onExport, error }: ExportDialogP
                 </div>
               )}
 
+              {/* Loop options (for GIF) */}
+              {exportFormat === 'gif' && (
+                <div className="pt-2 space-y-2">
+                  <Toggle
+                    checked={gifLoopForever}
+                    onChange={setGifLoopForever}
+                    label="Loop forever"
+                  />
+                  <div className="grid grid-cols-2 gap-2">
+                    {!gifLoopForever && (
+                      <div>
+                        <label htmlFor={gifPlayCountId} className="block text-xs text-neutral-400 mb-1">
+                          Play count
+                        </label>
+                        <input
+                          id={gifPlayCountId}
+                          type="number"
+                          min={1}
+                          max={GIF_PLAYBACK_LIMITS.MAX_PLAY_COUNT}
+                          value={gifPlayCount}
+                          onChange={(e) => setGifPlayCount(Math.max(1, Math.min(GIF_PLAYBACK_LIMITS.MAX_PLAY_COUNT, Math.round(Number(e.target.value) || 1))))}
+                          className="w-full bg-neutral-800 text-sm rounded px-2 py-1.5 border border-neutral-700 focus:border-gb-light focus:outline-none focus-visible:ring-2 focus-visible:ring-gb-light focus-visible:ring-offset-1 focus-visible:ring-offset-neutral-900"
+                        />
+                      </div>
+                    )}
+                    <div>
+                      <label htmlFor={gifEndHoldId} className="block text-xs text-neutral-400 mb-1">
+                        Hold last frame (ms)
+                      </label>
+                      <input
+                        id={gifEndHoldId}
+                        type="number"
+                        min={0}
+                        max={GIF_PLAYBACK_LIMITS.MAX_END_HOLD_MS}
+                        step={10}
+                        value={gifEndHoldMs}
+                        onChange={(e) => setGifEndHoldMs(Math.max(0, Math.min(GIF_PLAYBACK_LIMITS.MAX_END_HOLD_MS, Math.round(Number(e.target.value) || 0))))}
+                        className="w-full bg-neutral-800 text-sm rounded px-2 py-1.5 border border-neutral-700 focus:border-gb-light focus:outline-none focus-visible:ring-2 focus-visible:ring-gb-light focus-visible:ring-offset-1 focus-visible:ring-offset-neutral-900"
+                      />
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {/* Resolution (GB tiles and Aseprite always export at native size) */}
+              {!isNativeOnlyFormat(exportFormat) && (
+                <div className="pt-2">
+                  <label htmlFor={resolutionId} className="block text-sm text-neutral-400 mb-1">
+                    Resolution
+                  </label>
+                  <select
+                    id={resolutionId}
+                    value={toResolutionValue(exportResolution)}
+                    onChange={(e) => setExportResolution(fromResolutionValue(e.target.value))}
+                    className="w-full bg-neutral-800 text-sm rounded px-2 py-1.5 border border-neutral-700 focus:border-gb-light focus:outline-none focus-visible:ring-2 focus-visible:ring-gb-light focus-visible:ring-offset-1 focus-visible:ring-offset-neutral-900"
+                  >
+                    {RESOLUTION_OPTIONS.map((option) => (
+                      <option key={option.value} value={option.value}>{option.label}</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              {/* Layout (for sprite sheets) */}
+              {exportFormat === 'spritesheet' && (
+                <div className="pt-2">
+                  <div>
+                    <label htmlFor={sheetLayoutId} className="block text-sm text-neutral-400 mb-1">
+                      Layout
+                    </label>
+                    <select
+                      id={sheetLayoutId}
+                      value={spriteSheetLayout}
+                      onChange={(e) => setSpriteSheetLayout(e.target.value as SpriteSheetLayout)}
+                      className="w-full bg-neutral-800 text-sm rounded px-2 py-1.5 border border-neutral-700 focus:border-gb-light focus:outline-none focus-visible:ring-2 focus-visible:ring-gb-light focus-visible:ring-offset-1 focus-visible:ring-offset-neutral-900"
+                    >
+                      <option value="grid">Grid (every frame)</option>
+                      <option value="packed">Packed (dedupe frames)</option>
+                    </select>
+                  </div>
+                </div>
+              )}
+
               {/* Error message */}
               {error && (
                 <div className="bg-red-900/30 border border-red-700 rounded-lg p-3 text-sm text-red-300">
@@ -174,10 +370,18 @@ export function ExportDialog({ isOpen, onClose, onExport, error }: ExportDialogP
                 </div>
               )}
 
+              {/* Palette check warning (lossless video) */}
+              {warning && (
+                <div className="bg-amber-900/30 border border-amber-700 rounded-lg p-3 text-sm text-amber-300">
+                  <div className="font-medium mb-1">Saved with off-palette colours</div>
+                  <div className="text-amber-400 text-xs">{warning}</div>
+                </div>
+              )}
+
               {/* Info */}
               <div className="bg-neutral-800/50 rounded-lg p-3 text-xs text-neutral-400">
                 <div className="flex justify-between mb-1">
-                  <span>Output resolution:</span>
+                  <span>{exportFormat === 'spritesheet' ? 'Frame size:' : 'Output resolution:'}</span>
                   <span className="text-neutral-200">{outputDimensions.width} × {outputDimensions.height}</span>
                 </div>
                 <div className="flex justify-between mb-1">
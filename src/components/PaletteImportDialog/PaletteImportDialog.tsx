@@ -0,0 +1,164 @@
+import { useCallback, useEffect, useId, useState } from 'react';
+import FocusTrap from 'focus-trap-react';
+import { PALETTE_SIZES, paletteColorToHex, type Palette, type PaletteSize } from '../../palettes';
+import {
+  autoReducePalette,
+  getImportPaletteSize,
+  paletteFromSelection,
+  type ImportedPalette,
+} from '../../palettes/import';
+
+interface PaletteImportDialogProps {
+  palette: ImportedPalette | null;
+  onClose: () => void;
+  onImport: (name: string, colors: Palette) => void;
+}
+
+export function PaletteImportDialog({ palette, onClose, onImport }: PaletteImportDialogProps) {
+  const [selected, setSelected] = useState<number[]>([]);
+  const [size, setSize] = useState<PaletteSize>(4);
+  const titleId = useId();
+  const sizeId = useId();
+
+  useEffect(() => {
+    if (palette) {
+      setSize(getImportPaletteSize(palette.colors.length));
+    }
+  }, [palette]);
+
+  // Start from the auto-reduced choice so Import works without manual picking
+  useEffect(() => {
+    if (!palette) return;
+    const reduced = autoReducePalette(palette.colors, size);
+    const indices = reduced.map((color) => palette.colors.findIndex((c) => (
+      c[0] === color[0] && c[1] === color[1] && c[2] === color[2]
+    )));
+    setSelected([...new Set(indices)].filter((index) => index >= 0));
+  }, [palette, size]);
+
+  const toggleColor = useCallback((index: number) => {
+    setSelected((current) => {
+      if (current.includes(index)) {
+        return current.filter((i) => i !== index);
+      }
+      if (current.length >= size) {
+        return current;
+      }
+      return [...current, index];
+    });
+  }, [size]);
+
+  const handleAutoReduce = useCallback(() => {
+    if (!palette) return;
+    onImport(palette.name, autoReducePalette(palette.colors, size));
+  }, [palette, size, onImport]);
+
+  const handleImport = useCallback(() => {
+    if (!palette || selected.length !== size) return;
+    onImport(palette.name, paletteFromSelection(palette.colors, selected));
+  }, [palette, selected, size, onImport]);
+
+  // Handle escape key to close modal
+  useEffect(() => {
+    if (!palette) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [palette, onClose]);
+
+  if (!palette) return null;
+
+  return (
+    <FocusTrap active={Boolean(palette)}>
+      <div
+        className="fixed inset-0 z-50 flex items-center justify-center bg-black/70 backdrop-blur-sm"
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby={titleId}
+      >
+        <div className="bg-neutral-900 rounded-lg border border-neutral-800 w-full max-w-md mx-4 shadow-2xl">
+          {/* Header */}
+          <div className="flex items-center justify-between p-4 border-b border-neutral-800">
+            <h2 id={titleId} className="text-lg font-semibold">Import Palette</h2>
+            <button
+              onClick={onClose}
+              className="text-neutral-400 hover:text-white transition-colors"
+              aria-label="Close"
+            >
+              <svg className="w-5 h-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </div>
+
+          {/* Content */}
+          <div className="p-4 space-y-3">
+            <div className="text-sm">
+              <span className="font-medium">{palette.name}</span>
+              <span className="text-neutral-500"> · {palette.colors.length} colors</span>
+            </div>
+            {palette.warnings.map((warning) => (
+              <p key={warning} className="text-xs text-amber-400">{warning}</p>
+            ))}
+            <div className="flex items-center justify-between gap-2">
+              <label htmlFor={sizeId} className="text-sm text-neutral-300">Palette size</label>
+              <select
+                id={sizeId}
+                value={size}
+                onChange={(e) => setSize(Number(e.target.value) as PaletteSize)}
+                className="bg-neutral-800 text-sm rounded px-2 py-1 border border-neutral-700 focus:border-gb-light focus:outline-none"
+              >
+                {PALETTE_SIZES.filter((option) => option <= palette.colors.length).map((option) => (
+                  <option key={option} value={option}>{option} colors</option>
+                ))}
+              </select>
+            </div>
+            <p className="text-xs text-neutral-400">
+              Pick {size} colors ({selected.length}/{size} selected) or let PocketFrame reduce the palette automatically.
+            </p>
+            <div className="grid grid-cols-8 gap-1 max-h-64 overflow-y-auto">
+              {palette.colors.map((color, index) => {
+                const hex = paletteColorToHex(color);
+                const isSelected = selected.includes(index);
+                return (
+                  <button
+                    key={index}
+                    onClick={() => toggleColor(index)}
+                    aria-pressed={isSelected}
+                    aria-label={`Color ${index + 1} ${hex}`}
+                    title={hex}
+                    className={`h-8 rounded border-2 transition-colors ${isSelected ? 'border-gb-light' : 'border-transparent hover:border-neutral-500'}`}
+                    style={{ backgroundColor: hex }}
+                  />
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Footer */}
+          <div className="flex justify-end gap-3 p-4 border-t border-neutral-800">
+            <button onClick={onClose} className="btn-secondary">
+              Cancel
+            </button>
+            <button onClick={handleAutoReduce} className="btn-secondary">
+              Auto-reduce
+            </button>
+            <button
+              onClick={handleImport}
+              disabled={selected.length !== size}
+              className="btn-primary disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </FocusTrap>
+  );
+}
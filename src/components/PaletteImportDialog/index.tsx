@@ -0,0 +1 @@
+export { PaletteImportDialog } from './PaletteImportDialog';
@@ -0,0 +1,141 @@
+import { useCallback, useId, useRef } from 'react';
+import {
+  useAppStore,
+  useAudioTrackFile,
+  useAudioTrackMode,
+  useAudioTrackOffset,
+  useAudioTrackGain,
+  useAudioTrackFadeIn,
+  useAudioTrackFadeOut,
+} from '../../state/store';
+import { SliderControl } from '../common/SliderControl';
+import { SLIDERS } from '../../constants/ui';
+import type { AudioTrackMode } from '../../audio/audioTrack';
+
+const AUDIO_TRACK_MODE_OPTIONS: { value: AudioTrackMode; label: string }[] = [
+  { value: 'replace', label: 'Replace video audio' },
+  { value: 'mix', label: 'Mix with video audio' },
+];
+
+const AUDIO_TRACK_FILE_ACCEPT = '.wav,.mp3,.ogg,audio/wav,audio/mpeg,audio/ogg';
+
+export function AudioTrackPicker() {
+  const audioTrackFile = useAudioTrackFile();
+  const audioTrackMode = useAudioTrackMode();
+  const audioTrackOffset = useAudioTrackOffset();
+  const audioTrackGain = useAudioTrackGain();
+  const audioTrackFadeIn = useAudioTrackFadeIn();
+  const audioTrackFadeOut = useAudioTrackFadeOut();
+  const setAudioTrackFile = useAppStore((s) => s.setAudioTrackFile);
+  const setAudioTrackMode = useAppStore((s) => s.setAudioTrackMode);
+  const setAudioTrackOffset = useAppStore((s) => s.setAudioTrackOffset);
+  const setAudioTrackGain = useAppStore((s) => s.setAudioTrackGain);
+  const setAudioTrackFadeIn = useAppStore((s) => s.setAudioTrackFadeIn);
+  const setAudioTrackFadeOut = useAppStore((s) => s.setAudioTrackFadeOut);
+
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const modeId = useId();
+
+  const handleLoadFile = useCallback((e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so selecting the same file again still triggers change.
+    e.target.value = '';
+    if (!file) return;
+
+    if (audioTrackFile) {
+      URL.revokeObjectURL(audioTrackFile.url);
+    }
+    setAudioTrackFile({ url: URL.createObjectURL(file), name: file.name });
+  }, [audioTrackFile, setAudioTrackFile]);
+
+  const handleRemove = useCallback(() => {
+    if (audioTrackFile) {
+      URL.revokeObjectURL(audioTrackFile.url);
+    }
+    setAudioTrackFile(null);
+  }, [audioTrackFile, setAudioTrackFile]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <button onClick={() => fileInputRef.current?.click()} className="btn-secondary flex-1 text-xs px-2 py-1">
+          {audioTrackFile ? 'Change Track…' : 'Load Audio Track…'}
+        </button>
+        {audioTrackFile && (
+          <button onClick={handleRemove} className="btn-secondary text-xs px-2 py-1" aria-label="Remove audio track">
+            Remove
+          </button>
+        )}
+      </div>
+
+      {audioTrackFile ? (
+        <>
+          <p className="text-xs text-neutral-500 truncate" title={audioTrackFile.name}>{audioTrackFile.name}</p>
+          <div>
+            <label htmlFor={modeId} className="block text-sm text-neutral-300 mb-1">
+              Track
+            </label>
+            <select
+              id={modeId}
+              value={audioTrackMode}
+              onChange={(e) => setAudioTrackMode(e.target.value as AudioTrackMode)}
+              className="w-full bg-neutral-800 text-sm rounded px-2 py-1.5 border border-neutral-700 focus:border-gb-light focus:outline-none focus-visible:ring-2 focus-visible:ring-gb-light focus-visible:ring-offset-1 focus-visible:ring-offset-neutral-900"
+            >
+              {AUDIO_TRACK_MODE_OPTIONS.map((opt) => (
+                <option key={opt.value} value={opt.value}>
+                  {opt.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <SliderControl
+            label="Offset"
+            value={audioTrackOffset}
+            min={SLIDERS.AUDIO_TRACK_OFFSET.MIN}
+            max={SLIDERS.AUDIO_TRACK_OFFSET.MAX}
+            step={SLIDERS.AUDIO_TRACK_OFFSET.STEP}
+            onChange={(v) => setAudioTrackOffset(Math.round(v * 10) / 10)}
+            displayValue={`${audioTrackOffset.toFixed(1)} s`}
+          />
+          <SliderControl
+            label="Track Gain"
+            value={audioTrackGain}
+            min={SLIDERS.AUDIO_TRACK_GAIN.MIN}
+            max={SLIDERS.AUDIO_TRACK_GAIN.MAX}
+            step={SLIDERS.AUDIO_TRACK_GAIN.STEP}
+            onChange={setAudioTrackGain}
+            displayValue={`${audioTrackGain > 0 ? '+' : ''}${audioTrackGain} dB`}
+          />
+          <SliderControl
+            label="Fade In"
+            value={audioTrackFadeIn}
+            min={SLIDERS.AUDIO_TRACK_FADE.MIN}
+            max={SLIDERS.AUDIO_TRACK_FADE.MAX}
+            step={SLIDERS.AUDIO_TRACK_FADE.STEP}
+            onChange={(v) => setAudioTrackFadeIn(Math.round(v * 10) / 10)}
+            displayValue={`${audioTrackFadeIn.toFixed(1)} s`}
+          />
+          <SliderControl
+            label="Fade Out"
+            value={audioTrackFadeOut}
+            min={SLIDERS.AUDIO_TRACK_FADE.MIN}
+            max={SLIDERS.AUDIO_TRACK_FADE.MAX}
+            step={SLIDERS.AUDIO_TRACK_FADE.STEP}
+            onChange={(v) => setAudioTrackFadeOut(Math.round(v * 10) / 10)}
+            displayValue={`${audioTrackFadeOut.toFixed(1)} s`}
+          />
+        </>
+      ) : (
+        <p className="text-xs text-neutral-500">WAV, MP3 or OGG to replace or mix with the video audio.</p>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={AUDIO_TRACK_FILE_ACCEPT}
+        className="hidden"
+        onChange={handleLoadFile}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,91 @@
+import { useCallback, useId, useRef, useState } from 'react';
+import { useAppStore, useFrameBorder, useCustomFrameBorder } from '../../state/store';
+import { loadFrameBorderFile, type FrameBorderName } from '../../processing/frameBorder';
+
+const FRAME_BORDER_OPTIONS: { value: FrameBorderName; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'dmgBezel', label: 'DMG-01 Bezel' },
+  { value: 'superGameBoy', label: 'Super Game Boy' },
+  { value: 'custom', label: 'Custom PNG…' },
+];
+
+const FRAME_BORDER_FILE_ACCEPT = '.png';
+
+export function FrameBorderPicker() {
+  const frameBorder = useFrameBorder();
+  const customFrameBorder = useCustomFrameBorder();
+  const setFrameBorder = useAppStore((s) => s.setFrameBorder);
+  const setCustomFrameBorder = useAppStore((s) => s.setCustomFrameBorder);
+
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const borderId = useId();
+
+  const handleBorderChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    setFrameBorder(e.target.value as FrameBorderName);
+  }, [setFrameBorder]);
+
+  const handleLoadFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so selecting the same file again still triggers change.
+    e.target.value = '';
+    if (!file) return;
+
+    setLoadError(null);
+    try {
+      setCustomFrameBorder(await loadFrameBorderFile(file));
+      setFrameBorder('custom');
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Failed to load border image');
+    }
+  }, [setCustomFrameBorder, setFrameBorder]);
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <label htmlFor={borderId} className="block text-sm text-neutral-300 mb-1">
+          Border
+        </label>
+        <select
+          id={borderId}
+          value={frameBorder}
+          onChange={handleBorderChange}
+          aria-label="Frame border"
+          className="w-full bg-neutral-800 text-sm rounded px-2 py-1.5 border border-neutral-700 focus:border-gb-light focus:outline-none focus-visible:ring-2 focus-visible:ring-gb-light focus-visible:ring-offset-1 focus-visible:ring-offset-neutral-900"
+        >
+          {FRAME_BORDER_OPTIONS.map((opt) => (
+            <option key={opt.value} value={opt.value}>
+              {opt.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {frameBorder === 'custom' && (
+        <>
+          <button onClick={() => fileInputRef.current?.click()} className="btn-secondary w-full text-xs px-2 py-1">
+            Load PNG…
+          </button>
+          <p className="text-xs text-neutral-500">
+            {customFrameBorder
+              ? `Custom ${customFrameBorder.width}×${customFrameBorder.height} border, ` +
+                `${customFrameBorder.window.width}×${customFrameBorder.window.height} screen.`
+              : 'No border loaded yet. The transparent area of the PNG becomes the screen.'}
+          </p>
+        </>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={FRAME_BORDER_FILE_ACCEPT}
+        className="hidden"
+        onChange={handleLoadFile}
+      />
+
+      {loadError && (
+        <p className="text-xs text-red-400" role="alert">{loadError}</p>
+      )}
+    </div>
+  );
+}
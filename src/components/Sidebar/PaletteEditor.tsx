@@ -0,0 +1,217 @@
+import { useCallback, useEffect, useId, useRef, useState } from 'react';
+import { useAppStore, usePalette, useCustomPalettes } from '../../state/store';
+import {
+  PALETTE_SIZES,
+  getPalette,
+  hexToPaletteColor,
+  paletteColorToHex,
+  type Palette,
+  type PaletteSize,
+} from '../../palettes';
+import {
+  PALETTE_FILE_EXTENSIONS,
+  autoReducePalette,
+  needsColorSelection,
+  parsePaletteFile,
+  type ImportedPalette,
+} from '../../palettes/import';
+import { PaletteImportDialog } from '../PaletteImportDialog';
+
+const PALETTE_FILE_ACCEPT = PALETTE_FILE_EXTENSIONS.map((ext) => `.${ext}`).join(',');
+
+export function PaletteEditor() {
+  const palette = usePalette();
+  const customPalettes = useCustomPalettes();
+  const createCustomPalette = useAppStore((s) => s.createCustomPalette);
+  const duplicatePalette = useAppStore((s) => s.duplicatePalette);
+  const renameCustomPalette = useAppStore((s) => s.renameCustomPalette);
+  const updateCustomPaletteColor = useAppStore((s) => s.updateCustomPaletteColor);
+  const resizeCustomPalette = useAppStore((s) => s.resizeCustomPalette);
+  const deleteCustomPalette = useAppStore((s) => s.deleteCustomPalette);
+
+  const customPalette = customPalettes.find((p) => p.id === palette);
+  const colors = customPalette?.colors ?? getPalette(palette);
+  const isEditable = Boolean(customPalette);
+
+  const [draftName, setDraftName] = useState(customPalette?.name ?? '');
+  const [pendingImport, setPendingImport] = useState<ImportedPalette | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const sizeId = useId();
+
+  useEffect(() => {
+    setDraftName(customPalette?.name ?? '');
+  }, [customPalette?.id, customPalette?.name]);
+
+  const handleNew = useCallback(() => {
+    createCustomPalette(`Custom ${customPalettes.length + 1}`, getPalette(palette));
+  }, [createCustomPalette, customPalettes.length, palette]);
+
+  const handleDuplicate = useCallback(() => {
+    duplicatePalette(palette);
+  }, [duplicatePalette, palette]);
+
+  const handleDelete = useCallback(() => {
+    if (customPalette) {
+      deleteCustomPalette(customPalette.id);
+    }
+  }, [customPalette, deleteCustomPalette]);
+
+  const handleSizeChange = useCallback((size: PaletteSize) => {
+    if (customPalette) {
+      resizeCustomPalette(customPalette.id, size);
+    }
+  }, [customPalette, resizeCustomPalette]);
+
+  const handleImportFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so selecting the same file again still triggers change.
+    e.target.value = '';
+    if (!file) return;
+
+    setImportError(null);
+    setImportWarnings([]);
+    try {
+      const imported = parsePaletteFile(file.name, await file.text());
+      setImportWarnings(imported.warnings);
+      if (needsColorSelection(imported)) {
+        setPendingImport(imported);
+      } else {
+        createCustomPalette(imported.name, autoReducePalette(imported.colors));
+      }
+    } catch (error) {
+      setImportError(error instanceof Error ? error.message : 'Failed to import palette');
+    }
+  }, [createCustomPalette]);
+
+  const handleConfirmImport = useCallback((name: string, importedColors: Palette) => {
+    createCustomPalette(name, importedColors);
+    setPendingImport(null);
+  }, [createCustomPalette]);
+
+  const handleCancelImport = useCallback(() => {
+    setPendingImport(null);
+  }, []);
+
+  const commitName = useCallback(() => {
+    if (!customPalette) return;
+    const trimmed = draftName.trim();
+    if (trimmed.length === 0) {
+      setDraftName(customPalette.name);
+      return;
+    }
+    if (trimmed !== customPalette.name) {
+      renameCustomPalette(customPalette.id, trimmed);
+    }
+  }, [customPalette, draftName, renameCustomPalette]);
+
+  const handleColorChange = useCallback((index: number, hex: string) => {
+    if (!customPalette) return;
+    const color = hexToPaletteColor(hex);
+    if (color) {
+      updateCustomPaletteColor(customPalette.id, index, color);
+    }
+  }, [customPalette, updateCustomPaletteColor]);
+
+  return (
+    <div className="space-y-2">
+      {isEditable && (
+        <input
+          type="text"
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onBlur={commitName}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.currentTarget.blur();
+            }
+          }}
+          aria-label="Palette name"
+          maxLength={40}
+          className="w-full bg-neutral-800 text-sm rounded px-2 py-1.5 border border-neutral-700 focus:border-gb-light focus:outline-none focus-visible:ring-2 focus-visible:ring-gb-light focus-visible:ring-offset-1 focus-visible:ring-offset-neutral-900"
+        />
+      )}
+
+      <div className="flex items-center justify-between gap-2">
+        <label htmlFor={sizeId} className="text-xs text-neutral-400">Colors</label>
+        <select
+          id={sizeId}
+          value={colors.length}
+          onChange={(e) => handleSizeChange(Number(e.target.value) as PaletteSize)}
+          disabled={!isEditable}
+          className="bg-neutral-800 text-xs rounded px-2 py-1 border border-neutral-700 focus:border-gb-light focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {PALETTE_SIZES.map((size) => (
+            <option key={size} value={size}>{size}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex gap-1">
+        {colors.map((color, index) => (
+          <label
+            key={index}
+            className={`flex-1 min-w-0 h-6 rounded border border-neutral-700 overflow-hidden ${isEditable ? 'cursor-pointer' : ''}`}
+            style={{ backgroundColor: paletteColorToHex(color) }}
+            title={isEditable ? `Edit color ${index + 1}` : paletteColorToHex(color)}
+          >
+            {isEditable && (
+              <input
+                type="color"
+                value={paletteColorToHex(color)}
+                onChange={(e) => handleColorChange(index, e.target.value)}
+                aria-label={`Palette color ${index + 1}`}
+                className="sr-only"
+              />
+            )}
+          </label>
+        ))}
+      </div>
+
+      <div className="flex gap-1">
+        <button onClick={handleNew} className="btn-secondary flex-1 text-xs px-2 py-1">
+          New
+        </button>
+        <button onClick={handleDuplicate} className="btn-secondary flex-1 text-xs px-2 py-1">
+          Duplicate
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className="btn-secondary flex-1 text-xs px-2 py-1">
+          Import
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={!isEditable}
+          className="btn-secondary flex-1 text-xs px-2 py-1 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Delete
+        </button>
+      </div>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={PALETTE_FILE_ACCEPT}
+        className="hidden"
+        onChange={handleImportFile}
+      />
+
+      {importError && (
+        <p className="text-xs text-red-400" role="alert">{importError}</p>
+      )}
+      {importWarnings.map((warning) => (
+        <p key={warning} className="text-xs text-amber-400">{warning}</p>
+      ))}
+
+      {!isEditable && (
+        <p className="text-xs text-neutral-500">Duplicate a built-in palette to edit its colors.</p>
+      )}
+
+      <PaletteImportDialog
+        palette={pendingImport}
+        onClose={handleCancelImport}
+        onImport={handleConfirmImport}
+      />
+    </div>
+  );
+}
@@ -4,41 +4,89 @@ import {
   useContrast,
   useCameraResponse,
   useDitherMode,
+  useProcessingResolution,
   usePalette,
   useInvertPalette,
+  useColorMetric,
+  useSerpentineDither,
+  useErrorDiffusionBackend,
+  useTemporalCoherence,
+  useTemporalThreshold,
+  useCustomPalettes,
   useVideoInfo,
   useTargetFps,
+  useAudioMode,
   useAudioHighpass,
   useAudioLowpass,
   useAudioBitDepth,
   useAudioDistortion,
+  useAudioCrushRate,
+  useAudioResonance,
+  useAudioMono,
+  useAudioNoise,
+  useAudioLimiter,
   useLcdGridIntensity,
   useLcdShadowOpacity,
   useLcdGhostingStrength,
   useLcdBaselineAlpha,
   useEnableLcdEffects,
 } from '../../state/store';
-import { PALETTE_NAMES, type PaletteName } from '../../palettes';
-import type { DitherMode } from '../../state/store';
+import { PALETTE_NAMES, BUILTIN_PALETTE_LABELS, type PaletteName } from '../../palettes';
+import type { ColorMetric, DitherMode } from '../../state/store';
+import type { AudioMode } from '../../audio/GameBoyAudioProcessor';
 import { Toggle } from '../common/Toggle';
 import { SliderControl } from '../common/SliderControl';
+import { PaletteEditor } from './PaletteEditor';
+import { ThresholdMatrixPicker } from './ThresholdMatrixPicker';
+import { FrameBorderPicker } from './FrameBorderPicker';
+import { AudioTrackPicker } from './AudioTrackPicker';
 import { SLIDERS } from '../../constants/ui';
+import { CUSTOM_PROCESSING_SIZE, GBCAM_SENSOR_HEIGHT, GBCAM_SENSOR_WIDTH } from '../../constants';
+import type { ProcessingPreset, ResizePolicy } from '../../utils';
+import { isErrorDiffusionMode } from '../../processing/dither/errorDiffusion';
 
 const DITHER_OPTIONS: { value: DitherMode; label: string }[] = [
   { value: 'none', label: 'None' },
   { value: 'bayer2x2', label: 'Bayer 2×2' },
   { value: 'bayer4x4', label: 'Bayer 4×4' },
   { value: 'floydSteinberg', label: 'Floyd-Steinberg' },
+  { value: 'atkinson', label: 'Atkinson' },
+  { value: 'jarvisJudiceNinke', label: 'Jarvis-Judice-Ninke' },
+  { value: 'stucki', label: 'Stucki' },
+  { value: 'burkes', label: 'Burkes' },
+  { value: 'sierra', label: 'Sierra' },
+  { value: 'thresholdMatrix', label: 'Threshold Matrix' },
   { value: 'gameBoyCamera', label: 'Game Boy Camera' },
+  { value: 'gameBoyColor', label: 'Game Boy Color' },
 ];
 
-const PALETTE_LABELS: Record<PaletteName, string> = {
-  '1989Green': '1989 Green',
-  'PocketGrey': 'Pocket Grey',
-  'MidnightBlue': 'Midnight Blue',
-  'HighContrastBW': 'High Contrast B&W',
-  'RedBlack': 'Red & Black',
-};
+const AUDIO_MODE_OPTIONS: { value: AudioMode; label: string }[] = [
+  { value: 'speaker', label: 'DMG speaker (filter + crush)' },
+  { value: 'apu', label: 'APU resynthesis (chiptune)' },
+];
+
+const COLOR_METRIC_OPTIONS: { value: ColorMetric; label: string }[] = [
+  { value: 'luminance', label: 'Luminance (grayscale ramp)' },
+  { value: 'rgb', label: 'RGB' },
+  { value: 'weightedRgb', label: 'Weighted RGB' },
+  { value: 'cielab', label: 'CIELAB ΔE' },
+  { value: 'oklab', label: 'OKLab' },
+];
+
+const PROCESSING_PRESET_OPTIONS: { value: ProcessingPreset; label: string }[] = [
+  { value: 'auto', label: 'Auto (144p, source aspect)' },
+  { value: 'dmg', label: 'Game Boy 160×144' },
+  { value: 'gba', label: 'Game Boy Advance 240×160' },
+  { value: 'pico8', label: 'Pocket / PICO-8 128×128' },
+  { value: 'nes', label: 'NES 256×240' },
+  { value: 'custom', label: 'Custom' },
+];
+
+const RESIZE_POLICY_OPTIONS: { value: ResizePolicy; label: string }[] = [
+  { value: 'fill', label: 'Fill (crop)' },
+  { value: 'fit', label: 'Fit (letterbox)' },
+  { value: 'stretch', label: 'Stretch' },
+];
 
 function SectionHeader({ children }: { children: React.ReactNode }) {
   return (
@@ -58,15 +106,28 @@ export function Sidebar({ onImportClick, onExportClick }: SidebarProps) {
   const contrast = useContrast();
   const cameraResponse = useCameraResponse();
   const ditherMode = useDitherMode();
+  const processingResolution = useProcessingResolution();
   const palette = usePalette();
   const invertPalette = useInvertPalette();
+  const colorMetric = useColorMetric();
+  const serpentineDither = useSerpentineDither();
+  const errorDiffusionBackend = useErrorDiffusionBackend();
+  const temporalCoherence = useTemporalCoherence();
+  const temporalThreshold = useTemporalThreshold();
+  const customPalettes = useCustomPalettes();
   const targetFps = useTargetFps();
   const enableAudioBitcrush = useAppStore((s) => s.enableAudioBitcrush);
 
+  const audioMode = useAudioMode();
   const audioHighpass = useAudioHighpass();
   const audioLowpass = useAudioLowpass();
   const audioBitDepth = useAudioBitDepth();
   const audioDistortion = useAudioDistortion();
+  const audioCrushRate = useAudioCrushRate();
+  const audioResonance = useAudioResonance();
+  const audioMono = useAudioMono();
+  const audioNoise = useAudioNoise();
+  const audioLimiter = useAudioLimiter();
 
   // LCD effect settings
   const lcdGridIntensity = useLcdGridIntensity();
@@ -78,14 +139,26 @@ export function Sidebar({ onImportClick, onExportClick }: SidebarProps) {
   const setContrast = useAppStore((s) => s.setContrast);
   const setCameraResponse = useAppStore((s) => s.setCameraResponse);
   const setDitherMode = useAppStore((s) => s.setDitherMode);
+  const setProcessingResolution = useAppStore((s) => s.setProcessingResolution);
   const setPalette = useAppStore((s) => s.setPalette);
   const setInvertPalette = useAppStore((s) => s.setInvertPalette);
+  const setColorMetric = useAppStore((s) => s.setColorMetric);
+  const setSerpentineDither = useAppStore((s) => s.setSerpentineDither);
+  const setErrorDiffusionBackend = useAppStore((s) => s.setErrorDiffusionBackend);
+  const setTemporalCoherence = useAppStore((s) => s.setTemporalCoherence);
+  const setTemporalThreshold = useAppStore((s) => s.setTemporalThreshold);
   const setTargetFps = useAppStore((s) => s.setTargetFps);
   const setEnableAudioBitcrush = useAppStore((s) => s.setEnableAudioBitcrush);
+  const setAudioMode = useAppStore((s) => s.setAudioMode);
   const setAudioHighpass = useAppStore((s) => s.setAudioHighpass);
   const setAudioLowpass = useAppStore((s) => s.setAudioLowpass);
   const setAudioBitDepth = useAppStore((s) => s.setAudioBitDepth);
   const setAudioDistortion = useAppStore((s) => s.setAudioDistortion);
+  const setAudioCrushRate = useAppStore((s) => s.setAudioCrushRate);
+  const setAudioResonance = useAppStore((s) => s.setAudioResonance);
+  const setAudioMono = useAppStore((s) => s.setAudioMono);
+  const setAudioNoise = useAppStore((s) => s.setAudioNoise);
+  const setAudioLimiter = useAppStore((s) => s.setAudioLimiter);
   const setLcdGridIntensity = useAppStore((s) => s.setLcdGridIntensity);
   const setLcdShadowOpacity = useAppStore((s) => s.setLcdShadowOpacity);
   const setLcdGhostingStrength = useAppStore((s) => s.setLcdGhostingStrength);
@@ -93,12 +166,22 @@ export function Sidebar({ onImportClick, onExportClick }: SidebarProps) {
   const setEnableLcdEffects = useAppStore((s) => s.setEnableLcdEffects);
 
   const ditherId = useId();
+  const audioModeId = useId();
+  const presetId = useId();
+  const policyId = useId();
+  const customWidthId = useId();
+  const customHeightId = useId();
   const paletteId = useId();
+  const colorMetricId = useId();
 
   const handleDitherChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
     setDitherMode(e.target.value as DitherMode);
   }, [setDitherMode]);
 
+  const handleColorMetricChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    setColorMetric(e.target.value as ColorMetric);
+  }, [setColorMetric]);
+
   const handlePaletteChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
     setPalette(e.target.value as PaletteName);
   }, [setPalette]);
@@ -150,6 +233,82 @@ export function Sidebar({ onImportClick, onExportClick }: SidebarProps) {
                   onChange={(v) => setTargetFps(Math.round(v))}
                   displayValue={`${targetFps} FPS`}
                 />
+                {ditherMode === 'gameBoyCamera' ? (
+                  <p className="text-xs text-neutral-500">
+                    Game Boy Camera mode always uses the {GBCAM_SENSOR_WIDTH}×{GBCAM_SENSOR_HEIGHT} sensor.
+                  </p>
+                ) : (
+                  <>
+                    <div>
+                      <label htmlFor={presetId} className="block text-sm text-neutral-300 mb-1">
+                        Resolution
+                      </label>
+                      <select
+                        id={presetId}
+                        value={processingResolution.preset}
+                        onChange={(e) => setProcessingResolution({ preset: e.target.value as ProcessingPreset })}
+                        className="w-full bg-neutral-800 text-sm rounded px-2 py-1.5 border border-neutral-700 focus:border-gb-light focus:outline-none focus-visible:ring-2 focus-visible:ring-gb-light focus-visible:ring-offset-1 focus-visible:ring-offset-neutral-900"
+                      >
+                        {PROCESSING_PRESET_OPTIONS.map((opt) => (
+                          <option key={opt.value} value={opt.value}>
+                            {opt.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {processingResolution.preset === 'custom' && (
+                      <div className="grid grid-cols-2 gap-2">
+                        <div>
+                          <label htmlFor={customWidthId} className="block text-xs text-neutral-400 mb-1">
+                            Width
+                          </label>
+                          <input
+                            id={customWidthId}
+                            type="number"
+                            min={CUSTOM_PROCESSING_SIZE.MIN}
+                            max={CUSTOM_PROCESSING_SIZE.MAX}
+                            value={processingResolution.customWidth}
+                            onChange={(e) => setProcessingResolution({ customWidth: Number(e.target.value) || CUSTOM_PROCESSING_SIZE.MIN })}
+                            className="w-full bg-neutral-800 text-sm rounded px-2 py-1.5 border border-neutral-700 focus:border-gb-light focus:outline-none focus-visible:ring-2 focus-visible:ring-gb-light focus-visible:ring-offset-1 focus-visible:ring-offset-neutral-900"
+                          />
+                        </div>
+                        <div>
+                          <label htmlFor={customHeightId} className="block text-xs text-neutral-400 mb-1">
+                            Height
+                          </label>
+                          <input
+                            id={customHeightId}
+                            type="number"
+                            min={CUSTOM_PROCESSING_SIZE.MIN}
+                            max={CUSTOM_PROCESSING_SIZE.MAX}
+                            value={processingResolution.customHeight}
+                            onChange={(e) => setProcessingResolution({ customHeight: Number(e.target.value) || CUSTOM_PROCESSING_SIZE.MIN })}
+                            className="w-full bg-neutral-800 text-sm rounded px-2 py-1.5 border border-neutral-700 focus:border-gb-light focus:outline-none focus-visible:ring-2 focus-visible:ring-gb-light focus-visible:ring-offset-1 focus-visible:ring-offset-neutral-900"
+                          />
+                        </div>
+                      </div>
+                    )}
+                    {processingResolution.preset !== 'auto' && (
+                      <div>
+                        <label htmlFor={policyId} className="block text-sm text-neutral-300 mb-1">
+                          Aspect
+                        </label>
+                        <select
+                          id={policyId}
+                          value={processingResolution.policy}
+                          onChange={(e) => setProcessingResolution({ policy: e.target.value as ResizePolicy })}
+                          className="w-full bg-neutral-800 text-sm rounded px-2 py-1.5 border border-neutral-700 focus:border-gb-light focus:outline-none focus-visible:ring-2 focus-visible:ring-gb-light focus-visible:ring-offset-1 focus-visible:ring-offset-neutral-900"
+                        >
+                          {RESIZE_POLICY_OPTIONS.map((opt) => (
+                            <option key={opt.value} value={opt.value}>
+                              {opt.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+                  </>
+                )}
               </div>
             </section>
 
@@ -176,30 +335,115 @@ export function Sidebar({ onImportClick, onExportClick }: SidebarProps) {
                   </select>
                 </div>
 
-                <div>
-                  <label htmlFor={paletteId} className="block text-sm text-neutral-300 mb-1">
-                    Palette
-                  </label>
-                  <select
-                    id={paletteId}
-                    value={palette}
-                    onChange={handlePaletteChange}
-                    aria-label="Color palette"
-                    className="w-full bg-neutral-800 text-sm rounded px-2 py-1.5 border border-neutral-700 focus:border-gb-light focus:outline-none focus-visible:ring-2 focus-visible:ring-gb-light focus-visible:ring-offset-1 focus-visible:ring-offset-neutral-900"
-                  >
-                    {PALETTE_NAMES.map((name) => (
-                      <option key={name} value={name}>
-                        {PALETTE_LABELS[name]}
-                      </option>
-                    ))}
-                  </select>
-                </div>
+                {isErrorDiffusionMode(ditherMode) && (
+                  <>
+                    <Toggle
+                      checked={serpentineDither}
+                      onChange={setSerpentineDither}
+                      label="Serpentine Scan"
+                    />
+                    <Toggle
+                      checked={errorDiffusionBackend === 'cpu'}
+                      onChange={(enabled) => setErrorDiffusionBackend(enabled ? 'cpu' : 'gpu')}
+                      label="CPU Reference"
+                    />
+                    {(errorDiffusionBackend === 'cpu' || serpentineDither) && (
+                      <p className="text-xs text-neutral-500">
+                        Preview uses Bayer 4×4; the exact result is applied on export.
+                      </p>
+                    )}
+                  </>
+                )}
 
-                <Toggle
-                  checked={invertPalette}
-                  onChange={setInvertPalette}
-                  label="Invert Palette"
-                />
+                {ditherMode === 'thresholdMatrix' && <ThresholdMatrixPicker />}
+
+                {ditherMode !== 'gameBoyColor' && (
+                  <>
+                    <Toggle
+                      checked={temporalCoherence}
+                      onChange={setTemporalCoherence}
+                      label="Reduce Flicker"
+                    />
+                    {temporalCoherence && (
+                      <SliderControl
+                        label="Flicker Threshold"
+                        value={temporalThreshold}
+                        min={SLIDERS.TEMPORAL_THRESHOLD.MIN}
+                        max={SLIDERS.TEMPORAL_THRESHOLD.MAX}
+                        step={SLIDERS.TEMPORAL_THRESHOLD.STEP}
+                        onChange={setTemporalThreshold}
+                        displayValue={`${Math.round(temporalThreshold * 100)}%`}
+                      />
+                    )}
+                  </>
+                )}
+
+                {ditherMode === 'gameBoyColor' ? (
+                  <p className="text-xs text-neutral-500">
+                    Game Boy Color mode keeps full colour: RGB555 with 4 colors per 8×8 tile. Palettes don't apply.
+                  </p>
+                ) : (
+                  <>
+                    <div>
+                      <label htmlFor={paletteId} className="block text-sm text-neutral-300 mb-1">
+                        Palette
+                      </label>
+                      <select
+                        id={paletteId}
+                        value={palette}
+                        onChange={handlePaletteChange}
+                        aria-label="Color palette"
+                        className="w-full bg-neutral-800 text-sm rounded px-2 py-1.5 border border-neutral-700 focus:border-gb-light focus:outline-none focus-visible:ring-2 focus-visible:ring-gb-light focus-visible:ring-offset-1 focus-visible:ring-offset-neutral-900"
+                      >
+                        <optgroup label="Built-in">
+                          {PALETTE_NAMES.map((name) => (
+                            <option key={name} value={name}>
+                              {BUILTIN_PALETTE_LABELS[name]}
+                            </option>
+                          ))}
+                        </optgroup>
+                        {customPalettes.length > 0 && (
+                          <optgroup label="Custom">
+                            {customPalettes.map((custom) => (
+                              <option key={custom.id} value={custom.id}>
+                                {custom.name}
+                              </option>
+                            ))}
+                          </optgroup>
+                        )}
+                      </select>
+                    </div>
+
+                    <PaletteEditor />
+
+                    {ditherMode !== 'gameBoyCamera' && (
+                      <div>
+                        <label htmlFor={colorMetricId} className="block text-sm text-neutral-300 mb-1">
+                          Color Matching
+                        </label>
+                        <select
+                          id={colorMetricId}
+                          value={colorMetric}
+                          onChange={handleColorMetricChange}
+                          aria-label="Color matching metric"
+                          className="w-full bg-neutral-800 text-sm rounded px-2 py-1.5 border border-neutral-700 focus:border-gb-light focus:outline-none focus-visible:ring-2 focus-visible:ring-gb-light focus-visible:ring-offset-1 focus-visible:ring-offset-neutral-900"
+                        >
+                          {COLOR_METRIC_OPTIONS.map((opt) => (
+                            <option key={opt.value} value={opt.value}>
+                              {opt.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+                    )}
+
+                    <Toggle
+                      checked={invertPalette}
+                      onChange={setInvertPalette}
+                      label="Invert Palette"
+                    />
+                  </>
+                )}
               </div>
             </section>
 
@@ -256,6 +500,12 @@ export function Sidebar({ onImportClick, onExportClick }: SidebarProps) {
               </div>
             </section>
 
+            {/* Frame Border */}
+            <section>
+              <SectionHeader>Frame</SectionHeader>
+              <FrameBorderPicker />
+            </section>
+
             {/* Audio Settings */}
             <section>
               <SectionHeader>Audio</SectionHeader>
@@ -268,44 +518,118 @@ export function Sidebar({ onImportClick, onExportClick }: SidebarProps) {
 
                 {enableAudioBitcrush && (
                   <div className="space-y-4 mt-3 pt-3 border-t border-neutral-800">
-                    <SliderControl
-                      label="Low Cut"
-                      value={audioHighpass}
-                      min={SLIDERS.AUDIO_HIGHPASS.MIN}
-                      max={SLIDERS.AUDIO_HIGHPASS.MAX}
-                      step={SLIDERS.AUDIO_HIGHPASS.STEP}
-                      onChange={(v) => setAudioHighpass(Math.round(v))}
-                      displayValue={`${audioHighpass} Hz`}
-                    />
-                    <SliderControl
-                      label="Brightness"
-                      value={audioLowpass}
-                      min={SLIDERS.AUDIO_LOWPASS.MIN}
-                      max={SLIDERS.AUDIO_LOWPASS.MAX}
-                      step={SLIDERS.AUDIO_LOWPASS.STEP}
-                      onChange={(v) => setAudioLowpass(Math.round(v))}
-                      displayValue={`${audioLowpass} Hz`}
-                    />
-                    <SliderControl
-                      label="Crunch"
-                      value={audioBitDepth}
-                      min={SLIDERS.AUDIO_BIT_DEPTH.MIN}
-                      max={SLIDERS.AUDIO_BIT_DEPTH.MAX}
-                      step={SLIDERS.AUDIO_BIT_DEPTH.STEP}
-                      onChange={(v) => setAudioBitDepth(Math.round(v))}
-                      displayValue={`${audioBitDepth}-bit`}
-                    />
-                    <SliderControl
-                      label="Distort"
-                      value={audioDistortion}
-                      min={SLIDERS.AUDIO_DISTORTION.MIN}
-                      max={SLIDERS.AUDIO_DISTORTION.MAX}
-                      step={SLIDERS.AUDIO_DISTORTION.STEP}
-                      onChange={(v) => setAudioDistortion(Math.round(v))}
-                      displayValue={`${audioDistortion}%`}
-                    />
+                    <div>
+                      <label htmlFor={audioModeId} className="block text-sm text-neutral-300 mb-1">
+                        Sound
+                      </label>
+                      <select
+                        id={audioModeId}
+                        value={audioMode}
+                        onChange={(e) => setAudioMode(e.target.value as AudioMode)}
+                        className="w-full bg-neutral-800 text-sm rounded px-2 py-1.5 border border-neutral-700 focus:border-gb-light focus:outline-none focus-visible:ring-2 focus-visible:ring-gb-light focus-visible:ring-offset-1 focus-visible:ring-offset-neutral-900"
+                      >
+                        {AUDIO_MODE_OPTIONS.map((opt) => (
+                          <option key={opt.value} value={opt.value}>
+                            {opt.label}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    {audioMode === 'apu' ? (
+                      <p className="text-xs text-neutral-500">
+                        Pitch-tracks the soundtrack onto two pulse channels, the wave channel and noise.
+                      </p>
+                    ) : (
+                      <>
+                        <SliderControl
+                          label="Low Cut"
+                          value={audioHighpass}
+                          min={SLIDERS.AUDIO_HIGHPASS.MIN}
+                          max={SLIDERS.AUDIO_HIGHPASS.MAX}
+                          step={SLIDERS.AUDIO_HIGHPASS.STEP}
+                          onChange={(v) => setAudioHighpass(Math.round(v))}
+                          displayValue={`${audioHighpass} Hz`}
+                        />
+                        <SliderControl
+                          label="Cone Resonance"
+                          value={audioResonance}
+                          min={SLIDERS.AUDIO_RESONANCE.MIN}
+                          max={SLIDERS.AUDIO_RESONANCE.MAX}
+                          step={SLIDERS.AUDIO_RESONANCE.STEP}
+                          onChange={(v) => setAudioResonance(Math.round(v))}
+                          displayValue={`+${audioResonance} dB`}
+                        />
+                        <SliderControl
+                          label="Brightness"
+                          value={audioLowpass}
+                          min={SLIDERS.AUDIO_LOWPASS.MIN}
+                          max={SLIDERS.AUDIO_LOWPASS.MAX}
+                          step={SLIDERS.AUDIO_LOWPASS.STEP}
+                          onChange={(v) => setAudioLowpass(Math.round(v))}
+                          displayValue={`${audioLowpass} Hz`}
+                        />
+                        <SliderControl
+                          label="Sample Rate"
+                          value={audioCrushRate}
+                          min={SLIDERS.AUDIO_CRUSH_RATE.MIN}
+                          max={SLIDERS.AUDIO_CRUSH_RATE.MAX}
+                          step={SLIDERS.AUDIO_CRUSH_RATE.STEP}
+                          onChange={(v) => setAudioCrushRate(Math.round(v))}
+                          displayValue={`${(audioCrushRate / 1000).toFixed(1)} kHz`}
+                        />
+                        <SliderControl
+                          label="Crunch"
+                          value={audioBitDepth}
+                          min={SLIDERS.AUDIO_BIT_DEPTH.MIN}
+                          max={SLIDERS.AUDIO_BIT_DEPTH.MAX}
+                          step={SLIDERS.AUDIO_BIT_DEPTH.STEP}
+                          onChange={(v) => setAudioBitDepth(Math.round(v))}
+                          displayValue={`${audioBitDepth}-bit`}
+                        />
+                        <SliderControl
+                          label="Distort"
+                          value={audioDistortion}
+                          min={SLIDERS.AUDIO_DISTORTION.MIN}
+                          max={SLIDERS.AUDIO_DISTORTION.MAX}
+                          step={SLIDERS.AUDIO_DISTORTION.STEP}
+                          onChange={(v) => setAudioDistortion(Math.round(v))}
+                          displayValue={`${audioDistortion}%`}
+                        />
+                        <SliderControl
+                          label="Mono"
+                          value={audioMono}
+                          min={SLIDERS.AUDIO_MONO.MIN}
+                          max={SLIDERS.AUDIO_MONO.MAX}
+                          step={SLIDERS.AUDIO_MONO.STEP}
+                          onChange={(v) => setAudioMono(Math.round(v))}
+                          displayValue={`${audioMono}%`}
+                        />
+                        <SliderControl
+                          label="Hiss"
+                          value={audioNoise}
+                          min={SLIDERS.AUDIO_NOISE.MIN}
+                          max={SLIDERS.AUDIO_NOISE.MAX}
+                          step={SLIDERS.AUDIO_NOISE.STEP}
+                          onChange={(v) => setAudioNoise(Math.round(v))}
+                          displayValue={`${audioNoise}%`}
+                        />
+                        <SliderControl
+                          label="Limiter"
+                          value={audioLimiter}
+                          min={SLIDERS.AUDIO_LIMITER.MIN}
+                          max={SLIDERS.AUDIO_LIMITER.MAX}
+                          step={SLIDERS.AUDIO_LIMITER.STEP}
+                          onChange={(v) => setAudioLimiter(Math.round(v))}
+                          displayValue={`${audioLimiter} dB`}
+                        />
+                      </>
+                    )}
                   </div>
                 )}
+
+                <div className="mt-3 pt-3 border-t border-neutral-800">
+                  <AudioTrackPicker />
+                </div>
               </div>
             </section>
           </>
@@ -0,0 +1,90 @@
+import { useCallback, useId, useRef, useState } from 'react';
+import { useAppStore, useThresholdMatrix, useCustomThresholdMatrix } from '../../state/store';
+import { loadThresholdMatrixFile, type ThresholdMatrixName } from '../../processing/dither/thresholdMatrix';
+
+const THRESHOLD_MATRIX_OPTIONS: { value: ThresholdMatrixName; label: string }[] = [
+  { value: 'bayer8x8', label: 'Bayer 8×8' },
+  { value: 'blueNoise', label: 'Blue Noise' },
+  { value: 'halftone', label: 'Halftone (clustered dot)' },
+  { value: 'custom', label: 'Custom…' },
+];
+
+const THRESHOLD_MATRIX_FILE_ACCEPT = '.png,.json';
+
+export function ThresholdMatrixPicker() {
+  const thresholdMatrix = useThresholdMatrix();
+  const customThresholdMatrix = useCustomThresholdMatrix();
+  const setThresholdMatrix = useAppStore((s) => s.setThresholdMatrix);
+  const setCustomThresholdMatrix = useAppStore((s) => s.setCustomThresholdMatrix);
+
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const matrixId = useId();
+
+  const handleMatrixChange = useCallback((e: React.ChangeEvent<HTMLSelectElement>) => {
+    setThresholdMatrix(e.target.value as ThresholdMatrixName);
+  }, [setThresholdMatrix]);
+
+  const handleLoadFile = useCallback(async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Reset so selecting the same file again still triggers change.
+    e.target.value = '';
+    if (!file) return;
+
+    setLoadError(null);
+    try {
+      setCustomThresholdMatrix(await loadThresholdMatrixFile(file));
+      setThresholdMatrix('custom');
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Failed to load threshold matrix');
+    }
+  }, [setCustomThresholdMatrix, setThresholdMatrix]);
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <label htmlFor={matrixId} className="block text-sm text-neutral-300 mb-1">
+          Threshold Matrix
+        </label>
+        <select
+          id={matrixId}
+          value={thresholdMatrix}
+          onChange={handleMatrixChange}
+          aria-label="Threshold matrix"
+          className="w-full bg-neutral-800 text-sm rounded px-2 py-1.5 border border-neutral-700 focus:border-gb-light focus:outline-none focus-visible:ring-2 focus-visible:ring-gb-light focus-visible:ring-offset-1 focus-visible:ring-offset-neutral-900"
+        >
+          {THRESHOLD_MATRIX_OPTIONS.map((opt) => (
+            <option key={opt.value} value={opt.value}>
+              {opt.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {thresholdMatrix === 'custom' && (
+        <>
+          <button onClick={() => fileInputRef.current?.click()} className="btn-secondary w-full text-xs px-2 py-1">
+            Load PNG or JSON…
+          </button>
+          <p className="text-xs text-neutral-500">
+            {customThresholdMatrix
+              ? `Custom ${customThresholdMatrix.width}×${customThresholdMatrix.height} matrix loaded.`
+              : 'No matrix loaded yet; using Bayer 8×8.'}
+          </p>
+        </>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept={THRESHOLD_MATRIX_FILE_ACCEPT}
+        className="hidden"
+        onChange={handleLoadFile}
+      />
+
+      {loadError && (
+        <p className="text-xs text-red-400" role="alert">{loadError}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useEffect, useRef } from 'react';
+import { useAppStore, useIsPlaying } from '../../state/store';
+import { TIMELINE } from '../../constants/ui';
+import { levelToDb, MIN_LEVEL_DB } from '../../audio/waveform';
+
+const { METER_PEAK_HOLD_MS, METER_PEAK_FALL_DB_PER_SEC } = TIMELINE;
+
+function dbToPercent(db: number): number {
+  return ((db - MIN_LEVEL_DB) / -MIN_LEVEL_DB) * 100;
+}
+
+/**
+ * Peak and RMS of the preview output while the video plays. Updated every
+ * animation frame through refs, so it never re-renders the timeline.
+ */
+export function AudioLevelMeter() {
+  const audioProcessor = useAppStore((s) => s.audioProcessor);
+  const isPlaying = useIsPlaying();
+  const rmsBarRef = useRef<HTMLDivElement>(null);
+  const peakBarRef = useRef<HTMLDivElement>(null);
+  const peakHoldRef = useRef<HTMLDivElement>(null);
+  const readoutRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    let heldDb = MIN_LEVEL_DB;
+    let heldAt = 0;
+    let lastFrame = performance.now();
+    let rafId: number | null = null;
+
+    const show = (peakDb: number, rmsDb: number) => {
+      if (rmsBarRef.current) rmsBarRef.current.style.width = `${dbToPercent(rmsDb)}%`;
+      if (peakBarRef.current) peakBarRef.current.style.width = `${dbToPercent(peakDb)}%`;
+      if (peakHoldRef.current) {
+        peakHoldRef.current.style.left = `${dbToPercent(heldDb)}%`;
+        peakHoldRef.current.style.opacity = heldDb > MIN_LEVEL_DB ? '1' : '0';
+      }
+      if (readoutRef.current) {
+        readoutRef.current.textContent = heldDb > MIN_LEVEL_DB ? `${heldDb.toFixed(1)} dB` : '-∞ dB';
+      }
+    };
+
+    const update = (now: number) => {
+      const levels = audioProcessor?.getOutputLevels();
+      const peakDb = levelToDb(levels?.peak ?? 0);
+      const rmsDb = levelToDb(levels?.rms ?? 0);
+
+      // Hold the highest peak, then let it fall
+      if (peakDb >= heldDb) {
+        heldDb = peakDb;
+        heldAt = now;
+      } else if (now - heldAt > METER_PEAK_HOLD_MS) {
+        heldDb = Math.max(peakDb, heldDb - (METER_PEAK_FALL_DB_PER_SEC * (now - lastFrame)) / 1000);
+      }
+      lastFrame = now;
+
+      show(peakDb, rmsDb);
+      rafId = requestAnimationFrame(update);
+    };
+
+    if (isPlaying && audioProcessor) {
+      rafId = requestAnimationFrame(update);
+    } else {
+      show(MIN_LEVEL_DB, MIN_LEVEL_DB);
+    }
+
+    return () => {
+      if (rafId !== null) {
+        cancelAnimationFrame(rafId);
+      }
+    };
+  }, [audioProcessor, isPlaying]);
+
+  return (
+    <div className="flex items-center gap-2" role="img" aria-label="Output level meter (peak and RMS)">
+      <div className="relative w-28 h-2 bg-neutral-800 rounded-sm overflow-hidden">
+        <div ref={peakBarRef} className="absolute inset-y-0 left-0 bg-gb-light/40" style={{ width: 0 }} />
+        <div ref={rmsBarRef} className="absolute inset-y-0 left-0 bg-gb-lightest" style={{ width: 0 }} />
+        <div ref={peakHoldRef} className="absolute inset-y-0 w-0.5 -ml-0.5 bg-white" style={{ left: 0, opacity: 0 }} />
+      </div>
+      <span ref={readoutRef} className="w-14 text-right tabular-nums text-neutral-500">-∞ dB</span>
+    </div>
+  );
+}
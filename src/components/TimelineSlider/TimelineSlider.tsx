@@ -1,6 +1,8 @@
 import { useRef, useEffect, useState, useCallback } from 'react';
 import { useAppStore, useVideoInfo, useTrimStart, useTrimEnd } from '../../state/store';
 import { TIMELINE } from '../../constants/ui';
+import { WaveformLane, type WaveformView } from './WaveformLane';
+import { AudioLevelMeter } from './AudioLevelMeter';
 
 const { THUMBNAIL_HEIGHT, THUMBNAIL_COUNT, HANDLE_WIDTH, SEEK_THROTTLE_MS } = TIMELINE;
 
@@ -10,8 +12,14 @@ function formatTime(seconds: number): string {
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 }
 
+const WAVEFORM_VIEW_OPTIONS: { value: WaveformView; label: string }[] = [
+  { value: 'original', label: 'Original' },
+  { value: 'processed', label: 'Processed' },
+];
+
 export function TimelineSlider() {
   const containerRef = useRef<HTMLDivElement>(null);
+  const filmstripRef = useRef<HTMLDivElement>(null);
   const startHandleRef = useRef<HTMLDivElement>(null);
   const endHandleRef = useRef<HTMLDivElement>(null);
   const playheadRef = useRef<HTMLDivElement>(null);
@@ -19,6 +27,7 @@ export function TimelineSlider() {
   const [thumbnails, setThumbnails] = useState<string[]>([]);
   const [isDragging, setIsDragging] = useState<'start' | 'end' | 'playhead' | null>(null);
   const [containerWidth, setContainerWidth] = useState(0);
+  const [waveformView, setWaveformView] = useState<WaveformView>('original');
 
   // Refs for throttling
   const lastSeekTimeRef = useRef(0);
@@ -80,7 +89,7 @@ export function TimelineSlider() {
       if (!ctx) return;
 
       const aspectRatio = videoInfo.width / videoInfo.height;
-      const previewHeight = containerRef.current?.clientHeight || THUMBNAIL_HEIGHT;
+      const previewHeight = filmstripRef.current?.clientHeight || THUMBNAIL_HEIGHT;
       const renderScale = Math.min(2, Math.max(1, window.devicePixelRatio || 1));
       const thumbHeight = Math.max(THUMBNAIL_HEIGHT, Math.round(previewHeight * renderScale));
       const thumbWidth = Math.max(1, Math.round(thumbHeight * aspectRatio));
@@ -429,12 +438,12 @@ export function TimelineSlider() {
       {/* Timeline track */}
       <div
         ref={containerRef}
-        className="relative h-12 bg-neutral-800 rounded overflow-hidden select-none"
+        className="relative h-20 bg-neutral-800 rounded overflow-hidden select-none"
         style={{ cursor: isDragging ? 'grabbing' : 'pointer' }}
         onClick={handleTrackClick}
       >
         {/* Filmstrip background */}
-        <div className="absolute inset-0 flex">
+        <div ref={filmstripRef} className="absolute inset-x-0 top-0 h-12 flex">
           {thumbnails.map((thumb, i) => (
             <div
               key={i}
@@ -447,6 +456,11 @@ export function TimelineSlider() {
           )}
         </div>
 
+        {/* Waveform lane, aligned with the trim positions */}
+        <div className="absolute inset-x-0 bottom-0 h-8 bg-neutral-900 border-t border-neutral-700">
+          <WaveformLane src={videoInfo.src} view={waveformView} left={HANDLE_WIDTH} width={trackWidth} />
+        </div>
+
         {/* Left dimmed area */}
         <div
           className="absolute top-0 bottom-0 left-0 bg-black/70 pointer-events-none"
@@ -553,6 +567,30 @@ export function TimelineSlider() {
           </div>
         )}
       </div>
+
+      {/* Waveform view and output meter */}
+      <div className="flex items-center justify-between text-xs text-neutral-500">
+        <div className="flex items-center gap-2" role="group" aria-label="Waveform view">
+          <span>Waveform</span>
+          <div className="flex rounded overflow-hidden border border-neutral-700">
+            {WAVEFORM_VIEW_OPTIONS.map((opt) => (
+              <button
+                key={opt.value}
+                type="button"
+                onClick={() => setWaveformView(opt.value)}
+                aria-pressed={waveformView === opt.value}
+                title={opt.value === 'processed' ? 'Source audio through the current bitcrush settings' : 'Source audio as decoded'}
+                className={`px-2 py-0.5 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-gb-light focus-visible:ring-inset ${
+                  waveformView === opt.value ? 'bg-gb-light text-gb-darkest' : 'bg-neutral-800 text-neutral-300 hover:bg-neutral-700'
+                }`}
+              >
+                {opt.label}
+              </button>
+            ))}
+          </div>
+        </div>
+        <AudioLevelMeter />
+      </div>
     </div>
   );
 }
@@ -0,0 +1,163 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { useAppStore } from '../../state/store';
+import { TIMELINE } from '../../constants/ui';
+import { computeWaveform, decodeWaveformAudio, type DecodedAudio } from '../../audio/waveform';
+
+export type WaveformView = 'original' | 'processed';
+
+interface WaveformLaneProps {
+  src: string;
+  view: WaveformView;
+  // Horizontal extent of the track inside the timeline, in CSS pixels
+  left: number;
+  width: number;
+}
+
+type DecodeState =
+  | { status: 'loading' }
+  | { status: 'none' }
+  | { status: 'ready'; audio: DecodedAudio };
+
+// rgb(139, 172, 15) is gb-light
+const PEAK_COLOR = 'rgba(139, 172, 15, 0.45)';
+const RMS_COLOR = 'rgba(155, 188, 15, 0.95)';
+
+export function WaveformLane({ src, view, left, width }: WaveformLaneProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [decoded, setDecoded] = useState<DecodeState>({ status: 'loading' });
+  const [processed, setProcessed] = useState<Float32Array[] | null>(null);
+
+  const enableAudioBitcrush = useAppStore((s) => s.enableAudioBitcrush);
+  const audioMode = useAppStore((s) => s.audioMode);
+  const audioHighpass = useAppStore((s) => s.audioHighpass);
+  const audioLowpass = useAppStore((s) => s.audioLowpass);
+  const audioBitDepth = useAppStore((s) => s.audioBitDepth);
+  const audioDistortion = useAppStore((s) => s.audioDistortion);
+  const audioCrushRate = useAppStore((s) => s.audioCrushRate);
+  const audioResonance = useAppStore((s) => s.audioResonance);
+  const audioMono = useAppStore((s) => s.audioMono);
+  const audioNoise = useAppStore((s) => s.audioNoise);
+  const audioLimiter = useAppStore((s) => s.audioLimiter);
+
+  // Decode the source once per video
+  useEffect(() => {
+    let cancelled = false;
+    setDecoded({ status: 'loading' });
+    setProcessed(null);
+
+    decodeWaveformAudio(src).then((audio) => {
+      if (!cancelled) {
+        setDecoded(audio ? { status: 'ready', audio } : { status: 'none' });
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [src]);
+
+  // Render the processed lane through the export's chain, once settings
+  // settle. The whole soundtrack takes a while, so it runs off the main
+  // thread and a settings change abandons the render in progress.
+  useEffect(() => {
+    if (view !== 'processed' || decoded.status !== 'ready') return;
+    const { channelData, sampleRate } = decoded.audio;
+    let worker: Worker | null = null;
+
+    const timer = setTimeout(() => {
+      if (!enableAudioBitcrush) {
+        setProcessed(channelData);
+        return;
+      }
+
+      const renderWorker = new Worker(
+        new URL('../../workers/audioRender.worker.ts', import.meta.url),
+        { type: 'module' }
+      );
+      worker = renderWorker;
+      renderWorker.onmessage = (e: MessageEvent<{ channelData: Float32Array[] }>) => {
+        renderWorker.terminate();
+        setProcessed(e.data.channelData);
+      };
+      renderWorker.onerror = (error) => {
+        renderWorker.terminate();
+        console.warn('Processed waveform render failed:', error);
+        setProcessed(channelData);
+      };
+      renderWorker.postMessage({
+        channelData,
+        sampleRate,
+        settings: {
+          mode: audioMode,
+          highpass: audioHighpass,
+          lowpass: audioLowpass,
+          bitDepth: audioBitDepth,
+          distortion: audioDistortion,
+          crushRate: audioCrushRate,
+          resonance: audioResonance,
+          mono: audioMono,
+          noise: audioNoise,
+          limiter: audioLimiter,
+        },
+      });
+    }, TIMELINE.WAVEFORM_PROCESS_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      worker?.terminate();
+    };
+  }, [view, decoded, enableAudioBitcrush, audioMode, audioHighpass, audioLowpass, audioBitDepth, audioDistortion, audioCrushRate, audioResonance, audioMono, audioNoise, audioLimiter]);
+
+  const shownChannels = decoded.status !== 'ready'
+    ? null
+    : view === 'processed' ? processed : decoded.audio.channelData;
+
+  // One bin per CSS pixel of track
+  const waveform = useMemo(() => {
+    return shownChannels && width > 0 ? computeWaveform(shownChannels, Math.round(width)) : null;
+  }, [shownChannels, width]);
+
+  // Draw peaks behind RMS, mirrored around the centre line
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const scale = window.devicePixelRatio || 1;
+    const cssHeight = canvas.clientHeight;
+    canvas.width = Math.max(1, Math.round(width * scale));
+    canvas.height = Math.max(1, Math.round(cssHeight * scale));
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(scale, 0, 0, scale, 0, 0);
+    ctx.clearRect(0, 0, width, cssHeight);
+    if (!waveform) return;
+
+    const middle = cssHeight / 2;
+    const drawLevels = (levels: Float32Array, color: string) => {
+      ctx.fillStyle = color;
+      for (let x = 0; x < levels.length; x++) {
+        const half = Math.max(0.5, levels[x] * middle);
+        ctx.fillRect(x, middle - half, 1, half * 2);
+      }
+    };
+    drawLevels(waveform.peaks, PEAK_COLOR);
+    drawLevels(waveform.rms, RMS_COLOR);
+  }, [waveform, width]);
+
+  const isPending = decoded.status === 'loading' || (decoded.status === 'ready' && !waveform);
+
+  return (
+    <div className="absolute inset-y-0 pointer-events-none" style={{ left, width }}>
+      <canvas ref={canvasRef} className="w-full h-full" aria-hidden="true" />
+      {isPending && (
+        <div className="absolute inset-0 bg-neutral-700/60 animate-pulse" />
+      )}
+      {decoded.status === 'none' && (
+        <div className="absolute inset-0 flex items-center justify-center text-[10px] text-neutral-500">
+          No audio
+        </div>
+      )}
+    </div>
+  );
+}
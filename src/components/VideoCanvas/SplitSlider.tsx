@@ -1,7 +1,16 @@
 import { useCallback, useState, useEffect, useMemo, useRef } from 'react';
-import { useAppStore, useDitherMode, useSplitPosition, useVideoInfo } from '../../state/store';
+import {
+  useAppStore,
+  useCustomFrameBorder,
+  useDitherMode,
+  useFrameBorder,
+  useProcessingResolution,
+  useSplitPosition,
+  useVideoInfo,
+} from '../../state/store';
 import { SPLIT_SLIDER } from '../../constants/ui';
 import { calculatePreviewViewportCss } from '../../utils';
+import { resolveFrameBorder } from '../../processing/frameBorder';
 
 interface SplitSliderProps {
   containerRef: React.RefObject<HTMLDivElement | null>;
@@ -12,6 +21,9 @@ export function SplitSlider({ containerRef }: SplitSliderProps) {
   const setSplitPosition = useAppStore((s) => s.setSplitPosition);
   const videoInfo = useVideoInfo();
   const ditherMode = useDitherMode();
+  const processingResolution = useProcessingResolution();
+  const frameBorder = useFrameBorder();
+  const customFrameBorder = useCustomFrameBorder();
   const [isDragging, setIsDragging] = useState(false);
   const [containerSize, setContainerSize] = useState({ width: 0, height: 0 });
   const sliderRef = useRef<HTMLDivElement>(null);
@@ -54,9 +66,11 @@ export function SplitSlider({ containerRef }: SplitSliderProps) {
       videoInfo.width,
       videoInfo.height,
       ditherMode,
+      processingResolution,
+      resolveFrameBorder(frameBorder, customFrameBorder),
       window.devicePixelRatio || 1
     );
-  }, [containerSize.width, containerSize.height, videoInfo, ditherMode]);
+  }, [containerSize.width, containerSize.height, videoInfo, ditherMode, processingResolution, frameBorder, customFrameBorder]);
 
   // Clamp position to valid range
   const clampPosition = useCallback((value: number) => {
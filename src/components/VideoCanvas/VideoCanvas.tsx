@@ -7,13 +7,34 @@ import {
   useContrast,
   useCameraResponse,
   useDitherMode,
+  useProcessingResolution,
   usePalette,
   useInvertPalette,
+  useColorMetric,
+  useErrorDiffusionBackend,
+  useThresholdMatrix,
+  useCustomThresholdMatrix,
+  useFrameBorder,
+  useCustomFrameBorder,
+  useTemporalCoherence,
+  useTemporalThreshold,
   useTargetFps,
+  useAudioMode,
   useAudioHighpass,
   useAudioLowpass,
   useAudioBitDepth,
   useAudioDistortion,
+  useAudioCrushRate,
+  useAudioResonance,
+  useAudioMono,
+  useAudioNoise,
+  useAudioLimiter,
+  useAudioTrackFile,
+  useAudioTrackMode,
+  useAudioTrackOffset,
+  useAudioTrackGain,
+  useAudioTrackFadeIn,
+  useAudioTrackFadeOut,
   useLcdGridIntensity,
   useLcdShadowOpacity,
   useLcdGhostingStrength,
@@ -23,6 +44,8 @@ import {
   useTrimEnd,
 } from '../../state/store';
 import { RenderPipeline } from '../../webgl/pipeline/RenderPipeline';
+import { resolveThresholdMatrix } from '../../processing/dither/thresholdMatrix';
+import { resolveFrameBorder } from '../../processing/frameBorder';
 import { SplitSlider } from './SplitSlider';
 import { CropSelectorOverlay } from './CropSelectorOverlay';
 import { GameBoyAudioProcessor } from '../../audio/GameBoyAudioProcessor';
@@ -63,15 +86,36 @@ export function VideoCanvas({ importRequest }: VideoCanvasProps) {
   const contrast = useContrast();
   const cameraResponse = useCameraResponse();
   const ditherMode = useDitherMode();
+  const processingResolution = useProcessingResolution();
   const palette = usePalette();
   const invertPalette = useInvertPalette();
+  const colorMetric = useColorMetric();
+  const errorDiffusionBackend = useErrorDiffusionBackend();
+  const thresholdMatrix = useThresholdMatrix();
+  const customThresholdMatrix = useCustomThresholdMatrix();
+  const frameBorder = useFrameBorder();
+  const customFrameBorder = useCustomFrameBorder();
+  const temporalCoherence = useTemporalCoherence();
+  const temporalThreshold = useTemporalThreshold();
   const targetFps = useTargetFps();
 
   // Audio settings
+  const audioMode = useAudioMode();
   const audioHighpass = useAudioHighpass();
   const audioLowpass = useAudioLowpass();
   const audioBitDepth = useAudioBitDepth();
   const audioDistortion = useAudioDistortion();
+  const audioCrushRate = useAudioCrushRate();
+  const audioResonance = useAudioResonance();
+  const audioMono = useAudioMono();
+  const audioNoise = useAudioNoise();
+  const audioLimiter = useAudioLimiter();
+  const audioTrackFile = useAudioTrackFile();
+  const audioTrackMode = useAudioTrackMode();
+  const audioTrackOffset = useAudioTrackOffset();
+  const audioTrackGain = useAudioTrackGain();
+  const audioTrackFadeIn = useAudioTrackFadeIn();
+  const audioTrackFadeOut = useAudioTrackFadeOut();
   const enableAudioBitcrush = useAppStore((s) => s.enableAudioBitcrush);
 
   // LCD effect settings
@@ -89,6 +133,7 @@ export function VideoCanvas({ importRequest }: VideoCanvasProps) {
 
   const setVideoInfo = useAppStore((s) => s.setVideoInfo);
   const setVideoElement = useAppStore((s) => s.setVideoElement);
+  const setAudioProcessor = useAppStore((s) => s.setAudioProcessor);
   const setCropRegion = useAppStore((s) => s.setCropRegion);
   const resetCropRegionForSource = useAppStore((s) => s.resetCropRegionForSource);
   const isPlaying = useAppStore((s) => s.isPlaying);
@@ -145,8 +190,15 @@ export function VideoCanvas({ importRequest }: VideoCanvasProps) {
         pipelineRef.current?.setCameraResponse(state.cameraResponse);
         pipelineRef.current?.setCropRegion(state.cropRegion);
         pipelineRef.current?.setDitherMode(state.ditherMode);
+        pipelineRef.current?.setProcessingResolution(state.processingResolution);
         pipelineRef.current?.setPalette(state.palette);
         pipelineRef.current?.setInvertPalette(state.invertPalette);
+        pipelineRef.current?.setColorMetric(state.colorMetric);
+        pipelineRef.current?.setErrorDiffusionBackend(state.errorDiffusionBackend);
+        pipelineRef.current?.setThresholdMatrix(resolveThresholdMatrix(state.thresholdMatrix, state.customThresholdMatrix));
+        pipelineRef.current?.setTemporalCoherence(state.temporalCoherence);
+        pipelineRef.current?.setTemporalThreshold(state.temporalThreshold);
+        pipelineRef.current?.setFrameBorder(resolveFrameBorder(state.frameBorder, state.customFrameBorder));
         pipelineRef.current?.setLcdEffectsEnabled(state.enableLcdEffects);
         pipelineRef.current?.setGridIntensity(state.lcdGridIntensity);
         pipelineRef.current?.setShadowOpacity(state.lcdShadowOpacity);
@@ -190,6 +242,10 @@ export function VideoCanvas({ importRequest }: VideoCanvasProps) {
     pipelineRef.current?.setDitherMode(ditherMode);
   }, [ditherMode]);
 
+  useEffect(() => {
+    pipelineRef.current?.setProcessingResolution(processingResolution);
+  }, [processingResolution]);
+
   useEffect(() => {
     pipelineRef.current?.setPalette(palette);
   }, [palette]);
@@ -198,6 +254,30 @@ export function VideoCanvas({ importRequest }: VideoCanvasProps) {
     pipelineRef.current?.setInvertPalette(invertPalette);
   }, [invertPalette]);
 
+  useEffect(() => {
+    pipelineRef.current?.setColorMetric(colorMetric);
+  }, [colorMetric]);
+
+  useEffect(() => {
+    pipelineRef.current?.setErrorDiffusionBackend(errorDiffusionBackend);
+  }, [errorDiffusionBackend]);
+
+  useEffect(() => {
+    pipelineRef.current?.setThresholdMatrix(resolveThresholdMatrix(thresholdMatrix, customThresholdMatrix));
+  }, [thresholdMatrix, customThresholdMatrix]);
+
+  useEffect(() => {
+    pipelineRef.current?.setTemporalCoherence(temporalCoherence);
+  }, [temporalCoherence]);
+
+  useEffect(() => {
+    pipelineRef.current?.setTemporalThreshold(temporalThreshold);
+  }, [temporalThreshold]);
+
+  useEffect(() => {
+    pipelineRef.current?.setFrameBorder(resolveFrameBorder(frameBorder, customFrameBorder));
+  }, [frameBorder, customFrameBorder]);
+
   // Sync LCD effect settings with pipeline
   useEffect(() => {
     if (!pipelineRef.current) return;
@@ -358,11 +438,13 @@ export function VideoCanvas({ importRequest }: VideoCanvasProps) {
   // Initialize audio processor
   useEffect(() => {
     audioProcessorRef.current = new GameBoyAudioProcessor();
+    setAudioProcessor(audioProcessorRef.current);
     return () => {
+      setAudioProcessor(null);
       audioProcessorRef.current?.dispose();
       audioProcessorRef.current = null;
     };
-  }, []);
+  }, [setAudioProcessor]);
 
   // Connect audio processor to video when loaded
   useEffect(() => {
@@ -393,12 +475,37 @@ export function VideoCanvas({ importRequest }: VideoCanvasProps) {
   // Sync audio settings
   useEffect(() => {
     audioProcessorRef.current?.setSettings({
+      mode: audioMode,
       highpass: audioHighpass,
       lowpass: audioLowpass,
       bitDepth: audioBitDepth,
       distortion: audioDistortion,
+      crushRate: audioCrushRate,
+      resonance: audioResonance,
+      mono: audioMono,
+      noise: audioNoise,
+      limiter: audioLimiter,
     });
-  }, [audioHighpass, audioLowpass, audioBitDepth, audioDistortion]);
+  }, [audioMode, audioHighpass, audioLowpass, audioBitDepth, audioDistortion, audioCrushRate, audioResonance, audioMono, audioNoise, audioLimiter]);
+
+  // Sync the audio track; fades follow the trim range like in exports
+  useEffect(() => {
+    const duration = videoInfo?.duration ?? 0;
+    audioProcessorRef.current?.setAudioTrack(
+      audioTrackFile
+        ? {
+          src: audioTrackFile.url,
+          mode: audioTrackMode,
+          offsetSec: audioTrackOffset,
+          gainDb: audioTrackGain,
+          fadeInSec: audioTrackFadeIn,
+          fadeOutSec: audioTrackFadeOut,
+        }
+        : null,
+      trimStart * duration,
+      trimEnd * duration
+    );
+  }, [videoInfo, audioTrackFile, audioTrackMode, audioTrackOffset, audioTrackGain, audioTrackFadeIn, audioTrackFadeOut, trimStart, trimEnd]);
 
   // Handle video load with blob URL cleanup
   const handleVideoLoad = useCallback((src: string, name: string) => {
@@ -2,4 +2,5 @@ export { MonolithWindow } from './MonolithWindow';
 export { VideoCanvas, DropZone, SplitSlider } from './VideoCanvas';
 export { Sidebar } from './Sidebar';
 export { ExportDialog } from './ExportDialog';
+export { PaletteImportDialog } from './PaletteImportDialog';
 export { Toggle } from './common';
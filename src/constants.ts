@@ -11,12 +11,48 @@ export const GBCAM_SENSOR_HEIGHT = 112;
 export const GBCAM_CROP_ASPECT = GBCAM_SENSOR_WIDTH / GBCAM_SENSOR_HEIGHT;
 export const GBCAM_MIN_CROP_WIDTH_NORM = 0.2;
 
+// Fixed processing resolutions matching real handheld screens
+export const PROCESSING_PRESETS = {
+  dmg: { WIDTH: 160, HEIGHT: 144 },
+  gba: { WIDTH: 240, HEIGHT: 160 },
+  pico8: { WIDTH: 128, HEIGHT: 128 },
+  nes: { WIDTH: 256, HEIGHT: 240 },
+} as const;
+
+// Range of a custom processing width or height
+export const CUSTOM_PROCESSING_SIZE = {
+  MIN: 16,
+  MAX: 512,
+} as const;
+
 // Export scale factors
 export const EXPORT_SCALE = {
   /** Scale factor for MP4 and PNG exports (4x for high quality) */
   HIGH_QUALITY: 4,
   /** Scale factor for GIF exports (2x to keep file size reasonable) */
   GIF: 2,
+  /** GB tile and Aseprite exports stay at processing resolution */
+  NATIVE: 1,
+} as const;
+
+// Range of the user-selectable integer export scale
+export const EXPORT_SCALE_LIMITS = {
+  MIN: 1,
+  MAX: 10,
+} as const;
+
+// GIF playback options in the export dialog
+export const GIF_PLAYBACK_LIMITS = {
+  // Plays of a GIF that doesn't loop forever
+  MAX_PLAY_COUNT: 100,
+  // Extra time the last frame stays up before the GIF ends or loops
+  MAX_END_HOLD_MS: 10000,
+} as const;
+
+// Output sizes for "fit to" exports (landscape; swapped for portrait frames)
+export const EXPORT_FIT_TARGETS = {
+  '1080p': { WIDTH: 1920, HEIGHT: 1080 },
+  '4k': { WIDTH: 3840, HEIGHT: 2160 },
 } as const;
 
 // Default display dimensions
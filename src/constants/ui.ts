@@ -22,6 +22,11 @@ export const TIMELINE = {
   MIN_TRIM_DISTANCE: 0.02,
   KEYBOARD_STEP: 0.01,
   KEYBOARD_LARGE_STEP: 0.05,
+  // Wait for slider drags to settle before re-rendering the processed waveform
+  WAVEFORM_PROCESS_DEBOUNCE_MS: 250,
+  // Meter peak hold before it falls back, and its fall rate
+  METER_PEAK_HOLD_MS: 800,
+  METER_PEAK_FALL_DB_PER_SEC: 20,
 } as const;
 
 // Sidebar slider configurations
@@ -33,8 +38,17 @@ export const SLIDERS = {
   LCD_SHADOW: { MIN: 0, MAX: 1, STEP: 0.05 },
   LCD_GHOSTING: { MIN: 0, MAX: 0.5, STEP: 0.02 },
   LCD_BLACK_LEVEL: { MIN: 0, MAX: 0.15, STEP: 0.01 },
+  TEMPORAL_THRESHOLD: { MIN: 0.01, MAX: 0.2, STEP: 0.01 },
   AUDIO_HIGHPASS: { MIN: 100, MAX: 1000, STEP: 50 },
   AUDIO_LOWPASS: { MIN: 2000, MAX: 6000, STEP: 100 },
   AUDIO_BIT_DEPTH: { MIN: 4, MAX: 8, STEP: 1 },
   AUDIO_DISTORTION: { MIN: 0, MAX: 100, STEP: 5 },
+  AUDIO_CRUSH_RATE: { MIN: 2000, MAX: 22000, STEP: 500 },
+  AUDIO_RESONANCE: { MIN: 0, MAX: 12, STEP: 1 },
+  AUDIO_MONO: { MIN: 0, MAX: 100, STEP: 5 },
+  AUDIO_NOISE: { MIN: 0, MAX: 100, STEP: 5 },
+  AUDIO_LIMITER: { MIN: -24, MAX: 0, STEP: 1 },
+  AUDIO_TRACK_OFFSET: { MIN: -120, MAX: 120, STEP: 0.1 },
+  AUDIO_TRACK_GAIN: { MIN: -24, MAX: 12, STEP: 0.5 },
+  AUDIO_TRACK_FADE: { MIN: 0, MAX: 10, STEP: 0.1 },
 } as const;
@@ -0,0 +1,49 @@
+import { useEffect, useRef } from 'react';
+import { useAppStore } from '../state/store';
+import { loadStoredCustomPalettes, saveStoredCustomPalettes } from '../palettes/storage';
+
+/**
+ * Load custom palettes once on mount and write them back whenever they change.
+ * Saving is held off until the initial load completes so an empty store never
+ * overwrites the file on disk, and stays off for the session if the file
+ * couldn't be read. Palettes created before the load finished are kept.
+ */
+export function useCustomPalettePersistence() {
+  const customPalettes = useAppStore((s) => s.customPalettes);
+  const setCustomPalettes = useAppStore((s) => s.setCustomPalettes);
+  const loadedRef = useRef(false);
+  const lastSavedRef = useRef(customPalettes);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    loadStoredCustomPalettes()
+      .then((stored) => {
+        if (cancelled) return;
+        if (!stored) {
+          console.warn('Custom palettes file is unreadable; palette changes will not be saved this session');
+          return;
+        }
+
+        const created = useAppStore.getState().customPalettes
+          .filter((palette) => !stored.some((entry) => entry.id === palette.id));
+        lastSavedRef.current = stored;
+        loadedRef.current = true;
+        // A merged list differs from what's on disk, so it gets saved
+        setCustomPalettes(created.length > 0 ? [...stored, ...created] : stored);
+      })
+      .catch((error) => {
+        console.error('Failed to load custom palettes; palette changes will not be saved this session:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [setCustomPalettes]);
+
+  useEffect(() => {
+    if (!loadedRef.current || lastSavedRef.current === customPalettes) return;
+    lastSavedRef.current = customPalettes;
+    saveStoredCustomPalettes(customPalettes).catch(console.error);
+  }, [customPalettes]);
+}
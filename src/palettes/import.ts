@@ -0,0 +1,307 @@
+/**
+ * Palette file import
+ * Parses JASC .pal, GIMP .gpl, plain .hex lists and Lospec JSON exports into
+ * RGB colour lists, and reduces them to a palette size PocketFrame renders.
+ */
+
+import {
+  PALETTE_SIZES,
+  hexToPaletteColor,
+  isPaletteSize,
+  type Palette,
+  type PaletteColor,
+  type PaletteSize,
+} from './index';
+
+export type PaletteFileFormat = 'jasc' | 'gimp' | 'hex' | 'lospec';
+
+export interface ImportedPalette {
+  name: string;
+  format: PaletteFileFormat;
+  colors: PaletteColor[];
+  // Non-fatal problems worth showing the user, e.g. a wrong declared count
+  warnings: string[];
+}
+
+export const PALETTE_FILE_EXTENSIONS = ['pal', 'gpl', 'hex', 'json'] as const;
+
+export class PaletteImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PaletteImportError';
+  }
+}
+
+function getExtension(fileName: string): string {
+  const match = /\.([^./\\]+)$/.exec(fileName);
+  return match ? match[1].toLowerCase() : '';
+}
+
+function getBaseName(fileName: string): string {
+  const segments = fileName.split(/[\\/]/);
+  const last = segments[segments.length - 1] || 'Imported Palette';
+  return last.replace(/\.[^/.]+$/, '') || 'Imported Palette';
+}
+
+function toLines(text: string): string[] {
+  return text.split(/\r?\n/).map((line) => line.trim());
+}
+
+function parseRgbTriplet(line: string): PaletteColor | null {
+  const parts = line.split(/\s+/);
+  if (parts.length < 3) {
+    return null;
+  }
+
+  const channels = parts.slice(0, 3).map((part) => Number(part));
+  if (channels.some((value) => !Number.isInteger(value) || value < 0 || value > 255)) {
+    return null;
+  }
+
+  return channels as PaletteColor;
+}
+
+function parseJascPal(text: string): { colors: PaletteColor[]; warnings: string[] } {
+  const lines = toLines(text).filter((line) => line.length > 0);
+  if (lines[0] !== 'JASC-PAL') {
+    throw new PaletteImportError('Not a JASC palette: missing JASC-PAL header');
+  }
+
+  const declaredCount = Number.parseInt(lines[2] ?? '', 10);
+  const colors: PaletteColor[] = [];
+  const warnings: string[] = [];
+
+  for (const line of lines.slice(3)) {
+    const color = parseRgbTriplet(line);
+    if (!color) {
+      throw new PaletteImportError(`Invalid colour entry in JASC palette: "${line}"`);
+    }
+    colors.push(color);
+  }
+
+  if (Number.isFinite(declaredCount) && declaredCount !== colors.length) {
+    warnings.push(`JASC palette declares ${declaredCount} colours but contains ${colors.length}`);
+  }
+
+  return { colors, warnings };
+}
+
+function parseGimpGpl(text: string): { name: string | null; colors: PaletteColor[] } {
+  const lines = toLines(text);
+  if (lines[0] !== 'GIMP Palette') {
+    throw new PaletteImportError('Not a GIMP palette: missing "GIMP Palette" header');
+  }
+
+  let name: string | null = null;
+  const colors: PaletteColor[] = [];
+
+  for (const line of lines.slice(1)) {
+    if (line.length === 0 || line.startsWith('#')) continue;
+
+    const nameMatch = /^Name:\s*(.*)$/i.exec(line);
+    if (nameMatch) {
+      name = nameMatch[1].trim() || null;
+      continue;
+    }
+    if (/^Columns:/i.test(line)) continue;
+
+    const color = parseRgbTriplet(line);
+    if (!color) {
+      throw new PaletteImportError(`Invalid colour entry in GIMP palette: "${line}"`);
+    }
+    colors.push(color);
+  }
+
+  return { name, colors };
+}
+
+function parseHexList(text: string): PaletteColor[] {
+  const colors: PaletteColor[] = [];
+
+  for (const line of toLines(text)) {
+    if (line.length === 0 || line.startsWith(';') || line.startsWith('//')) continue;
+
+    const color = hexToPaletteColor(line);
+    if (!color) {
+      throw new PaletteImportError(`Invalid hex colour: "${line}"`);
+    }
+    colors.push(color);
+  }
+
+  return colors;
+}
+
+function parseLospecJson(text: string): { name: string | null; colors: PaletteColor[] } {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new PaletteImportError(`Palette file is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (typeof json !== 'object' || json === null || !Array.isArray((json as { colors?: unknown }).colors)) {
+    throw new PaletteImportError('Lospec palette JSON must contain a "colors" array');
+  }
+
+  const record = json as { name?: unknown; colors: unknown[] };
+  const colors = record.colors.map((value) => {
+    const color = typeof value === 'string' ? hexToPaletteColor(value) : null;
+    if (!color) {
+      throw new PaletteImportError(`Invalid hex colour in Lospec palette: ${JSON.stringify(value)}`);
+    }
+    return color;
+  });
+
+  const name = typeof record.name === 'string' && record.name.trim().length > 0 ? record.name.trim() : null;
+  return { name, colors };
+}
+
+function detectFormat(fileName: string, text: string): PaletteFileFormat {
+  switch (getExtension(fileName)) {
+    case 'pal':
+      return 'jasc';
+    case 'gpl':
+      return 'gimp';
+    case 'hex':
+      return 'hex';
+    case 'json':
+      return 'lospec';
+  }
+
+  // Unknown extension: sniff the content
+  const head = text.trimStart();
+  if (head.startsWith('JASC-PAL')) return 'jasc';
+  if (head.startsWith('GIMP Palette')) return 'gimp';
+  if (head.startsWith('{')) return 'lospec';
+  return 'hex';
+}
+
+/**
+ * Parse a palette file. Throws PaletteImportError for unreadable or empty files.
+ */
+export function parsePaletteFile(fileName: string, fileText: string): ImportedPalette {
+  // Editors on Windows often save a UTF-8 BOM, which JSON.parse rejects
+  const text = fileText.replace(/^\uFEFF/, '');
+  const format = detectFormat(fileName, text);
+  let name: string | null = null;
+  let colors: PaletteColor[];
+  let warnings: string[] = [];
+
+  switch (format) {
+    case 'jasc':
+      ({ colors, warnings } = parseJascPal(text));
+      break;
+    case 'gimp':
+      ({ name, colors } = parseGimpGpl(text));
+      break;
+    case 'hex':
+      colors = parseHexList(text);
+      break;
+    case 'lospec':
+      ({ name, colors } = parseLospecJson(text));
+      break;
+  }
+
+  if (colors.length === 0) {
+    throw new PaletteImportError('Palette file contains no colours');
+  }
+
+  return {
+    name: name ?? getBaseName(fileName),
+    format,
+    colors,
+    warnings,
+  };
+}
+
+function getLuminance(color: PaletteColor): number {
+  return 0.299 * color[0] + 0.587 * color[1] + 0.114 * color[2];
+}
+
+/**
+ * Order colours dark to light. The dither shaders map luminance bands to
+ * palette indices, so index 0 must be the darkest entry.
+ */
+export function sortByLuminance(colors: readonly PaletteColor[]): PaletteColor[] {
+  return [...colors].sort((a, b) => getLuminance(a) - getLuminance(b));
+}
+
+/**
+ * Default palette size for an imported colour list: the largest supported
+ * size that does not exceed the number of colours in the file.
+ */
+export function getImportPaletteSize(colorCount: number): PaletteSize {
+  let size: PaletteSize = PALETTE_SIZES[0];
+  for (const candidate of PALETTE_SIZES) {
+    if (candidate <= colorCount) {
+      size = candidate;
+    }
+  }
+  return size;
+}
+
+/**
+ * Automatically fit a colour list to a PocketFrame palette.
+ * Keeps the darkest and lightest colours and picks the entries whose
+ * luminance is closest to evenly spaced steps between them. Lists shorter
+ * than the palette size are stretched by repeating entries.
+ */
+export function autoReducePalette(
+  colors: readonly PaletteColor[],
+  size: PaletteSize = getImportPaletteSize(colors.length)
+): Palette {
+  if (colors.length === 0) {
+    throw new PaletteImportError('Cannot reduce an empty palette');
+  }
+
+  const sorted = sortByLuminance(colors);
+
+  if (sorted.length <= size) {
+    return Array.from({ length: size }, (_, i) => (
+      [...sorted[Math.floor((i * sorted.length) / size)]] as PaletteColor
+    ));
+  }
+
+  const minLuma = getLuminance(sorted[0]);
+  const maxLuma = getLuminance(sorted[sorted.length - 1]);
+  const used = new Set<number>();
+  const picked: PaletteColor[] = [];
+
+  for (let i = 0; i < size; i++) {
+    const target = minLuma + ((maxLuma - minLuma) * i) / (size - 1);
+    let bestIndex = -1;
+    let bestDistance = Infinity;
+
+    for (let j = 0; j < sorted.length; j++) {
+      if (used.has(j)) continue;
+      const distance = Math.abs(getLuminance(sorted[j]) - target);
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        bestIndex = j;
+      }
+    }
+
+    used.add(bestIndex);
+    picked.push([...sorted[bestIndex]] as PaletteColor);
+  }
+
+  return sortByLuminance(picked);
+}
+
+/**
+ * Build a palette from colours the user picked by hand, ordered dark to light.
+ */
+export function paletteFromSelection(colors: readonly PaletteColor[], selectedIndices: readonly number[]): Palette {
+  if (!isPaletteSize(selectedIndices.length)) {
+    throw new PaletteImportError(`Select ${PALETTE_SIZES.join(', ')} colours`);
+  }
+  return sortByLuminance(selectedIndices.map((index) => colors[index]));
+}
+
+/**
+ * Files whose colour count is already a supported palette size import as-is;
+ * anything else goes through the pick / auto-reduce step.
+ */
+export function needsColorSelection(palette: ImportedPalette): boolean {
+  return palette.colors.length > PALETTE_SIZES[0] && !isPaletteSize(palette.colors.length);
+}
@@ -1,5 +1,12 @@
 export type PaletteColor = [number, number, number];
-export type Palette = [PaletteColor, PaletteColor, PaletteColor, PaletteColor];
+// Colours ordered dark to light; length is one of PALETTE_SIZES
+export type Palette = PaletteColor[];
+
+export const PALETTE_SIZES = [2, 4, 8, 16] as const;
+export type PaletteSize = typeof PALETTE_SIZES[number];
+
+// Length of the u_palette uniform array in the dither shaders
+export const MAX_PALETTE_SIZE = 16;
 
 export const PALETTES: Record<string, Palette> = {
   '1989Green': [
@@ -32,18 +39,245 @@ export const PALETTES: Record<string, Palette> = {
     [170, 0, 0],
     [255, 0, 0],
   ],
+  'Mac1Bit': [
+    [0, 0, 0],
+    [255, 255, 255],
+  ],
+  'Sepia8': [
+    [28, 18, 12],
+    [61, 41, 28],
+    [94, 66, 45],
+    [128, 93, 64],
+    [161, 122, 86],
+    [192, 153, 112],
+    [221, 188, 145],
+    [246, 224, 186],
+  ],
+  'Grey16': [
+    [0, 0, 0],
+    [17, 17, 17],
+    [34, 34, 34],
+    [51, 51, 51],
+    [68, 68, 68],
+    [85, 85, 85],
+    [102, 102, 102],
+    [119, 119, 119],
+    [136, 136, 136],
+    [153, 153, 153],
+    [170, 170, 170],
+    [187, 187, 187],
+    [204, 204, 204],
+    [221, 221, 221],
+    [238, 238, 238],
+    [255, 255, 255],
+  ],
 };
 
-export const PALETTE_NAMES = Object.keys(PALETTES) as (keyof typeof PALETTES)[];
+export const PALETTE_NAMES = Object.keys(PALETTES);
+
+export const BUILTIN_PALETTE_LABELS: Record<string, string> = {
+  '1989Green': '1989 Green',
+  'PocketGrey': 'Pocket Grey',
+  'MidnightBlue': 'Midnight Blue',
+  'HighContrastBW': 'High Contrast B&W',
+  'RedBlack': 'Red & Black',
+  'Mac1Bit': 'Mac 1-Bit',
+  'Sepia8': 'Sepia (8 colors)',
+  'Grey16': 'Greyscale (16 colors)',
+};
+
+export const DEFAULT_PALETTE = '1989Green';
+
+// Built-in keys or the id of a user-defined palette (see CustomPalette)
+export type PaletteName = string;
+
+/**
+ * User-defined palette. `id` is stable and used wherever a palette name is
+ * expected (store, pipeline, automation jobs); `name` is the editable label.
+ */
+export interface CustomPalette {
+  id: string;
+  name: string;
+  colors: Palette;
+}
+
+export const CUSTOM_PALETTE_ID_PREFIX = 'custom-';
+
+// Registry of custom palettes, kept in sync with the store so non-React
+// consumers (RenderPipeline, VideoProcessor, automation) can resolve them.
+let customPalettes: CustomPalette[] = [];
 
-export type PaletteName = keyof typeof PALETTES;
+export function setCustomPalettes(palettes: CustomPalette[]): void {
+  customPalettes = palettes;
+}
+
+export function getCustomPalettes(): CustomPalette[] {
+  return customPalettes;
+}
+
+// Palettes resolvable by id for this session only: not persisted, not listed
+// in the UI and not replaced by setCustomPalettes (e.g. an automation job's
+// settings.paletteFile).
+let transientPalettes: CustomPalette[] = [];
+
+export function registerTransientPalette(palette: CustomPalette): void {
+  transientPalettes = [...transientPalettes.filter((p) => p.id !== palette.id), palette];
+}
+
+export function isBuiltinPalette(name: PaletteName): boolean {
+  return Object.prototype.hasOwnProperty.call(PALETTES, name);
+}
+
+export function findCustomPalette(name: PaletteName): CustomPalette | undefined {
+  return customPalettes.find((palette) => palette.id === name)
+    ?? transientPalettes.find((palette) => palette.id === name);
+}
+
+export function isKnownPalette(name: PaletteName): boolean {
+  return isBuiltinPalette(name) || findCustomPalette(name) !== undefined;
+}
+
+export function getAllPaletteNames(): PaletteName[] {
+  return [...PALETTE_NAMES, ...customPalettes.map((palette) => palette.id)];
+}
+
+export function getPaletteLabel(name: PaletteName): string {
+  if (isBuiltinPalette(name)) {
+    return BUILTIN_PALETTE_LABELS[name] ?? name;
+  }
+  return findCustomPalette(name)?.name ?? name;
+}
+
+/**
+ * Resolve a palette name to its colours. Unknown names (e.g. a deleted custom
+ * palette) fall back to the default palette so rendering never breaks.
+ */
+export function getPalette(name: PaletteName): Palette {
+  if (isBuiltinPalette(name)) {
+    return PALETTES[name];
+  }
+  return findCustomPalette(name)?.colors ?? PALETTES[DEFAULT_PALETTE];
+}
+
+export function getPaletteColors(name: PaletteName, invert: boolean = false): Palette {
+  const palette = getPalette(name);
+  return invert ? [...palette].reverse() : palette;
+}
+
+export function getPaletteSize(name: PaletteName): PaletteSize {
+  return getPalette(name).length as PaletteSize;
+}
+
+export function isPaletteSize(value: unknown): value is PaletteSize {
+  return PALETTE_SIZES.includes(value as PaletteSize);
+}
+
+/**
+ * Resample a palette to another size by interpolating along its dark-to-light
+ * ramp. The first and last colours are always preserved.
+ */
+export function resizePalette(colors: Palette, size: PaletteSize): Palette {
+  if (colors.length === size) {
+    return colors.map((color) => [...color] as PaletteColor);
+  }
+
+  return Array.from({ length: size }, (_, i) => {
+    const position = colors.length === 1 ? 0 : (i * (colors.length - 1)) / (size - 1);
+    const lower = Math.floor(position);
+    const upper = Math.min(lower + 1, colors.length - 1);
+    const t = position - lower;
+    return colors[lower].map((channel, c) => (
+      Math.round(channel + (colors[upper][c] - channel) * t)
+    )) as PaletteColor;
+  });
+}
+
+export function createCustomPaletteId(): string {
+  return `${CUSTOM_PALETTE_ID_PREFIX}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function clampChannel(value: unknown): number | null {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return null;
+  }
+  return Math.max(0, Math.min(255, Math.round(value)));
+}
+
+function sanitizeColor(value: unknown): PaletteColor | null {
+  if (!Array.isArray(value) || value.length !== 3) {
+    return null;
+  }
+  const channels = value.map(clampChannel);
+  if (channels.some((channel) => channel === null)) {
+    return null;
+  }
+  return channels as PaletteColor;
+}
+
+/**
+ * Validate palettes loaded from disk. Malformed entries are dropped rather
+ * than failing the whole file.
+ */
+export function sanitizeCustomPalettes(value: unknown): CustomPalette[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  const result: CustomPalette[] = [];
+  const seenIds = new Set<string>();
+
+  for (const entry of value) {
+    if (typeof entry !== 'object' || entry === null) continue;
+    const record = entry as Record<string, unknown>;
+
+    if (typeof record.id !== 'string' || !record.id.startsWith(CUSTOM_PALETTE_ID_PREFIX) || seenIds.has(record.id)) {
+      continue;
+    }
+    if (!Array.isArray(record.colors) || !isPaletteSize(record.colors.length)) {
+      continue;
+    }
+
+    const colors = record.colors.map(sanitizeColor);
+    if (colors.some((color) => color === null)) {
+      continue;
+    }
+
+    const name = typeof record.name === 'string' && record.name.trim().length > 0
+      ? record.name.trim()
+      : 'Custom Palette';
+
+    seenIds.add(record.id);
+    result.push({ id: record.id, name, colors: colors as Palette });
+  }
+
+  return result;
+}
+
+export function paletteColorToHex(color: PaletteColor): string {
+  return `#${color.map((channel) => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+export function hexToPaletteColor(hex: string): PaletteColor | null {
+  const match = /^#?([0-9a-f]{6})$/i.exec(hex.trim());
+  if (!match) {
+    return null;
+  }
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
 
+/**
+ * Pack a palette for the u_palette uniform. Always MAX_PALETTE_SIZE entries;
+ * slots past the palette size are left black and never indexed (see
+ * u_paletteSize / getPaletteSize).
+ */
 export function getPaletteAsFloat(name: PaletteName, invert: boolean = false): Float32Array {
-  const palette = PALETTES[name];
-  const result = new Float32Array(12);
-  for (let i = 0; i < 4; i++) {
+  const palette = getPalette(name);
+  const size = palette.length;
+  const result = new Float32Array(MAX_PALETTE_SIZE * 3);
+  for (let i = 0; i < size; i++) {
     // When inverted, read from the opposite end of the palette
-    const srcIdx = invert ? 3 - i : i;
+    const srcIdx = invert ? size - 1 - i : i;
     result[i * 3] = palette[srcIdx][0] / 255;
     result[i * 3 + 1] = palette[srcIdx][1] / 255;
     result[i * 3 + 2] = palette[srcIdx][2] / 255;
@@ -0,0 +1,34 @@
+import { sanitizeCustomPalettes, type CustomPalette } from './index';
+
+/**
+ * Read user-defined palettes from disk via the Electron bridge.
+ * Returns an empty list outside Electron, and null when the file exists but
+ * cannot be read or parsed, so callers can tell it apart from an empty file
+ * and avoid overwriting it.
+ */
+export async function loadStoredCustomPalettes(): Promise<CustomPalette[] | null> {
+  const api = window.electronAPI;
+  if (!api?.loadCustomPalettes) {
+    return [];
+  }
+
+  const result = await api.loadCustomPalettes();
+  if (!result.success) {
+    console.warn('Failed to load custom palettes:', result.error);
+    return null;
+  }
+
+  return sanitizeCustomPalettes(result.palettes);
+}
+
+export async function saveStoredCustomPalettes(palettes: CustomPalette[]): Promise<void> {
+  const api = window.electronAPI;
+  if (!api?.saveCustomPalettes) {
+    return;
+  }
+
+  const result = await api.saveCustomPalettes(palettes);
+  if (!result.success) {
+    console.error('Failed to save custom palettes:', result.error);
+  }
+}
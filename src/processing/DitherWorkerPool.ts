@@ -0,0 +1,157 @@
+import type { Palette } from '../palettes';
+import type { ColorMetric } from '../state/store';
+import type { ErrorDiffusionMode } from './dither/errorDiffusion';
+
+export interface DitherJob {
+  pixels: Uint8Array;
+  width: number;
+  height: number;
+  palette: Palette;
+  mode: ErrorDiffusionMode;
+  colorMetric: ColorMetric;
+  serpentine: boolean;
+}
+
+interface QueuedJob {
+  job: DitherJob;
+  resolve: (pixels: Uint8Array) => void;
+  reject: (error: Error) => void;
+}
+
+interface WorkerResult {
+  pixels: Uint8Array;
+}
+
+// Jobs allowed per worker (running + queued) before isSaturated() reports true
+const JOBS_PER_WORKER = 2;
+
+/**
+ * Pool of error-diffusion workers for export. Each worker runs one job at a
+ * time; results resolve in completion order, so callers that need frame
+ * order must chain on the returned promises. Temporal coherence is not
+ * supported because it carries state from one frame to the next.
+ */
+export class DitherWorkerPool {
+  private workers: Worker[] = [];
+  private idleWorkers: Worker[] = [];
+  private queue: QueuedJob[] = [];
+  private running = new Set<QueuedJob>();
+  private inFlight = 0;
+  private readonly maxInFlight: number;
+  private capacityWaiters: (() => void)[] = [];
+  private disposed = false;
+
+  constructor(size = navigator.hardwareConcurrency || 4) {
+    const workerCount = Math.max(1, Math.floor(size));
+    this.maxInFlight = workerCount * JOBS_PER_WORKER;
+
+    for (let i = 0; i < workerCount; i++) {
+      const worker = new Worker(
+        new URL('../workers/floydSteinberg.worker.ts', import.meta.url),
+        { type: 'module' }
+      );
+      this.workers.push(worker);
+      this.idleWorkers.push(worker);
+    }
+  }
+
+  get size(): number {
+    return this.workers.length;
+  }
+
+  /**
+   * True once enough jobs are pending that the caller should stop capturing
+   * frames (and holding their pixels) until waitForCapacity() resolves.
+   */
+  isSaturated(): boolean {
+    return this.inFlight >= this.maxInFlight;
+  }
+
+  waitForCapacity(): Promise<void> {
+    if (!this.isSaturated() || this.disposed) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.capacityWaiters.push(resolve));
+  }
+
+  dither(job: DitherJob): Promise<Uint8Array> {
+    if (this.disposed) {
+      return Promise.reject(new Error('Dither worker pool disposed'));
+    }
+
+    this.inFlight++;
+    return new Promise((resolve, reject) => {
+      this.queue.push({ job, resolve, reject });
+      this.runNext();
+    });
+  }
+
+  dispose(): void {
+    if (this.disposed) return;
+    this.disposed = true;
+
+    for (const worker of this.workers) {
+      worker.terminate();
+    }
+    for (const queued of [...this.running, ...this.queue]) {
+      queued.reject(new Error('Dither worker pool disposed'));
+    }
+    this.workers = [];
+    this.idleWorkers = [];
+    this.queue = [];
+    this.running.clear();
+    this.releaseCapacityWaiters();
+  }
+
+  private runNext(): void {
+    const worker = this.idleWorkers.pop();
+    if (!worker) return;
+
+    const queued = this.queue.shift();
+    if (!queued) {
+      this.idleWorkers.push(worker);
+      return;
+    }
+
+    this.running.add(queued);
+
+    const finish = () => {
+      worker.removeEventListener('message', handleMessage);
+      worker.removeEventListener('error', handleError);
+      this.running.delete(queued);
+      this.inFlight--;
+      if (this.disposed) return;
+      this.idleWorkers.push(worker);
+      this.releaseCapacityWaiters();
+      this.runNext();
+    };
+
+    const handleMessage = (e: MessageEvent<WorkerResult>) => {
+      finish();
+      queued.resolve(e.data.pixels);
+    };
+
+    const handleError = (e: ErrorEvent) => {
+      finish();
+      queued.reject(e.error instanceof Error ? e.error : new Error(e.message || 'Dither worker failed'));
+    };
+
+    worker.addEventListener('message', handleMessage);
+    worker.addEventListener('error', handleError);
+
+    const { pixels, width, height, palette, mode, colorMetric, serpentine } = queued.job;
+    worker.postMessage(
+      { pixels, width, height, palette, mode, colorMetric, serpentine },
+      { transfer: [pixels.buffer] }
+    );
+  }
+
+  private releaseCapacityWaiters(): void {
+    if (this.isSaturated() && !this.disposed) return;
+    const waiters = this.capacityWaiters;
+    this.capacityWaiters = [];
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+}
@@ -1,10 +1,45 @@
 import { getVideoProcessor, type ProcessingSettings } from './VideoProcessor';
-import { encodeMp4, extractAudioFromVideo, muxMp4WithSourceAudio, type AudioExportSettings } from './encoders/Mp4Encoder';
-import { WebCodecsEncoder, isWebCodecsSupported } from './encoders/WebCodecsEncoder';
-import { encodeGif } from './encoders/GifEncoder';
+import {
+  decodeVideoFrames,
+  encodeVideoWithFfmpeg,
+  extractExportAudio,
+  muxVideoWithSourceAudio,
+} from './encoders/Mp4Encoder';
+import { WebCodecsEncoder, getWebCodecsOutputDimensions, isWebCodecsSupported } from './encoders/WebCodecsEncoder';
+import {
+  DEFAULT_VIDEO_CODEC,
+  VIDEO_CODECS,
+  VIDEO_CODEC_INFO,
+  getVideoContainer,
+  type VideoCodec,
+} from './encoders/videoCodecs';
+import { encodeGif, type GifEncodeOptions } from './encoders/GifEncoder';
 import { encodePngSequence } from './encoders/PngEncoder';
+import { encodeAnimatedWebp } from './encoders/WebpEncoder';
+import { encodeApng } from './encoders/ApngEncoder';
+import { encodeGbTiles } from './encoders/GbTilesEncoder';
+import { encodeAseprite } from './encoders/AsepriteEncoder';
+import {
+  DEFAULT_SPRITE_SHEET_OPTIONS,
+  encodeSpriteSheet,
+  type SpriteSheetOptions,
+} from './encoders/SpriteSheetEncoder';
+import { resolveFrameBorder } from './frameBorder';
+import { checkFramesAgainstPalette, unverifiedPaletteCheck, type PaletteCheckReport } from './paletteCheck';
 import type { ExportFormat } from '../state/store';
-import { EXPORT_SCALE } from '../constants';
+import { getPaletteColors } from '../palettes';
+import type { AudioTrackSettings } from '../audio/audioTrack';
+import type { AudioExportSettings } from '../audio/renderAudio';
+import {
+  NATIVE_EXPORT_RESOLUTION,
+  calculateScaledDimensions,
+  getDefaultExportResolution,
+  isNativeOnlyFormat,
+  type ExportResolution,
+} from '../utils';
+
+// Decoded frames checked after a lossless export, spread across the clip
+const MAX_VERIFIED_FRAMES = 30;
 
 function isMacEnvironment(): boolean {
   if (typeof navigator === 'undefined') {
@@ -16,6 +51,27 @@ function isMacEnvironment(): boolean {
   return /Macintosh|Mac OS X/i.test(userAgent) || /Mac/i.test(platform);
 }
 
+// WebCodecs export is disabled on macOS for stability
+async function checkWebCodecsExport(codec: VideoCodec, output?: { width: number; height: number; fps: number }) {
+  return isMacEnvironment()
+    ? { supported: false, reason: 'Disabled on macOS for export stability' }
+    : isWebCodecsSupported(codec, output);
+}
+
+/**
+ * Video codecs that can be exported here: the ones FFmpeg can fall back to,
+ * plus the WebCodecs-only ones (AV1) when the platform encoder supports them.
+ */
+export async function getAvailableVideoCodecs(): Promise<VideoCodec[]> {
+  const available: VideoCodec[] = [];
+  for (const codec of VIDEO_CODECS) {
+    if (VIDEO_CODEC_INFO[codec].ffmpegArgs || (await checkWebCodecsExport(codec)).supported) {
+      available.push(codec);
+    }
+  }
+  return available;
+}
+
 export interface SourceVideoDimensions {
   width: number;
   height: number;
@@ -26,16 +82,33 @@ export interface TrimRange {
   end: number;   // 0-1 as percentage of duration
 }
 
+export interface GifExportOptions extends Pick<GifEncodeOptions, 'loopCount'> {
+  // Added to the last frame's delay so the GIF pauses before it ends or loops
+  endHoldMs?: number;
+}
+
 export interface ExportOptions {
   format: ExportFormat;
   fps: number;
   settings: ProcessingSettings;
   enableAudioBitcrush: boolean;
   audioSettings?: AudioExportSettings;
+  // Video ('mp4' format) only; replaces or mixes with the source audio
+  audioTrack?: AudioTrackSettings | null;
+  // GIF only; the colour table always comes from settings.palette
+  gifOptions?: GifExportOptions;
+  // Sprite sheet only
+  spriteSheetOptions?: SpriteSheetOptions;
+  // Video ('mp4' format) only; VP9 and AV1 produce WebM, the lossless codecs MKV
+  videoCodec?: VideoCodec;
+  // Defaults per format; ignored by the native-only formats (GB tiles, Aseprite)
+  resolution?: ExportResolution;
   sourceVideoDimensions?: SourceVideoDimensions;
   trimRange?: TrimRange;
   onProgress: (progress: number) => void;
   onPhaseProgress?: (phase: 'load' | 'extract' | 'encode' | 'write', value: number) => void;
+  // Lossless video only: result of decoding the export and checking its colours
+  onPaletteCheck?: (report: PaletteCheckReport) => void;
 }
 
 export async function exportVideo(
@@ -48,16 +121,38 @@ export async function exportVideo(
     settings,
     enableAudioBitcrush,
     audioSettings,
+    audioTrack,
+    gifOptions,
+    spriteSheetOptions,
+    videoCodec = DEFAULT_VIDEO_CODEC,
     sourceVideoDimensions,
+    resolution: requestedResolution,
     trimRange,
     onProgress,
-    onPhaseProgress
+    onPhaseProgress,
+    onPaletteCheck
   } = options;
   const processor = getVideoProcessor();
 
-  processor.setSettings(settings);
-  const exportScale = format === 'mp4' ? EXPORT_SCALE.HIGH_QUALITY : 1;
-  processor.setExportScale(exportScale);
+  // Aseprite files are meant for hand-editing, GIFs and lossless video
+  // promise palette-exact pixels and GB tiles must map every pixel to a
+  // shade, so they get the bare palette without LCD shading
+  const losslessVideo = format === 'mp4' && VIDEO_CODEC_INFO[videoCodec].lossless;
+  const paletteExact = format === 'aseprite' || format === 'gif' || format === 'gbtiles' || losslessVideo;
+  processor.setSettings(paletteExact
+    ? {
+      ...settings,
+      lcd: { ...settings.lcd, enabled: false },
+      // GB tiles cover the processed picture only; a bezel isn't tile data
+      ...(format === 'gbtiles' ? { frameBorder: 'none' as const, customFrameBorder: null } : {}),
+    }
+    : settings);
+  const resolution = isNativeOnlyFormat(format)
+    ? NATIVE_EXPORT_RESOLUTION
+    : requestedResolution ?? getDefaultExportResolution(format);
+  // MP4 frames are scaled (and letterboxed) on the GPU so LCD effects render
+  // at output size; the other encoders scale native frames themselves
+  processor.setExportResolution(format === 'mp4' ? resolution : NATIVE_EXPORT_RESOLUTION);
 
   // Get source dimensions from video element if not provided
   const sourceDims = sourceVideoDimensions || {
@@ -74,34 +169,39 @@ export async function exportVideo(
 
   switch (format) {
     case 'mp4': {
-      const isMac = isMacEnvironment();
-      const webCodecsAllowed = !isMac;
-      console.log(`MP4 export encoder selection: webCodecsAllowed=${webCodecsAllowed}, isMac=${isMac}`);
-      const webCodecsSupport = webCodecsAllowed
-        ? await isWebCodecsSupported()
-        : { supported: false, reason: 'Disabled on macOS for export stability' };
+      const codecInfo = VIDEO_CODEC_INFO[videoCodec];
+      processor.setSourceVideoDimensions(videoElement.videoWidth, videoElement.videoHeight);
+      const processingDims = processor.getExportFrameDimensions();
+      // Probe at the real output size: large exports need a higher codec level
+      const webCodecsSupport = await checkWebCodecsExport(videoCodec, {
+        ...getWebCodecsOutputDimensions(processingDims.width, processingDims.height),
+        fps,
+      });
+      console.log(`${codecInfo.label} export encoder selection: webCodecs=${webCodecsSupport.supported}`);
 
       if (webCodecsSupport.supported) {
-        console.log('Using WebCodecs streaming export for MP4');
-
-        const needsAudio = !!videoElement.src;
+        console.log(`Using WebCodecs streaming export for ${codecInfo.label}`);
 
-        processor.setSourceVideoDimensions(videoElement.videoWidth, videoElement.videoHeight);
-        const processingDims = processor.getExportFrameDimensions();
-        const encoder = new WebCodecsEncoder({
-          fps,
-          frameWidth: processingDims.width,
-          frameHeight: processingDims.height,
-        });
+        const needsAudio = !!videoElement.src || !!audioTrack;
 
+        let encoder: WebCodecsEncoder | null = null;
         let webCodecsVideoBlob: Blob | null = null;
 
         try {
+          // Configuring can throw synchronously; that falls back to FFmpeg too
+          const activeEncoder = new WebCodecsEncoder({
+            fps,
+            frameWidth: processingDims.width,
+            frameHeight: processingDims.height,
+            codec: videoCodec,
+          });
+          encoder = activeEncoder;
+
           await processor.extractFramesStreaming(
             videoElement,
             fps,
             async (frame) => {
-              await encoder.encodeFrame(frame);
+              await activeEncoder.encodeFrame(frame);
             },
             (p) => {
               onPhaseProgress?.('extract', p);
@@ -114,10 +214,13 @@ export async function exportVideo(
           onPhaseProgress?.('extract', 1);
           onPhaseProgress?.('encode', 0.5);
           onProgress(0.9);
-          webCodecsVideoBlob = await encoder.finalize();
+          webCodecsVideoBlob = await activeEncoder.finalize();
           onPhaseProgress?.('encode', 0.8);
         } catch (error) {
-          encoder.close();
+          encoder?.close();
+          if (!codecInfo.ffmpegArgs) {
+            throw error;
+          }
           console.warn('WebCodecs export failed, falling back to FFmpeg:', error);
         }
 
@@ -127,7 +230,7 @@ export async function exportVideo(
           if (needsAudio) {
             try {
               onProgress(0.92);
-              blob = await muxMp4WithSourceAudio(
+              blob = await muxVideoWithSourceAudio(
                 webCodecsVideoBlob,
                 videoElement.src,
                 startTime,
@@ -137,10 +240,12 @@ export async function exportVideo(
                 (p) => {
                   onPhaseProgress?.('encode', 0.8 + p * 0.2);
                   onProgress(0.92 + p * 0.08);
-                }
+                },
+                codecInfo.container,
+                audioTrack
               );
             } catch (audioMuxError) {
-              console.warn('Audio mux failed for WebCodecs export, returning video-only MP4:', audioMuxError);
+              console.warn('Audio mux failed for WebCodecs export, returning video only:', audioMuxError);
             }
           }
 
@@ -148,16 +253,18 @@ export async function exportVideo(
           onProgress(1);
           break;
         }
+      } else if (!codecInfo.ffmpegArgs) {
+        throw new Error(`${codecInfo.label} export is not supported here: ${webCodecsSupport.reason ?? 'no WebCodecs encoder'}`);
       } else {
         console.warn('WebCodecs not supported, falling back to FFmpeg export:', webCodecsSupport.reason);
       }
 
-      console.log('Starting MP4 export (FFmpeg), video src:', videoElement.src);
+      console.log(`Starting ${codecInfo.label} export (FFmpeg), video src:`, videoElement.src);
       console.log('Audio bitcrush enabled:', enableAudioBitcrush);
       console.log('Trim range:', startTime, '-', endTime);
 
       // Start audio extraction in parallel with frame extraction
-      const audioPromise = extractAudioFromVideo(videoElement.src, startTime, endTime)
+      const audioPromise = extractExportAudio(videoElement.src, startTime, endTime, audioTrack)
         .catch((e) => { console.warn('Could not extract audio:', e); return null; });
 
       const frames = await processor.extractFrames(
@@ -175,18 +282,52 @@ export async function exportVideo(
       const audioBlob = await audioPromise;
       console.log('Audio extraction result:', audioBlob ? `Blob size: ${audioBlob.size}` : 'null');
 
-      blob = await encodeMp4(
+      // Lossless exports leave the last 10% for decoding and checking colours
+      const encodeShare = losslessVideo ? 0.4 : 0.5;
+      blob = await encodeVideoWithFfmpeg(
         frames,
         fps,
         audioBlob,
         enableAudioBitcrush,
         (p) => {
-          onPhaseProgress?.('encode', p);
-          onProgress(0.5 + p * 0.5);
+          onPhaseProgress?.('encode', losslessVideo ? p * 0.8 : p);
+          onProgress(0.5 + p * encodeShare);
         },
         audioSettings,
-        sourceDims
+        sourceDims,
+        videoCodec
       );
+
+      if (losslessVideo && frames.length > 0) {
+        const frameStep = Math.ceil(frames.length / MAX_VERIFIED_FRAMES);
+        const encodedDims = calculateScaledDimensions(frames[0].width, frames[0].height, 1, true);
+        let report: PaletteCheckReport;
+        // The export is already encoded; a failed read-back mustn't lose it
+        try {
+          const decoded = await decodeVideoFrames(
+            blob,
+            codecInfo.container,
+            encodedDims.width,
+            encodedDims.height,
+            fps,
+            frameStep
+          );
+          report = checkFramesAgainstPalette(decoded, {
+            palette: getPaletteColors(settings.palette, settings.invertPalette),
+            rgb555: settings.ditherMode === 'gameBoyColor',
+            border: resolveFrameBorder(settings.frameBorder, settings.customFrameBorder),
+            frameStep,
+          });
+        } catch (error) {
+          console.warn(`Could not decode the ${codecInfo.label} export to check its colours:`, error);
+          report = unverifiedPaletteCheck(error);
+        }
+        if (report.verified && !report.passed) {
+          console.warn(`${codecInfo.label} export has ${report.offPalettePixels} off-palette pixels:`, report.samples);
+        }
+        onPaletteCheck?.(report);
+        onProgress(1);
+      }
       onPhaseProgress?.('encode', 1);
       break;
     }
@@ -202,6 +343,7 @@ export async function exportVideo(
         endTime
       );
       onPhaseProgress?.('extract', 1);
+      const { endHoldMs = 0, ...encodeOptions } = gifOptions ?? {};
       blob = await encodeGif(
         frames,
         fps,
@@ -209,6 +351,39 @@ export async function exportVideo(
           onPhaseProgress?.('encode', p);
           onProgress(0.5 + p * 0.5);
         },
+        {
+          ...encodeOptions,
+          palette: getPaletteColors(settings.palette, settings.invertPalette),
+          frameDelaysMs: frames.map((_, i) => 1000 / fps + (i === frames.length - 1 ? endHoldMs : 0)),
+        },
+        resolution,
+        sourceDims
+      );
+      onPhaseProgress?.('encode', 1);
+      break;
+    }
+    case 'webp':
+    case 'apng': {
+      const frames = await processor.extractFrames(
+        videoElement,
+        fps,
+        (p) => {
+          onPhaseProgress?.('extract', p);
+          onProgress(p * 0.5);
+        },
+        startTime,
+        endTime
+      );
+      onPhaseProgress?.('extract', 1);
+      const encode = format === 'webp' ? encodeAnimatedWebp : encodeApng;
+      blob = await encode(
+        frames,
+        fps,
+        (p) => {
+          onPhaseProgress?.('encode', p);
+          onProgress(0.5 + p * 0.5);
+        },
+        resolution,
         sourceDims
       );
       onPhaseProgress?.('encode', 1);
@@ -232,6 +407,88 @@ export async function exportVideo(
           onPhaseProgress?.('encode', p);
           onProgress(0.5 + p * 0.5);
         },
+        resolution,
+        sourceDims
+      );
+      onPhaseProgress?.('encode', 1);
+      break;
+    }
+    case 'gbtiles': {
+      if (settings.ditherMode === 'gameBoyColor') {
+        throw new Error('GB tile export needs DMG shades; Game Boy Color mode keeps full colour');
+      }
+      const frames = await processor.extractFrames(
+        videoElement,
+        fps,
+        (p) => {
+          onPhaseProgress?.('extract', p);
+          onProgress(p * 0.5);
+        },
+        startTime,
+        endTime
+      );
+      onPhaseProgress?.('extract', 1);
+      blob = await encodeGbTiles(
+        frames,
+        (p) => {
+          onPhaseProgress?.('encode', p);
+          onProgress(0.5 + p * 0.5);
+        },
+        {
+          palette: getPaletteColors(settings.palette, settings.invertPalette),
+          processingDimensions: processor.getProcessingDimensions(),
+        },
+        sourceDims
+      );
+      onPhaseProgress?.('encode', 1);
+      break;
+    }
+    case 'aseprite': {
+      const frames = await processor.extractFrames(
+        videoElement,
+        fps,
+        (p) => {
+          onPhaseProgress?.('extract', p);
+          onProgress(p * 0.5);
+        },
+        startTime,
+        endTime
+      );
+      onPhaseProgress?.('extract', 1);
+      blob = await encodeAseprite(
+        frames,
+        fps,
+        (p) => {
+          onPhaseProgress?.('encode', p);
+          onProgress(0.5 + p * 0.5);
+        },
+        { palette: getPaletteColors(settings.palette, settings.invertPalette) },
+        sourceDims
+      );
+      onPhaseProgress?.('encode', 1);
+      break;
+    }
+    case 'spritesheet': {
+      const frames = await processor.extractFrames(
+        videoElement,
+        fps,
+        (p) => {
+          onPhaseProgress?.('extract', p);
+          onProgress(p * 0.5);
+        },
+        startTime,
+        endTime
+      );
+      onPhaseProgress?.('extract', 1);
+      blob = await encodeSpriteSheet(
+        frames,
+        fps,
+        (p) => {
+          onPhaseProgress?.('encode', p);
+          onProgress(0.5 + p * 0.5);
+        },
+        spriteSheetOptions ?? DEFAULT_SPRITE_SHEET_OPTIONS,
+        resolution,
         sourceDims
       );
       onPhaseProgress?.('encode', 1);
@@ -239,30 +496,63 @@ export async function exportVideo(
     }
   }
 
+  const timing = processor.getFrameTimingStats();
+  console.log(`Processed ${timing.frames} frames, ${timing.averageMs.toFixed(2)}ms/frame average`);
+
   return blob;
 }
 
-export function getExportFilename(originalName: string, format: ExportFormat): string {
+export function getExportFilename(
+  originalName: string,
+  format: ExportFormat,
+  videoCodec: VideoCodec = DEFAULT_VIDEO_CODEC
+): string {
   const baseName = originalName.replace(/\.[^/.]+$/, '');
   const suffix = '_pocketframe';
 
   switch (format) {
     case 'mp4':
-      return `${baseName}${suffix}.mp4`;
+      return `${baseName}${suffix}.${getVideoContainer(videoCodec)}`;
     case 'gif':
       return `${baseName}${suffix}.gif`;
+    case 'webp':
+      return `${baseName}${suffix}.webp`;
+    case 'apng':
+      return `${baseName}${suffix}.png`;
     case 'png':
       return `${baseName}${suffix}_frames.zip`;
+    case 'gbtiles':
+      return `${baseName}${suffix}_gbtiles.zip`;
+    case 'spritesheet':
+      return `${baseName}${suffix}_spritesheet.zip`;
+    case 'aseprite':
+      return `${baseName}${suffix}.aseprite`;
   }
 }
 
-export function getExportFilters(format: ExportFormat) {
+export function getExportFilters(format: ExportFormat, videoCodec: VideoCodec = DEFAULT_VIDEO_CODEC) {
   switch (format) {
     case 'mp4':
-      return [{ name: 'MP4 Video', extensions: ['mp4'] }];
+      switch (getVideoContainer(videoCodec)) {
+        case 'webm':
+          return [{ name: 'WebM Video', extensions: ['webm'] }];
+        case 'mkv':
+          return [{ name: 'Matroska Video', extensions: ['mkv'] }];
+        default:
+          return [{ name: 'MP4 Video', extensions: ['mp4'] }];
+      }
     case 'gif':
       return [{ name: 'GIF Animation', extensions: ['gif'] }];
+    case 'webp':
+      return [{ name: 'Animated WebP', extensions: ['webp'] }];
+    case 'apng':
+      return [{ name: 'Animated PNG', extensions: ['png', 'apng'] }];
     case 'png':
       return [{ name: 'ZIP Archive', extensions: ['zip'] }];
+    case 'gbtiles':
+    case 'spritesheet':
+      return [{ name: 'ZIP Archive', extensions: ['zip'] }];
+    case 'aseprite':
+      return [{ name: 'Aseprite Sprite', extensions: ['aseprite', 'ase'] }];
   }
 }
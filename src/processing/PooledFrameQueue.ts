@@ -0,0 +1,55 @@
+/**
+ * Puts pooled frames back in capture order. Results finish in any order,
+ * but each one is handed on only after every earlier frame has been, and a
+ * frame counts against the limit from capture until it's handed on, so
+ * frames that are dithered but still waiting their turn are bounded too.
+ */
+export class PooledFrameQueue<T> {
+  private chain: Promise<void> = Promise.resolve();
+  private pending = 0;
+  private capacityWaiters: (() => void)[] = [];
+
+  constructor(private readonly limit: number) {}
+
+  // Frames captured but not yet handed on
+  get size(): number {
+    return this.pending;
+  }
+
+  isFull(): boolean {
+    return this.pending >= this.limit;
+  }
+
+  waitForCapacity(): Promise<void> {
+    if (!this.isFull()) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this.capacityWaiters.push(resolve));
+  }
+
+  /**
+   * Queue a frame's result. `consume` runs once the result is ready and every
+   * earlier frame has been consumed; the returned promise settles with it.
+   * A failed frame rejects its own promise but doesn't hold up later ones.
+   */
+  push(result: Promise<T>, consume: (value: T) => void | Promise<void>): Promise<void> {
+    this.pending++;
+    const consumed = this.chain
+      .then(async () => consume(await result))
+      .finally(() => {
+        this.pending--;
+        this.releaseCapacityWaiters();
+      });
+    this.chain = consumed.catch(() => undefined);
+    return consumed;
+  }
+
+  private releaseCapacityWaiters(): void {
+    if (this.isFull()) return;
+    const waiters = this.capacityWaiters;
+    this.capacityWaiters = [];
+    for (const resolve of waiters) {
+      resolve();
+    }
+  }
+}
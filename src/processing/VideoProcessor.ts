@@ -1,18 +1,62 @@
 import { RenderPipeline } from '../webgl/pipeline/RenderPipeline';
-import type { CropRegionNormalized, DitherMode } from '../state/store';
-import { PALETTES, type Palette, type PaletteName } from '../palettes';
-import { floydSteinbergDither } from './dither/floydSteinberg';
+import type { ColorMetric, CropRegionNormalized, DitherMode } from '../state/store';
+import { DEFAULT_PALETTE, getPaletteColors, type PaletteName } from '../palettes';
+import {
+  ERROR_DIFFUSION_KERNELS,
+  createTemporalDitherState,
+  errorDiffusionDither,
+  isErrorDiffusionMode,
+  resetTemporalDitherState,
+  resolveErrorDiffusionBackend,
+  type ErrorDiffusionBackend,
+} from './dither/errorDiffusion';
+import { resolveThresholdMatrix, type ThresholdMatrix, type ThresholdMatrixName } from './dither/thresholdMatrix';
+import { DitherWorkerPool } from './DitherWorkerPool';
+import { PooledFrameQueue } from './PooledFrameQueue';
+import { resolveFrameBorder, type FrameBorder, type FrameBorderName } from './frameBorder';
+import {
+  DEFAULT_PROCESSING_RESOLUTION,
+  NATIVE_EXPORT_RESOLUTION,
+  calculateExportLayout,
+  type ExportFrameLayout,
+  type ExportResolution,
+  type ProcessingResolutionSettings,
+} from '../utils';
 
 // Initial canvas size (will be resized when video dimensions are set)
 const INITIAL_SIZE = 160;
 
+// Extraction gives up after this much playback time; backpressure pauses don't count
+const EXTRACTION_TIMEOUT_MS = 120000;
+
+// Pooled frames held between capture and onFrame, per dither worker
+const POOLED_FRAMES_PER_WORKER = 3;
+
+// Frames sampled across the clip when comparing error-diffusion backends
+const ERROR_DIFFUSION_BENCHMARK_FRAMES = 10;
+
 export interface ProcessingSettings {
   contrast: number;
   cameraResponse: number;
   cropRegion: CropRegionNormalized;
   ditherMode: DitherMode;
+  processingResolution: ProcessingResolutionSettings;
   palette: PaletteName;
   invertPalette: boolean;
+  colorMetric: ColorMetric;
+  // Error diffusion modes only: alternate scan direction per row
+  serpentine: boolean;
+  // Error diffusion modes only; serpentine always runs on the CPU
+  errorDiffusionBackend: ErrorDiffusionBackend;
+  // thresholdMatrix mode only: which matrix, and the user-loaded one for 'custom'
+  thresholdMatrix: ThresholdMatrixName;
+  customThresholdMatrix: ThresholdMatrix | null;
+  // Keep the previous frame's colour where luminance changed less than the threshold
+  temporalCoherence: boolean;
+  temporalThreshold: number;
+  // Console border around every frame, and the user-loaded one for 'custom'
+  frameBorder: FrameBorderName;
+  customFrameBorder: FrameBorder | null;
   lcd: {
     enabled: boolean;
     gridIntensity: number;
@@ -22,6 +66,19 @@ export interface ProcessingSettings {
   };
 }
 
+// Wall-clock processFrame cost since the last setSettings (for benchmarking backends)
+export interface FrameTimingStats {
+  frames: number;
+  averageMs: number;
+}
+
+// Average ms per frame of each error-diffusion backend on the same frames
+export interface ErrorDiffusionBenchmark {
+  frames: number;
+  cpuAverageMs: number;
+  gpuAverageMs: number;
+}
+
 export interface FrameData {
   pixels: Uint8Array;
   width: number;
@@ -37,19 +94,75 @@ type VideoWithRVFC = HTMLVideoElement & {
   cancelVideoFrameCallback: (id: number) => void;
 };
 
+interface PausableTimeout {
+  pause: () => void;
+  resume: () => void;
+  clear: () => void;
+}
+
+/**
+ * setTimeout that can be paused; the time already waited carries over.
+ */
+function createPausableTimeout(onTimeout: () => void, ms: number): PausableTimeout {
+  let remaining = ms;
+  let startedAt = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let cleared = false;
+
+  const resume = () => {
+    if (cleared || timer !== null) return;
+    startedAt = performance.now();
+    timer = setTimeout(onTimeout, remaining);
+  };
+  const pause = () => {
+    if (timer === null) return;
+    clearTimeout(timer);
+    timer = null;
+    remaining = Math.max(0, remaining - (performance.now() - startedAt));
+  };
+
+  resume();
+  return {
+    pause,
+    resume,
+    clear: () => {
+      cleared = true;
+      pause();
+    },
+  };
+}
+
 export class VideoProcessor {
   private canvas: OffscreenCanvas;
   private pipeline: RenderPipeline;
   private processWidth = INITIAL_SIZE;
   private processHeight = INITIAL_SIZE;
-  private exportScale = 1;
+  private exportResolution: ExportResolution = NATIVE_EXPORT_RESOLUTION;
+  // CPU-mode counterpart of the pipeline's previous-frame history
+  private temporalState = createTemporalDitherState();
+  private timedFrames = 0;
+  private timedTotalMs = 0;
+  // Only set while an export runs CPU dithering in parallel
+  private ditherPool: DitherWorkerPool | null = null;
+  // Puts pooled frames back in capture order; set with the pool
+  private pooledFrames: PooledFrameQueue<Uint8Array> | null = null;
   private currentSettings: ProcessingSettings = {
     contrast: 1.0,
     cameraResponse: 0.8,
     cropRegion: { x: 0, y: 0, width: 1, height: 1 },
     ditherMode: 'bayer4x4',
-    palette: '1989Green',
+    processingResolution: DEFAULT_PROCESSING_RESOLUTION,
+    palette: DEFAULT_PALETTE,
     invertPalette: false,
+    colorMetric: 'luminance',
+    serpentine: false,
+    errorDiffusionBackend: 'gpu',
+    thresholdMatrix: 'bayer8x8',
+    customThresholdMatrix: null,
+    temporalCoherence: false,
+    temporalThreshold: 0.04,
+    frameBorder: 'none',
+    customFrameBorder: null,
     lcd: {
       enabled: true,
       gridIntensity: 0.7,
@@ -82,9 +195,17 @@ export class VideoProcessor {
     this.canvas.height = this.processHeight;
   }
 
-  setExportScale(scale: number): void {
-    const safeScale = Math.max(1, Math.round(scale));
-    this.exportScale = safeScale;
+  /**
+   * Resolution frames are rendered at (upscale + LCD + letterbox on the GPU).
+   * Encoders that scale on their own leave this at native.
+   */
+  setExportResolution(resolution: ExportResolution): void {
+    this.exportResolution = resolution;
+  }
+
+  private getExportLayout(): ExportFrameLayout {
+    const frame = this.pipeline.getFrameDimensions();
+    return calculateExportLayout(frame.width, frame.height, this.exportResolution);
   }
 
   setSettings(settings: ProcessingSettings): void {
@@ -93,8 +214,20 @@ export class VideoProcessor {
     this.pipeline.setCameraResponse(settings.cameraResponse);
     this.pipeline.setCropRegion(settings.cropRegion);
     this.pipeline.setDitherMode(settings.ditherMode);
+    this.pipeline.setProcessingResolution(settings.processingResolution);
     this.pipeline.setPalette(settings.palette);
     this.pipeline.setInvertPalette(settings.invertPalette);
+    this.pipeline.setColorMetric(settings.colorMetric);
+    this.pipeline.setErrorDiffusionBackend(
+      resolveErrorDiffusionBackend(settings.errorDiffusionBackend, settings.serpentine)
+    );
+    this.pipeline.setThresholdMatrix(resolveThresholdMatrix(settings.thresholdMatrix, settings.customThresholdMatrix));
+    this.pipeline.setTemporalCoherence(settings.temporalCoherence);
+    this.pipeline.setTemporalThreshold(settings.temporalThreshold);
+    this.pipeline.setFrameBorder(resolveFrameBorder(settings.frameBorder, settings.customFrameBorder));
+    resetTemporalDitherState(this.temporalState);
+    this.timedFrames = 0;
+    this.timedTotalMs = 0;
     this.pipeline.setLcdEffectsEnabled(settings.lcd.enabled);
     this.pipeline.setGridIntensity(settings.lcd.gridIntensity);
     this.pipeline.setShadowOpacity(settings.lcd.shadowOpacity);
@@ -102,53 +235,250 @@ export class VideoProcessor {
     this.pipeline.setBaselineAlpha(settings.lcd.baselineAlpha);
   }
 
+  getFrameTimingStats(): FrameTimingStats {
+    return {
+      frames: this.timedFrames,
+      averageMs: this.timedFrames > 0 ? this.timedTotalMs / this.timedFrames : 0,
+    };
+  }
+
+  /**
+   * Time the CPU reference and the GPU approximation of the current
+   * error-diffusion mode on the same frames, spread evenly from startTime to
+   * endTime. Both include reading the finished frame back. Meant for after an
+   * export: it seeks the video and advances the LCD ghosting history.
+   */
+  async benchmarkErrorDiffusion(
+    video: HTMLVideoElement,
+    startTime: number,
+    endTime: number,
+    frameCount = ERROR_DIFFUSION_BENCHMARK_FRAMES
+  ): Promise<ErrorDiffusionBenchmark> {
+    const { ditherMode, colorMetric, errorDiffusionBackend, serpentine, temporalCoherence, lcd } = this.currentSettings;
+    if (!isErrorDiffusionMode(ditherMode)) {
+      throw new Error(`${ditherMode} is not an error-diffusion mode`);
+    }
+
+    const palette = getPaletteColors(this.currentSettings.palette, this.currentSettings.invertPalette);
+    const layout = this.getExportLayout();
+    let cpuTotalMs = 0;
+    let gpuTotalMs = 0;
+
+    // Plain top-to-bottom scan on both, since the GPU has no serpentine or
+    // temporal variant of the CPU's work to compare against
+    this.pipeline.setErrorDiffusionBackend('gpu');
+    this.pipeline.setTemporalCoherence(false);
+    try {
+      for (let i = 0; i < frameCount; i++) {
+        await this.seekTo(video, startTime + ((i + 0.5) * (endTime - startTime)) / frameCount);
+
+        let startedAt = performance.now();
+        const dithered = errorDiffusionDither(
+          this.captureContrastPixels(video),
+          this.processWidth,
+          this.processHeight,
+          palette,
+          ERROR_DIFFUSION_KERNELS[ditherMode],
+          { colorMetric }
+        );
+        this.pipeline.renderExportFromPixels(dithered, lcd.enabled, layout);
+        this.pipeline.getProcessedPixels();
+        cpuTotalMs += performance.now() - startedAt;
+
+        startedAt = performance.now();
+        this.pipeline.renderProcessed(video, layout);
+        this.pipeline.getProcessedPixels();
+        gpuTotalMs += performance.now() - startedAt;
+      }
+    } finally {
+      this.pipeline.setErrorDiffusionBackend(resolveErrorDiffusionBackend(errorDiffusionBackend, serpentine));
+      this.pipeline.setTemporalCoherence(temporalCoherence);
+    }
+
+    return {
+      frames: frameCount,
+      cpuAverageMs: frameCount > 0 ? cpuTotalMs / frameCount : 0,
+      gpuAverageMs: frameCount > 0 ? gpuTotalMs / frameCount : 0,
+    };
+  }
+
   processFrame(video: HTMLVideoElement): FrameData {
-    let pixels: Uint8Array;
-
-    if (this.currentSettings.ditherMode === 'floydSteinberg') {
-      this.pipeline.renderProcessed(video, this.exportScale);
-      const contrastPixels = this.pipeline.getContrastPixels();
-      const basePalette = PALETTES[this.currentSettings.palette];
-      const palette: Palette = this.currentSettings.invertPalette
-        ? [...basePalette].reverse() as Palette
-        : basePalette;
-      const floydPixels = floydSteinbergDither(
+    const startedAt = performance.now();
+    const { ditherMode, serpentine } = this.currentSettings;
+
+    if (this.usesCpuDither() && isErrorDiffusionMode(ditherMode)) {
+      const contrastPixels = this.captureContrastPixels(video);
+      const palette = getPaletteColors(this.currentSettings.palette, this.currentSettings.invertPalette);
+      const ditheredPixels = errorDiffusionDither(
         contrastPixels,
         this.processWidth,
         this.processHeight,
-        palette
-      );
-      this.pipeline.renderExportFromPixels(
-        floydPixels,
-        this.currentSettings.lcd.enabled,
-        this.exportScale
+        palette,
+        ERROR_DIFFUSION_KERNELS[ditherMode],
+        {
+          colorMetric: this.currentSettings.colorMetric,
+          serpentine,
+          temporal: this.currentSettings.temporalCoherence
+            ? { state: this.temporalState, threshold: this.currentSettings.temporalThreshold }
+            : undefined,
+        }
       );
-      pixels = this.pipeline.getProcessedPixels();
-    } else {
-      this.pipeline.renderProcessed(video, this.exportScale);
-      pixels = this.pipeline.getProcessedPixels();
+      return this.finishCpuDitheredFrame(ditheredPixels, video.currentTime, performance.now() - startedAt);
     }
 
+    this.pipeline.renderProcessed(video, this.getExportLayout());
+    const pixels = this.pipeline.getProcessedPixels();
+
+    // getProcessedPixels reads back, so this includes GPU time
+    this.timedFrames++;
+    this.timedTotalMs += performance.now() - startedAt;
+
+    return this.toFrameData(pixels, video.currentTime);
+  }
+
+  private usesCpuDither(): boolean {
+    const { ditherMode, errorDiffusionBackend, serpentine } = this.currentSettings;
+    return isErrorDiffusionMode(ditherMode)
+      && resolveErrorDiffusionBackend(errorDiffusionBackend, serpentine) === 'cpu';
+  }
+
+  private captureContrastPixels(video: HTMLVideoElement): Uint8Array {
+    this.pipeline.renderContrast(video);
+    return this.pipeline.getContrastPixels();
+  }
+
+  /**
+   * Upscale + LCD for CPU-dithered pixels. Must run in frame order since the
+   * pipeline's ghosting history advances with every call.
+   */
+  private finishCpuDitheredFrame(ditheredPixels: Uint8Array, timestamp: number, elapsedMs: number): FrameData {
+    const startedAt = performance.now();
+    this.pipeline.renderExportFromPixels(
+      ditheredPixels,
+      this.currentSettings.lcd.enabled,
+      this.getExportLayout()
+    );
+    const pixels = this.pipeline.getProcessedPixels();
+
+    this.timedFrames++;
+    this.timedTotalMs += elapsedMs + performance.now() - startedAt;
+
+    return this.toFrameData(pixels, timestamp);
+  }
+
+  private toFrameData(pixels: Uint8Array, timestamp: number): FrameData {
     const outputDims = this.pipeline.getOutputDimensions();
-    const preScaled = this.exportScale > 1;
+    const preScaled = outputDims.width !== this.processWidth || outputDims.height !== this.processHeight;
 
     return {
       pixels,
       width: outputDims.width,
       height: outputDims.height,
-      timestamp: video.currentTime,
+      timestamp,
       preScaled,
     };
   }
 
+  /**
+   * Temporal coherence chains each frame's dither on the previous one, so
+   * only stateless CPU dithering can be spread across workers.
+   */
+  private usesDitherPool(): boolean {
+    return this.usesCpuDither() && !this.currentSettings.temporalCoherence;
+  }
+
+  private async withDitherPool<T>(run: () => Promise<T>): Promise<T> {
+    if (!this.usesDitherPool()) {
+      return run();
+    }
+
+    this.ditherPool = new DitherWorkerPool();
+    this.pooledFrames = new PooledFrameQueue(this.ditherPool.size * POOLED_FRAMES_PER_WORKER);
+    console.log(`CPU dithering on ${this.ditherPool.size} workers`);
+    try {
+      return await run();
+    } finally {
+      this.ditherPool.dispose();
+      this.ditherPool = null;
+      this.pooledFrames = null;
+    }
+  }
+
+  /**
+   * Process the current video frame and pass it to onFrame. With a dither
+   * pool active the frame is dithered on a worker, and completion is chained
+   * behind earlier frames so onFrame still sees them in capture order.
+   */
+  private dispatchFrame(video: HTMLVideoElement, onFrame: StreamingFrameHandler): Promise<void> {
+    const { ditherMode } = this.currentSettings;
+    if (!this.ditherPool || !this.pooledFrames || !isErrorDiffusionMode(ditherMode)) {
+      return Promise.resolve(onFrame(this.processFrame(video)));
+    }
+
+    const startedAt = performance.now();
+    const timestamp = video.currentTime;
+    const dithered = this.ditherPool.dither({
+      pixels: this.captureContrastPixels(video),
+      width: this.processWidth,
+      height: this.processHeight,
+      palette: getPaletteColors(this.currentSettings.palette, this.currentSettings.invertPalette),
+      mode: ditherMode,
+      colorMetric: this.currentSettings.colorMetric,
+      serpentine: this.currentSettings.serpentine,
+    });
+    const captureMs = performance.now() - startedAt;
+
+    return this.pooledFrames.push(dithered, (pixels) =>
+      onFrame(this.finishCpuDitheredFrame(pixels, timestamp, captureMs))
+    );
+  }
+
+  /**
+   * True while the pool is full, or too many dithered frames are still
+   * waiting for onFrame (a slow encoder behind a fast pool).
+   */
+  private isDitherPoolBusy(): boolean {
+    return !!this.ditherPool && (this.ditherPool.isSaturated() || !!this.pooledFrames?.isFull());
+  }
+
+  /**
+   * Backpressure: hold playback while the dither pool is busy so captured
+   * frames don't pile up in memory. The extraction timeout is paused too,
+   * since the wait is on the workers and encoder rather than playback.
+   * Resumes playback unless extraction finished in the meantime.
+   */
+  private async waitForDitherCapacity(
+    video: HTMLVideoElement,
+    isFinished: () => boolean,
+    timeout: PausableTimeout
+  ): Promise<void> {
+    if (!this.isDitherPoolBusy()) return;
+    video.pause();
+    timeout.pause();
+    while (this.ditherPool && this.pooledFrames && this.isDitherPoolBusy()) {
+      await this.ditherPool.waitForCapacity();
+      await this.pooledFrames.waitForCapacity();
+    }
+    if (!isFinished()) {
+      timeout.resume();
+      await video.play();
+    }
+  }
+
   getProcessingDimensions(): { width: number; height: number } {
     return { width: this.processWidth, height: this.processHeight };
   }
 
+  // Native frame size including any border
+  getFrameDimensions(): { width: number; height: number } {
+    return this.pipeline.getFrameDimensions();
+  }
+
   getExportFrameDimensions(): { width: number; height: number } {
+    const layout = this.getExportLayout();
     return {
-      width: this.processWidth * this.exportScale,
-      height: this.processHeight * this.exportScale,
+      width: layout.width,
+      height: layout.height,
     };
   }
 
@@ -183,7 +513,9 @@ export class VideoProcessor {
 
     this.setSourceVideoDimensions(video.videoWidth, video.videoHeight);
 
-    return this.extractFramesAccelerated(video, fps, startTime, actualEndTime, totalFrames, rate, onProgress);
+    return this.withDitherPool(() =>
+      this.extractFramesAccelerated(video, fps, startTime, actualEndTime, totalFrames, rate, onProgress)
+    );
   }
 
   async extractFramesStreaming(
@@ -209,9 +541,9 @@ export class VideoProcessor {
 
     this.setSourceVideoDimensions(video.videoWidth, video.videoHeight);
 
-    return this.extractFramesAcceleratedStreaming(
+    return this.withDitherPool(() => this.extractFramesAcceleratedStreaming(
       video, fps, startTime, actualEndTime, totalFrames, rate, onFrame, onProgress
-    );
+    ));
   }
 
   /**
@@ -257,54 +589,85 @@ export class VideoProcessor {
   ): Promise<FrameData[]> {
     return new Promise((resolve, reject) => {
       const frames: FrameData[] = [];
+      // Pooled frames land in `frames` asynchronously, in capture order
+      const pendingFrames: Promise<void>[] = [];
+      let framesCaptured = 0;
       const frameInterval = 1 / fps;
       let nextCaptureTime = startTime;
       const vrvfc = video as VideoWithRVFC;
 
-      const timeout = setTimeout(() => {
+      let finished = false;
+      const collectFrames = () => Promise.all(pendingFrames).then(() => frames);
+
+      const timeout = createPausableTimeout(() => {
+        finished = true;
         video.pause();
         video.playbackRate = 1;
-        if (frames.length > 0) {
-          console.warn(`Timeout, returning ${frames.length} frames`);
-          resolve(frames);
+        if (framesCaptured > 0) {
+          console.warn(`Timeout, returning ${framesCaptured} of ${totalFrames} frames`);
+          collectFrames().then(resolve, reject);
         } else {
           reject(new Error('Frame extraction timed out'));
         }
-      }, 120000);
+      }, EXTRACTION_TIMEOUT_MS);
 
       const done = () => {
-        clearTimeout(timeout);
+        if (finished) return;
+        finished = true;
+        timeout.clear();
         video.pause();
         video.playbackRate = 1;
-        console.log(`Extracted ${frames.length} frames via accelerated playback (${playbackRate}x)`);
-        resolve(frames);
+        console.log(`Extracted ${framesCaptured} frames via accelerated playback (${playbackRate}x)`);
+        collectFrames().then(resolve, reject);
+      };
+
+      // First failed frame stops extraction; later failures are ignored
+      const fail = (error: Error) => {
+        if (finished) return;
+        finished = true;
+        timeout.clear();
+        video.pause();
+        video.playbackRate = 1;
+        reject(error);
       };
 
       const captureFrame = () => {
-        if (frames.length >= totalFrames || video.currentTime >= endTime) {
+        if (finished) return;
+
+        if (framesCaptured >= totalFrames || video.currentTime >= endTime) {
           done();
           return;
         }
 
-        while (video.currentTime >= nextCaptureTime && frames.length < totalFrames) {
-          const frame = this.processFrame(video);
-          frames.push(frame);
-          nextCaptureTime = startTime + frames.length * frameInterval;
-          onProgress(frames.length / totalFrames);
+        while (video.currentTime >= nextCaptureTime && framesCaptured < totalFrames) {
+          if (this.isDitherPoolBusy()) {
+            this.waitForDitherCapacity(video, () => finished, timeout)
+              .then(() => {
+                if (!finished) vrvfc.requestVideoFrameCallback(captureFrame);
+              })
+              .catch((err) => fail(err as Error));
+            return;
+          }
+
+          const framePromise = this.dispatchFrame(video, (frame) => {
+            frames.push(frame);
+          });
+          framePromise.catch((err) => fail(err as Error));
+          pendingFrames.push(framePromise);
+          framesCaptured++;
+          nextCaptureTime = startTime + framesCaptured * frameInterval;
+          onProgress(framesCaptured / totalFrames);
         }
 
         vrvfc.requestVideoFrameCallback(captureFrame);
       };
 
       video.addEventListener('ended', done, { once: true });
-      video.addEventListener('error', () => {
-        clearTimeout(timeout);
-        reject(new Error('Video error during extraction'));
-      }, { once: true });
+      video.addEventListener('error', () => fail(new Error('Video error during extraction')), { once: true });
 
       video.playbackRate = playbackRate;
       vrvfc.requestVideoFrameCallback(captureFrame);
-      video.play().catch(reject);
+      video.play().catch((err) => fail(err as Error));
     });
   }
 
@@ -319,40 +682,78 @@ export class VideoProcessor {
   ): Promise<FrameData[]> {
     return new Promise((resolve, reject) => {
       const frames: FrameData[] = [];
+      // Pooled frames land in `frames` asynchronously, in capture order
+      const pendingFrames: Promise<void>[] = [];
+      let framesCaptured = 0;
       const frameInterval = 1 / fps;
       let nextCaptureTime = startTime;
       let rafId = 0;
 
-      const timeout = setTimeout(() => {
+      let finished = false;
+      const collectFrames = () => Promise.all(pendingFrames).then(() => frames);
+
+      const timeout = createPausableTimeout(() => {
+        finished = true;
         cancelAnimationFrame(rafId);
         video.pause();
         video.playbackRate = 1;
-        if (frames.length > 0) {
-          resolve(frames);
+        if (framesCaptured > 0) {
+          console.warn(`Timeout, returning ${framesCaptured} of ${totalFrames} frames`);
+          collectFrames().then(resolve, reject);
         } else {
           reject(new Error('Frame extraction timed out'));
         }
-      }, 120000);
+      }, EXTRACTION_TIMEOUT_MS);
 
       const done = () => {
-        clearTimeout(timeout);
+        if (finished) return;
+        finished = true;
+        timeout.clear();
+        cancelAnimationFrame(rafId);
+        video.pause();
+        video.playbackRate = 1;
+        console.log(`Extracted ${framesCaptured} frames via RAF fallback (${playbackRate}x)`);
+        collectFrames().then(resolve, reject);
+      };
+
+      // First failed frame stops extraction; later failures are ignored
+      const fail = (error: Error) => {
+        if (finished) return;
+        finished = true;
+        timeout.clear();
         cancelAnimationFrame(rafId);
         video.pause();
         video.playbackRate = 1;
-        console.log(`Extracted ${frames.length} frames via RAF fallback (${playbackRate}x)`);
-        resolve(frames);
+        reject(error);
       };
 
       const tick = () => {
-        if (frames.length >= totalFrames || video.currentTime >= endTime || video.paused || video.ended) {
+        if (finished) return;
+
+        if (framesCaptured >= totalFrames || video.currentTime >= endTime || video.paused || video.ended) {
           done();
           return;
         }
 
-        while (video.currentTime >= nextCaptureTime && frames.length < totalFrames) {
-          frames.push(this.processFrame(video));
-          nextCaptureTime = startTime + frames.length * frameInterval;
-          onProgress(frames.length / totalFrames);
+        while (video.currentTime >= nextCaptureTime && framesCaptured < totalFrames) {
+          if (this.isDitherPoolBusy()) {
+            // No tick is scheduled while paused, so the paused check above can't end the loop
+            this.waitForDitherCapacity(video, () => finished, timeout)
+              .then(() => {
+                if (!finished) rafId = requestAnimationFrame(tick);
+              })
+              .catch((err) => fail(err as Error));
+            return;
+          }
+
+          const framePromise = this.dispatchFrame(video, (frame) => {
+            frames.push(frame);
+          });
+          framePromise.catch((err) => fail(err as Error));
+          pendingFrames.push(framePromise);
+          framesCaptured++;
+          nextCaptureTime = startTime + framesCaptured * frameInterval;
+          onProgress(framesCaptured / totalFrames);
         }
 
         rafId = requestAnimationFrame(tick);
@@ -362,7 +763,7 @@ export class VideoProcessor {
 
       video.playbackRate = playbackRate;
       rafId = requestAnimationFrame(tick);
-      video.play().catch(reject);
+      video.play().catch((err) => fail(err as Error));
     });
   }
 
@@ -419,7 +820,7 @@ export class VideoProcessor {
       const finalize = () => {
         if (settled) return;
         settled = true;
-        clearTimeout(timeout);
+        timeout.clear();
         video.pause();
         video.playbackRate = 1;
         // Wait for all queued encodes to finish
@@ -434,16 +835,20 @@ export class VideoProcessor {
       const fail = (error: Error) => {
         if (settled) return;
         settled = true;
-        clearTimeout(timeout);
+        timeout.clear();
         video.pause();
         video.playbackRate = 1;
         reject(error);
       };
 
-      const timeout = setTimeout(() => {
-        if (framesCaptured > 0) finalize();
-        else fail(new Error('Frame streaming timed out'));
-      }, 120000);
+      const timeout = createPausableTimeout(() => {
+        if (framesCaptured > 0) {
+          console.warn(`Timeout, streamed ${framesCaptured} of ${totalFrames} frames`);
+          finalize();
+        } else {
+          fail(new Error('Frame streaming timed out'));
+        }
+      }, EXTRACTION_TIMEOUT_MS);
 
       const captureFrame = () => {
         if (settled) return;
@@ -454,8 +859,16 @@ export class VideoProcessor {
         }
 
         while (video.currentTime >= nextCaptureTime && framesCaptured < totalFrames) {
-          const frame = this.processFrame(video);
-          const encodePromise = Promise.resolve(onFrame(frame)).catch((err) => fail(err as Error));
+          if (this.isDitherPoolBusy()) {
+            this.waitForDitherCapacity(video, () => settled, timeout)
+              .then(() => {
+                if (!settled) resumeCapture();
+              })
+              .catch((err) => fail(err as Error));
+            return;
+          }
+
+          const encodePromise = this.dispatchFrame(video, onFrame).catch((err) => fail(err as Error));
           pendingEncodes.push(encodePromise as Promise<void>);
           framesCaptured++;
           nextCaptureTime = startTime + framesCaptured * frameInterval;
@@ -465,6 +878,8 @@ export class VideoProcessor {
         vrvfc.requestVideoFrameCallback(captureFrame);
       };
 
+      const resumeCapture = () => vrvfc.requestVideoFrameCallback(captureFrame);
+
       video.addEventListener('ended', finalize, { once: true });
       video.addEventListener('error', () => fail(new Error('Video error during extraction')), { once: true });
 
@@ -495,7 +910,7 @@ export class VideoProcessor {
       const finalize = () => {
         if (settled) return;
         settled = true;
-        clearTimeout(timeout);
+        timeout.clear();
         cancelAnimationFrame(rafId);
         video.pause();
         video.playbackRate = 1;
@@ -510,17 +925,21 @@ export class VideoProcessor {
       const fail = (error: Error) => {
         if (settled) return;
         settled = true;
-        clearTimeout(timeout);
+        timeout.clear();
         cancelAnimationFrame(rafId);
         video.pause();
         video.playbackRate = 1;
         reject(error);
       };
 
-      const timeout = setTimeout(() => {
-        if (framesCaptured > 0) finalize();
-        else fail(new Error('Frame streaming timed out'));
-      }, 120000);
+      const timeout = createPausableTimeout(() => {
+        if (framesCaptured > 0) {
+          console.warn(`Timeout, streamed ${framesCaptured} of ${totalFrames} frames`);
+          finalize();
+        } else {
+          fail(new Error('Frame streaming timed out'));
+        }
+      }, EXTRACTION_TIMEOUT_MS);
 
       const tick = () => {
         if (settled) return;
@@ -531,8 +950,16 @@ export class VideoProcessor {
         }
 
         while (video.currentTime >= nextCaptureTime && framesCaptured < totalFrames) {
-          const frame = this.processFrame(video);
-          const encodePromise = Promise.resolve(onFrame(frame)).catch((err) => fail(err as Error));
+          if (this.isDitherPoolBusy()) {
+            this.waitForDitherCapacity(video, () => settled, timeout)
+              .then(() => {
+                if (!settled) resumeCapture();
+              })
+              .catch((err) => fail(err as Error));
+            return;
+          }
+
+          const encodePromise = this.dispatchFrame(video, onFrame).catch((err) => fail(err as Error));
           pendingEncodes.push(encodePromise as Promise<void>);
           framesCaptured++;
           nextCaptureTime = startTime + framesCaptured * frameInterval;
@@ -542,6 +969,11 @@ export class VideoProcessor {
         rafId = requestAnimationFrame(tick);
       };
 
+      // No tick is scheduled while paused, so the paused check above can't end the loop
+      const resumeCapture = () => {
+        rafId = requestAnimationFrame(tick);
+      };
+
       video.addEventListener('ended', finalize, { once: true });
 
       video.playbackRate = playbackRate;
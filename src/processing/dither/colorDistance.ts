@@ -0,0 +1,151 @@
+import type { ColorMetric } from '../../state/store';
+import type { PaletteColor } from '../../palettes';
+
+type Vec3 = [number, number, number];
+
+// Returns the index of the closest palette colour to an 8-bit RGB value
+export type ColorMatcher = (r: number, g: number, b: number) => number;
+
+function srgbToLinear(channel: number): number {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function labF(t: number): number {
+  return t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116;
+}
+
+/**
+ * sRGB (0-255) to CIELAB, D65 white point.
+ */
+export function rgbToCielab(r: number, g: number, b: number, out: Vec3 = [0, 0, 0]): Vec3 {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  const x = (0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / 0.95047;
+  const y = 0.2126729 * lr + 0.7151522 * lg + 0.0721750 * lb;
+  const z = (0.0193339 * lr + 0.1191920 * lg + 0.9503041 * lb) / 1.08883;
+
+  const fx = labF(x);
+  const fy = labF(y);
+  const fz = labF(z);
+
+  out[0] = 116 * fy - 16;
+  out[1] = 500 * (fx - fy);
+  out[2] = 200 * (fy - fz);
+  return out;
+}
+
+/**
+ * sRGB (0-255) to OKLab (Björn Ottosson, 2020).
+ */
+export function rgbToOklab(r: number, g: number, b: number, out: Vec3 = [0, 0, 0]): Vec3 {
+  const lr = srgbToLinear(r);
+  const lg = srgbToLinear(g);
+  const lb = srgbToLinear(b);
+
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+
+  out[0] = 0.2104542553 * l + 0.7936177850 * m - 0.0040720468 * s;
+  out[1] = 1.9779984951 * l - 2.4285922050 * m + 0.4505937099 * s;
+  out[2] = 0.0259040371 * l + 0.7827717662 * m - 0.8086757660 * s;
+  return out;
+}
+
+function createRgbMatcher(palette: readonly PaletteColor[]): ColorMatcher {
+  return (r, g, b) => {
+    let closestIdx = 0;
+    let minDistance = Infinity;
+
+    for (let i = 0; i < palette.length; i++) {
+      const color = palette[i];
+      const dr = r - color[0];
+      const dg = g - color[1];
+      const db = b - color[2];
+      const distance = dr * dr + dg * dg + db * db;
+
+      if (distance < minDistance) {
+        minDistance = distance;
+        closestIdx = i;
+      }
+    }
+
+    return closestIdx;
+  };
+}
+
+// "Redmean" weighted RGB: cheap approximation of perceived difference
+function createWeightedRgbMatcher(palette: readonly PaletteColor[]): ColorMatcher {
+  return (r, g, b) => {
+    let closestIdx = 0;
+    let minDistance = Infinity;
+
+    for (let i = 0; i < palette.length; i++) {
+      const color = palette[i];
+      const rmean = (r + color[0]) / 2;
+      const dr = r - color[0];
+      const dg = g - color[1];
+      const db = b - color[2];
+      const distance = (2 + rmean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - rmean) / 256) * db * db;
+
+      if (distance < minDistance) {
+        minDistance = distance;
+        closestIdx = i;
+      }
+    }
+
+    return closestIdx;
+  };
+}
+
+function createSpaceMatcher(
+  palette: readonly PaletteColor[],
+  convert: (r: number, g: number, b: number, out?: Vec3) => Vec3
+): ColorMatcher {
+  const converted = palette.map((color) => convert(color[0], color[1], color[2]));
+  const scratch: Vec3 = [0, 0, 0];
+
+  return (r, g, b) => {
+    convert(r, g, b, scratch);
+    let closestIdx = 0;
+    let minDistance = Infinity;
+
+    for (let i = 0; i < converted.length; i++) {
+      const color = converted[i];
+      const d0 = scratch[0] - color[0];
+      const d1 = scratch[1] - color[1];
+      const d2 = scratch[2] - color[2];
+      const distance = d0 * d0 + d1 * d1 + d2 * d2;
+
+      if (distance < minDistance) {
+        minDistance = distance;
+        closestIdx = i;
+      }
+    }
+
+    return closestIdx;
+  };
+}
+
+/**
+ * Build a nearest-colour lookup for a palette. Palette conversions are done
+ * once up front so per-pixel matching only converts the input colour.
+ * 'luminance' matches in plain RGB: the input is already greyscale then.
+ */
+export function createColorMatcher(palette: readonly PaletteColor[], metric: ColorMetric): ColorMatcher {
+  switch (metric) {
+    case 'weightedRgb':
+      return createWeightedRgbMatcher(palette);
+    case 'cielab':
+      return createSpaceMatcher(palette, rgbToCielab);
+    case 'oklab':
+      return createSpaceMatcher(palette, rgbToOklab);
+    case 'luminance':
+    case 'rgb':
+    default:
+      return createRgbMatcher(palette);
+  }
+}
@@ -0,0 +1,243 @@
+import type { Palette } from '../../palettes';
+import type { ColorMetric, DitherMode } from '../../state/store';
+import { createColorMatcher } from './colorDistance';
+
+export type ErrorDiffusionMode = Extract<
+  DitherMode,
+  'floydSteinberg' | 'atkinson' | 'jarvisJudiceNinke' | 'stucki' | 'burkes' | 'sierra'
+>;
+
+/**
+ * Error diffusion kernel. Each entry pushes `weight / divisor` of the
+ * quantisation error to the pixel at (dx, dy) relative to the current one,
+ * with dx given for left-to-right scanning.
+ */
+export interface DiffusionKernel {
+  divisor: number;
+  entries: ReadonlyArray<readonly [dx: number, dy: number, weight: number]>;
+}
+
+export const ERROR_DIFFUSION_KERNELS: Record<ErrorDiffusionMode, DiffusionKernel> = {
+  floydSteinberg: {
+    divisor: 16,
+    entries: [
+      [1, 0, 7],
+      [-1, 1, 3], [0, 1, 5], [1, 1, 1],
+    ],
+  },
+  // Diffuses only 6/8 of the error, which keeps highlights and shadows clean
+  atkinson: {
+    divisor: 8,
+    entries: [
+      [1, 0, 1], [2, 0, 1],
+      [-1, 1, 1], [0, 1, 1], [1, 1, 1],
+      [0, 2, 1],
+    ],
+  },
+  jarvisJudiceNinke: {
+    divisor: 48,
+    entries: [
+      [1, 0, 7], [2, 0, 5],
+      [-2, 1, 3], [-1, 1, 5], [0, 1, 7], [1, 1, 5], [2, 1, 3],
+      [-2, 2, 1], [-1, 2, 3], [0, 2, 5], [1, 2, 3], [2, 2, 1],
+    ],
+  },
+  stucki: {
+    divisor: 42,
+    entries: [
+      [1, 0, 8], [2, 0, 4],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 8], [1, 1, 4], [2, 1, 2],
+      [-2, 2, 1], [-1, 2, 2], [0, 2, 4], [1, 2, 2], [2, 2, 1],
+    ],
+  },
+  burkes: {
+    divisor: 32,
+    entries: [
+      [1, 0, 8], [2, 0, 4],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 8], [1, 1, 4], [2, 1, 2],
+    ],
+  },
+  sierra: {
+    divisor: 32,
+    entries: [
+      [1, 0, 5], [2, 0, 3],
+      [-2, 1, 2], [-1, 1, 4], [0, 1, 5], [1, 1, 4], [2, 1, 2],
+      [-1, 2, 2], [0, 2, 3], [1, 2, 2],
+    ],
+  },
+};
+
+// 'gpu' runs the wavefront shader in RenderPipeline; 'cpu' is the reference
+export type ErrorDiffusionBackend = 'gpu' | 'cpu';
+
+/**
+ * The GPU wavefront only scans left to right, so serpentine needs the CPU.
+ */
+export function resolveErrorDiffusionBackend(backend: ErrorDiffusionBackend, serpentine: boolean): ErrorDiffusionBackend {
+  return serpentine ? 'cpu' : backend;
+}
+
+/**
+ * Smallest skew s such that every kernel entry lands on a later wavefront
+ * t = x + s * y, i.e. dx + s * dy >= 1 for entries below the current row.
+ */
+export function getWavefrontSkew(kernel: DiffusionKernel): number {
+  let skew = 1;
+  for (const [dx, dy] of kernel.entries) {
+    if (dy > 0) {
+      skew = Math.max(skew, Math.ceil((1 - dx) / dy));
+    }
+  }
+  return skew;
+}
+
+export const ERROR_DIFFUSION_MODES = Object.keys(ERROR_DIFFUSION_KERNELS) as ErrorDiffusionMode[];
+
+export function isErrorDiffusionMode(mode: DitherMode): mode is ErrorDiffusionMode {
+  return Object.prototype.hasOwnProperty.call(ERROR_DIFFUSION_KERNELS, mode);
+}
+
+/**
+ * Per-pixel history retained between frames for temporal coherence: the
+ * input luminance (0-255) and the palette index chosen for the last frame.
+ */
+export interface TemporalDitherState {
+  luminance: Float32Array | null;
+  indices: Uint8Array | null;
+}
+
+export function createTemporalDitherState(): TemporalDitherState {
+  return { luminance: null, indices: null };
+}
+
+export function resetTemporalDitherState(state: TemporalDitherState): void {
+  state.luminance = null;
+  state.indices = null;
+}
+
+export interface ErrorDiffusionOptions {
+  colorMetric?: ColorMetric;
+  // Alternate scan direction every row to break up directional artifacts
+  serpentine?: boolean;
+  // Keep the previous palette index where luminance moved less than
+  // `threshold` (0-1) since the last frame; `state` is updated in place
+  temporal?: {
+    state: TemporalDitherState;
+    threshold: number;
+  };
+}
+
+interface MutableRgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+function clampChannel(value: number): number {
+  return Math.max(0, Math.min(255, value));
+}
+
+function addError(
+  buffer: Float32Array,
+  width: number,
+  height: number,
+  x: number,
+  y: number,
+  error: MutableRgb,
+  factor: number
+): void {
+  if (x < 0 || y < 0 || x >= width || y >= height) {
+    return;
+  }
+
+  const index = (y * width + x) * 3;
+  if (index < 0 || index + 2 >= buffer.length) {
+    return;
+  }
+
+  buffer[index] += error.r * factor;
+  buffer[index + 1] += error.g * factor;
+  buffer[index + 2] += error.b * factor;
+}
+
+export function errorDiffusionDither(
+  pixels: Uint8Array,
+  width: number,
+  height: number,
+  palette: Palette,
+  kernel: DiffusionKernel,
+  options: ErrorDiffusionOptions = {}
+): Uint8Array {
+  const findClosestColorIndex = createColorMatcher(palette, options.colorMetric ?? 'luminance');
+  const serpentine = options.serpentine ?? false;
+  const factors = kernel.entries.map(([, , weight]) => weight / kernel.divisor);
+  const pixelCount = width * height;
+  const working = new Float32Array(pixelCount * 3);
+  const luminance = new Float32Array(pixelCount);
+
+  for (let i = 0; i < pixelCount; i++) {
+    const srcIdx = i * 4;
+    const dstIdx = i * 3;
+    working[dstIdx] = pixels[srcIdx];
+    working[dstIdx + 1] = pixels[srcIdx + 1];
+    working[dstIdx + 2] = pixels[srcIdx + 2];
+    luminance[i] = 0.299 * pixels[srcIdx] + 0.587 * pixels[srcIdx + 1] + 0.114 * pixels[srcIdx + 2];
+  }
+
+  const output = new Uint8Array(pixelCount * 4);
+  const indices = new Uint8Array(pixelCount);
+
+  // History from a different frame size is unusable
+  const temporal = options.temporal;
+  const previousLuminance = temporal?.state.luminance?.length === pixelCount ? temporal.state.luminance : null;
+  const previousIndices = temporal?.state.indices?.length === pixelCount ? temporal.state.indices : null;
+  const temporalThreshold = (temporal?.threshold ?? 0) * 255;
+
+  for (let y = 0; y < height; y++) {
+    const reverse = serpentine && y % 2 === 1;
+    const direction = reverse ? -1 : 1;
+
+    for (let step = 0; step < width; step++) {
+      const x = reverse ? width - 1 - step : step;
+      const pixelIdx = y * width + x;
+      const idx = pixelIdx * 3;
+
+      const oldR = clampChannel(working[idx]);
+      const oldG = clampChannel(working[idx + 1]);
+      const oldB = clampChannel(working[idx + 2]);
+
+      // Stable pixels keep their index; the error is still diffused as usual
+      const isStable = previousLuminance !== null
+        && previousIndices !== null
+        && previousIndices[pixelIdx] < palette.length
+        && Math.abs(luminance[pixelIdx] - previousLuminance[pixelIdx]) < temporalThreshold;
+      const colorIdx = isStable ? previousIndices[pixelIdx] : findClosestColorIndex(oldR, oldG, oldB);
+      const color = palette[colorIdx];
+      indices[pixelIdx] = colorIdx;
+
+      const outIdx = pixelIdx * 4;
+      output[outIdx] = color[0];
+      output[outIdx + 1] = color[1];
+      output[outIdx + 2] = color[2];
+      output[outIdx + 3] = 255;
+
+      const error: MutableRgb = {
+        r: oldR - color[0],
+        g: oldG - color[1],
+        b: oldB - color[2],
+      };
+
+      for (let k = 0; k < kernel.entries.length; k++) {
+        const [dx, dy] = kernel.entries[k];
+        addError(working, width, height, x + dx * direction, y + dy, error, factors[k]);
+      }
+    }
+  }
+
+  if (temporal) {
+    temporal.state.luminance = luminance;
+    temporal.state.indices = indices;
+  }
+
+  return output;
+}
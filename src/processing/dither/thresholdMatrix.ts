@@ -0,0 +1,359 @@
+/**
+ * Threshold matrices for texture-driven ordered dithering
+ * Built-ins (8x8 Bayer, void-and-cluster blue noise, clustered-dot halftone)
+ * are generated on first use; custom matrices load from PNG or JSON.
+ */
+
+export type ThresholdMatrixName = 'bayer8x8' | 'blueNoise' | 'halftone' | 'custom';
+
+export interface ThresholdMatrix {
+  width: number;
+  height: number;
+  // Row-major thresholds in [0, 1)
+  values: Float32Array;
+}
+
+export const BUILTIN_THRESHOLD_MATRICES: Exclude<ThresholdMatrixName, 'custom'>[] = ['bayer8x8', 'blueNoise', 'halftone'];
+
+export const MAX_THRESHOLD_MATRIX_SIZE = 256;
+
+const BLUE_NOISE_SIZE = 32;
+const HALFTONE_CELL_SIZE = 8;
+
+export class ThresholdMatrixError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ThresholdMatrixError';
+  }
+}
+
+/**
+ * Normalise ranks 0..N-1 to thresholds centred in each step.
+ */
+function fromRanks(width: number, height: number, ranks: ArrayLike<number>): ThresholdMatrix {
+  const count = width * height;
+  const values = new Float32Array(count);
+  for (let i = 0; i < count; i++) {
+    values[i] = (ranks[i] + 0.5) / count;
+  }
+  return { width, height, values };
+}
+
+export function createBayerMatrix(size: number): ThresholdMatrix {
+  let ranks = [0];
+  let current = 1;
+
+  // M(2n) = [[4M, 4M + 2], [4M + 3, 4M + 1]]
+  while (current < size) {
+    const next = current * 2;
+    const expanded = new Array<number>(next * next);
+    for (let y = 0; y < current; y++) {
+      for (let x = 0; x < current; x++) {
+        const value = ranks[y * current + x] * 4;
+        expanded[y * next + x] = value;
+        expanded[y * next + x + current] = value + 2;
+        expanded[(y + current) * next + x] = value + 3;
+        expanded[(y + current) * next + x + current] = value + 1;
+      }
+    }
+    ranks = expanded;
+    current = next;
+  }
+
+  return fromRanks(current, current, ranks);
+}
+
+// Deterministic PRNG (mulberry32) so the blue-noise matrix is stable across runs
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Void-and-cluster blue noise (Ulichney 1993) on a toroidal grid.
+ */
+export function createBlueNoiseMatrix(size: number = BLUE_NOISE_SIZE, seed: number = 1): ThresholdMatrix {
+  const count = size * size;
+  const sigma = 1.5;
+  const radius = Math.min(Math.floor(size / 2), 6);
+
+  // Gaussian splat offsets, wrapped around the edges
+  const kernel: { dx: number; dy: number; weight: number }[] = [];
+  for (let dy = -radius; dy <= radius; dy++) {
+    for (let dx = -radius; dx <= radius; dx++) {
+      kernel.push({ dx, dy, weight: Math.exp(-(dx * dx + dy * dy) / (2 * sigma * sigma)) });
+    }
+  }
+
+  const pattern = new Uint8Array(count);
+  const energy = new Float64Array(count);
+
+  const splat = (index: number, sign: number) => {
+    const x = index % size;
+    const y = Math.floor(index / size);
+    for (const { dx, dy, weight } of kernel) {
+      const nx = (x + dx + size) % size;
+      const ny = (y + dy + size) % size;
+      energy[ny * size + nx] += sign * weight;
+    }
+  };
+
+  const findExtreme = (value: number, pickMax: boolean): number => {
+    let best = -1;
+    let bestEnergy = pickMax ? -Infinity : Infinity;
+    for (let i = 0; i < count; i++) {
+      if (pattern[i] !== value) continue;
+      if (pickMax ? energy[i] > bestEnergy : energy[i] < bestEnergy) {
+        bestEnergy = energy[i];
+        best = i;
+      }
+    }
+    return best;
+  };
+
+  // Initial random pattern, about 10% filled
+  const random = createRandom(seed);
+  const initialOnes = Math.max(1, Math.floor(count / 10));
+  let placed = 0;
+  while (placed < initialOnes) {
+    const index = Math.floor(random() * count);
+    if (pattern[index]) continue;
+    pattern[index] = 1;
+    splat(index, 1);
+    placed++;
+  }
+
+  // Relax: move the tightest cluster into the largest void until stable
+  for (let iteration = 0; iteration < count; iteration++) {
+    const cluster = findExtreme(1, true);
+    pattern[cluster] = 0;
+    splat(cluster, -1);
+    const voidIndex = findExtreme(0, false);
+    pattern[voidIndex] = 1;
+    splat(voidIndex, 1);
+    if (voidIndex === cluster) break;
+  }
+
+  const ranks = new Int32Array(count);
+  const prototype = pattern.slice();
+  const prototypeEnergy = energy.slice();
+
+  // Phase 1: remove clusters from the prototype, ranking downwards
+  for (let rank = initialOnes - 1; rank >= 0; rank--) {
+    const cluster = findExtreme(1, true);
+    pattern[cluster] = 0;
+    splat(cluster, -1);
+    ranks[cluster] = rank;
+  }
+
+  // Phase 2: fill voids from the prototype, ranking upwards
+  pattern.set(prototype);
+  energy.set(prototypeEnergy);
+  for (let rank = initialOnes; rank < count; rank++) {
+    const voidIndex = findExtreme(0, false);
+    pattern[voidIndex] = 1;
+    splat(voidIndex, 1);
+    ranks[voidIndex] = rank;
+  }
+
+  return fromRanks(size, size, ranks);
+}
+
+/**
+ * Clustered-dot halftone: a single round dot per cell growing from the
+ * centre, ordered by distance and then angle so ranks are unique.
+ */
+export function createHalftoneMatrix(size: number = HALFTONE_CELL_SIZE): ThresholdMatrix {
+  const center = (size - 1) / 2;
+  const cells = Array.from({ length: size * size }, (_, index) => {
+    const dx = (index % size) - center;
+    const dy = Math.floor(index / size) - center;
+    return { index, distance: dx * dx + dy * dy, angle: Math.atan2(dy, dx) };
+  });
+
+  cells.sort((a, b) => a.distance - b.distance || a.angle - b.angle);
+
+  const ranks = new Int32Array(size * size);
+  cells.forEach((cell, rank) => {
+    ranks[cell.index] = rank;
+  });
+
+  return fromRanks(size, size, ranks);
+}
+
+const builtinCache = new Map<string, ThresholdMatrix>();
+
+export function getBuiltinThresholdMatrix(name: Exclude<ThresholdMatrixName, 'custom'>): ThresholdMatrix {
+  let matrix = builtinCache.get(name);
+  if (!matrix) {
+    switch (name) {
+      case 'blueNoise':
+        matrix = createBlueNoiseMatrix();
+        break;
+      case 'halftone':
+        matrix = createHalftoneMatrix();
+        break;
+      case 'bayer8x8':
+      default:
+        matrix = createBayerMatrix(8);
+        break;
+    }
+    builtinCache.set(name, matrix);
+  }
+  return matrix;
+}
+
+/**
+ * Resolve the matrix for a setting. 'custom' without a loaded matrix falls
+ * back to 8x8 Bayer so rendering never breaks.
+ */
+export function resolveThresholdMatrix(name: ThresholdMatrixName, custom: ThresholdMatrix | null): ThresholdMatrix {
+  if (name === 'custom') {
+    return custom ?? getBuiltinThresholdMatrix('bayer8x8');
+  }
+  return getBuiltinThresholdMatrix(name);
+}
+
+function assertMatrixSize(width: number, height: number): void {
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+    throw new ThresholdMatrixError('Threshold matrix must have positive integer dimensions');
+  }
+  if (width > MAX_THRESHOLD_MATRIX_SIZE || height > MAX_THRESHOLD_MATRIX_SIZE) {
+    throw new ThresholdMatrixError(`Threshold matrix must be at most ${MAX_THRESHOLD_MATRIX_SIZE}×${MAX_THRESHOLD_MATRIX_SIZE}`);
+  }
+}
+
+/**
+ * Parse a JSON threshold matrix: either a 2D array of rows or
+ * `{ "width", "height", "values" }`. Values in [0, 1] are used as-is;
+ * any other range (e.g. Bayer indices 0..N-1) is normalised.
+ */
+export function parseThresholdMatrixJson(text: string): ThresholdMatrix {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new ThresholdMatrixError(`Threshold matrix is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  let width: number;
+  let height: number;
+  let raw: unknown[];
+
+  if (Array.isArray(json)) {
+    const rows = json as unknown[];
+    if (rows.length === 0 || !rows.every((row) => Array.isArray(row) && row.length === (rows[0] as unknown[]).length)) {
+      throw new ThresholdMatrixError('Threshold matrix rows must be non-empty arrays of equal length');
+    }
+    height = rows.length;
+    width = (rows[0] as unknown[]).length;
+    raw = (rows as unknown[][]).flat();
+  } else if (typeof json === 'object' && json !== null) {
+    const record = json as Record<string, unknown>;
+    width = Number(record.width);
+    height = Number(record.height);
+    if (!Array.isArray(record.values)) {
+      throw new ThresholdMatrixError('Threshold matrix JSON must contain a "values" array');
+    }
+    raw = record.values;
+  } else {
+    throw new ThresholdMatrixError('Threshold matrix JSON must be an array of rows or an object');
+  }
+
+  assertMatrixSize(width, height);
+  if (raw.length !== width * height) {
+    throw new ThresholdMatrixError(`Threshold matrix has ${raw.length} values, expected ${width * height}`);
+  }
+  if (!raw.every((value) => typeof value === 'number' && Number.isFinite(value))) {
+    throw new ThresholdMatrixError('Threshold matrix values must be finite numbers');
+  }
+
+  const numbers = raw as number[];
+  const min = Math.min(...numbers);
+  const max = Math.max(...numbers);
+  const isUnitRange = min >= 0 && max <= 1 && numbers.some((value) => !Number.isInteger(value));
+  const values = new Float32Array(numbers.length);
+
+  for (let i = 0; i < numbers.length; i++) {
+    values[i] = isUnitRange
+      ? Math.min(numbers[i], 0.9999)
+      : (numbers[i] - min + 0.5) / (max - min + 1);
+  }
+
+  return { width, height, values };
+}
+
+/**
+ * Build a matrix from decoded image pixels (RGBA). Uses the red channel,
+ * so greyscale threshold maps work directly.
+ */
+export function thresholdMatrixFromImageData(data: Uint8ClampedArray | Uint8Array, width: number, height: number): ThresholdMatrix {
+  assertMatrixSize(width, height);
+  const values = new Float32Array(width * height);
+  for (let i = 0; i < values.length; i++) {
+    values[i] = (data[i * 4] + 0.5) / 256;
+  }
+  return { width, height, values };
+}
+
+async function decodeImage(image: CanvasImageSource, width: number, height: number): Promise<ThresholdMatrix> {
+  assertMatrixSize(width, height);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new ThresholdMatrixError('Unable to decode threshold matrix image');
+  }
+  ctx.drawImage(image, 0, 0);
+  return thresholdMatrixFromImageData(ctx.getImageData(0, 0, width, height).data, width, height);
+}
+
+/**
+ * Load a threshold matrix from a user-picked PNG or JSON file.
+ */
+export async function loadThresholdMatrixFile(file: File): Promise<ThresholdMatrix> {
+  if (/\.json$/i.test(file.name) || file.type === 'application/json') {
+    return parseThresholdMatrixJson(await file.text());
+  }
+
+  const bitmap = await createImageBitmap(file);
+  try {
+    return await decodeImage(bitmap, bitmap.width, bitmap.height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Load a threshold matrix PNG from a URL (e.g. a file:// URL in automation).
+ */
+export async function loadThresholdMatrixImageUrl(url: string): Promise<ThresholdMatrix> {
+  const image = new Image();
+  image.src = url;
+  try {
+    await image.decode();
+  } catch {
+    throw new ThresholdMatrixError(`Failed to decode threshold matrix image: ${url}`);
+  }
+  return decodeImage(image, image.naturalWidth, image.naturalHeight);
+}
+
+/**
+ * Pack thresholds as 16-bit values in the R (high) and G (low) bytes of an
+ * RGBA8 texture; nearestPalette.frag and thresholdMatrix.frag decode them.
+ */
+export function thresholdMatrixToTextureData(matrix: ThresholdMatrix): Uint8Array {
+  const data = new Uint8Array(matrix.width * matrix.height * 4);
+  for (let i = 0; i < matrix.values.length; i++) {
+    const value = Math.min(65535, Math.max(0, Math.floor(matrix.values[i] * 65536)));
+    data[i * 4] = value >> 8;
+    data[i * 4 + 1] = value & 0xff;
+    data[i * 4 + 3] = 255;
+  }
+  return data;
+}
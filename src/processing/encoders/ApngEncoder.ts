@@ -0,0 +1,222 @@
+import type { FrameData } from '../VideoProcessor';
+import type { SourceVideoDimensions } from '../ExportManager';
+import { calculateExportLayout, type ExportResolution } from '../../utils';
+
+const PNG_SIGNATURE = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+interface PngChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function getCrcTable(): Uint32Array {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  return crcTable;
+}
+
+function crc32(bytes: Uint8Array): number {
+  const table = getCrcTable();
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) {
+    crc = table[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+function readChunkType(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+/**
+ * Split a PNG file into its chunks (CRCs are dropped and recomputed on write).
+ */
+function parsePngChunks(bytes: Uint8Array): PngChunk[] {
+  if (bytes.length < PNG_SIGNATURE.length || PNG_SIGNATURE.some((value, i) => bytes[i] !== value)) {
+    throw new Error('Canvas did not produce a PNG image');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: PngChunk[] = [];
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset);
+    const type = readChunkType(bytes, offset + 4);
+    chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+    offset += 12 + length;
+  }
+
+  return chunks;
+}
+
+function encodeChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) {
+    chunk[4 + i] = type.charCodeAt(i);
+  }
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+// fdAT data is decoded with the first frame's IHDR (bit depth, colour type, ...)
+function sameImageFormat(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+/**
+ * Encode frames as a looping APNG. Each frame is encoded by the canvas as a
+ * regular PNG; the first frame's IDAT doubles as the default image and later
+ * frames are re-wrapped as fdAT chunks.
+ */
+export async function encodeApng(
+  frames: FrameData[],
+  fps: number,
+  onProgress: (progress: number) => void,
+  resolution: ExportResolution,
+  _sourceDims?: SourceVideoDimensions
+): Promise<Blob> {
+  if (frames.length === 0) {
+    throw new Error('No frames to encode');
+  }
+
+  // Get dimensions from frame data (already calculated by VideoProcessor)
+  const frameWidth = frames[0].width;
+  const frameHeight = frames[0].height;
+
+  // Calculate output layout based on frame dimensions
+  const outputDims = calculateExportLayout(frameWidth, frameHeight, resolution);
+
+  console.log('APNG frame dimensions:', frameWidth, 'x', frameHeight, '-> Output:', outputDims);
+
+  // Source canvas for reading frame data
+  const srcCanvas = document.createElement('canvas');
+  srcCanvas.width = frameWidth;
+  srcCanvas.height = frameHeight;
+  const srcCtx = srcCanvas.getContext('2d');
+
+  // Output canvas for scaled frames
+  const outCanvas = document.createElement('canvas');
+  outCanvas.width = outputDims.width;
+  outCanvas.height = outputDims.height;
+  const outCtx = outCanvas.getContext('2d');
+
+  if (!srcCtx || !outCtx) {
+    throw new Error('Failed to get 2D canvas context');
+  }
+
+  // Disable image smoothing for nearest-neighbor scaling (crisp pixels)
+  outCtx.imageSmoothingEnabled = false;
+  // Letterbox bars (fit layouts) stay black; frames are drawn over the rest
+  outCtx.fillStyle = '#000';
+  outCtx.fillRect(0, 0, outputDims.width, outputDims.height);
+
+  // Frame delay as a fraction of a second: 1000 / (fps * 1000)
+  const delayNumerator = 1000;
+  const delayDenominator = Math.min(0xffff, Math.max(1, Math.round(fps * 1000)));
+
+  const parts: Uint8Array[] = [PNG_SIGNATURE];
+  let ihdr: Uint8Array | null = null;
+  let sequenceNumber = 0;
+
+  for (let i = 0; i < frames.length; i++) {
+    const frame = frames[i];
+
+    // Convert RGBA pixels to ImageData on source canvas
+    const imageData = srcCtx.createImageData(frameWidth, frameHeight);
+    // Pixels are already in correct orientation from RenderPipeline
+    imageData.data.set(frame.pixels);
+    // Ensure alpha is fully opaque
+    for (let j = 3; j < imageData.data.length; j += 4) {
+      imageData.data[j] = 255;
+    }
+
+    srcCtx.putImageData(imageData, 0, 0);
+
+    // Integer-scale into the output canvas at the layout offset
+    outCtx.drawImage(
+      srcCanvas,
+      outputDims.offsetX,
+      outputDims.offsetY,
+      frameWidth * outputDims.scale,
+      frameHeight * outputDims.scale
+    );
+
+    const pngBlob = await new Promise<Blob | null>((resolve) => {
+      outCanvas.toBlob((blob) => resolve(blob), 'image/png');
+    });
+
+    if (!pngBlob) {
+      throw new Error(`Failed to create PNG blob for frame ${i + 1}`);
+    }
+
+    const chunks = parsePngChunks(new Uint8Array(await pngBlob.arrayBuffer()));
+    const frameIhdr = chunks.find((chunk) => chunk.type === 'IHDR')?.data;
+    const idats = chunks.filter((chunk) => chunk.type === 'IDAT');
+
+    if (!frameIhdr || idats.length === 0) {
+      throw new Error(`PNG frame ${i + 1} has no image data`);
+    }
+
+    if (!ihdr) {
+      ihdr = frameIhdr;
+      parts.push(encodeChunk('IHDR', ihdr));
+
+      const actl = new Uint8Array(8);
+      // num_frames, then num_plays = 0 (loop forever)
+      new DataView(actl.buffer).setUint32(0, frames.length);
+      parts.push(encodeChunk('acTL', actl));
+
+      // Keep colour chunks (PLTE, sRGB, ...) that precede the image data
+      for (const chunk of chunks) {
+        if (chunk.type === 'IDAT') break;
+        if (chunk.type !== 'IHDR') {
+          parts.push(encodeChunk(chunk.type, chunk.data));
+        }
+      }
+    } else if (!sameImageFormat(ihdr, frameIhdr)) {
+      throw new Error(`PNG frame ${i + 1} was encoded in a different pixel format`);
+    }
+
+    const fctl = new Uint8Array(26);
+    const fctlView = new DataView(fctl.buffer);
+    fctlView.setUint32(0, sequenceNumber++);
+    fctlView.setUint32(4, outputDims.width);
+    fctlView.setUint32(8, outputDims.height);
+    // x/y offsets stay 0; dispose_op and blend_op stay 0 (none / source)
+    fctlView.setUint16(20, delayNumerator);
+    fctlView.setUint16(22, delayDenominator);
+    parts.push(encodeChunk('fcTL', fctl));
+
+    for (const idat of idats) {
+      if (i === 0) {
+        parts.push(encodeChunk('IDAT', idat.data));
+      } else {
+        const fdat = new Uint8Array(4 + idat.data.length);
+        new DataView(fdat.buffer).setUint32(0, sequenceNumber++);
+        fdat.set(idat.data, 4);
+        parts.push(encodeChunk('fdAT', fdat));
+      }
+    }
+
+    onProgress((i + 1) / frames.length);
+  }
+
+  parts.push(encodeChunk('IEND', new Uint8Array(0)));
+
+  // Every part owns its whole buffer, so the buffers can be passed directly
+  return new Blob(parts.map((part) => part.buffer as ArrayBuffer), { type: 'image/apng' });
+}
@@ -0,0 +1,289 @@
+import type { FrameData } from '../VideoProcessor';
+import type { SourceVideoDimensions } from '../ExportManager';
+import type { Palette } from '../../palettes';
+import { buildColorTable, colorKey } from './colorTable';
+
+export interface AsepriteEncodeOptions {
+  // Active PocketFrame palette; becomes the start of the sprite palette
+  palette: Palette;
+}
+
+// Magic numbers and chunk types from Aseprite's file format spec
+const FILE_MAGIC = 0xa5e0;
+const FRAME_MAGIC = 0xf1fa;
+const CHUNK_LAYER = 0x2004;
+const CHUNK_CEL = 0x2005;
+const CHUNK_COLOR_PROFILE = 0x2007;
+const CHUNK_PALETTE = 0x2019;
+
+const COLOR_DEPTH_INDEXED = 8;
+const HEADER_FLAG_LAYER_OPACITY_VALID = 1;
+// Visible | editable | background: frames are opaque and cover the canvas
+const LAYER_FLAGS = 1 | 2 | 8;
+const CEL_TYPE_LINKED = 1;
+const CEL_TYPE_COMPRESSED_IMAGE = 2;
+const COLOR_PROFILE_SRGB = 1;
+
+const HEADER_SIZE = 128;
+const LAYER_NAME = 'PocketFrame';
+
+class LittleEndianWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private view = new DataView(this.bytes.buffer);
+  length = 0;
+
+  private reserve(size: number): void {
+    if (this.length + size <= this.bytes.length) return;
+    let capacity = this.bytes.length * 2;
+    while (capacity < this.length + size) {
+      capacity *= 2;
+    }
+    const grown = new Uint8Array(capacity);
+    grown.set(this.bytes.subarray(0, this.length));
+    this.bytes = grown;
+    this.view = new DataView(grown.buffer);
+  }
+
+  writeUint8(value: number): void {
+    this.reserve(1);
+    this.view.setUint8(this.length, value);
+    this.length += 1;
+  }
+
+  writeUint16(value: number): void {
+    this.reserve(2);
+    this.view.setUint16(this.length, value, true);
+    this.length += 2;
+  }
+
+  writeInt16(value: number): void {
+    this.reserve(2);
+    this.view.setInt16(this.length, value, true);
+    this.length += 2;
+  }
+
+  writeUint32(value: number): void {
+    this.reserve(4);
+    this.view.setUint32(this.length, value, true);
+    this.length += 4;
+  }
+
+  writeBytes(bytes: Uint8Array): void {
+    this.reserve(bytes.length);
+    this.bytes.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  writeZeros(count: number): void {
+    this.writeBytes(new Uint8Array(count));
+  }
+
+  writeString(text: string): void {
+    const encoded = new TextEncoder().encode(text);
+    this.writeUint16(encoded.length);
+    this.writeBytes(encoded);
+  }
+
+  // Fill in a size field once the section it measures has been written
+  patchUint32(offset: number, value: number): void {
+    this.view.setUint32(offset, value, true);
+  }
+
+  patchUint16(offset: number, value: number): void {
+    this.view.setUint16(offset, value, true);
+  }
+
+  toArrayBuffer(): ArrayBuffer {
+    return this.bytes.slice(0, this.length).buffer;
+  }
+}
+
+async function zlibCompress(data: Uint8Array): Promise<Uint8Array> {
+  // CompressionStream's 'deflate' is zlib-wrapped, which is what cels expect
+  const stream = new Blob([data.buffer as ArrayBuffer]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function indexFramePixels(frame: FrameData, lookup: Map<number, number>): Uint8Array {
+  const { pixels, width, height } = frame;
+  const indices = new Uint8Array(width * height);
+  for (let i = 0; i < indices.length; i++) {
+    const src = i * 4;
+    indices[i] = lookup.get(colorKey(pixels[src], pixels[src + 1], pixels[src + 2])) ?? 0;
+  }
+  return indices;
+}
+
+function sameIndices(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+/**
+ * Begin a chunk and return a function that closes it by writing its size.
+ */
+function beginChunk(writer: LittleEndianWriter, type: number): () => void {
+  const start = writer.length;
+  writer.writeUint32(0);
+  writer.writeUint16(type);
+  return () => writer.patchUint32(start, writer.length - start);
+}
+
+function writeColorProfileChunk(writer: LittleEndianWriter): void {
+  const end = beginChunk(writer, CHUNK_COLOR_PROFILE);
+  writer.writeUint16(COLOR_PROFILE_SRGB);
+  writer.writeUint16(0); // flags: no fixed gamma
+  writer.writeUint32(0); // gamma (unused)
+  writer.writeZeros(8);
+  end();
+}
+
+function writePaletteChunk(writer: LittleEndianWriter, colors: number[]): void {
+  const end = beginChunk(writer, CHUNK_PALETTE);
+  writer.writeUint32(colors.length);
+  writer.writeUint32(0);
+  writer.writeUint32(colors.length - 1);
+  writer.writeZeros(8);
+  for (const color of colors) {
+    writer.writeUint16(0); // entry flags: no name
+    writer.writeUint8((color >> 16) & 0xff);
+    writer.writeUint8((color >> 8) & 0xff);
+    writer.writeUint8(color & 0xff);
+    writer.writeUint8(255);
+  }
+  end();
+}
+
+function writeLayerChunk(writer: LittleEndianWriter): void {
+  const end = beginChunk(writer, CHUNK_LAYER);
+  writer.writeUint16(LAYER_FLAGS);
+  writer.writeUint16(0); // normal image layer
+  writer.writeUint16(0); // child level
+  writer.writeUint16(0); // default width (ignored)
+  writer.writeUint16(0); // default height (ignored)
+  writer.writeUint16(0); // blend mode: normal
+  writer.writeUint8(255);
+  writer.writeZeros(3);
+  writer.writeString(LAYER_NAME);
+  end();
+}
+
+function writeCelHeader(writer: LittleEndianWriter, celType: number): void {
+  writer.writeUint16(0); // layer index
+  writer.writeInt16(0); // x
+  writer.writeInt16(0); // y
+  writer.writeUint8(255);
+  writer.writeUint16(celType);
+  writer.writeInt16(0); // z-index
+  writer.writeZeros(5);
+}
+
+/**
+ * Encode frames as an indexed-colour .aseprite file: one background layer,
+ * one cel per frame (repeated frames become linked cels) and the active
+ * palette as the sprite palette. Frames are written at their own resolution.
+ */
+export async function encodeAseprite(
+  frames: FrameData[],
+  fps: number,
+  onProgress: (progress: number) => void,
+  options: AsepriteEncodeOptions,
+  _sourceDims?: SourceVideoDimensions
+): Promise<Blob> {
+  if (frames.length === 0) {
+    throw new Error('No frames to encode');
+  }
+  if (frames.length > 0xffff) {
+    throw new Error(`Aseprite files hold at most ${0xffff} frames`);
+  }
+
+  // Get dimensions from frame data (already calculated by VideoProcessor)
+  const frameWidth = frames[0].width;
+  const frameHeight = frames[0].height;
+
+  console.log('Aseprite frame dimensions:', frameWidth, 'x', frameHeight);
+
+  // Palette entries keep their indices; extra colours (Game Boy Color) follow
+  const { colors, lookup } = buildColorTable(frames, options.palette);
+
+  const writer = new LittleEndianWriter();
+
+  // File header (the total size is patched in at the end)
+  writer.writeUint32(0);
+  writer.writeUint16(FILE_MAGIC);
+  writer.writeUint16(frames.length);
+  writer.writeUint16(frameWidth);
+  writer.writeUint16(frameHeight);
+  writer.writeUint16(COLOR_DEPTH_INDEXED);
+  writer.writeUint32(HEADER_FLAG_LAYER_OPACITY_VALID);
+  writer.writeUint16(Math.max(1, Math.round(1000 / fps))); // deprecated speed field
+  writer.writeUint32(0);
+  writer.writeUint32(0);
+  writer.writeUint8(0); // transparent index (unused by background layers)
+  writer.writeZeros(3);
+  writer.writeUint16(colors.length);
+  writer.writeUint8(1); // pixel width
+  writer.writeUint8(1); // pixel height
+  writer.writeInt16(0); // grid x
+  writer.writeInt16(0); // grid y
+  writer.writeUint16(16); // grid width
+  writer.writeUint16(16); // grid height
+  writer.writeZeros(HEADER_SIZE - writer.length);
+
+  let linkTarget: { frame: number; indices: Uint8Array } | null = null;
+
+  for (let i = 0; i < frames.length; i++) {
+    const frame = frames[i];
+    if (frame.width !== frameWidth || frame.height !== frameHeight) {
+      throw new Error(`Frame ${i + 1} is ${frame.width}x${frame.height}, expected ${frameWidth}x${frameHeight}`);
+    }
+
+    const frameStart = writer.length;
+    writer.writeUint32(0);
+    writer.writeUint16(FRAME_MAGIC);
+    const oldChunkCountOffset = writer.length;
+    writer.writeUint16(0);
+    // Accumulate rounding so the total duration doesn't drift from the clip length
+    const duration = Math.round(((i + 1) * 1000) / fps) - Math.round((i * 1000) / fps);
+    writer.writeUint16(Math.max(1, duration));
+    writer.writeZeros(2);
+    const chunkCountOffset = writer.length;
+    writer.writeUint32(0);
+
+    let chunkCount = 0;
+    if (i === 0) {
+      writeColorProfileChunk(writer);
+      writePaletteChunk(writer, colors);
+      writeLayerChunk(writer);
+      chunkCount += 3;
+    }
+
+    const indices = indexFramePixels(frame, lookup);
+    const endCel = beginChunk(writer, CHUNK_CEL);
+    if (linkTarget && sameIndices(linkTarget.indices, indices)) {
+      writeCelHeader(writer, CEL_TYPE_LINKED);
+      writer.writeUint16(linkTarget.frame);
+    } else {
+      writeCelHeader(writer, CEL_TYPE_COMPRESSED_IMAGE);
+      writer.writeUint16(frameWidth);
+      writer.writeUint16(frameHeight);
+      writer.writeBytes(await zlibCompress(indices));
+      linkTarget = { frame: i, indices };
+    }
+    endCel();
+    chunkCount += 1;
+
+    writer.patchUint16(oldChunkCountOffset, chunkCount);
+    writer.patchUint32(chunkCountOffset, chunkCount);
+    writer.patchUint32(frameStart, writer.length - frameStart);
+
+    onProgress((i + 1) / frames.length);
+  }
+
+  writer.patchUint32(0, writer.length);
+
+  return new Blob([writer.toArrayBuffer()], { type: 'application/octet-stream' });
+}
@@ -0,0 +1,350 @@
+import JSZip from 'jszip';
+import type { FrameData } from '../VideoProcessor';
+import type { SourceVideoDimensions } from '../ExportManager';
+import type { Palette } from '../../palettes';
+
+// Tiles one map can address with a single LCDC tile-data mode
+export const GB_TILE_LIMIT_SINGLE_BANK = 256;
+// Tiles that fit in DMG VRAM ($8000-$97FF) when both modes are used
+export const GB_TILE_LIMIT_VRAM = 384;
+
+const TILE_SIZE = 8;
+const BYTES_PER_TILE = 16;
+const SYMBOL_PREFIX = 'pocketframe';
+
+export interface GbTilesEncodeOptions {
+  palette: Palette;
+  // Frames must come out of VideoProcessor at exactly this size (export scale 1)
+  processingDimensions: { width: number; height: number };
+}
+
+export interface GbTileFrameStats {
+  frame: number;
+  uniqueTiles: number;
+  fitsSingleBank: boolean;
+  fitsVram: boolean;
+}
+
+interface EncodedTileFrame {
+  tiles: Uint8Array;
+  map: Uint8Array;
+  uniqueTiles: number;
+}
+
+/**
+ * Map each palette entry to a DMG shade (0 = lightest, 3 = darkest) by its
+ * luminance rank, so inverted and non-4-colour palettes still read correctly
+ * through the default BGP.
+ */
+function buildShadeLookup(palette: Palette): Map<number, number> {
+  const ranked = palette
+    .map((color, index) => ({
+      index,
+      luma: 0.299 * color[0] + 0.587 * color[1] + 0.114 * color[2],
+    }))
+    .sort((a, b) => a.luma - b.luma || a.index - b.index);
+
+  const shadeByIndex = new Array<number>(palette.length);
+  const steps = Math.max(1, palette.length - 1);
+  ranked.forEach(({ index }, rank) => {
+    shadeByIndex[index] = 3 - Math.round((rank * 3) / steps);
+  });
+
+  const lookup = new Map<number, number>();
+  palette.forEach((color, index) => {
+    const key = (color[0] << 16) | (color[1] << 8) | color[2];
+    if (!lookup.has(key)) {
+      lookup.set(key, shadeByIndex[index]);
+    }
+  });
+  return lookup;
+}
+
+/**
+ * Convert one frame to shades, pad it to whole tiles with shade 0 and split
+ * it into deduplicated 2bpp tiles plus a row-major tilemap. Every pixel must
+ * be an exact palette colour; anything else would change the tile counts.
+ */
+function encodeTileFrame(
+  frame: FrameData,
+  frameNumber: number,
+  lookup: Map<number, number>,
+  mapWidth: number,
+  mapHeight: number
+): EncodedTileFrame {
+  const { pixels, width, height } = frame;
+
+  const tileBytes: number[] = [];
+  const tileIndices = new Map<string, number>();
+  const map = new Uint16Array(mapWidth * mapHeight);
+  const tile = new Uint8Array(BYTES_PER_TILE);
+
+  for (let ty = 0; ty < mapHeight; ty++) {
+    for (let tx = 0; tx < mapWidth; tx++) {
+      for (let row = 0; row < TILE_SIZE; row++) {
+        let low = 0;
+        let high = 0;
+        const y = ty * TILE_SIZE + row;
+
+        for (let col = 0; col < TILE_SIZE; col++) {
+          const x = tx * TILE_SIZE + col;
+          let shade = 0;
+          if (x < width && y < height) {
+            const offset = (y * width + x) * 4;
+            const key = (pixels[offset] << 16) | (pixels[offset + 1] << 8) | pixels[offset + 2];
+            const found = lookup.get(key);
+            if (found === undefined) {
+              const hex = `#${key.toString(16).padStart(6, '0')}`;
+              throw new Error(`GB tile export: frame ${frameNumber} pixel (${x}, ${y}) is ${hex}, which is not a palette colour`);
+            }
+            shade = found;
+          }
+
+          // 2bpp planar: bit 7 is the leftmost pixel, low plane first
+          const bit = 7 - col;
+          low |= (shade & 1) << bit;
+          high |= ((shade >> 1) & 1) << bit;
+        }
+
+        tile[row * 2] = low;
+        tile[row * 2 + 1] = high;
+      }
+
+      const key = tile.join(',');
+      let index = tileIndices.get(key);
+      if (index === undefined) {
+        index = tileIndices.size;
+        tileIndices.set(key, index);
+        for (let i = 0; i < BYTES_PER_TILE; i++) {
+          tileBytes.push(tile[i]);
+        }
+      }
+      map[ty * mapWidth + tx] = index;
+    }
+  }
+
+  // Tiles 256-383 are addressed as 0-127 in $8800 mode, so the low byte is
+  // the map entry in both modes
+  const mapBytes = new Uint8Array(map.length);
+  for (let i = 0; i < map.length; i++) {
+    mapBytes[i] = map[i] & 0xff;
+  }
+
+  return {
+    tiles: new Uint8Array(tileBytes),
+    map: mapBytes,
+    uniqueTiles: tileIndices.size,
+  };
+}
+
+function frameLabel(frame: number): string {
+  return `frame_${String(frame).padStart(5, '0')}`;
+}
+
+function formatCArray(bytes: Uint8Array): string {
+  const lines: string[] = [];
+  for (let i = 0; i < bytes.length; i += 16) {
+    const line = Array.from(bytes.subarray(i, i + 16), (value) => `0x${value.toString(16).padStart(2, '0')}`);
+    lines.push(`  ${line.join(',')}`);
+  }
+  return lines.join(',\n');
+}
+
+function buildCHeader(stats: GbTileFrameStats[], mapWidth: number, mapHeight: number): string {
+  const guard = `${SYMBOL_PREFIX.toUpperCase()}_H`;
+  const lines = [
+    `#ifndef ${guard}`,
+    `#define ${guard}`,
+    '',
+    `#define ${SYMBOL_PREFIX.toUpperCase()}_FRAME_COUNT ${stats.length}`,
+    `#define ${SYMBOL_PREFIX.toUpperCase()}_MAP_WIDTH ${mapWidth}`,
+    `#define ${SYMBOL_PREFIX.toUpperCase()}_MAP_HEIGHT ${mapHeight}`,
+    '',
+  ];
+
+  for (const { frame, uniqueTiles } of stats) {
+    const label = frameLabel(frame);
+    lines.push(`#define ${SYMBOL_PREFIX.toUpperCase()}_${label.toUpperCase()}_TILE_COUNT ${uniqueTiles}`);
+    lines.push(`extern const unsigned char ${SYMBOL_PREFIX}_${label}_tiles[];`);
+    lines.push(`extern const unsigned char ${SYMBOL_PREFIX}_${label}_map[];`);
+  }
+
+  lines.push(
+    '',
+    `extern const unsigned char * const ${SYMBOL_PREFIX}_frame_tiles[];`,
+    `extern const unsigned char * const ${SYMBOL_PREFIX}_frame_maps[];`,
+    `extern const unsigned int ${SYMBOL_PREFIX}_frame_tile_counts[];`,
+    '',
+    `#endif /* ${guard} */`,
+    ''
+  );
+  return lines.join('\n');
+}
+
+function buildCSource(frames: EncodedTileFrame[], stats: GbTileFrameStats[]): string {
+  const lines = [`#include "${SYMBOL_PREFIX}.h"`, ''];
+
+  frames.forEach((encoded, i) => {
+    const label = frameLabel(stats[i].frame);
+    lines.push(`const unsigned char ${SYMBOL_PREFIX}_${label}_tiles[] = {`, formatCArray(encoded.tiles), '};', '');
+    lines.push(`const unsigned char ${SYMBOL_PREFIX}_${label}_map[] = {`, formatCArray(encoded.map), '};', '');
+  });
+
+  const labels = stats.map(({ frame }) => `${SYMBOL_PREFIX}_${frameLabel(frame)}`);
+  lines.push(
+    `const unsigned char * const ${SYMBOL_PREFIX}_frame_tiles[] = {`,
+    labels.map((label) => `  ${label}_tiles`).join(',\n'),
+    '};',
+    '',
+    `const unsigned char * const ${SYMBOL_PREFIX}_frame_maps[] = {`,
+    labels.map((label) => `  ${label}_map`).join(',\n'),
+    '};',
+    '',
+    `const unsigned int ${SYMBOL_PREFIX}_frame_tile_counts[] = {`,
+    `  ${stats.map(({ uniqueTiles }) => uniqueTiles).join(', ')}`,
+    '};',
+    ''
+  );
+  return lines.join('\n');
+}
+
+function buildAsmInclude(stats: GbTileFrameStats[], mapWidth: number, mapHeight: number): string {
+  const prefix = SYMBOL_PREFIX.toUpperCase();
+  const lines = [
+    `IF !DEF(${prefix}_INC)`,
+    `DEF ${prefix}_INC EQU 1`,
+    '',
+    `DEF ${prefix}_FRAME_COUNT EQU ${stats.length}`,
+    `DEF ${prefix}_MAP_WIDTH EQU ${mapWidth}`,
+    `DEF ${prefix}_MAP_HEIGHT EQU ${mapHeight}`,
+    '',
+  ];
+
+  for (const { frame, uniqueTiles } of stats) {
+    lines.push(`DEF ${prefix}_${frameLabel(frame).toUpperCase()}_TILE_COUNT EQU ${uniqueTiles}`);
+  }
+
+  lines.push('', 'ENDC', '');
+  return lines.join('\n');
+}
+
+function buildAsmSource(stats: GbTileFrameStats[]): string {
+  const lines = [`INCLUDE "${SYMBOL_PREFIX}.inc"`, ''];
+
+  // One section per frame so rgblink can spread frames across ROM banks
+  for (const { frame } of stats) {
+    const label = frameLabel(frame);
+    lines.push(
+      `SECTION "${SYMBOL_PREFIX}_${label}", ROMX`,
+      `${SYMBOL_PREFIX}_${label}_tiles::`,
+      `    INCBIN "tiles/${label}.2bpp"`,
+      '.end',
+      `${SYMBOL_PREFIX}_${label}_map::`,
+      `    INCBIN "maps/${label}.tilemap"`,
+      '.end',
+      ''
+    );
+  }
+
+  return lines.join('\n');
+}
+
+function buildReport(stats: GbTileFrameStats[], mapWidth: number, mapHeight: number, padded: boolean): string {
+  const lines = [
+    `Map: ${mapWidth} x ${mapHeight} tiles${padded ? ' (padded with shade 0 to whole tiles)' : ''}`,
+    `Limits: ${GB_TILE_LIMIT_SINGLE_BANK} tiles per LCDC tile-data mode, ${GB_TILE_LIMIT_VRAM} tiles of VRAM`,
+    'Tiles 256-383 need LCDC bit 4 cleared ($8800 mode) while the rows using them are drawn.',
+    '',
+  ];
+
+  for (const { frame, uniqueTiles, fitsSingleBank, fitsVram } of stats) {
+    const status = fitsSingleBank
+      ? 'ok'
+      : fitsVram
+        ? `over ${GB_TILE_LIMIT_SINGLE_BANK}, needs a mid-frame tile-data switch`
+        : `over ${GB_TILE_LIMIT_VRAM}, does not fit VRAM`;
+    lines.push(`${frameLabel(frame)}: ${uniqueTiles} unique tiles (${status})`);
+  }
+
+  const worst = Math.max(...stats.map(({ uniqueTiles }) => uniqueTiles));
+  lines.push('', `Most unique tiles in one frame: ${worst}`, '');
+  return lines.join('\n');
+}
+
+/**
+ * Export frames as Game Boy tile data: per frame a deduplicated 2bpp tileset
+ * and a tilemap, bundled in a ZIP with GBDK (C) and RGBDS (ASM) sources and
+ * a report of unique-tile counts against the DMG limits.
+ */
+export async function encodeGbTiles(
+  frames: FrameData[],
+  onProgress: (progress: number) => void,
+  options: GbTilesEncodeOptions,
+  _sourceDims?: SourceVideoDimensions
+): Promise<Blob> {
+  if (frames.length === 0) {
+    throw new Error('No frames to encode');
+  }
+
+  const { palette, processingDimensions } = options;
+  if (palette.length === 0) {
+    throw new Error('GB tile export needs a palette');
+  }
+
+  const frameWidth = frames[0].width;
+  const frameHeight = frames[0].height;
+
+  if (frameWidth !== processingDimensions.width || frameHeight !== processingDimensions.height) {
+    throw new Error(
+      `GB tile export expects ${processingDimensions.width}x${processingDimensions.height} frames, got ${frameWidth}x${frameHeight}`
+    );
+  }
+
+  const mapWidth = Math.ceil(frameWidth / TILE_SIZE);
+  const mapHeight = Math.ceil(frameHeight / TILE_SIZE);
+  const padded = frameWidth % TILE_SIZE !== 0 || frameHeight % TILE_SIZE !== 0;
+
+  console.log('GB tiles frame dimensions:', frameWidth, 'x', frameHeight, '-> Map:', mapWidth, 'x', mapHeight);
+
+  const lookup = buildShadeLookup(palette);
+  const zip = new JSZip();
+  const encodedFrames: EncodedTileFrame[] = [];
+  const stats: GbTileFrameStats[] = [];
+
+  for (let i = 0; i < frames.length; i++) {
+    const encoded = encodeTileFrame(frames[i], i + 1, lookup, mapWidth, mapHeight);
+    const label = frameLabel(i + 1);
+
+    zip.file(`tiles/${label}.2bpp`, encoded.tiles);
+    zip.file(`maps/${label}.tilemap`, encoded.map);
+
+    encodedFrames.push(encoded);
+    stats.push({
+      frame: i + 1,
+      uniqueTiles: encoded.uniqueTiles,
+      fitsSingleBank: encoded.uniqueTiles <= GB_TILE_LIMIT_SINGLE_BANK,
+      fitsVram: encoded.uniqueTiles <= GB_TILE_LIMIT_VRAM,
+    });
+
+    // Leave the last stretch of progress for writing the ZIP
+    onProgress(((i + 1) / frames.length) * 0.9);
+  }
+
+  const overVram = stats.filter((entry) => !entry.fitsVram).length;
+  const overSingleBank = stats.filter((entry) => !entry.fitsSingleBank).length;
+  if (overSingleBank > 0) {
+    console.warn(
+      `GB tiles: ${overSingleBank} frame(s) exceed ${GB_TILE_LIMIT_SINGLE_BANK} unique tiles, ${overVram} exceed ${GB_TILE_LIMIT_VRAM}`
+    );
+  }
+
+  zip.file(`${SYMBOL_PREFIX}.h`, buildCHeader(stats, mapWidth, mapHeight));
+  zip.file(`${SYMBOL_PREFIX}.c`, buildCSource(encodedFrames, stats));
+  zip.file(`${SYMBOL_PREFIX}.inc`, buildAsmInclude(stats, mapWidth, mapHeight));
+  zip.file(`${SYMBOL_PREFIX}.asm`, buildAsmSource(stats));
+  zip.file('tile_report.txt', buildReport(stats, mapWidth, mapHeight, padded));
+
+  const blob = await zip.generateAsync({ type: 'blob' });
+  onProgress(1);
+  return blob;
+}
@@ -1,13 +1,243 @@
-import GIF from 'gif.js';
 import type { FrameData } from '../VideoProcessor';
 import type { SourceVideoDimensions } from '../ExportManager';
-import { calculateScaledDimensions } from '../../utils';
-import { EXPORT_SCALE } from '../../constants';
+import type { Palette } from '../../palettes';
+import { calculateExportLayout, type ExportFrameLayout, type ExportResolution } from '../../utils';
+import { buildColorTable, colorKey, findNearestColorIndex } from './colorTable';
 
+export interface GifEncodeOptions {
+  // Active PocketFrame palette; its colours lead the global colour table
+  palette: Palette;
+  // NETSCAPE2.0 loop count: 0 loops forever (default), n repeats n times, null plays once
+  loopCount?: number | null;
+  // Per-frame display time; frames without an entry use 1000 / fps
+  frameDelaysMs?: number[];
+}
+
+// LZW dictionaries are capped by the format
+const MAX_LZW_CODES = 4096;
+
+// Graphic control disposal method 1: leave the frame in place for the next one
+const DISPOSAL_DO_NOT_DISPOSE = 1;
+
+class ByteWriter {
+  private bytes = new Uint8Array(1 << 16);
+  private length = 0;
+
+  writeByte(value: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = value & 0xff;
+  }
+
+  writeUint16(value: number): void {
+    this.writeByte(value);
+    this.writeByte(value >> 8);
+  }
+
+  writeAscii(text: string): void {
+    for (let i = 0; i < text.length; i++) {
+      this.writeByte(text.charCodeAt(i));
+    }
+  }
+
+  toArrayBuffer(): ArrayBuffer {
+    return this.bytes.slice(0, this.length).buffer;
+  }
+}
+
+/**
+ * Map a frame to colour-table indices, nearest-neighbour upscaled and placed
+ * in the layout; letterbox bars use borderIndex.
+ */
+function indexFrame(
+  frame: FrameData,
+  lookup: Map<number, number>,
+  layout: ExportFrameLayout,
+  borderIndex: number
+): Uint8Array {
+  const { pixels, width, height } = frame;
+  const { scale, offsetX, offsetY } = layout;
+  const indices = new Uint8Array(layout.width * layout.height).fill(borderIndex);
+
+  for (let y = 0; y < height * scale; y++) {
+    const srcRow = Math.floor(y / scale) * width;
+    const dstRow = (offsetY + y) * layout.width + offsetX;
+    for (let x = 0; x < width * scale; x++) {
+      const src = (srcRow + Math.floor(x / scale)) * 4;
+      indices[dstRow + x] = lookup.get(colorKey(pixels[src], pixels[src + 1], pixels[src + 2])) ?? 0;
+    }
+  }
+
+  return indices;
+}
+
+interface FrameRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Bounding box of the pixels that differ from the previous frame. An
+ * unchanged frame still needs an image, so it becomes a 1×1 rectangle.
+ */
+function findChangedRect(current: Uint8Array, previous: Uint8Array, width: number, height: number): FrameRect {
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width;
+    for (let x = 0; x < width; x++) {
+      if (current[row + x] !== previous[row + x]) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        maxY = y;
+      }
+    }
+  }
+
+  if (maxX < 0) {
+    return { left: 0, top: 0, width: 1, height: 1 };
+  }
+  return { left: minX, top: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/**
+ * Pixels of `rect`, with unchanged ones replaced by the transparent index
+ * when some table slot is unused inside the rectangle. Otherwise the frame
+ * is written opaque, which keeps 4-colour palettes at 2-bit codes.
+ */
+function extractFramePixels(
+  current: Uint8Array,
+  previous: Uint8Array | null,
+  canvasWidth: number,
+  rect: FrameRect,
+  tableSize: number
+): { pixels: Uint8Array; transparentIndex: number | null } {
+  const pixels = new Uint8Array(rect.width * rect.height);
+  const used = new Uint8Array(tableSize);
+
+  for (let y = 0; y < rect.height; y++) {
+    const src = (rect.top + y) * canvasWidth + rect.left;
+    const dst = y * rect.width;
+    for (let x = 0; x < rect.width; x++) {
+      const index = current[src + x];
+      pixels[dst + x] = index;
+      used[index] = 1;
+    }
+  }
+
+  const transparentIndex = previous ? used.indexOf(0) : -1;
+  if (!previous || transparentIndex < 0) {
+    return { pixels, transparentIndex: null };
+  }
+
+  for (let y = 0; y < rect.height; y++) {
+    const src = (rect.top + y) * canvasWidth + rect.left;
+    const dst = y * rect.width;
+    for (let x = 0; x < rect.width; x++) {
+      if (current[src + x] === previous[src + x]) {
+        pixels[dst + x] = transparentIndex;
+      }
+    }
+  }
+
+  return { pixels, transparentIndex };
+}
+
+/**
+ * GIF LZW: variable-width codes (minCodeSize + 1 up to 12 bits), packed
+ * LSB-first into sub-blocks of at most 255 bytes.
+ */
+function writeLzwData(writer: ByteWriter, pixels: Uint8Array, minCodeSize: number): void {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  let nextCode = endCode + 1;
+  let codeSize = minCodeSize + 1;
+  let dictionary = new Map<number, number>();
+
+  const block = new Uint8Array(255);
+  let blockLength = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const flushBlock = () => {
+    writer.writeByte(blockLength);
+    for (let i = 0; i < blockLength; i++) {
+      writer.writeByte(block[i]);
+    }
+    blockLength = 0;
+  };
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      block[blockLength++] = bitBuffer & 0xff;
+      if (blockLength === 255) flushBlock();
+      bitBuffer >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  writer.writeByte(minCodeSize);
+  emit(clearCode);
+
+  let prefix = pixels[0];
+  for (let i = 1; i < pixels.length; i++) {
+    const pixel = pixels[i];
+    const key = (prefix << 8) | pixel;
+    const code = dictionary.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    emit(prefix);
+    if (nextCode === MAX_LZW_CODES) {
+      emit(clearCode);
+      dictionary = new Map();
+      nextCode = endCode + 1;
+      codeSize = minCodeSize + 1;
+    } else {
+      if (nextCode >= 1 << codeSize) codeSize++;
+      dictionary.set(key, nextCode++);
+    }
+    prefix = pixel;
+  }
+
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) {
+    block[blockLength++] = bitBuffer & 0xff;
+    if (blockLength === 255) flushBlock();
+  }
+  if (blockLength > 0) flushBlock();
+  // Block terminator
+  writer.writeByte(0);
+}
+
+/**
+ * Indexed GIF89a writer. Frames are mapped straight onto the palette-led
+ * global colour table (no re-quantisation), only the changed rectangle of
+ * each frame is stored, and output is deterministic for the same input.
+ * Exports turn LCD shading off, so a 4-colour palette gives a 4-entry table
+ * and 2-bit codes; colours outside the palette (Game Boy Color mode) are
+ * appended after it.
+ */
 export async function encodeGif(
   frames: FrameData[],
   fps: number,
   onProgress: (progress: number) => void,
+  options: GifEncodeOptions,
+  resolution: ExportResolution,
   _sourceDims?: SourceVideoDimensions
 ): Promise<Blob> {
   if (frames.length === 0) {
@@ -18,83 +248,88 @@ export async function encodeGif(
   const frameWidth = frames[0].width;
   const frameHeight = frames[0].height;
 
-  // Calculate output dimensions based on frame dimensions
-  const outputDims = calculateScaledDimensions(frameWidth, frameHeight, EXPORT_SCALE.GIF);
+  // Calculate output layout based on frame dimensions
+  const outputDims = calculateExportLayout(frameWidth, frameHeight, resolution);
 
   console.log('GIF frame dimensions:', frameWidth, 'x', frameHeight, '-> Output:', outputDims);
 
-  return new Promise((resolve, reject) => {
-    const gif = new GIF({
-      workers: 2,
-      quality: 10,
-      width: outputDims.width,
-      height: outputDims.height,
-      workerScript: '/gif.worker.js',
-    });
-
-    // Source canvas for reading frame data
-    const srcCanvas = document.createElement('canvas');
-    srcCanvas.width = frameWidth;
-    srcCanvas.height = frameHeight;
-    const srcCtx = srcCanvas.getContext('2d');
-
-    // Output canvas for scaled frames
-    const outCanvas = document.createElement('canvas');
-    outCanvas.width = outputDims.width;
-    outCanvas.height = outputDims.height;
-    const outCtx = outCanvas.getContext('2d');
-
-    if (!srcCtx || !outCtx) {
-      reject(new Error('Failed to get 2D canvas context'));
-      return;
-    }
+  const { colors, lookup } = buildColorTable(frames, options.palette);
+  const borderIndex = findNearestColorIndex(colors, colorKey(0, 0, 0));
+  // Table size is a power of two, at least 4 so LZW codes start at 2 bits
+  const tableBits = Math.max(2, Math.ceil(Math.log2(colors.length)));
+  const tableSize = 1 << tableBits;
 
-    // Disable image smoothing for nearest-neighbor scaling (crisp pixels)
-    outCtx.imageSmoothingEnabled = false;
+  const writer = new ByteWriter();
+  writer.writeAscii('GIF89a');
 
-    const delay = Math.round(1000 / fps);
+  // Logical screen descriptor with a global colour table
+  writer.writeUint16(outputDims.width);
+  writer.writeUint16(outputDims.height);
+  writer.writeByte(0x80 | ((tableBits - 1) << 4) | (tableBits - 1));
+  writer.writeByte(borderIndex); // background colour index
+  writer.writeByte(0); // pixel aspect ratio
 
-    for (const frame of frames) {
-      // Convert RGBA pixels to ImageData on source canvas
-      const imageData = srcCtx.createImageData(frameWidth, frameHeight);
-      // Pixels are already in correct orientation from RenderPipeline
-      imageData.data.set(frame.pixels);
-      // Ensure alpha is fully opaque
-      for (let i = 3; i < imageData.data.length; i += 4) {
-        imageData.data[i] = 255;
-      }
+  for (let i = 0; i < tableSize; i++) {
+    const key = colors[i] ?? 0;
+    writer.writeByte(key >> 16);
+    writer.writeByte(key >> 8);
+    writer.writeByte(key);
+  }
+
+  const loopCount = options.loopCount === undefined ? 0 : options.loopCount;
+  if (loopCount !== null) {
+    writer.writeByte(0x21);
+    writer.writeByte(0xff);
+    writer.writeByte(11);
+    writer.writeAscii('NETSCAPE2.0');
+    writer.writeByte(3);
+    writer.writeByte(1);
+    writer.writeUint16(Math.max(0, Math.min(0xffff, Math.round(loopCount))));
+    writer.writeByte(0);
+  }
 
-      srcCtx.putImageData(imageData, 0, 0);
+  let previous: Uint8Array | null = null;
+  let elapsedMs = 0;
 
-      // Scale to output canvas (direct scale, no letterboxing needed as frame matches aspect)
-      outCtx.drawImage(srcCanvas, 0, 0, outputDims.width, outputDims.height);
+  for (let i = 0; i < frames.length; i++) {
+    const current = indexFrame(frames[i], lookup, outputDims, borderIndex);
+    const rect: FrameRect = previous
+      ? findChangedRect(current, previous, outputDims.width, outputDims.height)
+      : { left: 0, top: 0, width: outputDims.width, height: outputDims.height };
+    const { pixels, transparentIndex } = extractFramePixels(current, previous, outputDims.width, rect, tableSize);
 
-      gif.addFrame(outCtx, { copy: true, delay });
-    }
+    // GIF delays are in centiseconds; round cumulative time so they don't drift
+    const frameDelayMs = options.frameDelaysMs?.[i] ?? 1000 / fps;
+    const delay = Math.round((elapsedMs + frameDelayMs) / 10) - Math.round(elapsedMs / 10);
+    elapsedMs += frameDelayMs;
 
-    gif.on('progress', (p: number) => onProgress(p));
+    // Graphic control extension
+    writer.writeByte(0x21);
+    writer.writeByte(0xf9);
+    writer.writeByte(4);
+    writer.writeByte((DISPOSAL_DO_NOT_DISPOSE << 2) | (transparentIndex !== null ? 1 : 0));
+    writer.writeUint16(Math.max(0, delay));
+    writer.writeByte(transparentIndex ?? 0);
+    writer.writeByte(0);
 
-    gif.on('finished', (blob: Blob) => {
-      // Terminate workers to prevent memory leak
-      // Access internal freeWorkers array and terminate each worker
-      const gifAny = gif as unknown as { freeWorkers: Worker[] };
-      if (gifAny.freeWorkers) {
-        gifAny.freeWorkers.forEach((worker) => worker.terminate());
-        gifAny.freeWorkers.length = 0;
-      }
-      resolve(blob);
-    });
-
-    gif.on('abort', () => {
-      // Terminate workers on abort as well
-      const gifAny = gif as unknown as { freeWorkers: Worker[] };
-      if (gifAny.freeWorkers) {
-        gifAny.freeWorkers.forEach((worker) => worker.terminate());
-        gifAny.freeWorkers.length = 0;
-      }
-      reject(new Error('GIF encoding aborted'));
-    });
+    // Image descriptor (no local colour table, not interlaced)
+    writer.writeByte(0x2c);
+    writer.writeUint16(rect.left);
+    writer.writeUint16(rect.top);
+    writer.writeUint16(rect.width);
+    writer.writeUint16(rect.height);
+    writer.writeByte(0);
+
+    writeLzwData(writer, pixels, tableBits);
+
+    previous = current;
+    onProgress((i + 1) / frames.length);
+
+    // Yield so the UI can repaint progress between frames
+    await new Promise((resolve) => setTimeout(resolve, 0));
+  }
+
+  writer.writeByte(0x3b);
 
-    gif.render();
-  });
+  return new Blob([writer.toArrayBuffer()], { type: 'image/gif' });
 }
@@ -3,21 +3,23 @@ import { toBlobURL, fetchFile } from '@ffmpeg/util';
 import type { FrameData } from '../VideoProcessor';
 import type { SourceVideoDimensions } from '../ExportManager';
 import { calculateScaledDimensions } from '../../utils';
+import {
+  DEFAULT_VIDEO_CODEC,
+  VIDEO_CODEC_INFO,
+  VIDEO_CONTAINER_MIME_TYPES,
+  type VideoCodec,
+  type VideoContainer,
+} from './videoCodecs';
+import { DEFAULT_SPEAKER_SETTINGS } from '../../audio/speakerDsp';
+import { renderAudioBitcrush, type AudioExportSettings } from '../../audio/renderAudio';
+import { mixAudioTrack, type AudioTrackSettings } from '../../audio/audioTrack';
 
-const VIDEO_CRF = '10';
-const VIDEO_PRESET = 'slow';
 const AAC_AUDIO_BITRATE = '320k';
 const AAC_AUDIO_BITRATE_BITCRUSH = '192k';
-const BITCRUSH_SAMPLE_RATE_REDUCTION = 6;
-const FILTER_Q = 0.707;
-
-export interface AudioExportSettings {
-  highpass: number;
-  lowpass: number;
-  bitDepth: number;
-  distortion: number;
-  sampleRateReduction?: number;
-}
+const OPUS_AUDIO_BITRATE = '256k';
+const OPUS_AUDIO_BITRATE_BITCRUSH = '128k';
+// Audio track rate when the source video has no audio to match
+const AUDIO_TRACK_SAMPLE_RATE = 48000;
 
 let ffmpeg: FFmpeg | null = null;
 let ffmpegLoaded = false;
@@ -59,36 +61,26 @@ function fileDataToUint8Array(data: Uint8Array | string): Uint8Array {
   return new TextEncoder().encode(data);
 }
 
-function clampAudioSample(sample: number): number {
-  return Math.max(-1, Math.min(1, sample));
-}
-
-function applySoftClip(sample: number, distortionPercent: number): number {
-  if (distortionPercent <= 0) {
-    return sample;
+// WebM only carries Opus (or Vorbis) audio; lossless MKV exports keep lossless FLAC audio
+function getAudioEncoderArgs(container: VideoContainer, enableBitcrush: boolean): string[] {
+  if (container === 'mkv') {
+    return ['-c:a', 'flac'];
   }
-
-  // Match preview waveshaper curve from GameBoyAudioProcessor.
-  const amount = distortionPercent / 100;
-  const k = amount * 50;
-  return ((3 + k) * sample * 20 * (Math.PI / 180)) / (Math.PI + k * Math.abs(sample));
+  if (container === 'webm') {
+    return ['-c:a', 'libopus', '-b:a', enableBitcrush ? OPUS_AUDIO_BITRATE_BITCRUSH : OPUS_AUDIO_BITRATE];
+  }
+  return ['-c:a', 'aac', '-b:a', enableBitcrush ? AAC_AUDIO_BITRATE_BITCRUSH : AAC_AUDIO_BITRATE];
 }
 
-type BiquadType = 'highpass' | 'lowpass';
+function clampAudioSample(sample: number): number {
+  return Math.max(-1, Math.min(1, sample));
+}
 
 interface ParsedWavPcm16 {
   sampleRate: number;
   channelData: Float32Array[];
 }
 
-interface BiquadCoefficients {
-  b0: number;
-  b1: number;
-  b2: number;
-  a1: number;
-  a2: number;
-}
-
 function readAscii(view: DataView, offset: number, length: number): string {
   let out = '';
   for (let i = 0; i < length; i++) {
@@ -161,103 +153,6 @@ function parseWavPcm16(arrayBuffer: ArrayBuffer): ParsedWavPcm16 {
   return { sampleRate, channelData };
 }
 
-function createBiquadCoefficients(
-  type: BiquadType,
-  frequency: number,
-  sampleRate: number,
-  q: number
-): BiquadCoefficients {
-  const nyquist = sampleRate * 0.5;
-  const safeFrequency = Math.max(10, Math.min(frequency, nyquist - 10));
-  const w0 = (2 * Math.PI * safeFrequency) / sampleRate;
-  const cosW0 = Math.cos(w0);
-  const sinW0 = Math.sin(w0);
-  const alpha = sinW0 / (2 * q);
-
-  let b0: number;
-  let b1: number;
-  let b2: number;
-  const a0 = 1 + alpha;
-  const a1 = -2 * cosW0;
-  const a2 = 1 - alpha;
-
-  if (type === 'highpass') {
-    b0 = (1 + cosW0) / 2;
-    b1 = -(1 + cosW0);
-    b2 = (1 + cosW0) / 2;
-  } else {
-    b0 = (1 - cosW0) / 2;
-    b1 = 1 - cosW0;
-    b2 = (1 - cosW0) / 2;
-  }
-
-  return {
-    b0: b0 / a0,
-    b1: b1 / a0,
-    b2: b2 / a0,
-    a1: a1 / a0,
-    a2: a2 / a0,
-  };
-}
-
-function applyBiquadInPlace(samples: Float32Array, coeffs: BiquadCoefficients): void {
-  let x1 = 0;
-  let x2 = 0;
-  let y1 = 0;
-  let y2 = 0;
-
-  for (let i = 0; i < samples.length; i++) {
-    const x0 = samples[i];
-    const y0 = coeffs.b0 * x0 + coeffs.b1 * x1 + coeffs.b2 * x2 - coeffs.a1 * y1 - coeffs.a2 * y2;
-    samples[i] = y0;
-
-    x2 = x1;
-    x1 = x0;
-    y2 = y1;
-    y1 = y0;
-  }
-}
-
-function applyPreviewEqFilters(
-  channelData: Float32Array[],
-  sampleRate: number,
-  settings: AudioExportSettings
-): void {
-  const highpass = createBiquadCoefficients('highpass', settings.highpass, sampleRate, FILTER_Q);
-  const lowpass = createBiquadCoefficients('lowpass', settings.lowpass, sampleRate, FILTER_Q);
-
-  for (const channel of channelData) {
-    applyBiquadInPlace(channel, highpass);
-    applyBiquadInPlace(channel, lowpass);
-  }
-}
-
-function applyPreviewBitcrushAndDistortion(
-  channelData: Float32Array[],
-  settings: AudioExportSettings
-): void {
-  const bitDepth = Math.max(2, Math.min(16, Math.round(settings.bitDepth)));
-  const sampleRateReduction = Math.max(1, Math.round(settings.sampleRateReduction ?? BITCRUSH_SAMPLE_RATE_REDUCTION));
-  const distortion = Math.max(0, Math.min(100, settings.distortion));
-  const levels = 2 ** bitDepth;
-  const quantStep = 2 / levels;
-
-  for (let channel = 0; channel < channelData.length; channel++) {
-    const data = channelData[channel];
-    let heldSample = 0;
-
-    for (let i = 0; i < data.length; i++) {
-      if (i % sampleRateReduction === 0) {
-        const quantized = Math.round(data[i] / quantStep) * quantStep;
-        heldSample = clampAudioSample(quantized);
-      }
-
-      const distorted = applySoftClip(heldSample, distortion);
-      data[i] = clampAudioSample(distorted);
-    }
-  }
-}
-
 function writeWavString(view: DataView, offset: number, value: string): void {
   for (let i = 0; i < value.length; i++) {
     view.setUint8(offset + i, value.charCodeAt(i));
@@ -301,7 +196,8 @@ function channelDataToWav(channelData: Float32Array[], sampleRate: number): Blob
 }
 
 /**
- * Apply Game Boy DMG-01 speaker simulation (bitcrush) to a WAV audio blob.
+ * Apply Game Boy DMG-01 speaker simulation (bitcrush), or APU resynthesis in
+ * 'apu' mode, to a WAV audio blob.
  * Returns the processed audio as a WAV blob.
  */
 export async function applyAudioBitcrush(
@@ -309,19 +205,9 @@ export async function applyAudioBitcrush(
   audioSettings?: AudioExportSettings
 ): Promise<Blob> {
   try {
-    const settings: AudioExportSettings = {
-      highpass: audioSettings?.highpass ?? 500,
-      lowpass: audioSettings?.lowpass ?? 3500,
-      bitDepth: audioSettings?.bitDepth ?? 6,
-      distortion: audioSettings?.distortion ?? 30,
-      sampleRateReduction: audioSettings?.sampleRateReduction ?? BITCRUSH_SAMPLE_RATE_REDUCTION,
-    };
-
     const rawAudioData = await audioBlob.arrayBuffer();
     const parsedWav = parseWavPcm16(rawAudioData);
-    applyPreviewEqFilters(parsedWav.channelData, parsedWav.sampleRate, settings);
-    applyPreviewBitcrushAndDistortion(parsedWav.channelData, settings);
-    return channelDataToWav(parsedWav.channelData, parsedWav.sampleRate);
+    return channelDataToWav(renderAudioBitcrush(parsedWav.channelData, parsedWav.sampleRate, audioSettings), parsedWav.sampleRate);
   } catch (err) {
     console.error('Bitcrush failed, returning original audio:', err);
     return audioBlob;
@@ -398,24 +284,115 @@ export async function extractAudioFromVideo(
   }
 }
 
+/**
+ * Decode part of an audio file (WAV, MP3, OGG...) to 16-bit stereo WAV at the
+ * given sample rate. Returns null when FFmpeg can't read the file.
+ */
+async function decodeAudioTrack(
+  src: string,
+  startTime: number,
+  duration: number | undefined,
+  sampleRate: number
+): Promise<Blob | null> {
+  const ff = await loadFFmpeg();
+  // No extension: FFmpeg probes the format from the data
+  const inputFile = 'audio_track_input';
+  const outputFile = 'audio_track.wav';
+
+  try {
+    await ff.writeFile(inputFile, await fetchFile(src));
+
+    const ffmpegArgs = ['-i', inputFile];
+    if (startTime > 0) {
+      ffmpegArgs.unshift('-ss', startTime.toString());
+    }
+    if (duration !== undefined) {
+      ffmpegArgs.push('-t', duration.toString());
+    }
+    ffmpegArgs.push('-vn', '-acodec', 'pcm_s16le', '-ac', '2', '-ar', sampleRate.toString(), '-y', outputFile);
+
+    await ff.exec(ffmpegArgs);
+    const audioArray = fileDataToUint8Array(await ff.readFile(outputFile) as Uint8Array | string);
+    return new Blob([audioArray.buffer as ArrayBuffer], { type: 'audio/wav' });
+  } catch (error) {
+    console.error('Failed to decode audio track:', error);
+    return null;
+  } finally {
+    await safeDeleteFile(ff, inputFile);
+    await safeDeleteFile(ff, outputFile);
+  }
+}
+
+/**
+ * Audio for an exported clip as WAV: the source video's own audio, or with an
+ * audio track, the track replacing or mixed into it.
+ */
+export async function extractExportAudio(
+  videoSrc: string,
+  startTime = 0,
+  endTime?: number,
+  audioTrack?: AudioTrackSettings | null
+): Promise<Blob | null> {
+  if (!audioTrack) {
+    return extractAudioFromVideo(videoSrc, startTime, endTime);
+  }
+
+  const sourceBlob = audioTrack.mode === 'mix'
+    ? await extractAudioFromVideo(videoSrc, startTime, endTime)
+    : null;
+  const source = sourceBlob ? parseWavPcm16(await sourceBlob.arrayBuffer()) : null;
+  const sampleRate = source?.sampleRate ?? AUDIO_TRACK_SAMPLE_RATE;
+  const clipDuration = endTime !== undefined && endTime > startTime ? endTime - startTime : undefined;
+
+  // The part of the track inside the clip, and where it lands in the clip
+  const trackClipStart = Math.max(startTime, audioTrack.offsetSec);
+  const trackDuration = clipDuration !== undefined ? startTime + clipDuration - trackClipStart : undefined;
+  const trackBlob = trackDuration === undefined || trackDuration > 0
+    ? await decodeAudioTrack(audioTrack.src, trackClipStart - audioTrack.offsetSec, trackDuration, sampleRate)
+    : null;
+  if (!trackBlob) {
+    console.warn('Audio track is silent in the exported clip');
+  }
+  const track = trackBlob ? parseWavPcm16(await trackBlob.arrayBuffer()).channelData : [];
+  const trackStartFrame = Math.round((trackClipStart - startTime) * sampleRate);
+
+  const frames = clipDuration !== undefined
+    ? Math.round(clipDuration * sampleRate)
+    : Math.max(source?.channelData[0]?.length ?? 0, trackStartFrame + (track[0]?.length ?? 0));
+  if (frames === 0) {
+    return null;
+  }
+
+  const mixed = mixAudioTrack(source?.channelData ?? null, track, audioTrack, {
+    sampleRate,
+    frames,
+    clipStartSec: startTime,
+    clipEndSec: startTime + frames / sampleRate,
+    trackStartFrame,
+  });
+  return channelDataToWav(mixed, sampleRate);
+}
+
 /**
  * Fast audio merge for WebCodecs video exports.
  * Copies the already encoded video stream and only encodes audio.
  */
-export async function muxMp4WithSourceAudio(
+export async function muxVideoWithSourceAudio(
   videoBlob: Blob,
   sourceVideoSrc: string,
   startTime = 0,
   endTime?: number,
   enableBitcrush = false,
   audioSettings?: AudioExportSettings,
-  onProgress?: (progress: number) => void
+  onProgress?: (progress: number) => void,
+  container: VideoContainer = 'mp4',
+  audioTrack?: AudioTrackSettings | null
 ): Promise<Blob> {
   const ff = await loadFFmpeg();
-  const videoInputFile = 'webcodecs_video.mp4';
+  const videoInputFile = `webcodecs_video.${container}`;
   const sourceInputFile = 'source_video.mp4';
-  const crushedAudioFile = 'audio_crushed.wav';
-  const outputFile = 'muxed_output.mp4';
+  const processedAudioFile = 'audio_processed.wav';
+  const outputFile = `muxed_output.${container}`;
 
   const progressHandler = ({ progress }: { progress: number }) => {
     onProgress?.(progress);
@@ -428,15 +405,18 @@ export async function muxMp4WithSourceAudio(
     const inputArgs: string[] = ['-i', videoInputFile];
     let hasAudio = false;
 
-    if (enableBitcrush) {
-      const extractedAudio = await extractAudioFromVideo(sourceVideoSrc, startTime, endTime);
+    if (enableBitcrush || audioTrack) {
+      // Bitcrush and audio tracks both need the decoded samples
+      const extractedAudio = await extractExportAudio(sourceVideoSrc, startTime, endTime, audioTrack);
       if (extractedAudio) {
-        const crushedAudio = await applyAudioBitcrush(extractedAudio, audioSettings);
-        await ff.writeFile(crushedAudioFile, new Uint8Array(await crushedAudio.arrayBuffer()));
-        inputArgs.push('-i', crushedAudioFile);
+        const processedAudio = enableBitcrush
+          ? await applyAudioBitcrush(extractedAudio, audioSettings)
+          : extractedAudio;
+        await ff.writeFile(processedAudioFile, new Uint8Array(await processedAudio.arrayBuffer()));
+        inputArgs.push('-i', processedAudioFile);
         hasAudio = true;
       } else {
-        console.warn('No source audio found for bitcrush mux; exporting video-only MP4');
+        console.warn('No audio found for mux; exporting video only');
       }
     } else {
       await ff.writeFile(sourceInputFile, await fetchFile(sourceVideoSrc));
@@ -455,49 +435,57 @@ export async function muxMp4WithSourceAudio(
 
     const outputArgs: string[] = ['-map', '0:v:0', '-c:v', 'copy'];
     if (hasAudio) {
-      outputArgs.push(
-        '-map', '1:a:0?',
-        '-c:a', 'aac',
-        '-b:a', enableBitcrush ? AAC_AUDIO_BITRATE_BITCRUSH : AAC_AUDIO_BITRATE
-      );
+      outputArgs.push('-map', '1:a:0?', ...getAudioEncoderArgs(container, enableBitcrush));
     }
 
-    outputArgs.push(
-      '-shortest',
-      '-movflags', '+faststart',
-      '-y',
-      outputFile
-    );
+    outputArgs.push('-shortest');
+    if (container === 'mp4') {
+      outputArgs.push('-movflags', '+faststart');
+    }
+    outputArgs.push('-y', outputFile);
 
     await ff.exec([...inputArgs, ...outputArgs]);
 
     const muxedData = await ff.readFile(outputFile);
     const dataArray = fileDataToUint8Array(muxedData as Uint8Array | string);
-    return new Blob([dataArray.buffer as ArrayBuffer], { type: 'video/mp4' });
+    return new Blob([dataArray.buffer as ArrayBuffer], { type: VIDEO_CONTAINER_MIME_TYPES[container] });
   } finally {
     ff.off('progress', progressHandler);
     await safeDeleteFile(ff, videoInputFile);
     await safeDeleteFile(ff, sourceInputFile);
-    await safeDeleteFile(ff, crushedAudioFile);
+    await safeDeleteFile(ff, processedAudioFile);
     await safeDeleteFile(ff, outputFile);
   }
 }
 
-export async function encodeMp4(
+/**
+ * FFmpeg.wasm fallback for video exports when WebCodecs is unavailable, and
+ * the only encoder for the lossless codecs.
+ * The codec picks the container: MP4 for H.264/HEVC, WebM for VP9, MKV for
+ * FFV1 and lossless RGB H.264.
+ */
+export async function encodeVideoWithFfmpeg(
   frames: FrameData[],
   fps: number,
   audioBlob: Blob | null,
   enableBitcrush: boolean,
   onProgress: (progress: number) => void,
   audioSettings?: AudioExportSettings,
-  _sourceDims?: SourceVideoDimensions
+  _sourceDims?: SourceVideoDimensions,
+  codec: VideoCodec = DEFAULT_VIDEO_CODEC
 ): Promise<Blob> {
-  const ff = await loadFFmpeg();
+  const codecInfo = VIDEO_CODEC_INFO[codec];
+  if (!codecInfo.ffmpegArgs) {
+    throw new Error(`${codecInfo.label} export needs WebCodecs support; FFmpeg has no encoder for it`);
+  }
 
   if (frames.length === 0) {
     throw new Error('No frames to encode');
   }
 
+  const ff = await loadFFmpeg();
+  const outputFile = `output.${codecInfo.container}`;
+
   // Get dimensions from frame data (already calculated by VideoProcessor)
   const frameWidth = frames[0].width;
   const frameHeight = frames[0].height;
@@ -535,13 +523,7 @@ export async function encodeMp4(
     '-i', 'input.raw',
   ];
 
-  const outputArgs = [
-    '-c:v', 'libx264',
-    '-pix_fmt', 'yuv420p',
-    '-crf', VIDEO_CRF,
-    '-preset', VIDEO_PRESET,
-    '-tune', 'animation',
-  ];
+  const outputArgs = [...codecInfo.ffmpegArgs];
 
   if (outputDims.width !== frameWidth || outputDims.height !== frameHeight) {
     // Only apply resize/pad when enforcing even dimensions changes frame size.
@@ -559,11 +541,13 @@ export async function encodeMp4(
     await ff.writeFile('audio.wav', new Uint8Array(audioData));
 
     if (enableBitcrush) {
-      const highpass = audioSettings?.highpass ?? 500;
-      const lowpass = audioSettings?.lowpass ?? 3500;
-      const bitDepth = audioSettings?.bitDepth ?? 6;
-      const distortion = audioSettings?.distortion ?? 30;
-      console.log(`Applying preview-matched Game Boy audio (highpass=${highpass}Hz, lowpass=${lowpass}Hz, bitDepth=${bitDepth}, distortion=${distortion}%)`);
+      const { highpass, lowpass, bitDepth, distortion, crushRate, resonance, mono, noise, limiter } = {
+        ...DEFAULT_SPEAKER_SETTINGS,
+        ...audioSettings,
+      };
+      console.log(audioSettings?.mode === 'apu'
+        ? 'Resynthesizing audio on the DMG APU'
+        : `Applying preview-matched Game Boy audio (highpass=${highpass}Hz, lowpass=${lowpass}Hz, bitDepth=${bitDepth}, distortion=${distortion}%, crushRate=${crushRate}Hz, resonance=${resonance}dB, mono=${mono}%, noise=${noise}%, limiter=${limiter}dB)`);
       try {
         const crushedAudioBlob = await applyAudioBitcrush(audioBlob, audioSettings);
         await ff.writeFile('audio_crushed.wav', new Uint8Array(await crushedAudioBlob.arrayBuffer()));
@@ -589,13 +573,12 @@ export async function encodeMp4(
     outputArgs.push(
       '-map', '0:v',           // Map video from first input (frames)
       '-map', '1:a',           // Map audio from second input (audio file)
-      '-c:a', 'aac',
-      '-b:a', enableBitcrush ? AAC_AUDIO_BITRATE_BITCRUSH : AAC_AUDIO_BITRATE,
+      ...getAudioEncoderArgs(codecInfo.container, enableBitcrush),
       '-shortest'
     );
   }
 
-  outputArgs.push('output.mp4');
+  outputArgs.push(outputFile);
 
   // Add progress listener and track it for cleanup
   const progressHandler = ({ progress }: { progress: number }) => {
@@ -607,18 +590,18 @@ export async function encodeMp4(
   try {
     await ff.exec([...inputArgs, ...outputArgs]);
 
-    const data = await ff.readFile('output.mp4');
+    const data = await ff.readFile(outputFile);
     // FFmpeg.wasm readFile returns Uint8Array for binary files
     const dataArray = fileDataToUint8Array(data as Uint8Array | string);
 
-    return new Blob([dataArray.buffer as ArrayBuffer], { type: 'video/mp4' });
+    return new Blob([dataArray.buffer as ArrayBuffer], { type: VIDEO_CONTAINER_MIME_TYPES[codecInfo.container] });
   } finally {
     // Remove progress listener to prevent accumulation
     ff.off('progress', progressHandler);
 
     // Cleanup all files
     await safeDeleteFile(ff, 'input.raw');
-    await safeDeleteFile(ff, 'output.mp4');
+    await safeDeleteFile(ff, outputFile);
     if (audioBlob) {
       await safeDeleteFile(ff, 'audio.wav');
       if (enableBitcrush) {
@@ -627,3 +610,54 @@ export async function encodeMp4(
     }
   }
 }
+
+/**
+ * Decode every `frameStep`-th frame of an encoded video back to RGBA so the
+ * export can be checked against what was rendered. Frames come back top row
+ * first, at the encoded size.
+ */
+export async function decodeVideoFrames(
+  videoBlob: Blob,
+  container: VideoContainer,
+  width: number,
+  height: number,
+  fps: number,
+  frameStep = 1
+): Promise<FrameData[]> {
+  const ff = await loadFFmpeg();
+  const inputFile = `decode_input.${container}`;
+  const outputFile = 'decoded.raw';
+
+  try {
+    await ff.writeFile(inputFile, new Uint8Array(await videoBlob.arrayBuffer()));
+
+    const step = Math.max(1, Math.floor(frameStep));
+    await ff.exec([
+      '-i', inputFile,
+      '-map', '0:v:0',
+      '-vf', `select=not(mod(n\\,${step}))`,
+      '-vsync', '0',
+      '-f', 'rawvideo',
+      '-pix_fmt', 'rgba',
+      '-y', outputFile,
+    ]);
+
+    const raw = fileDataToUint8Array(await ff.readFile(outputFile) as Uint8Array | string);
+    const bytesPerFrame = width * height * 4;
+    const frames: FrameData[] = [];
+
+    for (let offset = 0; offset + bytesPerFrame <= raw.length; offset += bytesPerFrame) {
+      frames.push({
+        pixels: raw.subarray(offset, offset + bytesPerFrame),
+        width,
+        height,
+        timestamp: (frames.length * step) / fps,
+      });
+    }
+
+    return frames;
+  } finally {
+    await safeDeleteFile(ff, inputFile);
+    await safeDeleteFile(ff, outputFile);
+  }
+}
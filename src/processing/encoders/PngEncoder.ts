@@ -1,12 +1,12 @@
 import JSZip from 'jszip';
 import type { FrameData } from '../VideoProcessor';
 import type { SourceVideoDimensions } from '../ExportManager';
-import { calculateScaledDimensions } from '../../utils';
-import { EXPORT_SCALE } from '../../constants';
+import { calculateExportLayout, type ExportResolution } from '../../utils';
 
 export async function encodePngSequence(
   frames: FrameData[],
   onProgress: (progress: number) => void,
+  resolution: ExportResolution,
   _sourceDims?: SourceVideoDimensions
 ): Promise<Blob> {
   if (frames.length === 0) {
@@ -17,8 +17,8 @@ export async function encodePngSequence(
   const frameWidth = frames[0].width;
   const frameHeight = frames[0].height;
 
-  // Calculate output dimensions based on frame dimensions
-  const outputDims = calculateScaledDimensions(frameWidth, frameHeight, EXPORT_SCALE.HIGH_QUALITY);
+  // Calculate output layout based on frame dimensions
+  const outputDims = calculateExportLayout(frameWidth, frameHeight, resolution);
 
   console.log('PNG frame dimensions:', frameWidth, 'x', frameHeight, '-> Output:', outputDims);
 
@@ -42,6 +42,9 @@ export async function encodePngSequence(
 
   // Disable image smoothing for nearest-neighbor scaling (crisp pixels)
   outCtx.imageSmoothingEnabled = false;
+  // Letterbox bars (fit layouts) stay black; frames are drawn over the rest
+  outCtx.fillStyle = '#000';
+  outCtx.fillRect(0, 0, outputDims.width, outputDims.height);
 
   for (let i = 0; i < frames.length; i++) {
     const frame = frames[i];
@@ -57,8 +60,14 @@ export async function encodePngSequence(
 
     srcCtx.putImageData(imageData, 0, 0);
 
-    // Scale to output canvas (direct scale, no letterboxing needed)
-    outCtx.drawImage(srcCanvas, 0, 0, outputDims.width, outputDims.height);
+    // Integer-scale into the output canvas at the layout offset
+    outCtx.drawImage(
+      srcCanvas,
+      outputDims.offsetX,
+      outputDims.offsetY,
+      frameWidth * outputDims.scale,
+      frameHeight * outputDims.scale
+    );
 
     // Convert output canvas to PNG blob
     const pngBlob = await new Promise<Blob | null>((resolve) => {
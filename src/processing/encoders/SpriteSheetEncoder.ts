@@ -0,0 +1,258 @@
+import JSZip from 'jszip';
+import type { FrameData } from '../VideoProcessor';
+import type { SourceVideoDimensions } from '../ExportManager';
+import { calculateExportLayout, type ExportResolution } from '../../utils';
+
+// 'grid' gives every frame its own cell; 'packed' stores identical frames once
+export type SpriteSheetLayout = 'grid' | 'packed';
+
+export interface SpriteSheetOptions {
+  layout: SpriteSheetLayout;
+}
+
+export const SPRITE_SHEET_LAYOUTS: SpriteSheetLayout[] = ['grid', 'packed'];
+
+export const DEFAULT_SPRITE_SHEET_OPTIONS: SpriteSheetOptions = {
+  layout: 'grid',
+};
+
+// Largest canvas side Chromium will encode reliably
+const MAX_SHEET_SIDE = 16384;
+const SHEET_IMAGE_NAME = 'sheet.png';
+const SHEET_DATA_NAME = 'sheet.json';
+
+interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+interface SheetLayout {
+  columns: number;
+  rows: number;
+  // Cell index for each frame; packed layouts share cells between identical frames
+  cellForFrame: number[];
+  // Frame whose pixels fill each cell
+  frameForCell: number[];
+}
+
+function hashPixels(pixels: Uint8Array): string {
+  // FNV-1a over RGB only; alpha is forced opaque on output
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < pixels.length; i += 4) {
+    hash = Math.imul(hash ^ pixels[i], 0x01000193);
+    hash = Math.imul(hash ^ pixels[i + 1], 0x01000193);
+    hash = Math.imul(hash ^ pixels[i + 2], 0x01000193);
+  }
+  return (hash >>> 0).toString(16);
+}
+
+function samePixels(a: Uint8Array, b: Uint8Array): boolean {
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i += 4) {
+    if (a[i] !== b[i] || a[i + 1] !== b[i + 1] || a[i + 2] !== b[i + 2]) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Pick the column count whose sheet is closest to square, preferring fewer
+ * empty cells when two candidates are equally square.
+ */
+function chooseColumns(cellCount: number, cellWidth: number, cellHeight: number): number {
+  let best = 1;
+  let bestScore = Infinity;
+
+  for (let columns = 1; columns <= cellCount; columns++) {
+    const rows = Math.ceil(cellCount / columns);
+    const width = columns * cellWidth;
+    const height = rows * cellHeight;
+    const aspectPenalty = Math.max(width, height) / Math.min(width, height);
+    const emptyCells = columns * rows - cellCount;
+    const score = aspectPenalty + emptyCells / cellCount;
+    if (score < bestScore) {
+      bestScore = score;
+      best = columns;
+    }
+  }
+
+  return best;
+}
+
+function buildLayout(frames: FrameData[], layout: SpriteSheetLayout, cellWidth: number, cellHeight: number): SheetLayout {
+  const cellForFrame: number[] = [];
+  const frameForCell: number[] = [];
+
+  if (layout === 'packed') {
+    const cellsByHash = new Map<string, number[]>();
+    frames.forEach((frame, i) => {
+      const hash = hashPixels(frame.pixels);
+      const candidates = cellsByHash.get(hash) ?? [];
+      const match = candidates.find((cell) => samePixels(frames[frameForCell[cell]].pixels, frame.pixels));
+
+      if (match !== undefined) {
+        cellForFrame.push(match);
+        return;
+      }
+
+      const cell = frameForCell.length;
+      frameForCell.push(i);
+      cellForFrame.push(cell);
+      candidates.push(cell);
+      cellsByHash.set(hash, candidates);
+    });
+
+    const columns = chooseColumns(frameForCell.length, cellWidth, cellHeight);
+    return { columns, rows: Math.ceil(frameForCell.length / columns), cellForFrame, frameForCell };
+  }
+
+  frames.forEach((_, i) => {
+    cellForFrame.push(i);
+    frameForCell.push(i);
+  });
+  const columns = Math.ceil(Math.sqrt(frames.length));
+  return { columns, rows: Math.ceil(frames.length / columns), cellForFrame, frameForCell };
+}
+
+function drawScaledFrame(
+  target: Uint8ClampedArray,
+  sheetWidth: number,
+  frame: FrameData,
+  originX: number,
+  originY: number,
+  scale: number
+): void {
+  const { pixels, width, height } = frame;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const src = (y * width + x) * 4;
+      for (let sy = 0; sy < scale; sy++) {
+        let dst = ((originY + y * scale + sy) * sheetWidth + originX + x * scale) * 4;
+        for (let sx = 0; sx < scale; sx++) {
+          target[dst] = pixels[src];
+          target[dst + 1] = pixels[src + 1];
+          target[dst + 2] = pixels[src + 2];
+          // Ensure alpha is fully opaque
+          target[dst + 3] = 255;
+          dst += 4;
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Pack frames into a single sprite-sheet PNG plus Aseprite/TexturePacker
+ * style JSON (array format), bundled together in a ZIP.
+ */
+export async function encodeSpriteSheet(
+  frames: FrameData[],
+  fps: number,
+  onProgress: (progress: number) => void,
+  options: SpriteSheetOptions,
+  resolution: ExportResolution,
+  _sourceDims?: SourceVideoDimensions
+): Promise<Blob> {
+  if (frames.length === 0) {
+    throw new Error('No frames to encode');
+  }
+
+  // Get dimensions from frame data (already calculated by VideoProcessor)
+  const frameWidth = frames[0].width;
+  const frameHeight = frames[0].height;
+
+  // Cells take the layout's integer scale; letterboxing doesn't apply to cells
+  const { scale } = calculateExportLayout(frameWidth, frameHeight, resolution);
+  const cellWidth = frameWidth * scale;
+  const cellHeight = frameHeight * scale;
+
+  const layout = buildLayout(frames, options.layout, cellWidth, cellHeight);
+  const sheetWidth = layout.columns * cellWidth;
+  const sheetHeight = layout.rows * cellHeight;
+
+  console.log(
+    'Sprite sheet frame dimensions:', frameWidth, 'x', frameHeight,
+    '-> Sheet:', sheetWidth, 'x', sheetHeight, `(${layout.frameForCell.length} cells)`
+  );
+
+  if (sheetWidth > MAX_SHEET_SIDE || sheetHeight > MAX_SHEET_SIDE) {
+    throw new Error(
+      `Sprite sheet would be ${sheetWidth}x${sheetHeight}, over the ${MAX_SHEET_SIDE}px limit. ` +
+      'Shorten the trim range, lower the frame rate or use a smaller scale.'
+    );
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = sheetWidth;
+  canvas.height = sheetHeight;
+  const ctx = canvas.getContext('2d');
+
+  if (!ctx) {
+    throw new Error('Failed to get 2D canvas context');
+  }
+
+  const cellRect = (cell: number): Rect => ({
+    x: (cell % layout.columns) * cellWidth,
+    y: Math.floor(cell / layout.columns) * cellHeight,
+    w: cellWidth,
+    h: cellHeight,
+  });
+
+  const imageData = ctx.createImageData(sheetWidth, sheetHeight);
+  layout.frameForCell.forEach((frameIndex, cell) => {
+    const rect = cellRect(cell);
+    // Pixels are already in correct orientation from RenderPipeline
+    drawScaledFrame(imageData.data, sheetWidth, frames[frameIndex], rect.x, rect.y, scale);
+    onProgress(((cell + 1) / layout.frameForCell.length) * 0.7);
+  });
+  ctx.putImageData(imageData, 0, 0);
+
+  const pngBlob = await new Promise<Blob | null>((resolve) => {
+    canvas.toBlob((blob) => resolve(blob), 'image/png');
+  });
+
+  if (!pngBlob) {
+    throw new Error('Failed to create sprite sheet PNG');
+  }
+  onProgress(0.9);
+
+  const sheetFrames = frames.map((_, i) => {
+    // Accumulate rounding so the total duration doesn't drift from the clip length
+    const duration = Math.round(((i + 1) * 1000) / fps) - Math.round((i * 1000) / fps);
+    return {
+      filename: `frame_${String(i + 1).padStart(5, '0')}`,
+      frame: cellRect(layout.cellForFrame[i]),
+      rotated: false,
+      trimmed: false,
+      spriteSourceSize: { x: 0, y: 0, w: cellWidth, h: cellHeight },
+      sourceSize: { w: cellWidth, h: cellHeight },
+      duration: Math.max(1, duration),
+    };
+  });
+
+  const sheetData = {
+    frames: sheetFrames,
+    meta: {
+      app: 'PocketFrame',
+      image: SHEET_IMAGE_NAME,
+      format: 'RGBA8888',
+      size: { w: sheetWidth, h: sheetHeight },
+      scale: String(scale),
+      frameTags: [
+        { name: 'clip', from: 0, to: frames.length - 1, direction: 'forward' },
+      ],
+    },
+  };
+
+  const zip = new JSZip();
+  zip.file(SHEET_IMAGE_NAME, pngBlob);
+  zip.file(SHEET_DATA_NAME, JSON.stringify(sheetData, null, 2));
+
+  const blob = await zip.generateAsync({ type: 'blob' });
+  onProgress(1);
+  return blob;
+}
@@ -1,6 +1,14 @@
 import { Muxer, ArrayBufferTarget } from 'mp4-muxer';
 import type { FrameData } from '../VideoProcessor';
 import { calculateScaledDimensions } from '../../utils';
+import { WebmMuxer } from './WebmMuxer';
+import {
+  DEFAULT_VIDEO_CODEC,
+  VIDEO_CODEC_INFO,
+  VIDEO_CONTAINER_MIME_TYPES,
+  getWebCodecsCodecString,
+  type VideoCodec,
+} from './videoCodecs';
 
 const DEFAULT_BITRATE_MULTIPLIER = 0.9; // bits per pixel per frame (near-lossless for pixel art)
 const MIN_VIDEO_BITRATE = 8_000_000;
@@ -14,6 +22,8 @@ export interface WebCodecsEncoderOptions {
   frameHeight: number;
   bitrate?: number;
   includeAudio?: boolean;
+  // H.264 and HEVC are written to MP4, VP9 and AV1 to WebM
+  codec?: VideoCodec;
 }
 
 export interface WebCodecsSupportResult {
@@ -21,7 +31,25 @@ export interface WebCodecsSupportResult {
   reason?: string;
 }
 
-export async function isWebCodecsSupported(): Promise<WebCodecsSupportResult> {
+// Output size to probe with when the export size isn't known yet
+const PROBE_OUTPUT = { width: 640, height: 480, fps: 30 };
+
+/**
+ * Size the encoder writes for frames of the given size; codecs need even
+ * dimensions.
+ */
+export function getWebCodecsOutputDimensions(frameWidth: number, frameHeight: number): { width: number; height: number } {
+  return calculateScaledDimensions(frameWidth, frameHeight, 1, true);
+}
+
+/**
+ * Whether WebCodecs can encode the codec, at the actual output size and rate
+ * when given, since the platform encoder or the codec level may not reach it.
+ */
+export async function isWebCodecsSupported(
+  codec: VideoCodec = DEFAULT_VIDEO_CODEC,
+  output: { width: number; height: number; fps: number } = PROBE_OUTPUT
+): Promise<WebCodecsSupportResult> {
   if (typeof VideoEncoder === 'undefined' || typeof VideoFrame === 'undefined') {
     return { supported: false, reason: 'WebCodecs APIs not available' };
   }
@@ -30,16 +58,25 @@ export async function isWebCodecsSupported(): Promise<WebCodecsSupportResult> {
     return { supported: false, reason: 'VideoEncoder.isConfigSupported not available' };
   }
 
+  const info = VIDEO_CODEC_INFO[codec];
+  const codecString = getWebCodecsCodecString(codec, output.width, output.height, output.fps);
+  if (!codecString) {
+    return { supported: false, reason: `${info.label} has no WebCodecs encoder` };
+  }
+
   try {
     const support = await VideoEncoder.isConfigSupported({
-      codec: 'avc1.42001f',
-      width: 640,
-      height: 480,
-      bitrate: 2_000_000,
-      framerate: 30,
+      codec: codecString,
+      width: output.width,
+      height: output.height,
+      bitrate: getVideoBitrate(output.width, output.height, output.fps),
+      framerate: output.fps,
+      hardwareAcceleration: info.hardwareAcceleration,
     });
 
-    return { supported: !!support.supported };
+    return support.supported
+      ? { supported: true }
+      : { supported: false, reason: `${codecString} at ${output.width}x${output.height} is not supported` };
   } catch (error) {
     return {
       supported: false,
@@ -48,10 +85,17 @@ export async function isWebCodecsSupported(): Promise<WebCodecsSupportResult> {
   }
 }
 
+function getVideoBitrate(width: number, height: number, fps: number): number {
+  const targetBitrate = Math.round(width * height * fps * DEFAULT_BITRATE_MULTIPLIER);
+  return Math.min(MAX_VIDEO_BITRATE, Math.max(MIN_VIDEO_BITRATE, targetBitrate));
+}
+
 export class WebCodecsEncoder {
   private encoder: VideoEncoder;
-  private muxer: Muxer;
-  private target: ArrayBufferTarget;
+  private codec: VideoCodec;
+  private muxer: Muxer | WebmMuxer;
+  // Finalizes the muxer and returns the file bytes
+  private finishContainer: () => ArrayBuffer;
   private frameIndex = 0;
   private frameDurationUs: number;
   private srcCanvas: HTMLCanvasElement;
@@ -72,7 +116,7 @@ export class WebCodecsEncoder {
 
   constructor(options: WebCodecsEncoderOptions) {
     const { fps, frameWidth, frameHeight } = options;
-    const outputDims = calculateScaledDimensions(frameWidth, frameHeight, 1, true);
+    const outputDims = getWebCodecsOutputDimensions(frameWidth, frameHeight);
 
     this.outputWidth = outputDims.width;
     this.outputHeight = outputDims.height;
@@ -86,27 +130,60 @@ export class WebCodecsEncoder {
     this.frameDurationUs = Math.round(1_000_000 / fps);
     this.keyframeInterval = Math.max(1, Math.round(fps * 2));
 
-    const targetBitrate = options.bitrate ?? Math.round(this.outputWidth * this.outputHeight * fps * DEFAULT_BITRATE_MULTIPLIER);
-    const bitrate = Math.min(MAX_VIDEO_BITRATE, Math.max(MIN_VIDEO_BITRATE, targetBitrate));
-
-    this.target = new ArrayBufferTarget();
-    this.muxer = new Muxer({
-      target: this.target,
-      video: {
-        codec: 'avc',
-        width: this.outputWidth,
-        height: this.outputHeight,
-        frameRate: fps,
-      },
-      ...(options.includeAudio ? {
-        audio: {
-          codec: 'aac',
-          sampleRate: 44100,
-          numberOfChannels: 2,
+    const bitrate = options.bitrate !== undefined
+      ? Math.min(MAX_VIDEO_BITRATE, Math.max(MIN_VIDEO_BITRATE, options.bitrate))
+      : getVideoBitrate(this.outputWidth, this.outputHeight, fps);
+
+    this.codec = options.codec ?? DEFAULT_VIDEO_CODEC;
+    const codecInfo = VIDEO_CODEC_INFO[this.codec];
+    const codecString = getWebCodecsCodecString(this.codec, this.outputWidth, this.outputHeight, fps);
+    if (!codecString) {
+      throw new Error(`${codecInfo.label} can't be encoded with WebCodecs`);
+    }
+
+    if (this.codec === 'vp9' || this.codec === 'av1') {
+      const muxer = new WebmMuxer({
+        video: {
+          codec: this.codec,
+          codecString,
+          width: this.outputWidth,
+          height: this.outputHeight,
+          frameRate: fps,
         },
-      } : {}),
-      fastStart: 'in-memory',
-    });
+        ...(options.includeAudio ? {
+          audio: {
+            sampleRate: 48000,
+            numberOfChannels: 2,
+          },
+        } : {}),
+      });
+      this.muxer = muxer;
+      this.finishContainer = () => muxer.finalize();
+    } else {
+      const target = new ArrayBufferTarget();
+      const muxer = new Muxer({
+        target,
+        video: {
+          codec: this.codec === 'hevc' ? 'hevc' : 'avc',
+          width: this.outputWidth,
+          height: this.outputHeight,
+          frameRate: fps,
+        },
+        ...(options.includeAudio ? {
+          audio: {
+            codec: 'aac',
+            sampleRate: 44100,
+            numberOfChannels: 2,
+          },
+        } : {}),
+        fastStart: 'in-memory',
+      });
+      this.muxer = muxer;
+      this.finishContainer = () => {
+        muxer.finalize();
+        return target.buffer;
+      };
+    }
 
     this.encoder = new VideoEncoder({
       output: (chunk, meta) => {
@@ -119,12 +196,12 @@ export class WebCodecsEncoder {
     });
 
     this.encoder.configure({
-      codec: 'avc1.42001f',
+      codec: codecString,
       width: this.outputWidth,
       height: this.outputHeight,
       bitrate,
       framerate: fps,
-      hardwareAcceleration: 'prefer-software',
+      hardwareAcceleration: codecInfo.hardwareAcceleration,
     });
 
     this.srcCanvas = document.createElement('canvas');
@@ -225,11 +302,11 @@ export class WebCodecsEncoder {
       this.throwIfEncoderErrored();
     }
 
-    this.muxer.finalize();
+    const buffer = this.finishContainer();
     this.encoder.close();
     this.closed = true;
 
-    return new Blob([this.target.buffer], { type: 'video/mp4' });
+    return new Blob([buffer], { type: VIDEO_CONTAINER_MIME_TYPES[VIDEO_CODEC_INFO[this.codec].container] });
   }
 
   private async encodeAudio(audioBlob: Blob): Promise<void> {
@@ -271,7 +348,7 @@ export class WebCodecsEncoder {
     });
 
     audioEncoder.configure({
-      codec: 'mp4a.40.2',
+      codec: this.muxer instanceof WebmMuxer ? 'opus' : 'mp4a.40.2',
       sampleRate,
       numberOfChannels: channels,
       bitrate: AUDIO_BITRATE,
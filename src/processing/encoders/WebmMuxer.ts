@@ -0,0 +1,366 @@
+// Minimal WebM (Matroska) writer for WebCodecs output: one video track
+// (VP9 or AV1) and an optional Opus track, written in memory with cues
+
+export type WebmVideoCodec = 'vp9' | 'av1';
+
+export interface WebmMuxerOptions {
+  video: {
+    codec: WebmVideoCodec;
+    // WebCodecs codec string, used to build the AV1 config when the encoder gives none
+    codecString: string;
+    width: number;
+    height: number;
+    frameRate: number;
+  };
+  audio?: {
+    numberOfChannels: number;
+    sampleRate: number;
+  };
+}
+
+const EBML_IDS = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimestampScale: 0x2ad7b1,
+  Duration: 0x4489,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  FlagLacing: 0x9c,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  CodecDelay: 0x56aa,
+  SeekPreRoll: 0x56bb,
+  DefaultDuration: 0x23e383,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timestamp: 0xe7,
+  SimpleBlock: 0xa3,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+} as const;
+
+const VIDEO_TRACK = 1;
+const AUDIO_TRACK = 2;
+const TRACK_TYPE_VIDEO = 1;
+const TRACK_TYPE_AUDIO = 2;
+// Timestamps are stored in milliseconds
+const TIMESTAMP_SCALE_NS = 1_000_000;
+// SimpleBlock timestamps are signed 16-bit offsets from their cluster
+const MAX_CLUSTER_SPAN_MS = 32_767;
+// libopus encoder lookahead at 48 kHz, and the pre-roll the Matroska spec recommends
+const OPUS_PRE_SKIP = 312;
+const OPUS_SEEK_PRE_ROLL_NS = 80_000_000;
+const OPUS_SAMPLE_RATE = 48_000;
+
+const CODEC_IDS: Record<WebmVideoCodec, string> = {
+  vp9: 'V_VP9',
+  av1: 'V_AV1',
+};
+
+interface Block {
+  track: number;
+  timestampMs: number;
+  keyFrame: boolean;
+  data: Uint8Array;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+}
+
+function idBytes(id: number): Uint8Array {
+  const length = id >= 0x1000000 ? 4 : id >= 0x10000 ? 3 : id >= 0x100 ? 2 : 1;
+  return uintBytes(id, length);
+}
+
+function uintBytes(value: number, length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  let remaining = value;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = remaining % 256;
+    remaining = Math.floor(remaining / 256);
+  }
+  return bytes;
+}
+
+/**
+ * EBML variable-length size: a length marker bit followed by the value. The
+ * all-ones value of each length is reserved for "unknown size".
+ */
+function sizeBytes(size: number): Uint8Array {
+  let length = 1;
+  while (length < 8 && size >= 2 ** (7 * length) - 1) {
+    length++;
+  }
+  const bytes = uintBytes(size, length);
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+}
+
+function element(id: number, payload: Uint8Array): Uint8Array {
+  return concatBytes([idBytes(id), sizeBytes(payload.length), payload]);
+}
+
+function master(id: number, children: Uint8Array[]): Uint8Array {
+  return element(id, concatBytes(children));
+}
+
+function uintElement(id: number, value: number): Uint8Array {
+  let length = 1;
+  while (length < 8 && value >= 2 ** (8 * length)) {
+    length++;
+  }
+  return element(id, uintBytes(value, length));
+}
+
+function floatElement(id: number, value: number): Uint8Array {
+  const bytes = new Uint8Array(8);
+  new DataView(bytes.buffer).setFloat64(0, value);
+  return element(id, bytes);
+}
+
+function stringElement(id: number, value: string): Uint8Array {
+  return element(id, new TextEncoder().encode(value));
+}
+
+/**
+ * av1C configuration record from an `av01.P.LLT.DD` codec string, for
+ * encoders that don't provide a decoder description. 4:2:0 is assumed.
+ */
+function buildAv1CodecPrivate(codecString: string): Uint8Array {
+  const [, profileText = '0', levelTier = '08M', depthText = '08'] = codecString.split('.');
+  const profile = Number(profileText) & 0x07;
+  const level = Number.parseInt(levelTier, 10) & 0x1f;
+  const tier = levelTier.endsWith('H') ? 1 : 0;
+  const highBitDepth = Number(depthText) > 8 ? 1 : 0;
+  const twelveBit = Number(depthText) === 12 ? 1 : 0;
+
+  return new Uint8Array([
+    0x81, // marker + version 1
+    (profile << 5) | level,
+    (tier << 7) | (highBitDepth << 6) | (twelveBit << 5) | (1 << 3) | (1 << 2),
+    0x00,
+  ]);
+}
+
+function buildOpusHead(channels: number, inputSampleRate: number): Uint8Array {
+  const head = new Uint8Array(19);
+  const view = new DataView(head.buffer);
+  head.set(new TextEncoder().encode('OpusHead'), 0);
+  head[8] = 1; // version
+  head[9] = channels;
+  view.setUint16(10, OPUS_PRE_SKIP, true);
+  view.setUint32(12, inputSampleRate, true);
+  view.setInt16(16, 0, true); // output gain
+  head[18] = 0; // channel mapping family
+  return head;
+}
+
+function descriptionBytes(description: AllowSharedBufferSource | undefined): Uint8Array | null {
+  if (!description) return null;
+  if (ArrayBuffer.isView(description)) {
+    return new Uint8Array(description.buffer.slice(description.byteOffset, description.byteOffset + description.byteLength));
+  }
+  return new Uint8Array(description.slice(0));
+}
+
+/**
+ * Collects encoded chunks and writes a complete WebM file on finalize. The
+ * API mirrors mp4-muxer's `Muxer` so encoders can switch containers.
+ */
+export class WebmMuxer {
+  private options: WebmMuxerOptions;
+  private blocks: Block[] = [];
+  private videoPrivate: Uint8Array | null = null;
+  private audioPrivate: Uint8Array | null = null;
+  private finalized = false;
+
+  constructor(options: WebmMuxerOptions) {
+    this.options = options;
+  }
+
+  addVideoChunk(chunk: EncodedVideoChunk, meta?: EncodedVideoChunkMetadata): void {
+    this.videoPrivate ??= descriptionBytes(meta?.decoderConfig?.description);
+    this.addBlock(VIDEO_TRACK, chunk);
+  }
+
+  addAudioChunk(chunk: EncodedAudioChunk, meta?: EncodedAudioChunkMetadata): void {
+    if (!this.options.audio) {
+      throw new Error('WebM muxer was created without an audio track');
+    }
+    this.audioPrivate ??= descriptionBytes(meta?.decoderConfig?.description);
+    this.addBlock(AUDIO_TRACK, chunk);
+  }
+
+  private addBlock(track: number, chunk: EncodedVideoChunk | EncodedAudioChunk): void {
+    if (this.finalized) {
+      throw new Error('WebM muxer is already finalized');
+    }
+
+    const data = new Uint8Array(chunk.byteLength);
+    chunk.copyTo(data);
+    this.blocks.push({
+      track,
+      timestampMs: Math.round(chunk.timestamp / 1000),
+      keyFrame: chunk.type === 'key',
+      data,
+    });
+  }
+
+  finalize(): ArrayBuffer {
+    if (this.finalized) {
+      throw new Error('WebM muxer is already finalized');
+    }
+    this.finalized = true;
+
+    // Audio is encoded after video, so interleave by time (video first on ties)
+    const blocks = this.blocks
+      .map((block, index) => ({ block, index }))
+      .sort((a, b) => a.block.timestampMs - b.block.timestampMs || a.block.track - b.block.track || a.index - b.index)
+      .map(({ block }) => block);
+    this.blocks = [];
+
+    const { video } = this.options;
+    const frameDurationMs = 1000 / video.frameRate;
+    const lastTimestamp = blocks.length > 0 ? blocks[blocks.length - 1].timestampMs : 0;
+
+    const info = master(EBML_IDS.Info, [
+      uintElement(EBML_IDS.TimestampScale, TIMESTAMP_SCALE_NS),
+      floatElement(EBML_IDS.Duration, lastTimestamp + frameDurationMs),
+      stringElement(EBML_IDS.MuxingApp, 'PocketFrame'),
+      stringElement(EBML_IDS.WritingApp, 'PocketFrame'),
+    ]);
+    const tracks = master(EBML_IDS.Tracks, this.buildTrackEntries());
+
+    const clusters: Uint8Array[] = [];
+    const cuePoints: Uint8Array[] = [];
+    let position = info.length + tracks.length;
+    let clusterStart = 0;
+
+    while (clusterStart < blocks.length) {
+      const clusterTimestamp = blocks[clusterStart].timestampMs;
+      const children = [uintElement(EBML_IDS.Timestamp, clusterTimestamp)];
+      let end = clusterStart;
+
+      // A new cluster starts at every video keyframe so cues can seek to it
+      while (end < blocks.length) {
+        const block = blocks[end];
+        const startsCluster = end > clusterStart && block.track === VIDEO_TRACK && block.keyFrame;
+        if (startsCluster || block.timestampMs - clusterTimestamp > MAX_CLUSTER_SPAN_MS) break;
+        children.push(this.buildSimpleBlock(block, clusterTimestamp));
+        end++;
+      }
+
+      const first = blocks[clusterStart];
+      if (first.track === VIDEO_TRACK && first.keyFrame) {
+        cuePoints.push(master(EBML_IDS.CuePoint, [
+          uintElement(EBML_IDS.CueTime, clusterTimestamp),
+          master(EBML_IDS.CueTrackPositions, [
+            uintElement(EBML_IDS.CueTrack, VIDEO_TRACK),
+            uintElement(EBML_IDS.CueClusterPosition, position),
+          ]),
+        ]));
+      }
+
+      const cluster = master(EBML_IDS.Cluster, children);
+      clusters.push(cluster);
+      position += cluster.length;
+      clusterStart = end;
+    }
+
+    const segmentChildren = [info, tracks, ...clusters];
+    if (cuePoints.length > 0) {
+      segmentChildren.push(master(EBML_IDS.Cues, cuePoints));
+    }
+
+    const header = master(EBML_IDS.EBML, [
+      uintElement(EBML_IDS.EBMLVersion, 1),
+      uintElement(EBML_IDS.EBMLReadVersion, 1),
+      uintElement(EBML_IDS.EBMLMaxIDLength, 4),
+      uintElement(EBML_IDS.EBMLMaxSizeLength, 8),
+      stringElement(EBML_IDS.DocType, 'webm'),
+      uintElement(EBML_IDS.DocTypeVersion, 4),
+      uintElement(EBML_IDS.DocTypeReadVersion, 2),
+    ]);
+
+    const file = concatBytes([header, master(EBML_IDS.Segment, segmentChildren)]);
+    return file.buffer as ArrayBuffer;
+  }
+
+  private buildTrackEntries(): Uint8Array[] {
+    const { video, audio } = this.options;
+    const videoPrivate = this.videoPrivate ?? (video.codec === 'av1' ? buildAv1CodecPrivate(video.codecString) : null);
+
+    const entries = [
+      master(EBML_IDS.TrackEntry, [
+        uintElement(EBML_IDS.TrackNumber, VIDEO_TRACK),
+        uintElement(EBML_IDS.TrackUID, VIDEO_TRACK),
+        uintElement(EBML_IDS.TrackType, TRACK_TYPE_VIDEO),
+        uintElement(EBML_IDS.FlagLacing, 0),
+        stringElement(EBML_IDS.CodecID, CODEC_IDS[video.codec]),
+        ...(videoPrivate ? [element(EBML_IDS.CodecPrivate, videoPrivate)] : []),
+        uintElement(EBML_IDS.DefaultDuration, Math.round(1_000_000_000 / video.frameRate)),
+        master(EBML_IDS.Video, [
+          uintElement(EBML_IDS.PixelWidth, video.width),
+          uintElement(EBML_IDS.PixelHeight, video.height),
+        ]),
+      ]),
+    ];
+
+    if (audio) {
+      entries.push(master(EBML_IDS.TrackEntry, [
+        uintElement(EBML_IDS.TrackNumber, AUDIO_TRACK),
+        uintElement(EBML_IDS.TrackUID, AUDIO_TRACK),
+        uintElement(EBML_IDS.TrackType, TRACK_TYPE_AUDIO),
+        uintElement(EBML_IDS.FlagLacing, 0),
+        stringElement(EBML_IDS.CodecID, 'A_OPUS'),
+        element(EBML_IDS.CodecPrivate, this.audioPrivate ?? buildOpusHead(audio.numberOfChannels, audio.sampleRate)),
+        uintElement(EBML_IDS.CodecDelay, Math.round((OPUS_PRE_SKIP / OPUS_SAMPLE_RATE) * 1_000_000_000)),
+        uintElement(EBML_IDS.SeekPreRoll, OPUS_SEEK_PRE_ROLL_NS),
+        master(EBML_IDS.Audio, [
+          floatElement(EBML_IDS.SamplingFrequency, OPUS_SAMPLE_RATE),
+          uintElement(EBML_IDS.Channels, audio.numberOfChannels),
+        ]),
+      ]));
+    }
+
+    return entries;
+  }
+
+  private buildSimpleBlock(block: Block, clusterTimestamp: number): Uint8Array {
+    const header = new Uint8Array(4);
+    header[0] = 0x80 | block.track; // track number as a 1-byte EBML vint
+    new DataView(header.buffer).setInt16(1, block.timestampMs - clusterTimestamp);
+    header[3] = block.keyFrame ? 0x80 : 0x00;
+    return element(EBML_IDS.SimpleBlock, concatBytes([header, block.data]));
+  }
+}
@@ -0,0 +1,198 @@
+import type { FrameData } from '../VideoProcessor';
+import type { SourceVideoDimensions } from '../ExportManager';
+import { calculateExportLayout, type ExportResolution } from '../../utils';
+
+// VP8X feature flag for animated files
+const VP8X_ANIMATION_FLAG = 0x02;
+// ANMF flag: overwrite the canvas area instead of alpha-blending onto it
+const ANMF_NO_BLEND_FLAG = 0x02;
+// Chunks that make up one frame's bitstream inside a still WebP
+const FRAME_CHUNK_TYPES = new Set(['ALPH', 'VP8 ', 'VP8L']);
+
+interface RiffChunk {
+  type: string;
+  data: Uint8Array;
+}
+
+function readFourCC(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+function writeUint24(target: Uint8Array, offset: number, value: number): void {
+  target[offset] = value & 0xff;
+  target[offset + 1] = (value >> 8) & 0xff;
+  target[offset + 2] = (value >> 16) & 0xff;
+}
+
+/**
+ * Split a still WebP file into its chunks.
+ */
+function parseWebpChunks(bytes: Uint8Array): RiffChunk[] {
+  if (bytes.length < 12 || readFourCC(bytes, 0) !== 'RIFF' || readFourCC(bytes, 8) !== 'WEBP') {
+    throw new Error('Canvas did not produce a WebP image');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const chunks: RiffChunk[] = [];
+  let offset = 12;
+
+  while (offset + 8 <= bytes.length) {
+    const type = readFourCC(bytes, offset);
+    const size = view.getUint32(offset + 4, true);
+    const start = offset + 8;
+    chunks.push({ type, data: bytes.subarray(start, start + size) });
+    // Chunk payloads are padded to an even length
+    offset = start + size + (size & 1);
+  }
+
+  return chunks;
+}
+
+function encodeChunk(type: string, data: Uint8Array): Uint8Array {
+  const padded = data.length + (data.length & 1);
+  const chunk = new Uint8Array(8 + padded);
+  for (let i = 0; i < 4; i++) {
+    chunk[i] = type.charCodeAt(i);
+  }
+  new DataView(chunk.buffer).setUint32(4, data.length, true);
+  chunk.set(data, 8);
+  return chunk;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Encode frames as a looping animated WebP. Each frame is encoded losslessly
+ * by the canvas (quality 1.0 selects VP8L) and muxed into ANMF chunks.
+ */
+export async function encodeAnimatedWebp(
+  frames: FrameData[],
+  fps: number,
+  onProgress: (progress: number) => void,
+  resolution: ExportResolution,
+  _sourceDims?: SourceVideoDimensions
+): Promise<Blob> {
+  if (frames.length === 0) {
+    throw new Error('No frames to encode');
+  }
+
+  // Get dimensions from frame data (already calculated by VideoProcessor)
+  const frameWidth = frames[0].width;
+  const frameHeight = frames[0].height;
+
+  // Calculate output layout based on frame dimensions
+  const outputDims = calculateExportLayout(frameWidth, frameHeight, resolution);
+
+  console.log('WebP frame dimensions:', frameWidth, 'x', frameHeight, '-> Output:', outputDims);
+
+  // Source canvas for reading frame data
+  const srcCanvas = document.createElement('canvas');
+  srcCanvas.width = frameWidth;
+  srcCanvas.height = frameHeight;
+  const srcCtx = srcCanvas.getContext('2d');
+
+  // Output canvas for scaled frames
+  const outCanvas = document.createElement('canvas');
+  outCanvas.width = outputDims.width;
+  outCanvas.height = outputDims.height;
+  const outCtx = outCanvas.getContext('2d');
+
+  if (!srcCtx || !outCtx) {
+    throw new Error('Failed to get 2D canvas context');
+  }
+
+  // Disable image smoothing for nearest-neighbor scaling (crisp pixels)
+  outCtx.imageSmoothingEnabled = false;
+  // Letterbox bars (fit layouts) stay black; frames are drawn over the rest
+  outCtx.fillStyle = '#000';
+  outCtx.fillRect(0, 0, outputDims.width, outputDims.height);
+
+  const frameChunks: Uint8Array[] = [];
+  let warnedLossy = false;
+
+  for (let i = 0; i < frames.length; i++) {
+    const frame = frames[i];
+
+    // Convert RGBA pixels to ImageData on source canvas
+    const imageData = srcCtx.createImageData(frameWidth, frameHeight);
+    // Pixels are already in correct orientation from RenderPipeline
+    imageData.data.set(frame.pixels);
+    // Ensure alpha is fully opaque
+    for (let j = 3; j < imageData.data.length; j += 4) {
+      imageData.data[j] = 255;
+    }
+
+    srcCtx.putImageData(imageData, 0, 0);
+
+    // Integer-scale into the output canvas at the layout offset
+    outCtx.drawImage(
+      srcCanvas,
+      outputDims.offsetX,
+      outputDims.offsetY,
+      frameWidth * outputDims.scale,
+      frameHeight * outputDims.scale
+    );
+
+    const webpBlob = await new Promise<Blob | null>((resolve) => {
+      outCanvas.toBlob((blob) => resolve(blob), 'image/webp', 1);
+    });
+
+    if (!webpBlob) {
+      throw new Error(`Failed to create WebP blob for frame ${i + 1}`);
+    }
+
+    const bitstream = parseWebpChunks(new Uint8Array(await webpBlob.arrayBuffer()))
+      .filter((chunk) => FRAME_CHUNK_TYPES.has(chunk.type));
+
+    if (bitstream.length === 0) {
+      throw new Error(`WebP frame ${i + 1} has no image data`);
+    }
+    if (!warnedLossy && !bitstream.some((chunk) => chunk.type === 'VP8L')) {
+      console.warn('Canvas WebP encoder is lossy here; animated WebP frames will not be exact');
+      warnedLossy = true;
+    }
+
+    // Accumulate rounding so the total duration doesn't drift from the clip length
+    const duration = Math.round(((i + 1) * 1000) / fps) - Math.round((i * 1000) / fps);
+    const header = new Uint8Array(16);
+    // Frame X/Y offsets stay 0: every frame covers the full canvas
+    writeUint24(header, 6, outputDims.width - 1);
+    writeUint24(header, 9, outputDims.height - 1);
+    writeUint24(header, 12, Math.max(1, duration));
+    header[15] = ANMF_NO_BLEND_FLAG;
+
+    frameChunks.push(encodeChunk(
+      'ANMF',
+      concatBytes([header, ...bitstream.map((chunk) => encodeChunk(chunk.type, chunk.data))])
+    ));
+
+    onProgress((i + 1) / frames.length);
+  }
+
+  const vp8x = new Uint8Array(10);
+  vp8x[0] = VP8X_ANIMATION_FLAG;
+  writeUint24(vp8x, 4, outputDims.width - 1);
+  writeUint24(vp8x, 7, outputDims.height - 1);
+
+  // Black background, loop forever
+  const anim = new Uint8Array(6);
+  anim.set([0, 0, 0, 255], 0);
+
+  const body = concatBytes([
+    new TextEncoder().encode('WEBP'),
+    encodeChunk('VP8X', vp8x),
+    encodeChunk('ANIM', anim),
+    ...frameChunks,
+  ]);
+
+  return new Blob([encodeChunk('RIFF', body).buffer as ArrayBuffer], { type: 'image/webp' });
+}
@@ -0,0 +1,74 @@
+import type { FrameData } from '../VideoProcessor';
+import type { Palette } from '../../palettes';
+
+// GIF colour tables and indexed Aseprite palettes both top out at 256 entries
+const MAX_COLORS = 256;
+
+export function colorKey(r: number, g: number, b: number): number {
+  return (r << 16) | (g << 8) | b;
+}
+
+/**
+ * Palette colours first (in palette order), then any other colours the
+ * frames contain (Game Boy Color output) by descending frequency.
+ * Colours that don't fit are mapped to the nearest table entry.
+ */
+export function buildColorTable(frames: FrameData[], palette: Palette): { colors: number[]; lookup: Map<number, number> } {
+  const colors: number[] = [];
+  const lookup = new Map<number, number>();
+
+  for (const [r, g, b] of palette) {
+    const key = colorKey(r, g, b);
+    if (!lookup.has(key) && colors.length < MAX_COLORS) {
+      lookup.set(key, colors.length);
+      colors.push(key);
+    }
+  }
+
+  const extraCounts = new Map<number, number>();
+  for (const frame of frames) {
+    const { pixels } = frame;
+    for (let i = 0; i < pixels.length; i += 4) {
+      const key = colorKey(pixels[i], pixels[i + 1], pixels[i + 2]);
+      if (!lookup.has(key)) {
+        extraCounts.set(key, (extraCounts.get(key) ?? 0) + 1);
+      }
+    }
+  }
+
+  // Ties broken by colour value so the table never depends on Map order
+  const extras = [...extraCounts.entries()].sort((a, b) => b[1] - a[1] || a[0] - b[0]);
+  for (const [key] of extras) {
+    if (colors.length === MAX_COLORS) break;
+    lookup.set(key, colors.length);
+    colors.push(key);
+  }
+
+  for (const [key] of extras) {
+    if (lookup.has(key)) continue;
+    lookup.set(key, findNearestColorIndex(colors, key));
+  }
+
+  return { colors, lookup };
+}
+
+export function findNearestColorIndex(colors: number[], key: number): number {
+  const r = (key >> 16) & 0xff;
+  const g = (key >> 8) & 0xff;
+  const b = key & 0xff;
+  let bestIndex = 0;
+  let bestDistance = Infinity;
+
+  for (let i = 0; i < colors.length; i++) {
+    const dr = ((colors[i] >> 16) & 0xff) - r;
+    const dg = ((colors[i] >> 8) & 0xff) - g;
+    const db = (colors[i] & 0xff) - b;
+    const distance = dr * dr + dg * dg + db * db;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestIndex = i;
+    }
+  }
+
+  return bestIndex;
+}
@@ -0,0 +1,136 @@
+export type VideoCodec = 'h264' | 'hevc' | 'vp9' | 'av1' | 'ffv1' | 'h264Rgb';
+export type VideoContainer = 'mp4' | 'webm' | 'mkv';
+
+export interface VideoCodecInfo {
+  label: string;
+  container: VideoContainer;
+  // WebCodecs codec string. HEVC, VP9 and AV1 are at level 5.1, enough for
+  // 4K output; H.264's level byte is replaced with the one the output size
+  // needs (getWebCodecsCodecString). Null for the lossless codecs, which
+  // browsers can't encode
+  webCodecsCodec: string | null;
+  // H.264 stays on the software encoder for stable output; HEVC usually only
+  // has a hardware encoder
+  hardwareAcceleration: HardwareAcceleration;
+  // FFmpeg.wasm encoder arguments, or null when the bundled core has no encoder
+  ffmpegArgs: string[] | null;
+  // Encodes RGB without chroma subsampling or rounding, so decoded frames
+  // hold exactly the rendered palette colours
+  lossless: boolean;
+}
+
+export const VIDEO_CODECS: VideoCodec[] = ['h264', 'hevc', 'vp9', 'av1', 'ffv1', 'h264Rgb'];
+
+export const DEFAULT_VIDEO_CODEC: VideoCodec = 'h264';
+
+export const VIDEO_CODEC_INFO: Record<VideoCodec, VideoCodecInfo> = {
+  h264: {
+    label: 'H.264 (MP4)',
+    container: 'mp4',
+    webCodecsCodec: 'avc1.42001f',
+    hardwareAcceleration: 'prefer-software',
+    ffmpegArgs: ['-c:v', 'libx264', '-pix_fmt', 'yuv420p', '-crf', '10', '-preset', 'slow', '-tune', 'animation'],
+    lossless: false,
+  },
+  hevc: {
+    label: 'HEVC (MP4)',
+    container: 'mp4',
+    webCodecsCodec: 'hvc1.1.6.L153.B0',
+    hardwareAcceleration: 'no-preference',
+    // hvc1 tagging lets QuickTime and Safari play the file
+    ffmpegArgs: ['-c:v', 'libx265', '-pix_fmt', 'yuv420p', '-crf', '12', '-preset', 'medium', '-tag:v', 'hvc1', '-x265-params', 'log-level=error'],
+    lossless: false,
+  },
+  vp9: {
+    label: 'VP9 (WebM)',
+    container: 'webm',
+    webCodecsCodec: 'vp09.00.51.08',
+    hardwareAcceleration: 'no-preference',
+    ffmpegArgs: ['-c:v', 'libvpx-vp9', '-pix_fmt', 'yuv420p', '-crf', '10', '-b:v', '0', '-deadline', 'good', '-cpu-used', '4'],
+    lossless: false,
+  },
+  av1: {
+    label: 'AV1 (WebM)',
+    container: 'webm',
+    webCodecsCodec: 'av01.0.13M.08',
+    hardwareAcceleration: 'no-preference',
+    ffmpegArgs: null,
+    lossless: false,
+  },
+  ffv1: {
+    label: 'FFV1 lossless (MKV)',
+    container: 'mkv',
+    webCodecsCodec: null,
+    hardwareAcceleration: 'no-preference',
+    // bgr0 keeps FFV1 in RGB; intra-only with slice CRCs for archival use
+    ffmpegArgs: ['-c:v', 'ffv1', '-level', '3', '-pix_fmt', 'bgr0', '-g', '1', '-slicecrc', '1'],
+    lossless: true,
+  },
+  h264Rgb: {
+    label: 'H.264 lossless RGB (MKV)',
+    container: 'mkv',
+    webCodecsCodec: null,
+    hardwareAcceleration: 'no-preference',
+    // 4:4:4 YUV at crf 0 still rounds in the RGB -> YUV conversion; libx264rgb
+    // at qp 0 codes the RGB planes directly
+    ffmpegArgs: ['-c:v', 'libx264rgb', '-pix_fmt', 'rgb24', '-qp', '0', '-preset', 'medium'],
+    lossless: true,
+  },
+};
+
+// H.264 levels as [level_idc, max macroblocks per frame, max macroblocks per second]
+const AVC_LEVELS: [number, number, number][] = [
+  [0x1f, 3600, 108000],     // 3.1
+  [0x20, 5120, 216000],     // 3.2
+  [0x28, 8192, 245760],     // 4.0
+  [0x2a, 8704, 522240],     // 4.2
+  [0x32, 22080, 589824],    // 5.0
+  [0x33, 36864, 983040],    // 5.1
+  [0x34, 36864, 2073600],   // 5.2
+  [0x3c, 139264, 4177920],  // 6.0
+  [0x3d, 139264, 8355840],  // 6.1
+  [0x3e, 139264, 16711680], // 6.2
+];
+
+/**
+ * Lowest H.264 level that allows the frame size and rate. Each side is also
+ * capped at sqrt(8 * max frame size) macroblocks.
+ */
+export function getAvcLevel(width: number, height: number, fps: number): number {
+  const mbWidth = Math.ceil(width / 16);
+  const mbHeight = Math.ceil(height / 16);
+  const frameMbs = mbWidth * mbHeight;
+  const level = AVC_LEVELS.find(([, maxFrameMbs, maxMbsPerSecond]) => (
+    frameMbs <= maxFrameMbs
+    && frameMbs * fps <= maxMbsPerSecond
+    && Math.max(mbWidth, mbHeight) <= Math.sqrt(8 * maxFrameMbs)
+  ));
+  return (level ?? AVC_LEVELS[AVC_LEVELS.length - 1])[0];
+}
+
+/**
+ * WebCodecs codec string for encoding frames of this size and rate. H.264
+ * takes the level its output needs; the others use the fixed string.
+ */
+export function getWebCodecsCodecString(codec: VideoCodec, width: number, height: number, fps: number): string | null {
+  const codecString = VIDEO_CODEC_INFO[codec].webCodecsCodec;
+  if (codec !== 'h264' || !codecString) {
+    return codecString;
+  }
+  // Keep the profile and constraint bytes, replace the level byte
+  return `${codecString.slice(0, -2)}${getAvcLevel(width, height, fps).toString(16).padStart(2, '0')}`;
+}
+
+export const VIDEO_CONTAINER_MIME_TYPES: Record<VideoContainer, string> = {
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mkv: 'video/x-matroska',
+};
+
+export function isVideoCodec(value: unknown): value is VideoCodec {
+  return typeof value === 'string' && VIDEO_CODECS.includes(value as VideoCodec);
+}
+
+export function getVideoContainer(codec: VideoCodec): VideoContainer {
+  return VIDEO_CODEC_INFO[codec].container;
+}
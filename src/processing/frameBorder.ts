@@ -0,0 +1,348 @@
+/**
+ * Decorative console borders composited around processed frames
+ * Built-ins (DMG-01 shell bezel, Super Game Boy border) are drawn on first
+ * use; custom borders load from a PNG whose transparent area is the screen.
+ */
+
+export type FrameBorderName = 'none' | 'dmgBezel' | 'superGameBoy' | 'custom';
+
+// Screen area inside a border, in border pixels
+export interface BorderWindow {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FrameBorder {
+  width: number;
+  height: number;
+  window: BorderWindow;
+  // Opaque RGBA rows, top row first; pixels inside the window are ignored
+  pixels: Uint8Array;
+}
+
+export const BUILTIN_FRAME_BORDERS: Exclude<FrameBorderName, 'none' | 'custom'>[] = ['dmgBezel', 'superGameBoy'];
+
+export const MAX_FRAME_BORDER_SIZE = 1024;
+
+// Super Game Boy borders are 256×224 with the 160×144 screen at (48, 40)
+const SGB_WIDTH = 256;
+const SGB_HEIGHT = 224;
+const SGB_WINDOW: BorderWindow = { x: 48, y: 40, width: 160, height: 144 };
+
+// DMG-01: screen inside the dark lens, lens inside the grey shell
+const DMG_SCREEN = { WIDTH: 160, HEIGHT: 144 };
+const DMG_LENS_MARGIN = { LEFT: 32, RIGHT: 32, TOP: 24, BOTTOM: 32 };
+const DMG_SHELL_MARGIN = 16;
+const DMG_LENS_CORNER = 4;
+const DMG_LENS_ROUNDED_CORNER = 28;
+
+// Pixels with alpha below this count as part of a custom border's window
+const WINDOW_ALPHA_THRESHOLD = 128;
+
+type Rgb = [number, number, number];
+
+export class FrameBorderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'FrameBorderError';
+  }
+}
+
+class BorderImage {
+  readonly pixels: Uint8Array;
+
+  constructor(readonly width: number, readonly height: number) {
+    this.pixels = new Uint8Array(width * height * 4);
+  }
+
+  setPixel(x: number, y: number, [r, g, b]: Rgb): void {
+    if (x < 0 || y < 0 || x >= this.width || y >= this.height) return;
+    const offset = (y * this.width + x) * 4;
+    this.pixels[offset] = r;
+    this.pixels[offset + 1] = g;
+    this.pixels[offset + 2] = b;
+    this.pixels[offset + 3] = 255;
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, color: Rgb): void {
+    for (let py = y; py < y + height; py++) {
+      for (let px = x; px < x + width; px++) {
+        this.setPixel(px, py, color);
+      }
+    }
+  }
+
+  /**
+   * Fill a rectangle with rounded corners; `radii` runs top-left, top-right,
+   * bottom-right, bottom-left like CSS border-radius.
+   */
+  fillRoundedRect(x: number, y: number, width: number, height: number, radii: [number, number, number, number], color: Rgb): void {
+    for (let py = y; py < y + height; py++) {
+      for (let px = x; px < x + width; px++) {
+        const right = px >= x + width / 2;
+        const bottom = py >= y + height / 2;
+        const radius = radii[bottom ? (right ? 2 : 3) : (right ? 1 : 0)];
+        const cx = right ? x + width - radius : x + radius;
+        const cy = bottom ? y + height - radius : y + radius;
+        const inCorner = (right ? px + 0.5 > cx : px + 0.5 < cx) && (bottom ? py + 0.5 > cy : py + 0.5 < cy);
+        if (inCorner && (px + 0.5 - cx) ** 2 + (py + 0.5 - cy) ** 2 > radius * radius) {
+          continue;
+        }
+        this.setPixel(px, py, color);
+      }
+    }
+  }
+
+  fillCircle(cx: number, cy: number, radius: number, color: Rgb): void {
+    for (let py = Math.floor(cy - radius); py <= Math.ceil(cy + radius); py++) {
+      for (let px = Math.floor(cx - radius); px <= Math.ceil(cx + radius); px++) {
+        if ((px + 0.5 - cx) ** 2 + (py + 0.5 - cy) ** 2 <= radius * radius) {
+          this.setPixel(px, py, color);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * DMG-01 shell bezel: grey shell, dark lens with its large bottom-right
+ * curve, the two stripes across the top and the power LED.
+ */
+export function createDmgBezel(): FrameBorder {
+  const lensWidth = DMG_LENS_MARGIN.LEFT + DMG_SCREEN.WIDTH + DMG_LENS_MARGIN.RIGHT;
+  const lensHeight = DMG_LENS_MARGIN.TOP + DMG_SCREEN.HEIGHT + DMG_LENS_MARGIN.BOTTOM;
+  const image = new BorderImage(lensWidth + DMG_SHELL_MARGIN * 2, lensHeight + DMG_SHELL_MARGIN * 2);
+  const lensX = DMG_SHELL_MARGIN;
+  const lensY = DMG_SHELL_MARGIN;
+
+  image.fillRect(0, 0, image.width, image.height, [197, 196, 190]);
+  image.fillRoundedRect(
+    lensX, lensY, lensWidth, lensHeight,
+    [DMG_LENS_CORNER, DMG_LENS_CORNER, DMG_LENS_ROUNDED_CORNER, DMG_LENS_CORNER],
+    [77, 79, 92]
+  );
+
+  // Maroon and navy stripes above the screen
+  const stripeX = lensX + 8;
+  const stripeWidth = lensWidth - 16;
+  image.fillRect(stripeX, lensY + 9, stripeWidth, 2, [122, 37, 80]);
+  image.fillRect(stripeX, lensY + 13, stripeWidth, 2, [43, 47, 114]);
+
+  // Power LED, left of the screen
+  image.fillCircle(lensX + DMG_LENS_MARGIN.LEFT / 2, lensY + DMG_LENS_MARGIN.TOP + 48, 3, [214, 38, 48]);
+
+  return {
+    width: image.width,
+    height: image.height,
+    window: {
+      x: lensX + DMG_LENS_MARGIN.LEFT,
+      y: lensY + DMG_LENS_MARGIN.TOP,
+      width: DMG_SCREEN.WIDTH,
+      height: DMG_SCREEN.HEIGHT,
+    },
+    pixels: image.pixels,
+  };
+}
+
+/**
+ * Super Game Boy style 256×224 border: diagonal stripes behind a bevelled
+ * frame around the screen.
+ */
+export function createSuperGameBoyBorder(): FrameBorder {
+  const image = new BorderImage(SGB_WIDTH, SGB_HEIGHT);
+
+  for (let y = 0; y < SGB_HEIGHT; y++) {
+    for (let x = 0; x < SGB_WIDTH; x++) {
+      const stripe = Math.floor((x + y) / 8) % 2 === 0;
+      image.setPixel(x, y, stripe ? [42, 38, 51] : [51, 46, 63]);
+    }
+  }
+
+  const { x, y, width, height } = SGB_WINDOW;
+  const frame = 8;
+  image.fillRect(x - frame, y - frame, width + frame * 2, height + frame * 2, [107, 100, 128]);
+  // Bevel: light along the top and left, dark along the bottom and right
+  image.fillRect(x - frame, y - frame, width + frame * 2, 2, [143, 136, 166]);
+  image.fillRect(x - frame, y - frame, 2, height + frame * 2, [143, 136, 166]);
+  image.fillRect(x - frame, y + height + frame - 2, width + frame * 2, 2, [64, 58, 77]);
+  image.fillRect(x + width + frame - 2, y - frame, 2, height + frame * 2, [64, 58, 77]);
+  // Inset shadow right around the screen
+  image.fillRect(x - 2, y - 2, width + 4, height + 4, [28, 25, 34]);
+
+  return {
+    width: SGB_WIDTH,
+    height: SGB_HEIGHT,
+    window: { ...SGB_WINDOW },
+    pixels: image.pixels,
+  };
+}
+
+const builtinCache = new Map<string, FrameBorder>();
+
+export function getBuiltinFrameBorder(name: Exclude<FrameBorderName, 'none' | 'custom'>): FrameBorder {
+  let border = builtinCache.get(name);
+  if (!border) {
+    border = name === 'superGameBoy' ? createSuperGameBoyBorder() : createDmgBezel();
+    builtinCache.set(name, border);
+  }
+  return border;
+}
+
+/**
+ * Resolve the border for a setting. 'custom' without a loaded border renders
+ * without one.
+ */
+export function resolveFrameBorder(name: FrameBorderName, custom: FrameBorder | null): FrameBorder | null {
+  if (name === 'none') {
+    return null;
+  }
+  if (name === 'custom') {
+    return custom;
+  }
+  return getBuiltinFrameBorder(name);
+}
+
+export function scaleBorderWindow(border: FrameBorder, scale: number): BorderWindow {
+  return {
+    x: Math.round(border.window.x * scale),
+    y: Math.round(border.window.y * scale),
+    width: Math.round(border.window.width * scale),
+    height: Math.round(border.window.height * scale),
+  };
+}
+
+/**
+ * Where a frame sits inside a border drawn at `scale`, in output pixels.
+ * Frames keep their aspect ratio, use whole-number enlargement when they
+ * are smaller than the window and are centred in it.
+ */
+export function calculateBorderFrameRect(
+  border: FrameBorder,
+  frameWidth: number,
+  frameHeight: number,
+  scale: number
+): BorderWindow {
+  const { x: windowX, y: windowY, width: windowWidth, height: windowHeight } = scaleBorderWindow(border, scale);
+
+  let factor = Math.min(windowWidth / frameWidth, windowHeight / frameHeight);
+  if (factor >= 1) {
+    factor = Math.floor(factor);
+  }
+
+  const width = Math.max(1, Math.round(frameWidth * factor));
+  const height = Math.max(1, Math.round(frameHeight * factor));
+  return {
+    x: windowX + Math.floor((windowWidth - width) / 2),
+    y: windowY + Math.floor((windowHeight - height) / 2),
+    width,
+    height,
+  };
+}
+
+function assertBorderSize(width: number, height: number): void {
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width < 1 || height < 1) {
+    throw new FrameBorderError('Border image must have positive integer dimensions');
+  }
+  if (width > MAX_FRAME_BORDER_SIZE || height > MAX_FRAME_BORDER_SIZE) {
+    throw new FrameBorderError(`Border image must be at most ${MAX_FRAME_BORDER_SIZE}×${MAX_FRAME_BORDER_SIZE}`);
+  }
+}
+
+/**
+ * Bounding box of the transparent pixels, which mark the screen window.
+ */
+export function findBorderWindow(data: Uint8ClampedArray | Uint8Array, width: number, height: number): BorderWindow {
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (data[(y * width + x) * 4 + 3] < WINDOW_ALPHA_THRESHOLD) {
+        if (x < minX) minX = x;
+        if (x > maxX) maxX = x;
+        if (y < minY) minY = y;
+        maxY = y;
+      }
+    }
+  }
+
+  if (maxX < 0) {
+    throw new FrameBorderError('Border image has no transparent screen window; make the screen area transparent or give the window explicitly');
+  }
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/**
+ * Build a border from decoded image pixels (RGBA). Semi-transparent border
+ * pixels are flattened onto black. Without an explicit window the
+ * transparent area is used.
+ */
+export function frameBorderFromImageData(
+  data: Uint8ClampedArray | Uint8Array,
+  width: number,
+  height: number,
+  screenWindow?: BorderWindow
+): FrameBorder {
+  assertBorderSize(width, height);
+  const borderWindow = screenWindow ?? findBorderWindow(data, width, height);
+
+  const { x, y, width: windowWidth, height: windowHeight } = borderWindow;
+  if (
+    !Number.isInteger(x) || !Number.isInteger(y) || !Number.isInteger(windowWidth) || !Number.isInteger(windowHeight) ||
+    x < 0 || y < 0 || windowWidth < 1 || windowHeight < 1 || x + windowWidth > width || y + windowHeight > height
+  ) {
+    throw new FrameBorderError(`Border window ${windowWidth}×${windowHeight} at (${x}, ${y}) does not fit the ${width}×${height} image`);
+  }
+
+  const pixels = new Uint8Array(width * height * 4);
+  for (let i = 0; i < width * height; i++) {
+    const alpha = data[i * 4 + 3] / 255;
+    pixels[i * 4] = Math.round(data[i * 4] * alpha);
+    pixels[i * 4 + 1] = Math.round(data[i * 4 + 1] * alpha);
+    pixels[i * 4 + 2] = Math.round(data[i * 4 + 2] * alpha);
+    pixels[i * 4 + 3] = 255;
+  }
+
+  return { width, height, window: { ...borderWindow }, pixels };
+}
+
+async function decodeImage(image: CanvasImageSource, width: number, height: number, screenWindow?: BorderWindow): Promise<FrameBorder> {
+  assertBorderSize(width, height);
+  const canvas = new OffscreenCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new FrameBorderError('Unable to decode border image');
+  }
+  ctx.drawImage(image, 0, 0);
+  return frameBorderFromImageData(ctx.getImageData(0, 0, width, height).data, width, height, screenWindow);
+}
+
+/**
+ * Load a border from a user-picked PNG.
+ */
+export async function loadFrameBorderFile(file: File, screenWindow?: BorderWindow): Promise<FrameBorder> {
+  const bitmap = await createImageBitmap(file);
+  try {
+    return await decodeImage(bitmap, bitmap.width, bitmap.height, screenWindow);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * Load a border PNG from a URL (e.g. a file:// URL in automation).
+ */
+export async function loadFrameBorderImageUrl(url: string, screenWindow?: BorderWindow): Promise<FrameBorder> {
+  const image = new Image();
+  image.src = url;
+  try {
+    await image.decode();
+  } catch {
+    throw new FrameBorderError(`Failed to decode border image: ${url}`);
+  }
+  return decodeImage(image, image.naturalWidth, image.naturalHeight, screenWindow);
+}
@@ -0,0 +1,133 @@
+import type { FrameData } from './VideoProcessor';
+import type { FrameBorder } from './frameBorder';
+import type { Palette } from '../palettes';
+import { colorKey } from './encoders/colorTable';
+
+// Off-palette pixels listed in a report; the count covers all of them
+const MAX_REPORTED_SAMPLES = 10;
+
+export interface PaletteCheckOptions {
+  palette: Palette;
+  // Game Boy Color mode renders any RGB555 colour instead of palette entries
+  rgb555: boolean;
+  // Border pixels may appear around the frame
+  border: FrameBorder | null;
+  // Checked frame i is frame i * frameStep of the export
+  frameStep: number;
+}
+
+export interface OffPalettePixel {
+  frame: number;
+  x: number;
+  y: number;
+  color: string;
+}
+
+export interface PaletteCheckReport {
+  passed: boolean;
+  // False when the export couldn't be decoded for checking; see error
+  verified: boolean;
+  error?: string;
+  framesChecked: number;
+  pixelsChecked: number;
+  offPalettePixels: number;
+  samples: OffPalettePixel[];
+}
+
+function toHex(r: number, g: number, b: number): string {
+  return `#${colorKey(r, g, b).toString(16).padStart(6, '0')}`;
+}
+
+function collectBorderColors(border: FrameBorder, allowed: Set<number>): void {
+  const { width, height, window, pixels } = border;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const insideWindow = x >= window.x && y >= window.y
+        && x < window.x + window.width && y < window.y + window.height;
+      if (insideWindow) continue;
+      const i = (y * width + x) * 4;
+      allowed.add(colorKey(pixels[i], pixels[i + 1], pixels[i + 2]));
+    }
+  }
+}
+
+/**
+ * Build the colour test for an export: palette entries (or RGB555 levels for
+ * Game Boy Color), the border's colours, and black for letterbox and padding.
+ */
+function createColorTest(options: PaletteCheckOptions): (r: number, g: number, b: number) => boolean {
+  const allowed = new Set<number>([colorKey(0, 0, 0)]);
+  if (options.border) {
+    collectBorderColors(options.border, allowed);
+  }
+
+  if (options.rgb555) {
+    // The shader outputs level / 31, which unorm8 rounds to these values
+    const levels = new Set<number>();
+    for (let level = 0; level < 32; level++) {
+      levels.add(Math.round((level * 255) / 31));
+    }
+    return (r, g, b) => (levels.has(r) && levels.has(g) && levels.has(b)) || allowed.has(colorKey(r, g, b));
+  }
+
+  for (const [r, g, b] of options.palette) {
+    allowed.add(colorKey(r, g, b));
+  }
+  return (r, g, b) => allowed.has(colorKey(r, g, b));
+}
+
+/**
+ * Check decoded video frames for colours the render could not have produced.
+ * Every pixel of the given frames is tested; the first few misses are kept
+ * with their position so a report can point at them.
+ */
+export function checkFramesAgainstPalette(frames: FrameData[], options: PaletteCheckOptions): PaletteCheckReport {
+  const isAllowed = createColorTest(options);
+  const samples: OffPalettePixel[] = [];
+  let pixelsChecked = 0;
+  let offPalettePixels = 0;
+
+  frames.forEach((frame, frameIndex) => {
+    const { pixels, width } = frame;
+    for (let i = 0; i < pixels.length; i += 4) {
+      pixelsChecked++;
+      if (isAllowed(pixels[i], pixels[i + 1], pixels[i + 2])) continue;
+
+      offPalettePixels++;
+      if (samples.length < MAX_REPORTED_SAMPLES) {
+        const pixel = i / 4;
+        samples.push({
+          frame: frameIndex * options.frameStep,
+          x: pixel % width,
+          y: Math.floor(pixel / width),
+          color: toHex(pixels[i], pixels[i + 1], pixels[i + 2]),
+        });
+      }
+    }
+  });
+
+  return {
+    passed: frames.length > 0 && offPalettePixels === 0,
+    verified: true,
+    framesChecked: frames.length,
+    pixelsChecked,
+    offPalettePixels,
+    samples,
+  };
+}
+
+/**
+ * Report for an export whose frames couldn't be read back. The file itself
+ * is fine; its colours just weren't checked.
+ */
+export function unverifiedPaletteCheck(error: unknown): PaletteCheckReport {
+  return {
+    passed: false,
+    verified: false,
+    error: error instanceof Error ? error.message : String(error),
+    framesChecked: 0,
+    pixelsChecked: 0,
+    offPalettePixels: 0,
+    samples: [],
+  };
+}
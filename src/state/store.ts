@@ -1,10 +1,51 @@
 import { create } from 'zustand';
-import type { PaletteName } from '../palettes';
-import { clampAndNormalizeCrop, getDefaultCenteredCrop } from '../utils';
+import {
+  DEFAULT_PALETTE,
+  createCustomPaletteId,
+  getPalette,
+  getPaletteLabel,
+  isBuiltinPalette,
+  resizePalette,
+  setCustomPalettes as registerCustomPalettes,
+  type CustomPalette,
+  type Palette,
+  type PaletteName,
+  type PaletteSize,
+} from '../palettes';
+import {
+  clampAndNormalizeCrop,
+  clampCustomProcessingSize,
+  DEFAULT_PROCESSING_RESOLUTION,
+  getDefaultCenteredCrop,
+  type ExportResolution,
+  type ProcessingResolutionSettings,
+} from '../utils';
+import type { ThresholdMatrix, ThresholdMatrixName } from '../processing/dither/thresholdMatrix';
+import type { ErrorDiffusionBackend } from '../processing/dither/errorDiffusion';
+import type { FrameBorder, FrameBorderName } from '../processing/frameBorder';
+import type { SpriteSheetLayout } from '../processing/encoders/SpriteSheetEncoder';
+import { DEFAULT_VIDEO_CODEC, type VideoCodec } from '../processing/encoders/videoCodecs';
+import type { AudioMode, GameBoyAudioProcessor } from '../audio/GameBoyAudioProcessor';
+import { DEFAULT_AUDIO_TRACK_SETTINGS, type AudioTrackMode } from '../audio/audioTrack';
 
-export type DitherMode = 'none' | 'bayer2x2' | 'bayer4x4' | 'floydSteinberg' | 'gameBoyCamera';
+export type DitherMode =
+  | 'none'
+  | 'bayer2x2'
+  | 'bayer4x4'
+  | 'floydSteinberg'
+  | 'atkinson'
+  | 'jarvisJudiceNinke'
+  | 'stucki'
+  | 'burkes'
+  | 'sierra'
+  | 'thresholdMatrix'
+  | 'gameBoyCamera'
+  | 'gameBoyColor';
+// How pixels are matched to palette colours. 'luminance' maps brightness onto
+// the palette ramp; the others keep colour and pick the nearest palette entry.
+export type ColorMetric = 'luminance' | 'rgb' | 'weightedRgb' | 'cielab' | 'oklab';
 
-export type ExportFormat = 'mp4' | 'gif' | 'png';
+export type ExportFormat = 'mp4' | 'gif' | 'webp' | 'apng' | 'png' | 'gbtiles' | 'spritesheet' | 'aseprite';
 export type CropRegionNormalized = { x: number; y: number; width: number; height: number };
 
 interface VideoInfo {
@@ -16,10 +57,18 @@ interface VideoInfo {
   fps: number;
 }
 
+// Audio file picked to replace or mix with the video's audio
+export interface AudioTrackFile {
+  url: string;
+  name: string;
+}
+
 interface AppState {
   // Video state
   videoInfo: VideoInfo | null;
   videoElement: HTMLVideoElement | null;
+  // Preview audio chain, for the timeline's level meter
+  audioProcessor: GameBoyAudioProcessor | null;
   isPlaying: boolean;
   currentTime: number;
 
@@ -28,15 +77,42 @@ interface AppState {
   cameraResponse: number;
   cropRegion: CropRegionNormalized;
   ditherMode: DitherMode;
+  processingResolution: ProcessingResolutionSettings;
   palette: PaletteName;
   invertPalette: boolean;
+  colorMetric: ColorMetric;
+  serpentineDither: boolean;
+  errorDiffusionBackend: ErrorDiffusionBackend;
+  thresholdMatrix: ThresholdMatrixName;
+  // Loaded by the user for thresholdMatrix 'custom'; not persisted
+  customThresholdMatrix: ThresholdMatrix | null;
+  temporalCoherence: boolean;
+  temporalThreshold: number;
+  frameBorder: FrameBorderName;
+  // Loaded by the user for frameBorder 'custom'; not persisted
+  customFrameBorder: FrameBorder | null;
+  customPalettes: CustomPalette[];
   targetFps: number;
 
   // Audio settings (for real-time preview and export)
+  // 8-bit mode style; the filter/crush settings below apply to 'speaker' only
+  audioMode: AudioMode;
   audioHighpass: number;
   audioLowpass: number;
   audioBitDepth: number;
   audioDistortion: number;
+  audioCrushRate: number;
+  audioResonance: number;
+  audioMono: number;
+  audioNoise: number;
+  audioLimiter: number;
+  // Loaded by the user; not persisted
+  audioTrackFile: AudioTrackFile | null;
+  audioTrackMode: AudioTrackMode;
+  audioTrackOffset: number;
+  audioTrackGain: number;
+  audioTrackFadeIn: number;
+  audioTrackFadeOut: number;
 
   // UI state
   splitPosition: number;
@@ -45,6 +121,16 @@ interface AppState {
   exportProgress: number;
   exportFormat: ExportFormat;
   enableAudioBitcrush: boolean;
+  gifLoopForever: boolean;
+  // Times a non-looping GIF plays; 1 plays it once
+  gifPlayCount: number;
+  // Extra display time of the GIF's last frame
+  gifEndHoldMs: number;
+  spriteSheetLayout: SpriteSheetLayout;
+  // Video ('mp4' format) codec; VP9 and AV1 are written as WebM
+  videoCodec: VideoCodec;
+  // null uses the selected format's default resolution
+  exportResolution: ExportResolution | null;
 
   // LCD effect settings
   lcdGridIntensity: number;
@@ -61,6 +147,7 @@ interface AppState {
   // Actions
   setVideoInfo: (info: VideoInfo | null) => void;
   setVideoElement: (element: HTMLVideoElement | null) => void;
+  setAudioProcessor: (processor: GameBoyAudioProcessor | null) => void;
   setIsPlaying: (playing: boolean) => void;
   setCurrentTime: (time: number) => void;
   setContrast: (contrast: number) => void;
@@ -68,19 +155,54 @@ interface AppState {
   setCropRegion: (region: CropRegionNormalized) => void;
   resetCropRegionForSource: (sourceW: number, sourceH: number) => void;
   setDitherMode: (mode: DitherMode) => void;
+  setProcessingResolution: (update: Partial<ProcessingResolutionSettings>) => void;
   setPalette: (palette: PaletteName) => void;
   setInvertPalette: (invert: boolean) => void;
+  setColorMetric: (metric: ColorMetric) => void;
+  setSerpentineDither: (enabled: boolean) => void;
+  setErrorDiffusionBackend: (backend: ErrorDiffusionBackend) => void;
+  setThresholdMatrix: (name: ThresholdMatrixName) => void;
+  setCustomThresholdMatrix: (matrix: ThresholdMatrix | null) => void;
+  setFrameBorder: (name: FrameBorderName) => void;
+  setCustomFrameBorder: (border: FrameBorder | null) => void;
+  setTemporalCoherence: (enabled: boolean) => void;
+  setTemporalThreshold: (value: number) => void;
+  setCustomPalettes: (palettes: CustomPalette[]) => void;
+  createCustomPalette: (name: string, colors: Palette) => string;
+  duplicatePalette: (source: PaletteName) => string;
+  renameCustomPalette: (id: string, name: string) => void;
+  updateCustomPaletteColor: (id: string, index: number, color: Palette[number]) => void;
+  resizeCustomPalette: (id: string, size: PaletteSize) => void;
+  deleteCustomPalette: (id: string) => void;
   setTargetFps: (fps: number) => void;
+  setAudioMode: (mode: AudioMode) => void;
   setAudioHighpass: (freq: number) => void;
   setAudioLowpass: (freq: number) => void;
   setAudioBitDepth: (bits: number) => void;
   setAudioDistortion: (amount: number) => void;
+  setAudioCrushRate: (rate: number) => void;
+  setAudioResonance: (gain: number) => void;
+  setAudioMono: (amount: number) => void;
+  setAudioNoise: (amount: number) => void;
+  setAudioLimiter: (ceiling: number) => void;
+  setAudioTrackFile: (file: AudioTrackFile | null) => void;
+  setAudioTrackMode: (mode: AudioTrackMode) => void;
+  setAudioTrackOffset: (seconds: number) => void;
+  setAudioTrackGain: (gain: number) => void;
+  setAudioTrackFadeIn: (seconds: number) => void;
+  setAudioTrackFadeOut: (seconds: number) => void;
   setSplitPosition: (position: number) => void;
   setShowControls: (show: boolean) => void;
   setIsExporting: (exporting: boolean) => void;
   setExportProgress: (progress: number) => void;
   setExportFormat: (format: ExportFormat) => void;
   setEnableAudioBitcrush: (enable: boolean) => void;
+  setGifLoopForever: (enable: boolean) => void;
+  setGifPlayCount: (count: number) => void;
+  setGifEndHoldMs: (ms: number) => void;
+  setSpriteSheetLayout: (layout: SpriteSheetLayout) => void;
+  setVideoCodec: (codec: VideoCodec) => void;
+  setExportResolution: (resolution: ExportResolution | null) => void;
   setLcdGridIntensity: (value: number) => void;
   setLcdShadowOpacity: (value: number) => void;
   setLcdGhostingStrength: (value: number) => void;
@@ -95,26 +217,56 @@ interface AppState {
 const initialState = {
   videoInfo: null,
   videoElement: null as HTMLVideoElement | null,
+  audioProcessor: null as GameBoyAudioProcessor | null,
   isPlaying: false,
   currentTime: 0,
   contrast: 1.0,
   cameraResponse: 0.8,
   cropRegion: { x: 0, y: 0, width: 1, height: 1 } as CropRegionNormalized,
   ditherMode: 'bayer4x4' as DitherMode,
-  palette: '1989Green' as PaletteName,
+  processingResolution: DEFAULT_PROCESSING_RESOLUTION,
+  palette: DEFAULT_PALETTE as PaletteName,
   invertPalette: false,
+  colorMetric: 'luminance' as ColorMetric,
+  serpentineDither: false,
+  errorDiffusionBackend: 'gpu' as ErrorDiffusionBackend,
+  thresholdMatrix: 'bayer8x8' as ThresholdMatrixName,
+  customThresholdMatrix: null as ThresholdMatrix | null,
+  temporalCoherence: false,
+  temporalThreshold: 0.04,
+  frameBorder: 'none' as FrameBorderName,
+  customFrameBorder: null as FrameBorder | null,
+  customPalettes: [] as CustomPalette[],
   targetFps: 30,
   // Audio settings (Game Boy speaker simulation defaults)
+  audioMode: 'speaker' as AudioMode,
   audioHighpass: 500,    // Hz - removes bass
   audioLowpass: 3500,    // Hz - removes sparkle
   audioBitDepth: 6,      // bits
   audioDistortion: 30,   // percent (soft clipping)
+  audioCrushRate: 8000,  // Hz - bitcrusher held-sample rate
+  audioResonance: 0,     // dB - speaker cone peak
+  audioMono: 0,          // percent (fold-down to mono)
+  audioNoise: 0,         // percent (hiss floor)
+  audioLimiter: 0,       // dB - output ceiling
+  audioTrackFile: null as AudioTrackFile | null,
+  audioTrackMode: DEFAULT_AUDIO_TRACK_SETTINGS.mode,
+  audioTrackOffset: DEFAULT_AUDIO_TRACK_SETTINGS.offsetSec,   // seconds on the video timeline
+  audioTrackGain: DEFAULT_AUDIO_TRACK_SETTINGS.gainDb,        // dB
+  audioTrackFadeIn: DEFAULT_AUDIO_TRACK_SETTINGS.fadeInSec,   // seconds
+  audioTrackFadeOut: DEFAULT_AUDIO_TRACK_SETTINGS.fadeOutSec, // seconds
   splitPosition: 0.5,
   showControls: true,
   isExporting: false,
   exportProgress: 0,
   exportFormat: 'mp4' as ExportFormat,
   enableAudioBitcrush: false,
+  gifLoopForever: true,
+  gifPlayCount: 1,
+  gifEndHoldMs: 0,
+  spriteSheetLayout: 'grid' as SpriteSheetLayout,
+  videoCodec: DEFAULT_VIDEO_CODEC as VideoCodec,
+  exportResolution: null,
   // LCD effect defaults
   lcdGridIntensity: 0.7,
   lcdShadowOpacity: 0.35,
@@ -127,11 +279,27 @@ const initialState = {
   isScrubbing: false,
 };
 
-export const useAppStore = create<AppState>((set) => ({
+// Custom palette updates go through here so the palette registry used by
+// RenderPipeline/VideoProcessor always matches the store.
+function withCustomPalettes(
+  state: AppState,
+  customPalettes: CustomPalette[]
+): Pick<AppState, 'customPalettes' | 'palette'> {
+  registerCustomPalettes(customPalettes);
+  const paletteStillExists = isBuiltinPalette(state.palette)
+    || customPalettes.some((p) => p.id === state.palette);
+  return {
+    customPalettes,
+    palette: paletteStillExists ? state.palette : DEFAULT_PALETTE,
+  };
+}
+
+export const useAppStore = create<AppState>((set, get) => ({
   ...initialState,
 
   setVideoInfo: (info) => set({ videoInfo: info }),
   setVideoElement: (element) => set({ videoElement: element }),
+  setAudioProcessor: (processor) => set({ audioProcessor: processor }),
   setIsPlaying: (playing) => set({ isPlaying: playing }),
   setCurrentTime: (time) => set({ currentTime: time }),
   setContrast: (contrast) => set({ contrast }),
@@ -159,19 +327,92 @@ export const useAppStore = create<AppState>((set) => ({
     cropRegion: getDefaultCenteredCrop(sourceW, sourceH) as CropRegionNormalized,
   }),
   setDitherMode: (mode) => set({ ditherMode: mode }),
+  setProcessingResolution: (update) => set((state) => {
+    const next = { ...state.processingResolution, ...update };
+    return {
+      processingResolution: {
+        ...next,
+        customWidth: clampCustomProcessingSize(next.customWidth),
+        customHeight: clampCustomProcessingSize(next.customHeight),
+      },
+    };
+  }),
   setPalette: (palette) => set({ palette }),
   setInvertPalette: (invert) => set({ invertPalette: invert }),
+  setColorMetric: (metric) => set({ colorMetric: metric }),
+  setSerpentineDither: (enabled) => set({ serpentineDither: enabled }),
+  setErrorDiffusionBackend: (backend) => set({ errorDiffusionBackend: backend }),
+  setThresholdMatrix: (name) => set({ thresholdMatrix: name }),
+  setCustomThresholdMatrix: (matrix) => set({ customThresholdMatrix: matrix }),
+  setFrameBorder: (name) => set({ frameBorder: name }),
+  setCustomFrameBorder: (border) => set({ customFrameBorder: border }),
+  setTemporalCoherence: (enabled) => set({ temporalCoherence: enabled }),
+  setTemporalThreshold: (value) => set({ temporalThreshold: Math.max(0, Math.min(value, 1)) }),
+  setCustomPalettes: (palettes) => set((state) => withCustomPalettes(state, palettes)),
+  createCustomPalette: (name, colors) => {
+    const id = createCustomPaletteId();
+    const palette: CustomPalette = {
+      id,
+      name,
+      colors: colors.map((color) => [...color]) as Palette,
+    };
+    set((state) => ({
+      ...withCustomPalettes(state, [...state.customPalettes, palette]),
+      palette: id,
+    }));
+    return id;
+  },
+  duplicatePalette: (source) => get().createCustomPalette(`${getPaletteLabel(source)} Copy`, getPalette(source)),
+  renameCustomPalette: (id, name) => set((state) => withCustomPalettes(
+    state,
+    state.customPalettes.map((p) => (p.id === id ? { ...p, name } : p))
+  )),
+  updateCustomPaletteColor: (id, index, color) => set((state) => withCustomPalettes(
+    state,
+    state.customPalettes.map((p) => {
+      if (p.id !== id) return p;
+      const colors = [...p.colors] as Palette;
+      colors[index] = [...color];
+      return { ...p, colors };
+    })
+  )),
+  resizeCustomPalette: (id, size) => set((state) => withCustomPalettes(
+    state,
+    state.customPalettes.map((p) => (p.id === id ? { ...p, colors: resizePalette(p.colors, size) } : p))
+  )),
+  deleteCustomPalette: (id) => set((state) => withCustomPalettes(
+    state,
+    state.customPalettes.filter((p) => p.id !== id)
+  )),
   setTargetFps: (fps) => set({ targetFps: fps }),
+  setAudioMode: (mode) => set({ audioMode: mode }),
   setAudioHighpass: (freq) => set({ audioHighpass: freq }),
   setAudioLowpass: (freq) => set({ audioLowpass: freq }),
   setAudioBitDepth: (bits) => set({ audioBitDepth: bits }),
   setAudioDistortion: (amount) => set({ audioDistortion: amount }),
+  setAudioCrushRate: (rate) => set({ audioCrushRate: rate }),
+  setAudioResonance: (gain) => set({ audioResonance: gain }),
+  setAudioMono: (amount) => set({ audioMono: amount }),
+  setAudioNoise: (amount) => set({ audioNoise: amount }),
+  setAudioLimiter: (ceiling) => set({ audioLimiter: ceiling }),
+  setAudioTrackFile: (file) => set({ audioTrackFile: file }),
+  setAudioTrackMode: (mode) => set({ audioTrackMode: mode }),
+  setAudioTrackOffset: (seconds) => set({ audioTrackOffset: seconds }),
+  setAudioTrackGain: (gain) => set({ audioTrackGain: gain }),
+  setAudioTrackFadeIn: (seconds) => set({ audioTrackFadeIn: seconds }),
+  setAudioTrackFadeOut: (seconds) => set({ audioTrackFadeOut: seconds }),
   setSplitPosition: (position) => set({ splitPosition: position }),
   setShowControls: (show) => set({ showControls: show }),
   setIsExporting: (exporting) => set({ isExporting: exporting }),
   setExportProgress: (progress) => set({ exportProgress: progress }),
   setExportFormat: (format) => set({ exportFormat: format }),
   setEnableAudioBitcrush: (enable) => set({ enableAudioBitcrush: enable }),
+  setGifLoopForever: (enable) => set({ gifLoopForever: enable }),
+  setGifPlayCount: (count) => set({ gifPlayCount: count }),
+  setGifEndHoldMs: (ms) => set({ gifEndHoldMs: ms }),
+  setSpriteSheetLayout: (layout) => set({ spriteSheetLayout: layout }),
+  setVideoCodec: (codec) => set({ videoCodec: codec }),
+  setExportResolution: (resolution) => set({ exportResolution: resolution }),
   setLcdGridIntensity: (value) => set({ lcdGridIntensity: value }),
   setLcdShadowOpacity: (value) => set({ lcdShadowOpacity: value }),
   setLcdGhostingStrength: (value) => set({ lcdGhostingStrength: value }),
@@ -180,7 +421,8 @@ export const useAppStore = create<AppState>((set) => ({
   setTrimStart: (value) => set({ trimStart: Math.max(0, Math.min(value, 1)) }),
   setTrimEnd: (value) => set({ trimEnd: Math.max(0, Math.min(value, 1)) }),
   setIsScrubbing: (isScrubbing) => set({ isScrubbing }),
-  reset: () => set(initialState),
+  // Custom palettes are user data, not session state, so they survive reset
+  reset: () => set((state) => ({ ...initialState, customPalettes: state.customPalettes })),
 }));
 
 // Selector hooks for performance
@@ -190,13 +432,36 @@ export const useContrast = () => useAppStore((s) => s.contrast);
 export const useCameraResponse = () => useAppStore((s) => s.cameraResponse);
 export const useCropRegion = () => useAppStore((s) => s.cropRegion);
 export const useDitherMode = () => useAppStore((s) => s.ditherMode);
+export const useProcessingResolution = () => useAppStore((s) => s.processingResolution);
 export const usePalette = () => useAppStore((s) => s.palette);
 export const useInvertPalette = () => useAppStore((s) => s.invertPalette);
+export const useColorMetric = () => useAppStore((s) => s.colorMetric);
+export const useSerpentineDither = () => useAppStore((s) => s.serpentineDither);
+export const useErrorDiffusionBackend = () => useAppStore((s) => s.errorDiffusionBackend);
+export const useThresholdMatrix = () => useAppStore((s) => s.thresholdMatrix);
+export const useCustomThresholdMatrix = () => useAppStore((s) => s.customThresholdMatrix);
+export const useFrameBorder = () => useAppStore((s) => s.frameBorder);
+export const useCustomFrameBorder = () => useAppStore((s) => s.customFrameBorder);
+export const useTemporalCoherence = () => useAppStore((s) => s.temporalCoherence);
+export const useTemporalThreshold = () => useAppStore((s) => s.temporalThreshold);
+export const useCustomPalettes = () => useAppStore((s) => s.customPalettes);
 export const useTargetFps = () => useAppStore((s) => s.targetFps);
+export const useAudioMode = () => useAppStore((s) => s.audioMode);
 export const useAudioHighpass = () => useAppStore((s) => s.audioHighpass);
 export const useAudioLowpass = () => useAppStore((s) => s.audioLowpass);
 export const useAudioBitDepth = () => useAppStore((s) => s.audioBitDepth);
 export const useAudioDistortion = () => useAppStore((s) => s.audioDistortion);
+export const useAudioCrushRate = () => useAppStore((s) => s.audioCrushRate);
+export const useAudioResonance = () => useAppStore((s) => s.audioResonance);
+export const useAudioMono = () => useAppStore((s) => s.audioMono);
+export const useAudioNoise = () => useAppStore((s) => s.audioNoise);
+export const useAudioLimiter = () => useAppStore((s) => s.audioLimiter);
+export const useAudioTrackFile = () => useAppStore((s) => s.audioTrackFile);
+export const useAudioTrackMode = () => useAppStore((s) => s.audioTrackMode);
+export const useAudioTrackOffset = () => useAppStore((s) => s.audioTrackOffset);
+export const useAudioTrackGain = () => useAppStore((s) => s.audioTrackGain);
+export const useAudioTrackFadeIn = () => useAppStore((s) => s.audioTrackFadeIn);
+export const useAudioTrackFadeOut = () => useAppStore((s) => s.audioTrackFadeOut);
 export const useSplitPosition = () => useAppStore((s) => s.splitPosition);
 export const useShowControls = () => useAppStore((s) => s.showControls);
 export const useIsExporting = () => useAppStore((s) => s.isExporting);
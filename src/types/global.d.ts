@@ -21,6 +21,8 @@ export interface ElectronAPI {
   fileExists: (filePath: string) => Promise<boolean>;
   resolvePath: (basePath: string, targetPath: string) => Promise<string>;
   toFileURL: (filePath: string) => Promise<string>;
+  loadCustomPalettes: () => Promise<{ success: boolean; palettes?: unknown[]; error?: string }>;
+  saveCustomPalettes: (palettes: unknown[]) => Promise<{ success: boolean; error?: string }>;
   onAutomationStart: (listener: (payload: AutomationStartPayload) => void) => void;
   emitAutomationEvent: (event: AutomationEventMessage) => void;
   notifyAutomationDone: () => void;
@@ -3,27 +3,152 @@
  * Centralizes all processing and output resolution logic
  */
 
-import { BASE_PIXEL_DENSITY, EXPORT_SCALE, GBCAM_SENSOR_HEIGHT, GBCAM_SENSOR_WIDTH } from '../constants';
+import {
+  BASE_PIXEL_DENSITY,
+  CUSTOM_PROCESSING_SIZE,
+  EXPORT_FIT_TARGETS,
+  EXPORT_SCALE,
+  EXPORT_SCALE_LIMITS,
+  GBCAM_SENSOR_HEIGHT,
+  GBCAM_SENSOR_WIDTH,
+  PROCESSING_DEFAULTS,
+  PROCESSING_PRESETS,
+} from '../constants';
 import type { ExportFormat } from '../state/store';
+import { calculateLetterboxViewport } from './viewport';
 
 export interface Dimensions {
   width: number;
   height: number;
 }
 
+// 'auto' keeps the source aspect with the short side at BASE_PIXEL_DENSITY
+export type ProcessingPreset = 'auto' | keyof typeof PROCESSING_PRESETS | 'custom';
+
+// How the source maps onto a fixed-size preset: crop to fill, letterbox to fit, or stretch
+export type ResizePolicy = 'fill' | 'fit' | 'stretch';
+
+export interface ProcessingResolutionSettings {
+  preset: ProcessingPreset;
+  // Only used by the custom preset
+  customWidth: number;
+  customHeight: number;
+  policy: ResizePolicy;
+}
+
+export const PROCESSING_PRESET_IDS: ProcessingPreset[] = ['auto', 'dmg', 'gba', 'pico8', 'nes', 'custom'];
+
+export const RESIZE_POLICIES: ResizePolicy[] = ['fill', 'fit', 'stretch'];
+
+export const DEFAULT_PROCESSING_RESOLUTION: ProcessingResolutionSettings = {
+  preset: 'auto',
+  customWidth: PROCESSING_DEFAULTS.WIDTH,
+  customHeight: PROCESSING_DEFAULTS.HEIGHT,
+  policy: 'fill',
+};
+
+export function clampCustomProcessingSize(size: number): number {
+  return Math.max(CUSTOM_PROCESSING_SIZE.MIN, Math.min(CUSTOM_PROCESSING_SIZE.MAX, Math.round(size)));
+}
+
+export type ExportFitTarget = keyof typeof EXPORT_FIT_TARGETS;
+
+// Integer scale of the processed frame, or the largest integer scale that
+// fits a standard frame size with the remainder letterboxed
+export type ExportResolution =
+  | { mode: 'scale'; scale: number }
+  | { mode: 'fit'; target: ExportFitTarget };
+
+// Where a scaled frame sits in the exported image
+export interface ExportFrameLayout {
+  scale: number;
+  width: number;
+  height: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+export const NATIVE_EXPORT_RESOLUTION: ExportResolution = { mode: 'scale', scale: EXPORT_SCALE.NATIVE };
+
 /**
- * Calculate processing resolution based on source aspect ratio.
- * The shorter dimension uses BASE_PIXEL_DENSITY, the longer scales proportionally.
+ * Formats whose output is defined at processing resolution and ignore the
+ * export resolution setting.
+ */
+export function isNativeOnlyFormat(format: ExportFormat): boolean {
+  return format === 'gbtiles' || format === 'aseprite';
+}
+
+export function getDefaultExportResolution(format: ExportFormat): ExportResolution {
+  if (format === 'gif') return { mode: 'scale', scale: EXPORT_SCALE.GIF };
+  if (format === 'spritesheet' || isNativeOnlyFormat(format)) return NATIVE_EXPORT_RESOLUTION;
+  return { mode: 'scale', scale: EXPORT_SCALE.HIGH_QUALITY };
+}
+
+export function clampExportScale(scale: number): number {
+  return Math.max(EXPORT_SCALE_LIMITS.MIN, Math.min(EXPORT_SCALE_LIMITS.MAX, Math.round(scale)));
+}
+
+/**
+ * Resolve an export resolution against the frame size. Fit targets follow
+ * the frame's orientation, and frames larger than the target are kept at 1x
+ * with the canvas grown to hold them.
+ */
+export function calculateExportLayout(
+  frameWidth: number,
+  frameHeight: number,
+  resolution: ExportResolution
+): ExportFrameLayout {
+  if (resolution.mode === 'scale') {
+    const scale = clampExportScale(resolution.scale);
+    return { scale, width: frameWidth * scale, height: frameHeight * scale, offsetX: 0, offsetY: 0 };
+  }
+
+  const target = EXPORT_FIT_TARGETS[resolution.target];
+  const portrait = frameHeight > frameWidth;
+  const containerWidth = Math.max(frameWidth, portrait ? target.HEIGHT : target.WIDTH);
+  const containerHeight = Math.max(frameHeight, portrait ? target.WIDTH : target.HEIGHT);
+
+  const viewport = calculateLetterboxViewport(containerWidth, containerHeight, frameWidth / frameHeight, {
+    sourceWidth: frameWidth,
+    sourceHeight: frameHeight,
+    snapToIntegerScale: true,
+  });
+
+  return {
+    scale: Math.round(viewport.width / frameWidth),
+    width: containerWidth,
+    height: containerHeight,
+    offsetX: viewport.x,
+    offsetY: viewport.y,
+  };
+}
+
+/**
+ * Calculate processing resolution. Game Boy Camera mode always uses the
+ * sensor size and fixed presets use their own size; otherwise the shorter
+ * dimension uses BASE_PIXEL_DENSITY and the longer scales proportionally.
  */
 export function calculateProcessingResolution(
   sourceWidth: number,
   sourceHeight: number,
-  ditherMode?: string
+  ditherMode?: string,
+  processingResolution: ProcessingResolutionSettings = DEFAULT_PROCESSING_RESOLUTION
 ): Dimensions {
   if (ditherMode === 'gameBoyCamera') {
     return { width: GBCAM_SENSOR_WIDTH, height: GBCAM_SENSOR_HEIGHT };
   }
 
+  const { preset } = processingResolution;
+  if (preset === 'custom') {
+    return {
+      width: clampCustomProcessingSize(processingResolution.customWidth),
+      height: clampCustomProcessingSize(processingResolution.customHeight),
+    };
+  }
+  if (preset !== 'auto') {
+    return { width: PROCESSING_PRESETS[preset].WIDTH, height: PROCESSING_PRESETS[preset].HEIGHT };
+  }
+
   const aspectRatio = sourceWidth / sourceHeight;
 
   if (aspectRatio >= 1) {
@@ -41,22 +166,30 @@ export function calculateProcessingResolution(
 
 /**
  * Calculate output dimensions for export based on processing resolution and format.
- * Different formats use different scale factors.
+ * Uses the format's default resolution unless one is given; sprite sheets
+ * report the size of one (never letterboxed) frame cell.
  */
 export function calculateOutputDimensions(
   sourceWidth: number,
   sourceHeight: number,
   format: ExportFormat,
-  ditherMode?: string
+  ditherMode?: string,
+  resolution?: ExportResolution,
+  processingResolution?: ProcessingResolutionSettings,
+  borderSize?: Dimensions | null
 ): Dimensions {
-  // First get the processing resolution
-  const proc = calculateProcessingResolution(sourceWidth, sourceHeight, ditherMode);
+  // First get the processing resolution; a frame border replaces it as the frame size
+  const proc = calculateProcessingResolution(sourceWidth, sourceHeight, ditherMode, processingResolution);
+  const frame = borderSize ?? proc;
 
-  // Different scale factors for different formats
-  const scale = format === 'gif' ? EXPORT_SCALE.GIF : EXPORT_SCALE.HIGH_QUALITY;
+  const layout = calculateExportLayout(
+    frame.width,
+    frame.height,
+    isNativeOnlyFormat(format) ? NATIVE_EXPORT_RESOLUTION : resolution ?? getDefaultExportResolution(format)
+  );
 
-  let width = proc.width * scale;
-  let height = proc.height * scale;
+  let width = format === 'spritesheet' ? frame.width * layout.scale : layout.width;
+  let height = format === 'spritesheet' ? frame.height * layout.scale : layout.height;
 
   // Ensure even dimensions for video encoding (required for H.264)
   if (format === 'mp4') {
@@ -3,7 +3,7 @@
  * Handles letterbox/pillarbox layout for video display
  */
 
-import { calculateProcessingResolution } from './resolution';
+import { calculateProcessingResolution, type Dimensions, type ProcessingResolutionSettings } from './resolution';
 
 export interface Viewport {
   x: number;
@@ -84,6 +84,8 @@ export function calculatePreviewViewportCss(
   sourceWidth: number,
   sourceHeight: number,
   ditherMode?: string,
+  processingResolution?: ProcessingResolutionSettings,
+  borderSize?: Dimensions | null,
   dpr: number = 1
 ): Viewport {
   if (containerWidth <= 0 || containerHeight <= 0) {
@@ -95,10 +97,12 @@ export function calculatePreviewViewportCss(
   }
 
   const safeDpr = Number.isFinite(dpr) && dpr > 0 ? dpr : 1;
-  const { width: processWidth, height: processHeight } = calculateProcessingResolution(
+  // A frame border replaces the processing resolution as the displayed frame
+  const { width: processWidth, height: processHeight } = borderSize ?? calculateProcessingResolution(
     sourceWidth,
     sourceHeight,
-    ditherMode
+    ditherMode,
+    processingResolution
   );
 
   const deviceViewport = calculateLetterboxViewport(
@@ -1,6 +1,17 @@
-import type { CropRegionNormalized, DitherMode } from '../../state/store';
+import type { ColorMetric, CropRegionNormalized, DitherMode } from '../../state/store';
 import type { PaletteName } from '../../palettes';
-import { getPaletteAsFloat } from '../../palettes';
+import { getPaletteAsFloat, getPaletteSize } from '../../palettes';
+import {
+  ERROR_DIFFUSION_KERNELS,
+  getWavefrontSkew,
+  isErrorDiffusionMode,
+  type ErrorDiffusionBackend,
+} from '../../processing/dither/errorDiffusion';
+import {
+  getBuiltinThresholdMatrix,
+  thresholdMatrixToTextureData,
+  type ThresholdMatrix,
+} from '../../processing/dither/thresholdMatrix';
 import {
   createShader,
   createProgram,
@@ -16,12 +27,24 @@ import { contrastFragmentShader } from '../shaders/contrast.frag';
 import { bayer2x2FragmentShader } from '../shaders/dither/bayer2x2.frag';
 import { bayer4x4FragmentShader } from '../shaders/dither/bayer4x4.frag';
 import { gameBoyCamera4x4FragmentShader } from '../shaders/dither/gameBoyCamera4x4.frag';
+import { gameBoyColorFragmentShader } from '../shaders/dither/gameBoyColor.frag';
+import { nearestPaletteFragmentShader } from '../shaders/dither/nearestPalette.frag';
+import { errorDiffusionFragmentShader } from '../shaders/dither/errorDiffusion.frag';
 import { noDitherFragmentShader } from '../shaders/dither/noDither.frag';
+import { thresholdMatrixFragmentShader } from '../shaders/dither/thresholdMatrix.frag';
 import { upscaleFragmentShader } from '../shaders/upscale.frag';
 import { splitFragmentShader } from '../shaders/split.frag';
+import { temporalStabilizeFragmentShader } from '../shaders/temporalStabilize.frag';
+import { borderFragmentShader } from '../shaders/border.frag';
 import { DEFAULT_DISPLAY, PROCESSING_DEFAULTS } from '../../constants';
-import { calculateProcessingResolution, calculateLetterboxViewport } from '../../utils';
-import type { Viewport } from '../../utils';
+import { calculateProcessingResolution, calculateLetterboxViewport, DEFAULT_PROCESSING_RESOLUTION } from '../../utils';
+import type { ExportFrameLayout, ProcessingResolutionSettings, ResizePolicy, Viewport } from '../../utils';
+import {
+  calculateBorderFrameRect,
+  scaleBorderWindow,
+  type BorderWindow,
+  type FrameBorder,
+} from '../../processing/frameBorder';
 
 export interface SourceVideoInfo {
   width: number;
@@ -35,6 +58,39 @@ interface PassResources {
   framebuffer: WebGLFramebuffer;
 }
 
+interface RenderTarget {
+  texture: WebGLTexture;
+  framebuffer: WebGLFramebuffer;
+}
+
+interface SizedRenderTarget extends RenderTarget {
+  width: number;
+  height: number;
+}
+
+// A framebuffer image the export layout step reads from
+interface ExportSource {
+  framebuffer: WebGLFramebuffer;
+  width: number;
+  height: number;
+}
+
+// u_metric values in nearestPalette.frag
+const COLOR_METRIC_INDEX: Record<ColorMetric, number> = {
+  luminance: 0,
+  rgb: 0,
+  weightedRgb: 1,
+  cielab: 2,
+  oklab: 3,
+};
+
+// u_resizePolicy values in downsample.frag
+const RESIZE_POLICY_INDEX: Record<ResizePolicy, number> = {
+  fill: 0,
+  fit: 1,
+  stretch: 2,
+};
+
 export class RenderPipeline {
   private gl: WebGL2RenderingContext;
   private quadBuffer: WebGLBuffer;
@@ -52,17 +108,44 @@ export class RenderPipeline {
   private ditherPass!: PassResources;
   private upscalePass!: PassResources;
   private exportPass!: PassResources;
+  private temporalPass!: PassResources;
 
   // Dither programs
   private noDitherProgram!: WebGLProgram;
   private bayer2x2Program!: WebGLProgram;
   private bayer4x4Program!: WebGLProgram;
   private gameBoyCameraProgram!: WebGLProgram;
+  private gameBoyColorProgram!: WebGLProgram;
+  private nearestPaletteProgram!: WebGLProgram;
+  private thresholdMatrixProgram!: WebGLProgram;
+  private errorDiffusionProgram!: WebGLProgram;
+
+  // Ping-pong state for wavefront error diffusion
+  private errorDiffusionStates: RenderTarget[] = [];
+  private errorDiffusionBackend: ErrorDiffusionBackend = 'gpu';
+
+  // Threshold matrix texture for the thresholdMatrix dither mode
+  private thresholdMatrixTexture!: WebGLTexture;
+  private currentThresholdMatrix: ThresholdMatrix = getBuiltinThresholdMatrix('bayer8x8');
+
+  // Temporal coherence settings
+  private temporalCoherence = false;
+  private temporalThreshold = 0.04;
+  private hasTemporalHistory = false;
 
   // Split compositor
   private splitProgram!: WebGLProgram;
   private passthroughProgram!: WebGLProgram;
 
+  // Console border composited around the frame; targets are created on demand
+  private borderProgram!: WebGLProgram;
+  private currentBorder: FrameBorder | null = null;
+  private borderTexture: WebGLTexture | null = null;
+  private previewBorderTarget: SizedRenderTarget | null = null;
+  private exportBorderTarget: SizedRenderTarget | null = null;
+  // Where the upscaled frame sits in the bordered preview viewport
+  private previewFrameRect: BorderWindow | null = null;
+
   // Display size (container dimensions)
   private displayWidth = DEFAULT_DISPLAY.WIDTH;
   private displayHeight = DEFAULT_DISPLAY.HEIGHT;
@@ -88,6 +171,8 @@ export class RenderPipeline {
   private currentCameraResponse = 0.8;
   private currentCropRegion: CropRegionNormalized = { x: 0, y: 0, width: 1, height: 1 };
   private currentDitherMode: DitherMode = 'bayer4x4';
+  private currentProcessingResolution: ProcessingResolutionSettings = DEFAULT_PROCESSING_RESOLUTION;
+  private currentColorMetric: ColorMetric = 'luminance';
 
   // LCD effect settings
   private gridIntensity = 0.7;
@@ -101,9 +186,17 @@ export class RenderPipeline {
   private previousFrameFramebuffer!: WebGLFramebuffer;
   private cpuInputTexture!: WebGLTexture;
   private cpuInputFramebuffer!: WebGLFramebuffer;
+  // Previous contrast output, compared against for temporal coherence
+  private previousInputTexture!: WebGLTexture;
+  private previousInputFramebuffer!: WebGLFramebuffer;
   private lastExportFramebuffer!: WebGLFramebuffer;
   private exportPassWidth = this.processWidth;
   private exportPassHeight = this.processHeight;
+  // Black canvas that fit-to-size exports are letterboxed into (created on demand)
+  private letterboxTexture: WebGLTexture | null = null;
+  private letterboxFramebuffer: WebGLFramebuffer | null = null;
+  private letterboxWidth = 0;
+  private letterboxHeight = 0;
   private lastOutputWidth = this.processWidth;
   private lastOutputHeight = this.processHeight;
 
@@ -125,14 +218,21 @@ export class RenderPipeline {
     const bayer2x2FS = createShader(gl, gl.FRAGMENT_SHADER, bayer2x2FragmentShader);
     const bayer4x4FS = createShader(gl, gl.FRAGMENT_SHADER, bayer4x4FragmentShader);
     const gameBoyCameraFS = createShader(gl, gl.FRAGMENT_SHADER, gameBoyCamera4x4FragmentShader);
+    const gameBoyColorFS = createShader(gl, gl.FRAGMENT_SHADER, gameBoyColorFragmentShader);
+    const nearestPaletteFS = createShader(gl, gl.FRAGMENT_SHADER, nearestPaletteFragmentShader);
+    const thresholdMatrixFS = createShader(gl, gl.FRAGMENT_SHADER, thresholdMatrixFragmentShader);
+    const errorDiffusionFS = createShader(gl, gl.FRAGMENT_SHADER, errorDiffusionFragmentShader);
     const upscaleFS = createShader(gl, gl.FRAGMENT_SHADER, upscaleFragmentShader);
     const splitFS = createShader(gl, gl.FRAGMENT_SHADER, splitFragmentShader);
     const passthroughFS = createShader(gl, gl.FRAGMENT_SHADER, passthroughFragmentShader);
+    const temporalFS = createShader(gl, gl.FRAGMENT_SHADER, temporalStabilizeFragmentShader);
+    const borderFS = createShader(gl, gl.FRAGMENT_SHADER, borderFragmentShader);
 
     // Store all fragment shaders for cleanup
     this.fragmentShaders = [
       downsampleFS, contrastFS, noDitherFS, bayer2x2FS,
-      bayer4x4FS, gameBoyCameraFS, upscaleFS, splitFS, passthroughFS
+      bayer4x4FS, gameBoyCameraFS, gameBoyColorFS, nearestPaletteFS, thresholdMatrixFS, upscaleFS, splitFS,
+      passthroughFS, temporalFS, errorDiffusionFS, borderFS
     ];
 
     // Create programs
@@ -142,9 +242,15 @@ export class RenderPipeline {
     this.bayer2x2Program = createProgram(gl, this.vertexShader, bayer2x2FS);
     this.bayer4x4Program = createProgram(gl, this.vertexShader, bayer4x4FS);
     this.gameBoyCameraProgram = createProgram(gl, this.vertexShader, gameBoyCameraFS);
+    this.gameBoyColorProgram = createProgram(gl, this.vertexShader, gameBoyColorFS);
+    this.nearestPaletteProgram = createProgram(gl, this.vertexShader, nearestPaletteFS);
+    this.thresholdMatrixProgram = createProgram(gl, this.vertexShader, thresholdMatrixFS);
+    this.errorDiffusionProgram = createProgram(gl, this.vertexShader, errorDiffusionFS);
     const upscaleProgram = createProgram(gl, this.vertexShader, upscaleFS);
     this.splitProgram = createProgram(gl, this.vertexShader, splitFS);
     this.passthroughProgram = createProgram(gl, this.vertexShader, passthroughFS);
+    const temporalProgram = createProgram(gl, this.vertexShader, temporalFS);
+    this.borderProgram = createProgram(gl, this.vertexShader, borderFS);
 
     // Create pass resources using initial processing dimensions
     // These will be recreated when setSourceVideoInfo is called
@@ -176,6 +282,18 @@ export class RenderPipeline {
       framebuffer: ditherFB,
     };
 
+    // Pass 3 (GPU error diffusion): wavefront state, resolved into the dither pass
+    this.errorDiffusionStates = this.createErrorDiffusionStates();
+
+    // Pass 3b: Temporal coherence (optional, copied back into the dither pass)
+    const temporalTex = createTexture(gl, this.processWidth, this.processHeight);
+    const temporalFB = createFramebuffer(gl, temporalTex);
+    this.temporalPass = {
+      program: temporalProgram,
+      texture: temporalTex,
+      framebuffer: temporalFB,
+    };
+
     // Pass 4: Upscale for display
     const upscaleTex = createTexture(gl, this.displayWidth, this.displayHeight);
     const upscaleFB = createFramebuffer(gl, upscaleTex);
@@ -201,7 +319,32 @@ export class RenderPipeline {
     this.previousFrameFramebuffer = createFramebuffer(gl, this.previousFrameTexture);
     this.cpuInputTexture = createTexture(gl, this.processWidth, this.processHeight);
     this.cpuInputFramebuffer = createFramebuffer(gl, this.cpuInputTexture);
+    this.previousInputTexture = createTexture(gl, this.processWidth, this.processHeight);
+    this.previousInputFramebuffer = createFramebuffer(gl, this.previousInputTexture);
     this.lastExportFramebuffer = this.ditherPass.framebuffer;
+
+    // Threshold matrix (sampled with texelFetch, so filtering/wrap don't matter)
+    this.thresholdMatrixTexture = createTexture(
+      gl,
+      this.currentThresholdMatrix.width,
+      this.currentThresholdMatrix.height,
+      thresholdMatrixToTextureData(this.currentThresholdMatrix)
+    );
+  }
+
+  private createErrorDiffusionStates(): RenderTarget[] {
+    return [0, 1].map(() => {
+      const texture = createTexture(this.gl, this.processWidth, this.processHeight);
+      return { texture, framebuffer: createFramebuffer(this.gl, texture) };
+    });
+  }
+
+  private deleteErrorDiffusionStates(): void {
+    for (const state of this.errorDiffusionStates) {
+      this.gl.deleteTexture(state.texture);
+      this.gl.deleteFramebuffer(state.framebuffer);
+    }
+    this.errorDiffusionStates = [];
   }
 
   private recreateProcessingTextures(): void {
@@ -220,6 +363,11 @@ export class RenderPipeline {
     gl.deleteFramebuffer(this.previousFrameFramebuffer);
     gl.deleteTexture(this.cpuInputTexture);
     gl.deleteFramebuffer(this.cpuInputFramebuffer);
+    gl.deleteTexture(this.temporalPass.texture);
+    gl.deleteFramebuffer(this.temporalPass.framebuffer);
+    gl.deleteTexture(this.previousInputTexture);
+    gl.deleteFramebuffer(this.previousInputFramebuffer);
+    this.deleteErrorDiffusionStates();
 
     // Create new textures with dynamic resolution
     const downsampleTex = createTexture(gl, this.processWidth, this.processHeight);
@@ -237,6 +385,13 @@ export class RenderPipeline {
     this.ditherPass.texture = ditherTex;
     this.ditherPass.framebuffer = ditherFB;
 
+    this.errorDiffusionStates = this.createErrorDiffusionStates();
+
+    const temporalTex = createTexture(gl, this.processWidth, this.processHeight);
+    const temporalFB = createFramebuffer(gl, temporalTex);
+    this.temporalPass.texture = temporalTex;
+    this.temporalPass.framebuffer = temporalFB;
+
     const exportTex = createTexture(gl, this.processWidth, this.processHeight);
     const exportFB = createFramebuffer(gl, exportTex);
     this.exportPass.texture = exportTex;
@@ -248,9 +403,12 @@ export class RenderPipeline {
     this.previousFrameFramebuffer = createFramebuffer(gl, this.previousFrameTexture);
     this.cpuInputTexture = createTexture(gl, this.processWidth, this.processHeight);
     this.cpuInputFramebuffer = createFramebuffer(gl, this.cpuInputTexture);
+    this.previousInputTexture = createTexture(gl, this.processWidth, this.processHeight);
+    this.previousInputFramebuffer = createFramebuffer(gl, this.previousInputTexture);
     this.lastExportFramebuffer = this.ditherPass.framebuffer;
     this.lastOutputWidth = this.processWidth;
     this.lastOutputHeight = this.processHeight;
+    this.hasTemporalHistory = false;
   }
 
   private ensureExportPassSize(width: number, height: number): void {
@@ -268,33 +426,96 @@ export class RenderPipeline {
     this.exportPassHeight = height;
   }
 
+  private ensureLetterboxSize(width: number, height: number): WebGLFramebuffer {
+    if (this.letterboxFramebuffer && this.letterboxWidth === width && this.letterboxHeight === height) {
+      return this.letterboxFramebuffer;
+    }
+
+    const gl = this.gl;
+    this.deleteLetterbox();
+    this.letterboxTexture = createTexture(gl, width, height);
+    this.letterboxFramebuffer = createFramebuffer(gl, this.letterboxTexture);
+    this.letterboxWidth = width;
+    this.letterboxHeight = height;
+    return this.letterboxFramebuffer;
+  }
+
+  private deleteLetterbox(): void {
+    const gl = this.gl;
+    if (this.letterboxTexture) gl.deleteTexture(this.letterboxTexture);
+    if (this.letterboxFramebuffer) gl.deleteFramebuffer(this.letterboxFramebuffer);
+    this.letterboxTexture = null;
+    this.letterboxFramebuffer = null;
+    this.letterboxWidth = 0;
+    this.letterboxHeight = 0;
+  }
+
+  private ensureSizedTarget(target: SizedRenderTarget | null, width: number, height: number): SizedRenderTarget {
+    if (target && target.width === width && target.height === height) {
+      return target;
+    }
+
+    const gl = this.gl;
+    this.deleteSizedTarget(target);
+    const texture = createTexture(gl, width, height);
+    return { texture, framebuffer: createFramebuffer(gl, texture), width, height };
+  }
+
+  private deleteSizedTarget(target: SizedRenderTarget | null): void {
+    if (!target) return;
+    this.gl.deleteTexture(target.texture);
+    this.gl.deleteFramebuffer(target.framebuffer);
+  }
+
   private refreshViewportAndUpscaleTexture(): void {
+    const frame = this.getFrameDimensions();
     this.viewport = calculateLetterboxViewport(
       this.displayWidth,
       this.displayHeight,
-      this.processWidth / this.processHeight,
+      frame.width / frame.height,
       {
-        sourceWidth: this.processWidth,
-        sourceHeight: this.processHeight,
+        sourceWidth: frame.width,
+        sourceHeight: frame.height,
         snapToIntegerScale: true,
       }
     );
 
+    // With a border the processed frame only fills the border's window
+    this.previewFrameRect = this.currentBorder
+      ? calculateBorderFrameRect(
+        this.currentBorder,
+        this.processWidth,
+        this.processHeight,
+        this.viewport.width / this.currentBorder.width
+      )
+      : null;
+    const upscaleWidth = this.previewFrameRect?.width ?? this.viewport.width;
+    const upscaleHeight = this.previewFrameRect?.height ?? this.viewport.height;
+
     const gl = this.gl;
     gl.deleteTexture(this.upscalePass.texture);
     gl.deleteFramebuffer(this.upscalePass.framebuffer);
 
-    const newTex = createTexture(gl, this.viewport.width, this.viewport.height);
+    const newTex = createTexture(gl, upscaleWidth, upscaleHeight);
     const newFB = createFramebuffer(gl, newTex);
     this.upscalePass.texture = newTex;
     this.upscalePass.framebuffer = newFB;
   }
 
+  // 'auto' already matches the source aspect, so it always fills
+  private getResizePolicyIndex(): number {
+    const policy: ResizePolicy = this.currentProcessingResolution.preset === 'auto'
+      ? 'fill'
+      : this.currentProcessingResolution.policy;
+    return RESIZE_POLICY_INDEX[policy];
+  }
+
   private updateProcessingResolutionForMode(): void {
     const { width: procWidth, height: procHeight } = calculateProcessingResolution(
       this.sourceVideoInfo.width,
       this.sourceVideoInfo.height,
-      this.currentDitherMode
+      this.currentDitherMode,
+      this.currentProcessingResolution
     );
     const dimensionsChanged = this.processWidth !== procWidth || this.processHeight !== procHeight;
     this.processWidth = procWidth;
@@ -329,10 +550,12 @@ export class RenderPipeline {
 
   setContrast(value: number): void {
     this.currentContrast = value;
+    this.hasTemporalHistory = false;
   }
 
   setCameraResponse(value: number): void {
     this.currentCameraResponse = Math.max(0, Math.min(value, 1));
+    this.hasTemporalHistory = false;
   }
 
   setCropRegion(region: CropRegionNormalized): void {
@@ -342,18 +565,158 @@ export class RenderPipeline {
       width: Math.max(0, Math.min(region.width, 1)),
       height: Math.max(0, Math.min(region.height, 1)),
     };
+    this.hasTemporalHistory = false;
   }
 
   setDitherMode(mode: DitherMode): void {
     const wasGameBoyCamera = this.currentDitherMode === 'gameBoyCamera';
     const isGameBoyCamera = mode === 'gameBoyCamera';
     this.currentDitherMode = mode;
+    this.hasTemporalHistory = false;
 
     if (wasGameBoyCamera !== isGameBoyCamera) {
       this.updateProcessingResolutionForMode();
     }
 
-    switch (mode) {
+    this.updateDitherProgram();
+  }
+
+  setProcessingResolution(settings: ProcessingResolutionSettings): void {
+    const previous = this.currentProcessingResolution;
+    this.currentProcessingResolution = { ...settings };
+    if (
+      previous.preset === settings.preset &&
+      previous.customWidth === settings.customWidth &&
+      previous.customHeight === settings.customHeight &&
+      previous.policy === settings.policy
+    ) {
+      return;
+    }
+
+    this.hasTemporalHistory = false;
+    this.updateProcessingResolutionForMode();
+  }
+
+  setFrameBorder(border: FrameBorder | null): void {
+    if (border === this.currentBorder) {
+      return;
+    }
+
+    const gl = this.gl;
+    this.currentBorder = border;
+    if (this.borderTexture) {
+      gl.deleteTexture(this.borderTexture);
+      this.borderTexture = null;
+    }
+    if (border) {
+      this.borderTexture = createTexture(gl, border.width, border.height, border.pixels);
+    }
+
+    this.refreshViewportAndUpscaleTexture();
+  }
+
+  /**
+   * Size of a rendered frame at 1×: the border when one is set, otherwise
+   * the processing resolution.
+   */
+  getFrameDimensions(): { width: number; height: number } {
+    if (this.currentBorder) {
+      return { width: this.currentBorder.width, height: this.currentBorder.height };
+    }
+    return { width: this.processWidth, height: this.processHeight };
+  }
+
+  setThresholdMatrix(matrix: ThresholdMatrix): void {
+    if (matrix === this.currentThresholdMatrix) {
+      return;
+    }
+
+    const gl = this.gl;
+    gl.deleteTexture(this.thresholdMatrixTexture);
+    this.thresholdMatrixTexture = createTexture(gl, matrix.width, matrix.height, thresholdMatrixToTextureData(matrix));
+    this.currentThresholdMatrix = matrix;
+    this.hasTemporalHistory = false;
+  }
+
+  setColorMetric(metric: ColorMetric): void {
+    this.currentColorMetric = metric;
+    this.hasTemporalHistory = false;
+    this.updateDitherProgram();
+  }
+
+  setErrorDiffusionBackend(backend: ErrorDiffusionBackend): void {
+    this.errorDiffusionBackend = backend;
+    this.hasTemporalHistory = false;
+  }
+
+  /**
+   * With the 'cpu' backend the dither pass previews error diffusion with
+   * Bayer 4x4 and VideoProcessor replaces it on export.
+   */
+  private usesGpuErrorDiffusion(): boolean {
+    return this.errorDiffusionBackend === 'gpu' && isErrorDiffusionMode(this.currentDitherMode);
+  }
+
+  setTemporalCoherence(enabled: boolean): void {
+    this.temporalCoherence = enabled;
+    this.hasTemporalHistory = false;
+  }
+
+  setTemporalThreshold(value: number): void {
+    this.temporalThreshold = Math.max(0, Math.min(value, 1));
+    this.hasTemporalHistory = false;
+  }
+
+  /**
+   * Game Boy Color picks 4 colours per tile, so holding individual pixels
+   * could break the tile constraint; every other mode can be stabilised.
+   */
+  private usesTemporalCoherence(): boolean {
+    return this.temporalCoherence && this.currentDitherMode !== 'gameBoyColor';
+  }
+
+  /**
+   * Colour metrics apply to the palette-ramp modes only: the Game Boy Camera
+   * is a monochrome sensor and Game Boy Color has its own per-tile quantiser.
+   */
+  private usesNearestPaletteMatching(): boolean {
+    return this.currentColorMetric !== 'luminance'
+      && this.currentDitherMode !== 'gameBoyCamera'
+      && this.currentDitherMode !== 'gameBoyColor';
+  }
+
+  private keepsSourceColor(): boolean {
+    return this.currentDitherMode === 'gameBoyColor' || this.usesNearestPaletteMatching();
+  }
+
+  // Same dither amplitudes as the luminance-ramp Bayer shaders, in palette steps
+  private getNearestPaletteDitherPattern(): { pattern: number; strength: number } {
+    switch (this.currentDitherMode) {
+      case 'bayer2x2':
+        return { pattern: 1, strength: 1.0 };
+      case 'bayer4x4':
+      case 'floydSteinberg':
+      case 'atkinson':
+      case 'jarvisJudiceNinke':
+      case 'stucki':
+      case 'burkes':
+      case 'sierra':
+        // CPU-backend error diffusion previews with bayer4x4 (replaced on export)
+        return { pattern: 2, strength: 0.75 };
+      case 'thresholdMatrix':
+        return { pattern: 3, strength: 1.0 };
+      default:
+        return { pattern: 0, strength: 0 };
+    }
+  }
+
+  private updateDitherProgram(): void {
+    if (this.usesNearestPaletteMatching()) {
+      this.ditherPass.program = this.nearestPaletteProgram;
+      return;
+    }
+
+    switch (this.currentDitherMode) {
       case 'none':
         this.ditherPass.program = this.noDitherProgram;
         break;
@@ -364,21 +727,35 @@ export class RenderPipeline {
         this.ditherPass.program = this.bayer4x4Program;
         break;
       case 'floydSteinberg':
-        // For preview, fall back to bayer4x4 (CPU implementation for export)
+      case 'atkinson':
+      case 'jarvisJudiceNinke':
+      case 'stucki':
+      case 'burkes':
+      case 'sierra':
+        // CPU backend: preview with bayer4x4 (replaced on export); the GPU
+        // backend bypasses this program, see runErrorDiffusionPasses
         this.ditherPass.program = this.bayer4x4Program;
         break;
+      case 'thresholdMatrix':
+        this.ditherPass.program = this.thresholdMatrixProgram;
+        break;
       case 'gameBoyCamera':
         this.ditherPass.program = this.gameBoyCameraProgram;
         break;
+      case 'gameBoyColor':
+        this.ditherPass.program = this.gameBoyColorProgram;
+        break;
     }
   }
 
   setPalette(name: PaletteName): void {
     this.currentPalette = name;
+    this.hasTemporalHistory = false;
   }
 
   setInvertPalette(invert: boolean): void {
     this.currentInvertPalette = invert;
+    this.hasTemporalHistory = false;
   }
 
   setLcdEffectsEnabled(enabled: boolean): void {
@@ -447,6 +824,123 @@ export class RenderPipeline {
     );
   }
 
+  /**
+   * Error diffusion as one pass per wavefront, then a resolve pass into the
+   * dither framebuffer. Matches the CPU kernel order exactly (left-to-right,
+   * no serpentine), up to 8-bit storage of the diffused values.
+   */
+  private runErrorDiffusionPasses(paletteData: Float32Array, paletteSize: number): void {
+    if (!isErrorDiffusionMode(this.currentDitherMode)) {
+      return;
+    }
+
+    const gl = this.gl;
+    const program = this.errorDiffusionProgram;
+    const kernel = ERROR_DIFFUSION_KERNELS[this.currentDitherMode];
+    const skew = getWavefrontSkew(kernel);
+    const offsets = new Int32Array(24);
+    const weights = new Float32Array(12);
+    kernel.entries.forEach(([dx, dy, weight], i) => {
+      offsets[i * 2] = dx;
+      offsets[i * 2 + 1] = dy;
+      weights[i] = weight / kernel.divisor;
+    });
+
+    gl.useProgram(program);
+    setupQuadAttributes(gl, program, this.quadBuffer);
+
+    const textureLoc = gl.getUniformLocation(program, 'u_texture');
+    const stateLoc = gl.getUniformLocation(program, 'u_state');
+    const resLoc = gl.getUniformLocation(program, 'u_resolution');
+    const paletteLoc = gl.getUniformLocation(program, 'u_palette');
+    const paletteSizeLoc = gl.getUniformLocation(program, 'u_paletteSize');
+    const metricLoc = gl.getUniformLocation(program, 'u_metric');
+    const offsetsLoc = gl.getUniformLocation(program, 'u_kernelOffsets');
+    const weightsLoc = gl.getUniformLocation(program, 'u_kernelWeights');
+    const kernelSizeLoc = gl.getUniformLocation(program, 'u_kernelSize');
+    const skewLoc = gl.getUniformLocation(program, 'u_skew');
+    const wavefrontLoc = gl.getUniformLocation(program, 'u_wavefront');
+    const resolveLoc = gl.getUniformLocation(program, 'u_resolve');
+    if (textureLoc) gl.uniform1i(textureLoc, 0);
+    if (stateLoc) gl.uniform1i(stateLoc, 1);
+    if (resLoc) gl.uniform2f(resLoc, this.processWidth, this.processHeight);
+    if (paletteLoc) gl.uniform3fv(paletteLoc, paletteData);
+    if (paletteSizeLoc) gl.uniform1i(paletteSizeLoc, paletteSize);
+    if (metricLoc) gl.uniform1i(metricLoc, COLOR_METRIC_INDEX[this.currentColorMetric]);
+    if (offsetsLoc) gl.uniform2iv(offsetsLoc, offsets);
+    if (weightsLoc) gl.uniform1fv(weightsLoc, weights);
+    if (kernelSizeLoc) gl.uniform1i(kernelSizeLoc, kernel.entries.length);
+    if (skewLoc) gl.uniform1i(skewLoc, skew);
+    if (resolveLoc) gl.uniform1i(resolveLoc, 0);
+
+    gl.viewport(0, 0, this.processWidth, this.processHeight);
+    gl.activeTexture(gl.TEXTURE0);
+    gl.bindTexture(gl.TEXTURE_2D, this.contrastPass.texture);
+
+    const wavefronts = this.processWidth + skew * (this.processHeight - 1);
+    let read = 0;
+    for (let wavefront = 0; wavefront < wavefronts; wavefront++) {
+      const write = 1 - read;
+      gl.bindFramebuffer(gl.FRAMEBUFFER, this.errorDiffusionStates[write].framebuffer);
+      gl.activeTexture(gl.TEXTURE1);
+      gl.bindTexture(gl.TEXTURE_2D, this.errorDiffusionStates[read].texture);
+      if (wavefrontLoc) gl.uniform1i(wavefrontLoc, wavefront);
+      gl.drawArrays(gl.TRIANGLES, 0, 6);
+      read = write;
+    }
+
+    this.renderPass(
+      program,
+      this.errorDiffusionStates[read].texture,
+      this.ditherPass.framebuffer,
+      this.processWidth,
+      this.processHeight,
+      (gl) => {
+        if (resolveLoc) gl.uniform1i(resolveLoc, 1);
+      }
+    );
+  }
+
+  /**
+   * Hold the previous frame's colours (previousFrameTexture) wherever the
+   * contrast output moved less than the threshold, then remember this
+   * frame's contrast output for the next comparison.
+   */
+  private applyTemporalCoherence(): void {
+    if (this.hasTemporalHistory) {
+      this.renderPass(
+        this.temporalPass.program,
+        this.ditherPass.texture,
+        this.temporalPass.framebuffer,
+        this.processWidth,
+        this.processHeight,
+        (gl, program) => {
+          gl.activeTexture(gl.TEXTURE1);
+          gl.bindTexture(gl.TEXTURE_2D, this.previousFrameTexture);
+          gl.activeTexture(gl.TEXTURE2);
+          gl.bindTexture(gl.TEXTURE_2D, this.contrastPass.texture);
+          gl.activeTexture(gl.TEXTURE3);
+          gl.bindTexture(gl.TEXTURE_2D, this.previousInputTexture);
+
+          const prevFrameLoc = gl.getUniformLocation(program, 'u_previousFrame');
+          const currentInputLoc = gl.getUniformLocation(program, 'u_currentInput');
+          const previousInputLoc = gl.getUniformLocation(program, 'u_previousInput');
+          const resLoc = gl.getUniformLocation(program, 'u_resolution');
+          const thresholdLoc = gl.getUniformLocation(program, 'u_threshold');
+          if (prevFrameLoc) gl.uniform1i(prevFrameLoc, 1);
+          if (currentInputLoc) gl.uniform1i(currentInputLoc, 2);
+          if (previousInputLoc) gl.uniform1i(previousInputLoc, 3);
+          if (resLoc) gl.uniform2f(resLoc, this.processWidth, this.processHeight);
+          if (thresholdLoc) gl.uniform1f(thresholdLoc, this.temporalThreshold);
+        }
+      );
+      this.copyTexture(this.temporalPass.texture, this.ditherPass.framebuffer, this.processWidth, this.processHeight);
+    }
+
+    this.copyTexture(this.contrastPass.texture, this.previousInputFramebuffer, this.processWidth, this.processHeight);
+    this.hasTemporalHistory = true;
+  }
+
   private applyLcdUniforms(
     gl: WebGL2RenderingContext,
     program: WebGLProgram,
@@ -483,6 +977,25 @@ export class RenderPipeline {
   }
 
   private runSharedBasePasses(video: HTMLVideoElement): void {
+    this.runInputPasses(video);
+
+    const paletteData = getPaletteAsFloat(this.currentPalette, this.currentInvertPalette);
+    const paletteSize = getPaletteSize(this.currentPalette);
+    if (this.usesGpuErrorDiffusion()) {
+      this.runErrorDiffusionPasses(paletteData, paletteSize);
+    } else {
+      this.runDitherPass(paletteData, paletteSize);
+    }
+
+    if (this.usesTemporalCoherence()) {
+      this.applyTemporalCoherence();
+    }
+
+    this.lastExportFramebuffer = this.ditherPass.framebuffer;
+  }
+
+  // Downsample + contrast: everything before the dither pass
+  private runInputPasses(video: HTMLVideoElement): void {
     const videoWidth = video.videoWidth || 1;
     const videoHeight = video.videoHeight || 1;
 
@@ -500,11 +1013,15 @@ export class RenderPipeline {
         const cropOriginLoc = gl.getUniformLocation(program, 'u_cropOrigin');
         const cropSizeLoc = gl.getUniformLocation(program, 'u_cropSize');
         const useCustomCropLoc = gl.getUniformLocation(program, 'u_useCustomCrop');
+        const keepColorLoc = gl.getUniformLocation(program, 'u_keepColor');
+        const resizePolicyLoc = gl.getUniformLocation(program, 'u_resizePolicy');
         if (targetResLoc !== null) gl.uniform2f(targetResLoc, this.processWidth, this.processHeight);
         if (sourceResLoc !== null) gl.uniform2f(sourceResLoc, videoWidth, videoHeight);
         if (cropOriginLoc !== null) gl.uniform2f(cropOriginLoc, this.currentCropRegion.x, this.currentCropRegion.y);
         if (cropSizeLoc !== null) gl.uniform2f(cropSizeLoc, this.currentCropRegion.width, this.currentCropRegion.height);
         if (useCustomCropLoc !== null) gl.uniform1f(useCustomCropLoc, this.currentDitherMode === 'gameBoyCamera' ? 1.0 : 0.0);
+        if (keepColorLoc !== null) gl.uniform1f(keepColorLoc, this.keepsSourceColor() ? 1.0 : 0.0);
+        if (resizePolicyLoc !== null) gl.uniform1f(resizePolicyLoc, this.getResizePolicyIndex());
       }
     );
 
@@ -518,13 +1035,16 @@ export class RenderPipeline {
         const contrastLoc = gl.getUniformLocation(program, 'u_contrast');
         const cameraModeLoc = gl.getUniformLocation(program, 'u_cameraMode');
         const cameraResponseLoc = gl.getUniformLocation(program, 'u_cameraResponse');
+        const keepColorLoc = gl.getUniformLocation(program, 'u_keepColor');
         if (contrastLoc) gl.uniform1f(contrastLoc, this.currentContrast);
+        if (keepColorLoc) gl.uniform1f(keepColorLoc, this.keepsSourceColor() ? 1.0 : 0.0);
         if (cameraModeLoc) gl.uniform1f(cameraModeLoc, this.currentDitherMode === 'gameBoyCamera' ? 1.0 : 0.0);
         if (cameraResponseLoc) gl.uniform1f(cameraResponseLoc, this.currentCameraResponse);
       }
     );
+  }
 
-    const paletteData = getPaletteAsFloat(this.currentPalette, this.currentInvertPalette);
+  private runDitherPass(paletteData: Float32Array, paletteSize: number): void {
     this.renderPass(
       this.ditherPass.program,
       this.contrastPass.texture,
@@ -534,12 +1054,33 @@ export class RenderPipeline {
       (gl, program) => {
         const resLoc = gl.getUniformLocation(program, 'u_resolution');
         const paletteLoc = gl.getUniformLocation(program, 'u_palette');
+        const paletteSizeLoc = gl.getUniformLocation(program, 'u_paletteSize');
         if (resLoc) gl.uniform2f(resLoc, this.processWidth, this.processHeight);
         if (paletteLoc) gl.uniform3fv(paletteLoc, paletteData);
+        if (paletteSizeLoc) gl.uniform1i(paletteSizeLoc, paletteSize);
+
+        if (program === this.thresholdMatrixProgram || program === this.nearestPaletteProgram) {
+          gl.activeTexture(gl.TEXTURE1);
+          gl.bindTexture(gl.TEXTURE_2D, this.thresholdMatrixTexture);
+          const thresholdLoc = gl.getUniformLocation(program, 'u_thresholdMatrix');
+          const thresholdSizeLoc = gl.getUniformLocation(program, 'u_thresholdSize');
+          if (thresholdLoc) gl.uniform1i(thresholdLoc, 1);
+          if (thresholdSizeLoc) {
+            gl.uniform2i(thresholdSizeLoc, this.currentThresholdMatrix.width, this.currentThresholdMatrix.height);
+          }
+        }
+
+        if (program === this.nearestPaletteProgram) {
+          const ditherPattern = this.getNearestPaletteDitherPattern();
+          const metricLoc = gl.getUniformLocation(program, 'u_metric');
+          const ditherPatternLoc = gl.getUniformLocation(program, 'u_ditherPattern');
+          const ditherSpreadLoc = gl.getUniformLocation(program, 'u_ditherSpread');
+          if (metricLoc) gl.uniform1i(metricLoc, COLOR_METRIC_INDEX[this.currentColorMetric]);
+          if (ditherPatternLoc) gl.uniform1i(ditherPatternLoc, ditherPattern.pattern);
+          if (ditherSpreadLoc) gl.uniform1f(ditherSpreadLoc, ditherPattern.strength / (paletteSize - 1));
+        }
       }
     );
-
-    this.lastExportFramebuffer = this.ditherPass.framebuffer;
   }
 
   render(video: HTMLVideoElement, splitPosition: number = 0.5, updateVideo: boolean = true): void {
@@ -568,22 +1109,37 @@ export class RenderPipeline {
       this.runSharedBasePasses(video);
 
       // Pass 4: Upscale for display with LCD effects (render to viewport-sized texture)
+      const upscaleWidth = this.previewFrameRect?.width ?? this.viewport.width;
+      const upscaleHeight = this.previewFrameRect?.height ?? this.viewport.height;
       this.renderPass(
         this.upscalePass.program,
         this.ditherPass.texture,
         this.upscalePass.framebuffer,
-        this.viewport.width,
-        this.viewport.height,
+        upscaleWidth,
+        upscaleHeight,
         (gl, program) => this.applyLcdUniforms(
           gl,
           program,
           this.processWidth,
           this.processHeight,
-          this.viewport.width,
-          this.viewport.height
+          upscaleWidth,
+          upscaleHeight
         )
       );
 
+      // Pass 5 (optional): border around the upscaled frame, at viewport size
+      if (this.currentBorder && this.previewFrameRect) {
+        this.previewBorderTarget = this.compositeBorder(
+          this.currentBorder,
+          this.upscalePass.texture,
+          this.previewFrameRect,
+          this.viewport.width,
+          this.viewport.height,
+          this.viewport.width / this.currentBorder.width,
+          this.previewBorderTarget
+        );
+      }
+
       // Copy current frame to previous frame texture (for next frame's ghosting)
       this.copyTexture(this.ditherPass.texture, this.previousFrameFramebuffer, this.processWidth, this.processHeight);
     }
@@ -608,7 +1164,10 @@ export class RenderPipeline {
 
     // Bind processed to texture unit 1
     gl.activeTexture(gl.TEXTURE1);
-    gl.bindTexture(gl.TEXTURE_2D, this.upscalePass.texture);
+    gl.bindTexture(
+      gl.TEXTURE_2D,
+      this.currentBorder && this.previewBorderTarget ? this.previewBorderTarget.texture : this.upscalePass.texture
+    );
 
     const origLoc = gl.getUniformLocation(this.splitProgram, 'u_original');
     const procLoc = gl.getUniformLocation(this.splitProgram, 'u_processed');
@@ -638,10 +1197,10 @@ export class RenderPipeline {
   }
 
   // Render without split (for export)
-  renderProcessed(video: HTMLVideoElement, exportScale: number = 1): void {
+  renderProcessed(video: HTMLVideoElement, layout?: ExportFrameLayout): void {
     this.runSharedBasePasses(video);
 
-    const safeScale = Math.max(1, Math.round(exportScale));
+    const safeScale = Math.max(1, Math.round(layout?.scale ?? 1));
     const targetWidth = this.processWidth * safeScale;
     const targetHeight = this.processHeight * safeScale;
     this.ensureExportPassSize(targetWidth, targetHeight);
@@ -661,21 +1220,28 @@ export class RenderPipeline {
         targetHeight
       )
     );
-    this.lastExportFramebuffer = this.exportPass.framebuffer;
-    this.lastOutputWidth = targetWidth;
-    this.lastOutputHeight = targetHeight;
+    this.finishExportLayout(this.applyExportBorder(targetWidth, targetHeight, safeScale), layout);
 
     this.copyTexture(this.ditherPass.texture, this.previousFrameFramebuffer, this.processWidth, this.processHeight);
   }
 
+  /**
+   * Render only up to the contrast pass, for frames dithered on the CPU.
+   * Leaves the previous-frame history alone so renderExportFromPixels
+   * ghosts against the last CPU-dithered frame.
+   */
+  renderContrast(video: HTMLVideoElement): void {
+    this.runInputPasses(video);
+  }
+
   renderExportFromPixels(
     pixels: Uint8Array,
     applyLcdEffects: boolean = this.lcdEffectsEnabled,
-    exportScale: number = 1
+    layout?: ExportFrameLayout
   ): void {
     this.uploadPixelsToCpuTexture(pixels);
 
-    const safeScale = Math.max(1, Math.round(exportScale));
+    const safeScale = Math.max(1, Math.round(layout?.scale ?? 1));
     const targetWidth = this.processWidth * safeScale;
     const targetHeight = this.processHeight * safeScale;
     this.ensureExportPassSize(targetWidth, targetHeight);
@@ -696,13 +1262,113 @@ export class RenderPipeline {
         applyLcdEffects
       )
     );
-    this.lastExportFramebuffer = this.exportPass.framebuffer;
-    this.lastOutputWidth = targetWidth;
-    this.lastOutputHeight = targetHeight;
+    this.finishExportLayout(this.applyExportBorder(targetWidth, targetHeight, safeScale), layout);
 
     this.copyTexture(this.cpuInputTexture, this.previousFrameFramebuffer, this.processWidth, this.processHeight);
   }
 
+  /**
+   * Draw the border and the frame in its window into a shared target. All
+   * three images store rows top-down, so rectangles need no flipping.
+   */
+  private compositeBorder(
+    border: FrameBorder,
+    frameTexture: WebGLTexture,
+    frameRect: BorderWindow,
+    width: number,
+    height: number,
+    scale: number,
+    target: SizedRenderTarget | null
+  ): SizedRenderTarget {
+    const output = this.ensureSizedTarget(target, width, height);
+    const windowRect = scaleBorderWindow(border, scale);
+
+    this.renderPass(
+      this.borderProgram,
+      frameTexture,
+      output.framebuffer,
+      width,
+      height,
+      (gl, program) => {
+        gl.activeTexture(gl.TEXTURE1);
+        gl.bindTexture(gl.TEXTURE_2D, this.borderTexture);
+        const borderLoc = gl.getUniformLocation(program, 'u_border');
+        const outputSizeLoc = gl.getUniformLocation(program, 'u_outputSize');
+        const windowRectLoc = gl.getUniformLocation(program, 'u_windowRect');
+        const frameRectLoc = gl.getUniformLocation(program, 'u_frameRect');
+        if (borderLoc !== null) gl.uniform1i(borderLoc, 1);
+        if (outputSizeLoc !== null) gl.uniform2f(outputSizeLoc, width, height);
+        if (windowRectLoc !== null) {
+          gl.uniform4f(windowRectLoc, windowRect.x, windowRect.y, windowRect.width, windowRect.height);
+        }
+        if (frameRectLoc !== null) {
+          gl.uniform4f(frameRectLoc, frameRect.x, frameRect.y, frameRect.width, frameRect.height);
+        }
+      }
+    );
+
+    return output;
+  }
+
+  /**
+   * With a border set, composite the export pass into it at the export
+   * scale. Returns the image the layout step reads from.
+   */
+  private applyExportBorder(scaledWidth: number, scaledHeight: number, scale: number): ExportSource {
+    if (!this.currentBorder) {
+      return { framebuffer: this.exportPass.framebuffer, width: scaledWidth, height: scaledHeight };
+    }
+
+    const border = this.currentBorder;
+    this.exportBorderTarget = this.compositeBorder(
+      border,
+      this.exportPass.texture,
+      calculateBorderFrameRect(border, scaledWidth, scaledHeight, scale),
+      border.width * scale,
+      border.height * scale,
+      scale,
+      this.exportBorderTarget
+    );
+    return this.exportBorderTarget;
+  }
+
+  /**
+   * Point readback at the export image, or for letterboxed layouts blit it
+   * into a black canvas of the layout size at the layout offset. The export
+   * pass stores rows top-down, so the offset needs no flipping.
+   */
+  private finishExportLayout(source: ExportSource, layout?: ExportFrameLayout): void {
+    const { width: scaledWidth, height: scaledHeight } = source;
+    if (!layout || (layout.width === scaledWidth && layout.height === scaledHeight)) {
+      this.lastExportFramebuffer = source.framebuffer;
+      this.lastOutputWidth = scaledWidth;
+      this.lastOutputHeight = scaledHeight;
+      return;
+    }
+
+    const gl = this.gl;
+    const letterbox = this.ensureLetterboxSize(layout.width, layout.height);
+
+    gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, letterbox);
+    gl.viewport(0, 0, layout.width, layout.height);
+    gl.clearColor(0.0, 0.0, 0.0, 1.0);
+    gl.clear(gl.COLOR_BUFFER_BIT);
+
+    gl.bindFramebuffer(gl.READ_FRAMEBUFFER, source.framebuffer);
+    gl.blitFramebuffer(
+      0, 0, scaledWidth, scaledHeight,
+      layout.offsetX, layout.offsetY, layout.offsetX + scaledWidth, layout.offsetY + scaledHeight,
+      gl.COLOR_BUFFER_BIT,
+      gl.NEAREST
+    );
+    gl.bindFramebuffer(gl.READ_FRAMEBUFFER, null);
+    gl.bindFramebuffer(gl.DRAW_FRAMEBUFFER, null);
+
+    this.lastExportFramebuffer = letterbox;
+    this.lastOutputWidth = layout.width;
+    this.lastOutputHeight = layout.height;
+  }
+
   getContrastPixels(): Uint8Array {
     return this.readPixelsFromFramebuffer(
       this.contrastPass.framebuffer,
@@ -799,18 +1465,34 @@ export class RenderPipeline {
     }
     gl.deleteTexture(this.exportPass.texture);
     gl.deleteFramebuffer(this.exportPass.framebuffer);
+    this.deleteLetterbox();
+    this.deleteSizedTarget(this.previewBorderTarget);
+    this.deleteSizedTarget(this.exportBorderTarget);
+    if (this.borderTexture) gl.deleteTexture(this.borderTexture);
     gl.deleteTexture(this.cpuInputTexture);
     gl.deleteFramebuffer(this.cpuInputFramebuffer);
+    gl.deleteProgram(this.temporalPass.program);
+    gl.deleteTexture(this.temporalPass.texture);
+    gl.deleteFramebuffer(this.temporalPass.framebuffer);
+    gl.deleteTexture(this.previousInputTexture);
+    gl.deleteFramebuffer(this.previousInputFramebuffer);
+    this.deleteErrorDiffusionStates();
 
     // Delete previous frame resources for ghosting
     gl.deleteTexture(this.previousFrameTexture);
     gl.deleteFramebuffer(this.previousFrameFramebuffer);
+    gl.deleteTexture(this.thresholdMatrixTexture);
 
     gl.deleteProgram(this.noDitherProgram);
     gl.deleteProgram(this.bayer2x2Program);
     gl.deleteProgram(this.bayer4x4Program);
     gl.deleteProgram(this.gameBoyCameraProgram);
+    gl.deleteProgram(this.gameBoyColorProgram);
+    gl.deleteProgram(this.nearestPaletteProgram);
+    gl.deleteProgram(this.thresholdMatrixProgram);
+    gl.deleteProgram(this.errorDiffusionProgram);
     gl.deleteProgram(this.splitProgram);
     gl.deleteProgram(this.passthroughProgram);
+    gl.deleteProgram(this.borderProgram);
   }
 }
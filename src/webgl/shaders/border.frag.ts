@@ -0,0 +1,42 @@
+// Composite a rendered frame into a console border
+// Rows are addressed top-down in all three images, matching the export pass,
+// so pixels are fetched directly instead of through v_texCoord
+export const borderFragmentShader = `#version 300 es
+precision highp float;
+
+// Rendered frame
+uniform sampler2D u_texture;
+uniform sampler2D u_border;
+uniform vec2 u_outputSize;
+// x, y, width, height in output pixels
+uniform vec4 u_windowRect;
+uniform vec4 u_frameRect;
+
+in vec2 v_texCoord;
+out vec4 fragColor;
+
+bool insideRect(vec2 pixel, vec4 rect) {
+  return pixel.x >= rect.x && pixel.y >= rect.y && pixel.x < rect.x + rect.z && pixel.y < rect.y + rect.w;
+}
+
+void main() {
+  vec2 pixel = floor(gl_FragCoord.xy);
+
+  if (insideRect(pixel, u_frameRect)) {
+    vec2 frameSize = vec2(textureSize(u_texture, 0));
+    vec2 framePixel = floor((pixel - u_frameRect.xy) * frameSize / u_frameRect.zw);
+    fragColor = texelFetch(u_texture, ivec2(framePixel), 0);
+    return;
+  }
+
+  // Window area the frame doesn't cover (aspect mismatch) stays black
+  if (insideRect(pixel, u_windowRect)) {
+    fragColor = vec4(0.0, 0.0, 0.0, 1.0);
+    return;
+  }
+
+  vec2 borderSize = vec2(textureSize(u_border, 0));
+  vec2 borderPixel = min(floor(pixel * borderSize / u_outputSize), borderSize - 1.0);
+  fragColor = texelFetch(u_border, ivec2(borderPixel), 0);
+}
+`;
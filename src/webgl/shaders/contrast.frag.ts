@@ -6,6 +6,7 @@ uniform sampler2D u_texture;
 uniform float u_contrast;
 uniform float u_cameraMode;
 uniform float u_cameraResponse;
+uniform float u_keepColor;
 
 in vec2 v_texCoord;
 out vec4 fragColor;
@@ -22,8 +23,9 @@ void main() {
     luma = mix(luma, shaped, clamp(u_cameraResponse, 0.0, 1.0));
   }
 
-  // Apply contrast centered at 0.5
-  vec3 adjusted = (vec3(luma) - 0.5) * u_contrast + 0.5;
+  // Apply contrast centered at 0.5 (per channel in GBC mode)
+  vec3 source = u_keepColor > 0.5 ? color.rgb : vec3(luma);
+  vec3 adjusted = (source - 0.5) * u_contrast + 0.5;
   adjusted = clamp(adjusted, 0.0, 1.0);
 
   fragColor = vec4(adjusted, color.a);
@@ -4,7 +4,9 @@ precision highp float;
 
 uniform sampler2D u_texture;
 uniform vec2 u_resolution;
-uniform vec3 u_palette[4];
+// Sized to MAX_PALETTE_SIZE; only the first u_paletteSize entries are used
+uniform vec3 u_palette[16];
+uniform int u_paletteSize;
 
 in vec2 v_texCoord;
 out vec4 fragColor;
@@ -21,12 +23,14 @@ float getBayerValue(ivec2 coord) {
 }
 
 int quantizeToPaletteIndex(float luminance, float dither) {
-  // Add dither offset and quantize to 4 levels
-  float adjusted = luminance + (dither - 0.5) * 0.33;
+  float levels = float(u_paletteSize);
+
+  // Add dither offset scaled to one palette step
+  float adjusted = luminance + (dither - 0.5) / (levels - 1.0);
   adjusted = clamp(adjusted, 0.0, 1.0);
 
-  // Quantize to 4 levels (0, 1, 2, 3)
-  return int(adjusted * 3.99);
+  // Quantize to u_paletteSize levels (0 .. u_paletteSize - 1)
+  return int(adjusted * (levels - 0.01));
 }
 
 void main() {
@@ -0,0 +1,75 @@
+// Shared GLSL for nearest-palette matching with a selectable distance metric.
+// Metric math mirrors src/processing/dither/colorDistance.ts. Includers must
+// declare u_palette[16], u_paletteSize and u_metric
+// (0 = RGB, 1 = weighted RGB, 2 = CIELAB, 3 = OKLab).
+export const colorMetricGlsl = `
+vec3 srgbToLinear(vec3 c) {
+  vec3 low = c / 12.92;
+  vec3 high = pow((c + 0.055) / 1.055, vec3(2.4));
+  return mix(high, low, vec3(lessThanEqual(c, vec3(0.04045))));
+}
+
+vec3 labF(vec3 t) {
+  vec3 low = 7.787 * t + 16.0 / 116.0;
+  vec3 high = pow(max(t, vec3(0.0)), vec3(1.0 / 3.0));
+  return mix(low, high, vec3(greaterThan(t, vec3(0.008856))));
+}
+
+vec3 rgbToCielab(vec3 c) {
+  vec3 lin = srgbToLinear(c);
+  vec3 xyz = vec3(
+    (0.4124564 * lin.r + 0.3575761 * lin.g + 0.1804375 * lin.b) / 0.95047,
+    0.2126729 * lin.r + 0.7151522 * lin.g + 0.0721750 * lin.b,
+    (0.0193339 * lin.r + 0.1191920 * lin.g + 0.9503041 * lin.b) / 1.08883
+  );
+  vec3 f = labF(xyz);
+  return vec3(116.0 * f.y - 16.0, 500.0 * (f.x - f.y), 200.0 * (f.y - f.z));
+}
+
+vec3 rgbToOklab(vec3 c) {
+  vec3 lin = srgbToLinear(c);
+  vec3 lms = vec3(
+    0.4122214708 * lin.r + 0.5363325363 * lin.g + 0.0514459929 * lin.b,
+    0.2119034982 * lin.r + 0.6806995451 * lin.g + 0.1073969566 * lin.b,
+    0.0883024619 * lin.r + 0.2817188376 * lin.g + 0.6299787005 * lin.b
+  );
+  lms = pow(max(lms, vec3(0.0)), vec3(1.0 / 3.0));
+  return vec3(
+    0.2104542553 * lms.x + 0.7936177850 * lms.y - 0.0040720468 * lms.z,
+    1.9779984951 * lms.x - 2.4285922050 * lms.y + 0.4505937099 * lms.z,
+    0.0259040371 * lms.x + 0.7827717662 * lms.y - 0.8086757660 * lms.z
+  );
+}
+
+vec3 toMetricSpace(vec3 c) {
+  if (u_metric == 2) return rgbToCielab(c);
+  if (u_metric == 3) return rgbToOklab(c);
+  return c;
+}
+
+float colorDistance(vec3 a, vec3 b, vec3 aRgb, vec3 bRgb) {
+  vec3 d = a - b;
+  if (u_metric == 1) {
+    // "Redmean" weighted RGB, weights computed on the 0-255 scale
+    float rmean = (aRgb.r + bRgb.r) * 0.5 * 255.0;
+    return (2.0 + rmean / 256.0) * d.r * d.r + 4.0 * d.g * d.g + (2.0 + (255.0 - rmean) / 256.0) * d.b * d.b;
+  }
+  return dot(d, d);
+}
+
+int findNearestPaletteIndex(vec3 source) {
+  vec3 sourceMetric = toMetricSpace(source);
+  int bestIndex = 0;
+  float bestDistance = 1e20;
+  for (int i = 0; i < 16; i++) {
+    if (i >= u_paletteSize) break;
+    vec3 candidate = u_palette[i];
+    float distance = colorDistance(sourceMetric, toMetricSpace(candidate), source, candidate);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      bestIndex = i;
+    }
+  }
+  return bestIndex;
+}
+`;
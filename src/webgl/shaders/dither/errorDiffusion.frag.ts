@@ -0,0 +1,70 @@
+// Wavefront-parallel error diffusion (GPU counterpart of
+// src/processing/dither/errorDiffusion.ts).
+//
+// Pixel (x, y) only receives error from pixels earlier in scan order, so with
+// wavefront t = x + skew * y every pixel on one wavefront can be quantised in
+// parallel once the earlier wavefronts are done. Each pass handles one
+// wavefront and copies everything else, ping-ponging between two state
+// textures: RGB holds the clamped value before quantisation, A the palette
+// index / 255. Errors are pulled from predecessors rather than pushed.
+// A final resolve pass maps the state to palette colours.
+import { colorMetricGlsl } from './colorMetric.glsl';
+
+export const errorDiffusionFragmentShader = `#version 300 es
+precision highp float;
+
+uniform sampler2D u_texture;        // contrast output (resolve pass: state)
+uniform sampler2D u_state;          // state from the previous wavefront
+uniform vec2 u_resolution;
+// Sized to MAX_PALETTE_SIZE; only the first u_paletteSize entries are used
+uniform vec3 u_palette[16];
+uniform int u_paletteSize;
+// 0 = RGB, 1 = weighted RGB, 2 = CIELAB, 3 = OKLab
+uniform int u_metric;
+// Kernel entries in image space (y down), weights already divided
+uniform ivec2 u_kernelOffsets[12];
+uniform float u_kernelWeights[12];
+uniform int u_kernelSize;
+uniform int u_skew;
+uniform int u_wavefront;
+uniform bool u_resolve;
+
+in vec2 v_texCoord;
+out vec4 fragColor;
+
+${colorMetricGlsl}
+
+int decodeIndex(vec4 state) {
+  return int(state.a * 255.0 + 0.5);
+}
+
+void main() {
+  if (u_resolve) {
+    fragColor = vec4(u_palette[decodeIndex(texture(u_texture, v_texCoord))], 1.0);
+    return;
+  }
+
+  ivec2 coord = ivec2(gl_FragCoord.xy);
+  ivec2 size = ivec2(u_resolution);
+  // Texel row 0 is the bottom of the image; scan top to bottom like the CPU
+  int imageY = size.y - 1 - coord.y;
+
+  if (coord.x + u_skew * imageY != u_wavefront) {
+    fragColor = texelFetch(u_state, coord, 0);
+    return;
+  }
+
+  vec3 value = texelFetch(u_texture, coord, 0).rgb;
+  for (int i = 0; i < 12; i++) {
+    if (i >= u_kernelSize) break;
+    ivec2 source = ivec2(coord.x - u_kernelOffsets[i].x, coord.y + u_kernelOffsets[i].y);
+    if (source.x < 0 || source.x >= size.x || source.y < 0 || source.y >= size.y) continue;
+    vec4 state = texelFetch(u_state, source, 0);
+    value += (state.rgb - u_palette[decodeIndex(state)]) * u_kernelWeights[i];
+  }
+
+  value = clamp(value, 0.0, 1.0);
+  int index = findNearestPaletteIndex(value);
+  fragColor = vec4(value, float(index) / 255.0);
+}
+`;
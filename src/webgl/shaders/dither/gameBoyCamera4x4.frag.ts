@@ -4,7 +4,9 @@ precision highp float;
 
 uniform sampler2D u_texture;
 uniform vec2 u_resolution;
-uniform vec3 u_palette[4];
+// Sized to MAX_PALETTE_SIZE; only the first u_paletteSize entries are used
+uniform vec3 u_palette[16];
+uniform int u_paletteSize;
 
 in vec2 v_texCoord;
 out vec4 fragColor;
@@ -23,11 +25,12 @@ float getBayerValue(ivec2 coord) {
 }
 
 int quantizeToPaletteIndex(float luma, float matrixValue) {
-  float v = clamp(luma, 0.0, 1.0) * 4.0;
-  int base = min(int(floor(v)), 3);
+  int maxIndex = u_paletteSize - 1;
+  float v = clamp(luma, 0.0, 1.0) * float(u_paletteSize);
+  int base = min(int(floor(v)), maxIndex);
   float frac = fract(v);
   float threshold = (matrixValue + 0.5) / 16.0;
-  int index = min(base + (frac > threshold ? 1 : 0), 3);
+  int index = min(base + (frac > threshold ? 1 : 0), maxIndex);
   return index;
 }
 
@@ -0,0 +1,81 @@
+// Game Boy Color-style full-colour quantization
+// Each 8x8 tile gets its own 4-colour sub-palette (like GBC background
+// attributes), built from the tile's own pixels and snapped to RGB555.
+export const gameBoyColorFragmentShader = `#version 300 es
+precision highp float;
+
+uniform sampler2D u_texture;
+uniform vec2 u_resolution;
+
+in vec2 v_texCoord;
+out vec4 fragColor;
+
+const int TILE_SIZE = 8;
+const int COLORS_PER_TILE = 4;
+
+float getLuminance(vec3 color) {
+  return dot(color, vec3(0.299, 0.587, 0.114));
+}
+
+// Snap to 15-bit RGB555 (5 bits per channel)
+vec3 quantizeRgb555(vec3 color) {
+  return floor(clamp(color, 0.0, 1.0) * 31.0 + 0.5) / 31.0;
+}
+
+vec3 fetchPixel(ivec2 coord, ivec2 size) {
+  return texelFetch(u_texture, clamp(coord, ivec2(0), size - 1), 0).rgb;
+}
+
+void main() {
+  ivec2 size = ivec2(u_resolution);
+  ivec2 pixelCoord = ivec2(v_texCoord * u_resolution);
+  ivec2 tileOrigin = (pixelCoord / TILE_SIZE) * TILE_SIZE;
+
+  // Pass 1: luminance range of the tile
+  float minLuma = 1.0;
+  float maxLuma = 0.0;
+  for (int y = 0; y < TILE_SIZE; y++) {
+    for (int x = 0; x < TILE_SIZE; x++) {
+      float luma = getLuminance(fetchPixel(tileOrigin + ivec2(x, y), size));
+      minLuma = min(minLuma, luma);
+      maxLuma = max(maxLuma, luma);
+    }
+  }
+
+  // Pass 2: average colour of each luminance band becomes a sub-palette entry
+  vec3 sums[COLORS_PER_TILE];
+  float counts[COLORS_PER_TILE];
+  for (int i = 0; i < COLORS_PER_TILE; i++) {
+    sums[i] = vec3(0.0);
+    counts[i] = 0.0;
+  }
+
+  float range = max(maxLuma - minLuma, 1e-4);
+  for (int y = 0; y < TILE_SIZE; y++) {
+    for (int x = 0; x < TILE_SIZE; x++) {
+      vec3 color = fetchPixel(tileOrigin + ivec2(x, y), size);
+      float band = clamp((getLuminance(color) - minLuma) / range, 0.0, 1.0);
+      int index = min(int(band * float(COLORS_PER_TILE)), COLORS_PER_TILE - 1);
+      sums[index] += color;
+      counts[index] += 1.0;
+    }
+  }
+
+  // Map this pixel to the closest sub-palette colour
+  vec3 source = texelFetch(u_texture, pixelCoord, 0).rgb;
+  vec3 best = quantizeRgb555(source);
+  float bestDistance = 1e9;
+  for (int i = 0; i < COLORS_PER_TILE; i++) {
+    if (counts[i] < 0.5) continue;
+    vec3 candidate = quantizeRgb555(sums[i] / counts[i]);
+    vec3 diff = source - candidate;
+    float distance = dot(diff, diff);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = candidate;
+    }
+  }
+
+  fragColor = vec4(best, 1.0);
+}
+`;
@@ -0,0 +1,65 @@
+// Nearest-palette-colour matching with a selectable distance metric
+// Used instead of the luminance-ramp shaders when a colour metric is active.
+// Metric math lives in colorMetric.glsl.ts.
+import { colorMetricGlsl } from './colorMetric.glsl';
+
+export const nearestPaletteFragmentShader = `#version 300 es
+precision highp float;
+
+uniform sampler2D u_texture;
+uniform vec2 u_resolution;
+// Sized to MAX_PALETTE_SIZE; only the first u_paletteSize entries are used
+uniform vec3 u_palette[16];
+uniform int u_paletteSize;
+// 0 = RGB, 1 = weighted RGB, 2 = CIELAB, 3 = OKLab
+uniform int u_metric;
+// 0 = none, 1 = Bayer 2x2, 2 = Bayer 4x4, 3 = threshold matrix texture
+uniform int u_ditherPattern;
+uniform float u_ditherSpread;
+// Threshold matrix, 16-bit values packed into R (high) and G (low)
+uniform sampler2D u_thresholdMatrix;
+uniform ivec2 u_thresholdSize;
+
+in vec2 v_texCoord;
+out vec4 fragColor;
+
+const float bayer2x2[4] = float[4](
+  0.0 / 4.0, 2.0 / 4.0,
+  3.0 / 4.0, 1.0 / 4.0
+);
+
+const float bayer4x4[16] = float[16](
+   0.0/16.0,  8.0/16.0,  2.0/16.0, 10.0/16.0,
+  12.0/16.0,  4.0/16.0, 14.0/16.0,  6.0/16.0,
+   3.0/16.0, 11.0/16.0,  1.0/16.0,  9.0/16.0,
+  15.0/16.0,  7.0/16.0, 13.0/16.0,  5.0/16.0
+);
+
+float getDitherValue(ivec2 coord) {
+  if (u_ditherPattern == 1) {
+    return bayer2x2[(coord.x % 2) + (coord.y % 2) * 2];
+  }
+  if (u_ditherPattern == 2) {
+    return bayer4x4[(coord.x % 4) + (coord.y % 4) * 4];
+  }
+  if (u_ditherPattern == 3) {
+    vec4 texel = texelFetch(u_thresholdMatrix, coord % u_thresholdSize, 0);
+    return (floor(texel.r * 255.0 + 0.5) * 256.0 + floor(texel.g * 255.0 + 0.5)) / 65536.0;
+  }
+  return 0.5;
+}
+
+${colorMetricGlsl}
+
+void main() {
+  vec4 color = texture(u_texture, v_texCoord);
+  ivec2 pixelCoord = ivec2(v_texCoord * u_resolution);
+
+  // Ordered dither offset, as a brightness shift of the input colour
+  float dither = getDitherValue(pixelCoord);
+  vec3 source = clamp(color.rgb + (dither - 0.5) * u_ditherSpread, 0.0, 1.0);
+  int bestIndex = findNearestPaletteIndex(source);
+
+  fragColor = vec4(u_palette[bestIndex], 1.0);
+}
+`;
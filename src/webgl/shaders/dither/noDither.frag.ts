@@ -3,15 +3,17 @@ export const noDitherFragmentShader = `#version 300 es
 precision highp float;
 
 uniform sampler2D u_texture;
-uniform vec3 u_palette[4];
+// Sized to MAX_PALETTE_SIZE; only the first u_paletteSize entries are used
+uniform vec3 u_palette[16];
+uniform int u_paletteSize;
 
 in vec2 v_texCoord;
 out vec4 fragColor;
 
 int quantizeToPaletteIndex(float luminance) {
-  // Quantize to 4 levels (0, 1, 2, 3)
+  // Quantize to u_paletteSize levels (0 .. u_paletteSize - 1)
   luminance = clamp(luminance, 0.0, 1.0);
-  return int(luminance * 3.99);
+  return int(luminance * (float(u_paletteSize) - 0.01));
 }
 
 void main() {
@@ -0,0 +1,49 @@
+// Texture-driven ordered dither + palette quantization
+// Thresholds come from a tiled matrix texture (see src/processing/dither/thresholdMatrix.ts)
+export const thresholdMatrixFragmentShader = `#version 300 es
+precision highp float;
+
+uniform sampler2D u_texture;
+uniform vec2 u_resolution;
+// Sized to MAX_PALETTE_SIZE; only the first u_paletteSize entries are used
+uniform vec3 u_palette[16];
+uniform int u_paletteSize;
+// Threshold matrix, 16-bit values packed into R (high) and G (low)
+uniform sampler2D u_thresholdMatrix;
+uniform ivec2 u_thresholdSize;
+
+in vec2 v_texCoord;
+out vec4 fragColor;
+
+float getThresholdValue(ivec2 coord) {
+  vec4 texel = texelFetch(u_thresholdMatrix, coord % u_thresholdSize, 0);
+  return (floor(texel.r * 255.0 + 0.5) * 256.0 + floor(texel.g * 255.0 + 0.5)) / 65536.0;
+}
+
+int quantizeToPaletteIndex(float luminance, float dither) {
+  float levels = float(u_paletteSize);
+
+  // Add dither offset scaled to one full palette step
+  float adjusted = luminance + (dither - 0.5) / (levels - 1.0);
+  adjusted = clamp(adjusted, 0.0, 1.0);
+
+  // Quantize to u_paletteSize levels (0 .. u_paletteSize - 1)
+  return int(adjusted * (levels - 0.01));
+}
+
+void main() {
+  vec4 color = texture(u_texture, v_texCoord);
+
+  // Get pixel coordinate
+  ivec2 pixelCoord = ivec2(v_texCoord * u_resolution);
+
+  // Get dither value
+  float dither = getThresholdValue(pixelCoord);
+
+  // Quantize luminance to palette index
+  int paletteIndex = quantizeToPaletteIndex(color.r, dither);
+
+  // Output palette color
+  fragColor = vec4(u_palette[paletteIndex], 1.0);
+}
+`;
@@ -1,5 +1,6 @@
-// Downsample with nearest neighbor + desaturate
-// Processing resolution now matches source aspect ratio, so no correction needed
+// Downsample with nearest neighbor + desaturate (colour kept in GBC mode)
+// Auto resolution matches the source aspect; fixed presets crop (fill),
+// letterbox (fit) or stretch the source onto the target
 export const downsampleFragmentShader = `#version 300 es
 precision highp float;
 
@@ -9,6 +10,9 @@ uniform vec2 u_sourceResolution;
 uniform vec2 u_cropOrigin;
 uniform vec2 u_cropSize;
 uniform float u_useCustomCrop;
+uniform float u_keepColor;
+// 0 = fill (center-crop), 1 = fit (letterbox), 2 = stretch
+uniform float u_resizePolicy;
 
 in vec2 v_texCoord;
 out vec4 fragColor;
@@ -21,6 +25,26 @@ void main() {
   vec2 sampleUv = uv;
   if (u_useCustomCrop > 0.5) {
     sampleUv = u_cropOrigin + uv * u_cropSize;
+  } else if (u_resizePolicy > 1.5) {
+    // Stretch: map the whole source onto the target
+    sampleUv = uv;
+  } else if (u_resizePolicy > 0.5) {
+    // Fit: shrink the whole source into the target and pad with black
+    float sourceAspect = u_sourceResolution.x / u_sourceResolution.y;
+    float targetAspect = u_targetResolution.x / u_targetResolution.y;
+
+    if (sourceAspect > targetAspect) {
+      float scale = targetAspect / sourceAspect;
+      sampleUv.y = (uv.y - (1.0 - scale) * 0.5) / scale;
+    } else if (sourceAspect < targetAspect) {
+      float scale = sourceAspect / targetAspect;
+      sampleUv.x = (uv.x - (1.0 - scale) * 0.5) / scale;
+    }
+
+    if (any(lessThan(sampleUv, vec2(0.0))) || any(greaterThan(sampleUv, vec2(1.0)))) {
+      fragColor = vec4(0.0, 0.0, 0.0, 1.0);
+      return;
+    }
   } else {
     // Center-crop source to fill target aspect ratio without stretching.
     float sourceAspect = u_sourceResolution.x / u_sourceResolution.y;
@@ -40,6 +64,11 @@ void main() {
 
   vec4 color = texture(u_texture, sampleUv);
 
+  if (u_keepColor > 0.5) {
+    fragColor = color;
+    return;
+  }
+
   // Convert to luminance (desaturate)
   // Using standard luminance coefficients
   float luminance = dot(color.rgb, vec3(0.299, 0.587, 0.114));
@@ -0,0 +1,32 @@
+// Temporal coherence: keep the previous frame's palette colour where the
+// input luminance barely changed, to stop ordered dither patterns shimmering.
+// Every pass flips rows, so the dither output and the previous-input copy are
+// read flipped relative to the contrast output and the previous frame.
+export const temporalStabilizeFragmentShader = `#version 300 es
+precision highp float;
+
+uniform sampler2D u_texture;         // current dither output
+uniform sampler2D u_previousFrame;   // previous dither output (copied)
+uniform sampler2D u_currentInput;    // current contrast output
+uniform sampler2D u_previousInput;   // previous contrast output (copied)
+uniform vec2 u_resolution;
+uniform float u_threshold;           // luminance delta, 0.0-1.0
+
+out vec4 fragColor;
+
+const vec3 LUMA_WEIGHTS = vec3(0.299, 0.587, 0.114);
+
+void main() {
+  ivec2 coord = ivec2(gl_FragCoord.xy);
+  ivec2 flipped = ivec2(coord.x, int(u_resolution.y) - 1 - coord.y);
+
+  float currentLuma = dot(texelFetch(u_currentInput, coord, 0).rgb, LUMA_WEIGHTS);
+  float previousLuma = dot(texelFetch(u_previousInput, flipped, 0).rgb, LUMA_WEIGHTS);
+
+  if (abs(currentLuma - previousLuma) < u_threshold) {
+    fragColor = texelFetch(u_previousFrame, coord, 0);
+  } else {
+    fragColor = texelFetch(u_texture, flipped, 0);
+  }
+}
+`;
@@ -0,0 +1,17 @@
+// Audio Render Worker (the export's bitcrush chain, for the timeline waveform)
+
+import { renderAudioBitcrush, type AudioExportSettings } from '../audio/renderAudio';
+
+interface WorkerMessage {
+  channelData: Float32Array[];
+  sampleRate: number;
+  settings: AudioExportSettings;
+}
+
+self.onmessage = (e: MessageEvent<WorkerMessage>) => {
+  const { channelData, sampleRate, settings } = e.data;
+  const rendered = renderAudioBitcrush(channelData, sampleRate, settings);
+  self.postMessage({ channelData: rendered }, { transfer: rendered.map((channel) => channel.buffer) });
+};
+
+export {};
@@ -1,19 +1,46 @@
-// Floyd-Steinberg Error Diffusion Dither Worker
+// Error Diffusion Dither Worker (Floyd-Steinberg by default)
 
-import { floydSteinbergDither } from '../processing/dither/floydSteinberg';
+import {
+  ERROR_DIFFUSION_KERNELS,
+  createTemporalDitherState,
+  errorDiffusionDither,
+  resetTemporalDitherState,
+  type ErrorDiffusionMode,
+} from '../processing/dither/errorDiffusion';
 import type { Palette } from '../palettes';
+import type { ColorMetric } from '../state/store';
 
 interface WorkerMessage {
   pixels: Uint8Array;
   width: number;
   height: number;
   palette: Palette;
+  colorMetric?: ColorMetric;
+  mode?: ErrorDiffusionMode;
+  serpentine?: boolean;
+  // Temporal coherence is enabled when set; history is kept across messages
+  temporalThreshold?: number;
+  // Drop the retained history (e.g. after a seek or settings change)
+  resetTemporal?: boolean;
 }
 
+// Retained between frames for temporal coherence
+const temporalState = createTemporalDitherState();
+
 self.onmessage = (e: MessageEvent<WorkerMessage>) => {
-  const { pixels, width, height, palette } = e.data;
+  const {
+    pixels, width, height, palette, colorMetric, mode = 'floydSteinberg', serpentine, temporalThreshold, resetTemporal,
+  } = e.data;
+
+  if (resetTemporal || temporalThreshold === undefined) {
+    resetTemporalDitherState(temporalState);
+  }
 
-  const result = floydSteinbergDither(pixels, width, height, palette);
+  const result = errorDiffusionDither(pixels, width, height, palette, ERROR_DIFFUSION_KERNELS[mode], {
+    colorMetric,
+    serpentine,
+    temporal: temporalThreshold !== undefined ? { state: temporalState, threshold: temporalThreshold } : undefined,
+  });
 
   self.postMessage({ pixels: result }, { transfer: [result.buffer] });
 };
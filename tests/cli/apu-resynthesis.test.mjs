@@ -0,0 +1,105 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { bundleSourceModules } from './helpers.mjs';
+
+const RATE = 44100;
+
+let apuResynthesis;
+let dmgApu;
+
+function sine(frequency, amplitude, length) {
+  return Float32Array.from({ length }, (_, i) => amplitude * Math.sin((2 * Math.PI * frequency * i) / RATE));
+}
+
+// Seeded white noise so the analysis is the same on every run
+function noise(amplitude, length, seed = 1) {
+  let state = seed;
+  return Float32Array.from({ length }, () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return amplitude * ((state / 2 ** 32) * 2 - 1);
+  });
+}
+
+function mix(...signals) {
+  return signals[0].map((_, i) => signals.reduce((sum, signal) => sum + signal[i], 0));
+}
+
+function semitonesBetween(a, b) {
+  return Math.abs(12 * Math.log2(a / b));
+}
+
+function rms(samples) {
+  return Math.sqrt(samples.reduce((sum, value) => sum + value * value, 0) / samples.length);
+}
+
+test.before(async () => {
+  ({ apuResynthesis, dmgApu } = await bundleSourceModules('apu-resynthesis', {
+    apuResynthesis: 'src/audio/apuResynthesis.ts',
+    dmgApu: 'src/audio/dmgApu.ts',
+  }));
+});
+
+test('a melody-range sine drives the lead pulse channel only', () => {
+  const analyzer = new apuResynthesis.DmgAudioAnalyzer(RATE);
+  const frame = analyzer.analyze(sine(440, 0.5, apuResynthesis.APU_ANALYSIS_SIZE));
+
+  assert.ok(frame.pulse1.volume > 0);
+  assert.ok(semitonesBetween(dmgApu.pulseFrequencyToHz(frame.pulse1.frequency), 440) < 0.5);
+  assert.equal(frame.pulse2.volume, 0);
+  assert.equal(frame.wave.outputLevel, 0);
+  assert.equal(frame.noise.volume, 0);
+});
+
+test('a bass sine under the lead goes to the wave channel', () => {
+  const length = apuResynthesis.APU_ANALYSIS_SIZE;
+  const analyzer = new apuResynthesis.DmgAudioAnalyzer(RATE);
+  const frame = analyzer.analyze(mix(sine(440, 0.4, length), sine(110, 0.4, length)));
+
+  assert.ok(semitonesBetween(dmgApu.pulseFrequencyToHz(frame.pulse1.frequency), 440) < 0.5);
+  assert.notEqual(frame.wave.outputLevel, 0);
+  assert.ok(semitonesBetween(dmgApu.waveFrequencyToHz(frame.wave.frequency), 110) < 0.5);
+  assert.equal(frame.noise.volume, 0);
+});
+
+test('a noise burst drives the noise channel in long mode', () => {
+  const analyzer = new apuResynthesis.DmgAudioAnalyzer(RATE);
+  const frame = analyzer.analyze(noise(0.5, apuResynthesis.APU_ANALYSIS_SIZE));
+
+  assert.ok(frame.noise.volume > 0);
+  assert.equal(frame.noise.shortMode, false);
+});
+
+test('silence leaves every channel muted', () => {
+  const analyzer = new apuResynthesis.DmgAudioAnalyzer(RATE);
+  const frame = analyzer.analyze(new Float32Array(apuResynthesis.APU_ANALYSIS_SIZE));
+
+  assert.equal(frame.pulse1.volume, 0);
+  assert.equal(frame.pulse2.volume, 0);
+  assert.equal(frame.wave.outputLevel, 0);
+  assert.equal(frame.noise.volume, 0);
+});
+
+test('resynthesis of a full-scale sine and noise burst stays within [-1, 1]', () => {
+  const length = RATE;
+  const burstStart = length / 2;
+  const burstLength = RATE / 10;
+  const burst = noise(1, length);
+  const source = sine(440, 1, length).map((value, i) => (
+    Math.max(-1, Math.min(1, value + (i >= burstStart && i < burstStart + burstLength ? burst[i] : 0)))
+  ));
+
+  const output = apuResynthesis.resynthesizeDmgAudio([source, source], RATE);
+
+  assert.equal(output.length, 2);
+  assert.deepEqual(output[0], output[1]);
+  assert.equal(output[0].length, length);
+  for (const sample of output[0]) {
+    assert.ok(Number.isFinite(sample) && sample >= -1 && sample <= 1, `sample ${sample} out of range`);
+  }
+
+  // The burst adds the noise channel on top of the lead
+  const before = rms(output[0].subarray(burstStart - burstLength * 2, burstStart - burstLength));
+  const during = rms(output[0].subarray(burstStart, burstStart + burstLength));
+  assert.ok(before > 0);
+  assert.ok(during > before, `burst rms ${during} is not above ${before}`);
+});
@@ -0,0 +1,301 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { bundleSourceModules } from './helpers.mjs';
+
+// Web Audio renders worklets in blocks of this many frames
+const RENDER_QUANTUM = 128;
+
+const processors = new Map();
+let speakerDsp;
+let dmgApu;
+let audioTrack;
+let waveform;
+
+// Just enough of AudioWorkletGlobalScope to run the worklet bundles in Node
+function installWorkletScope() {
+  globalThis.AudioWorkletProcessor = class {
+    constructor() {
+      this.port = { onmessage: null, postMessage() {} };
+    }
+  };
+  globalThis.registerProcessor = (name, processorCtor) => {
+    processors.set(name, processorCtor);
+  };
+}
+
+// Whole render quanta covering about this many seconds
+function quantumFrames(rate, seconds) {
+  return RENDER_QUANTUM * Math.round((rate * seconds) / RENDER_QUANTUM);
+}
+
+function createProcessor(name, rate, processorOptions) {
+  globalThis.sampleRate = rate;
+  const Processor = processors.get(name);
+  return new Processor({ processorOptions });
+}
+
+function postToProcessor(processor, data) {
+  processor.port.onmessage({ data });
+}
+
+// Pull a worklet the way the audio thread does: one render quantum at a time
+function renderPreview(processor, inputChannels, outputChannelCount, frames, onQuantum) {
+  const output = Array.from({ length: outputChannelCount }, () => new Float32Array(frames));
+
+  for (let start = 0; start < frames; start += RENDER_QUANTUM) {
+    onQuantum?.(start);
+    const inputs = [inputChannels.map((channel) => channel.subarray(start, start + RENDER_QUANTUM))];
+    const outputs = [output.map(() => new Float32Array(RENDER_QUANTUM))];
+    assert.equal(processor.process(inputs, outputs, {}), true);
+    outputs[0].forEach((block, channel) => output[channel].set(block, start));
+  }
+
+  return output;
+}
+
+// Deterministic stereo test signal: tones, a sweep and noise, past full scale
+function createTestSignal(rate, frames) {
+  let seed = 12345;
+  const noise = () => {
+    seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+    return seed / 0x7fffffff - 0.5;
+  };
+
+  const left = new Float32Array(frames);
+  const right = new Float32Array(frames);
+  for (let i = 0; i < frames; i++) {
+    const t = i / rate;
+    const sweep = Math.sin(2 * Math.PI * (200 + 4000 * t) * t);
+    left[i] = 0.7 * Math.sin(2 * Math.PI * 220 * t) + 0.3 * sweep + 0.2 * noise();
+    right[i] = 0.9 * Math.sin(2 * Math.PI * 1330 * t) + 0.4 * Math.sin(2 * Math.PI * 60 * t) + 0.1 * noise();
+  }
+  return [left, right];
+}
+
+function maxAbsDifference(a, b) {
+  assert.equal(a.length, b.length);
+  let max = 0;
+  for (let i = 0; i < a.length; i++) {
+    max = Math.max(max, Math.abs(a[i] - b[i]));
+  }
+  return max;
+}
+
+function rms(samples) {
+  let sum = 0;
+  for (const sample of samples) {
+    sum += sample * sample;
+  }
+  return Math.sqrt(sum / samples.length);
+}
+
+test.before(async () => {
+  // The worklet bundles call registerProcessor as they load
+  installWorkletScope();
+  ({ speakerDsp, dmgApu, audioTrack, waveform } = await bundleSourceModules('audio-parity', {
+    speakerDsp: 'src/audio/speakerDsp.ts',
+    speakerProcessor: 'src/audio/speaker-processor.ts',
+    dmgApu: 'src/audio/dmgApu.ts',
+    apuProcessor: 'src/audio/apu-processor.ts',
+    audioTrack: 'src/audio/audioTrack.ts',
+    waveform: 'src/audio/waveform.ts',
+  }));
+});
+
+test('speaker preview worklet matches the export render sample for sample', () => {
+  const settings = {
+    highpass: 420,
+    lowpass: 3100,
+    bitDepth: 5,
+    distortion: 45,
+    crushRate: 11025,
+    resonance: 6,
+    mono: 40,
+    noise: 30,
+    limiter: -6,
+  };
+
+  for (const rate of [44100, 48000]) {
+    const frames = quantumFrames(rate, 1);
+    const input = createTestSignal(rate, frames);
+
+    const preview = renderPreview(createProcessor('speaker-processor', rate, settings), input, 2, frames);
+    const exported = speakerDsp.renderSpeakerDsp(input, rate, settings);
+
+    for (let channel = 0; channel < 2; channel++) {
+      const difference = maxAbsDifference(preview[channel], exported[channel]);
+      assert.ok(difference <= 1e-7, `${rate} Hz channel ${channel}: max difference ${difference}`);
+      // Guard against both paths passing audio through untouched
+      assert.ok(rms(exported[channel].map((sample, i) => sample - input[channel][i])) > 0.05);
+    }
+  }
+});
+
+test('speaker preview upmixes mono like the export', () => {
+  const rate = 48000;
+  const [mono] = createTestSignal(rate, quantumFrames(rate, 0.5));
+
+  const preview = renderPreview(createProcessor('speaker-processor', rate, {}), [mono], 2, mono.length);
+  const [exported] = speakerDsp.renderSpeakerDsp([mono], rate);
+
+  assert.ok(maxAbsDifference(preview[0], exported) <= 1e-7);
+  assert.ok(maxAbsDifference(preview[1], exported) <= 1e-7);
+});
+
+test('speaker settings posted to the preview take effect like in the DSP', () => {
+  const rate = 48000;
+  const frames = quantumFrames(rate, 0.5);
+  const input = createTestSignal(rate, frames);
+  const changeAt = 64 * RENDER_QUANTUM;
+  const changed = { lowpass: 2200, bitDepth: 4, distortion: 0, crushRate: 5000, mono: 100, noise: 20 };
+
+  const processor = createProcessor('speaker-processor', rate, speakerDsp.DEFAULT_SPEAKER_SETTINGS);
+  const preview = renderPreview(processor, input, 2, frames, (start) => {
+    if (start === changeAt) postToProcessor(processor, changed);
+  });
+
+  const dsp = new speakerDsp.SpeakerDsp(rate);
+  const expected = input.map((channel) => new Float32Array(channel.length));
+  dsp.process(input.map((channel) => channel.subarray(0, changeAt)), expected.map((channel) => channel.subarray(0, changeAt)));
+  dsp.setSettings(changed);
+  dsp.process(input.map((channel) => channel.subarray(changeAt)), expected.map((channel) => channel.subarray(changeAt)));
+
+  for (let channel = 0; channel < 2; channel++) {
+    assert.ok(maxAbsDifference(preview[channel], expected[channel]) <= 1e-7);
+  }
+});
+
+test('speaker bitcrusher holds samples at the set rate for any output rate', () => {
+  for (const crushRate of [4000, 8000]) {
+    for (const rate of [22050, 44100, 48000]) {
+      const [left] = createTestSignal(rate, rate);
+      const [crushed] = speakerDsp.renderSpeakerDsp([left], rate, { bitDepth: 16, distortion: 0, crushRate });
+
+      let changes = 0;
+      for (let i = 1; i < crushed.length; i++) {
+        if (crushed[i] !== crushed[i - 1]) changes++;
+      }
+      assert.ok(changes <= crushRate, `${crushRate} Hz at ${rate} Hz: ${changes} changes`);
+      assert.ok(changes > crushRate * 0.9, `${crushRate} Hz at ${rate} Hz: ${changes} changes`);
+    }
+  }
+});
+
+test('speaker mono fold-down makes the channels identical', () => {
+  const rate = 48000;
+  const input = createTestSignal(rate, quantumFrames(rate, 0.25));
+
+  const [left, right] = speakerDsp.renderSpeakerDsp(input, rate, { mono: 100, noise: 50 });
+  assert.equal(maxAbsDifference(left, right), 0);
+
+  const [stereoLeft, stereoRight] = speakerDsp.renderSpeakerDsp(input, rate, { mono: 0 });
+  assert.ok(maxAbsDifference(stereoLeft, stereoRight) > 0.1);
+});
+
+test('speaker hiss, resonance and limiter shape the output', () => {
+  const rate = 48000;
+  const frames = quantumFrames(rate, 0.5);
+  const flat = { bitDepth: 16, distortion: 0, crushRate: rate };
+
+  // Hiss is the only sound on a silent input, and repeats exactly
+  const silence = [new Float32Array(frames)];
+  const [hiss] = speakerDsp.renderSpeakerDsp(silence, rate, { ...flat, noise: 100 });
+  const [hissAgain] = speakerDsp.renderSpeakerDsp(silence, rate, { ...flat, noise: 100 });
+  assert.ok(rms(hiss) > 0.02 && rms(hiss) < 0.05, `hiss rms ${rms(hiss)}`);
+  assert.equal(maxAbsDifference(hiss, hissAgain), 0);
+  assert.equal(rms(speakerDsp.renderSpeakerDsp(silence, rate, flat)[0]), 0);
+
+  // The cone resonance lifts a tone near it
+  const tone = new Float32Array(frames).map((_, i) => 0.25 * Math.sin((2 * Math.PI * 1200 * i) / rate));
+  const [plain] = speakerDsp.renderSpeakerDsp([tone], rate, flat);
+  const [resonant] = speakerDsp.renderSpeakerDsp([tone], rate, { ...flat, resonance: 12 });
+  assert.ok(rms(resonant) > rms(plain) * 3, `${rms(resonant)} vs ${rms(plain)}`);
+
+  // The limiter holds peaks at its ceiling
+  const ceiling = 10 ** (-12 / 20);
+  const [limited] = speakerDsp.renderSpeakerDsp([tone], rate, { ...flat, resonance: 12, limiter: -12 });
+  const peak = limited.reduce((max, sample) => Math.max(max, Math.abs(sample)), 0);
+  assert.ok(peak <= ceiling + 1e-6, `peak ${peak}`);
+  assert.ok(peak > ceiling * 0.95, `peak ${peak}`);
+});
+
+test('apu preview worklet matches the export render', () => {
+  const rate = 48000;
+  const frames = quantumFrames(rate, 0.25);
+  const frame = dmgApu.createSilentApuFrame();
+  frame.pulse1 = { frequency: dmgApu.hzToPulseFrequency(440), duty: 1, volume: 12 };
+  frame.pulse2 = { frequency: dmgApu.hzToPulseFrequency(660), duty: 2, volume: 7 };
+  frame.wave = { frequency: dmgApu.hzToWaveFrequency(110), outputLevel: 1, table: frame.wave.table.map((_, i) => i >> 1) };
+  frame.noise = { shift: 3, divisor: 2, shortMode: true, volume: 5 };
+  const silenceAt = 48 * RENDER_QUANTUM;
+
+  const processor = createProcessor('apu-processor', rate);
+  postToProcessor(processor, frame);
+  const preview = renderPreview(processor, [], 2, frames, (start) => {
+    if (start === silenceAt) postToProcessor(processor, null);
+  });
+
+  const apu = new dmgApu.DmgApu(rate);
+  const expected = new Float32Array(frames);
+  apu.write(frame);
+  apu.render(expected, 0, silenceAt);
+  apu.write(dmgApu.createSilentApuFrame());
+  apu.render(expected, silenceAt);
+
+  assert.ok(rms(expected.subarray(0, silenceAt)) > 0.05);
+  assert.ok(maxAbsDifference(preview[0], expected) <= 1e-7);
+  assert.ok(maxAbsDifference(preview[1], expected) <= 1e-7);
+});
+
+test('audio track replaces or mixes with the source at its offset and fades', () => {
+  const rate = 1000;
+  const frames = 1000;
+  const source = [new Float32Array(frames).fill(0.25)];
+  const track = [new Float32Array(600).fill(0.5)];
+  const settings = { ...audioTrack.DEFAULT_AUDIO_TRACK_SETTINGS, offsetSec: 0.2 };
+  // The clip is the first second of video, so the track starts 0.2 s into it
+  const options = { sampleRate: rate, frames, clipStartSec: 0, clipEndSec: 1, trackStartFrame: 200 };
+
+  const [replaced, replacedRight] = audioTrack.mixAudioTrack(source, track, settings, options);
+  assert.equal(replaced[199], 0);
+  assert.equal(replaced[200], 0.5);
+  assert.equal(replaced[799], 0.5);
+  assert.equal(replaced[800], 0);
+  assert.equal(maxAbsDifference(replaced, replacedRight), 0);
+
+  const [mixed] = audioTrack.mixAudioTrack(source, track, { ...settings, mode: 'mix', gainDb: -6 }, options);
+  assert.equal(mixed[100], 0.25);
+  assert.ok(Math.abs(mixed[500] - (0.25 + 0.5 * 10 ** (-6 / 20))) < 1e-6);
+
+  const faded = { ...settings, fadeInSec: 0.5, fadeOutSec: 0.5 };
+  const [fadedOut] = audioTrack.mixAudioTrack(null, track, faded, options);
+  assert.ok(Math.abs(fadedOut[250] - 0.5 * 0.5) < 1e-6);
+  assert.ok(Math.abs(fadedOut[750] - 0.5 * 0.5) < 1e-6);
+  assert.equal(audioTrack.audioTrackGain(0.5, faded, 0, 1), 1);
+  assert.equal(audioTrack.audioTrackTime(1.5, settings), 1.3);
+});
+
+test('waveform bins measure peak and RMS across channels', () => {
+  const rate = waveform.WAVEFORM_SAMPLE_RATE;
+  const frames = rate;
+  // Quiet left half, a full-scale square wave on the right channel after it
+  const left = new Float32Array(frames).fill(0.1);
+  const right = new Float32Array(frames).map((_, i) => (i < frames / 2 ? 0 : (i % 2 ? -1 : 1)));
+
+  const { peaks, rms: rmsLevels } = waveform.computeWaveform([left, right], 4);
+  assert.equal(peaks.length, 4);
+  assert.ok(Math.abs(peaks[0] - 0.1) < 1e-6);
+  assert.ok(Math.abs(rmsLevels[0] - 0.1 / Math.SQRT2) < 1e-6);
+  assert.equal(peaks[3], 1);
+  assert.ok(Math.abs(rmsLevels[3] - Math.sqrt((0.01 + 1) / 2)) < 1e-6);
+
+  // More bins than frames still yields a level for every bin
+  const short = waveform.computeWaveform([new Float32Array([0.5, -0.25])], 5);
+  assert.ok(short.peaks.every((peak) => peak > 0));
+
+  assert.equal(waveform.levelToDb(1), 0);
+  assert.ok(Math.abs(waveform.levelToDb(0.5) + 6.0206) < 1e-3);
+  assert.equal(waveform.levelToDb(0), waveform.MIN_LEVEL_DB);
+  assert.deepEqual(waveform.measureLevels([]), { peak: 0, rms: 0 });
+});
+
@@ -0,0 +1,268 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { inflateSync } from 'node:zlib';
+import JSZip from 'jszip';
+import { bundleSourceModules } from './helpers.mjs';
+
+// Darkest to lightest, like the built-in palettes
+const DMG_PALETTE = [
+  [15, 56, 15],
+  [48, 98, 48],
+  [139, 172, 15],
+  [155, 188, 15],
+];
+
+// DMG shades run the other way (0 = lightest), so shade s is palette entry 3 - s
+function dmgShade(shade) {
+  return 3 - shade;
+}
+
+let aseprite;
+let gbTiles;
+let gif;
+let videoCodecs;
+
+// RGBA frame whose pixels are palette indices from shadeAt(x, y)
+function createFrame(width, height, palette, shadeAt) {
+  const pixels = new Uint8Array(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const offset = (y * width + x) * 4;
+      pixels.set([...palette[shadeAt(x, y)], 255], offset);
+    }
+  }
+  return { pixels, width, height, timestamp: 0 };
+}
+
+async function readZip(blob) {
+  return JSZip.loadAsync(await blob.arrayBuffer());
+}
+
+test.before(async () => {
+  ({ aseprite, gbTiles, gif, videoCodecs } = await bundleSourceModules('encoders', {
+    aseprite: 'src/processing/encoders/AsepriteEncoder.ts',
+    gbTiles: 'src/processing/encoders/GbTilesEncoder.ts',
+    gif: 'src/processing/encoders/GifEncoder.ts',
+    videoCodecs: 'src/processing/encoders/videoCodecs.ts',
+  }));
+});
+
+test('gb tiles pack 2bpp planes and deduplicate repeated tiles', async () => {
+  // Tile 0: one row per shade pattern; tile 1 repeats it; tile 2 is blank
+  const pattern = (x, y) => (y < 4 ? x % 4 : 3 - (x % 4));
+  const frame = createFrame(24, 8, DMG_PALETTE, (x, y) => dmgShade(x < 16 ? pattern(x % 8, y) : 0));
+  const zip = await readZip(await gbTiles.encodeGbTiles([frame], () => {}, {
+    palette: DMG_PALETTE,
+    processingDimensions: { width: 24, height: 8 },
+  }));
+
+  const tiles = await zip.file('tiles/frame_00001.2bpp').async('uint8array');
+  const map = await zip.file('maps/frame_00001.tilemap').async('uint8array');
+  assert.deepEqual(Array.from(map), [0, 0, 1]);
+  assert.equal(tiles.length, 32);
+
+  // Shades 0,1,2,3,0,1,2,3: low plane 0b01010101, high plane 0b00110011
+  assert.deepEqual(Array.from(tiles.subarray(0, 2)), [0x55, 0x33]);
+  // Shades 3,2,1,0,3,2,1,0: low plane 0b10101010, high plane 0b11001100
+  assert.deepEqual(Array.from(tiles.subarray(8, 10)), [0xaa, 0xcc]);
+  assert.ok(tiles.subarray(16).every((byte) => byte === 0));
+
+  const report = await zip.file('tile_report.txt').async('string');
+  assert.match(report, /frame_00001: 2 unique tiles \(ok\)/);
+});
+
+test('gb tiles rank inverted palettes by luminance', async () => {
+  const inverted = [...DMG_PALETTE].reverse();
+  const frame = createFrame(8, 8, inverted, () => 3);
+  const zip = await readZip(await gbTiles.encodeGbTiles([frame], () => {}, {
+    palette: inverted,
+    processingDimensions: { width: 8, height: 8 },
+  }));
+
+  // The darkest colour is shade 3 whatever its palette index
+  const tiles = await zip.file('tiles/frame_00001.2bpp').async('uint8array');
+  assert.ok(tiles.every((byte) => byte === 0xff));
+});
+
+test('gb tiles report frames over the tile limits', async () => {
+  // 20 x 18 tiles of distinct patterns: 360 unique tiles
+  const frame = createFrame(160, 144, DMG_PALETTE, (x, y) => {
+    const tile = Math.floor(y / 8) * 20 + Math.floor(x / 8);
+    const bit = (y % 8) * 8 + (x % 8);
+    return bit < 9 ? (tile >> bit) & 1 : 0;
+  });
+  const zip = await readZip(await gbTiles.encodeGbTiles([frame], () => {}, {
+    palette: DMG_PALETTE,
+    processingDimensions: { width: 160, height: 144 },
+  }));
+
+  const report = await zip.file('tile_report.txt').async('string');
+  assert.match(report, /frame_00001: 360 unique tiles \(over 256, needs a mid-frame tile-data switch\)/);
+  const tiles = await zip.file('tiles/frame_00001.2bpp').async('uint8array');
+  assert.equal(tiles.length, 360 * 16);
+});
+
+test('gb tiles reject off-palette pixels and frames of the wrong size', async () => {
+  const frame = createFrame(8, 8, DMG_PALETTE, () => 1);
+  frame.pixels.set([140, 172, 15], (3 * 8 + 5) * 4);
+
+  await assert.rejects(
+    gbTiles.encodeGbTiles([frame], () => {}, { palette: DMG_PALETTE, processingDimensions: { width: 8, height: 8 } }),
+    /pixel \(5, 3\) is #8cac0f/
+  );
+  await assert.rejects(
+    gbTiles.encodeGbTiles([frame], () => {}, { palette: DMG_PALETTE, processingDimensions: { width: 16, height: 8 } }),
+    /expects 16x8 frames, got 8x8/
+  );
+});
+
+test('gif output is deterministic and uses the bare palette as a 2-bit table', async () => {
+  const frames = [
+    createFrame(8, 8, DMG_PALETTE, (x, y) => (x + y) % 4),
+    createFrame(8, 8, DMG_PALETTE, (x, y) => (x < 4 && y < 4 ? 3 : (x + y) % 4)),
+  ];
+  const encode = async () => new Uint8Array(await (await gif.encodeGif(
+    frames,
+    10,
+    () => {},
+    { palette: DMG_PALETTE, loopCount: 2, frameDelaysMs: [100, 250] },
+    { mode: 'scale', scale: 1 }
+  )).arrayBuffer());
+
+  const bytes = await encode();
+  assert.deepEqual(await encode(), bytes);
+
+  const ascii = (start, length) => String.fromCharCode(...bytes.subarray(start, start + length));
+  const uint16 = (offset) => bytes[offset] | (bytes[offset + 1] << 8);
+  assert.equal(ascii(0, 6), 'GIF89a');
+  assert.equal(uint16(6), 8);
+  assert.equal(uint16(8), 8);
+  // Global table of 2^(1 + 1) entries: exactly the palette, in order
+  assert.equal(bytes[10], 0x91);
+  assert.deepEqual(Array.from(bytes.subarray(13, 25)), DMG_PALETTE.flat());
+
+  assert.equal(ascii(28, 11), 'NETSCAPE2.0');
+  assert.equal(uint16(41), 2);
+
+  // First graphic control extension, then the image's 2-bit LZW minimum code size
+  assert.deepEqual(Array.from(bytes.subarray(44, 47)), [0x21, 0xf9, 4]);
+  assert.equal(uint16(48), 10);
+  assert.equal(bytes[52], 0x2c);
+  assert.equal(bytes[62], 2);
+
+  // Second frame: only the changed 4x4 corner, held for 250 ms
+  const second = bytes.findIndex((byte, i) => i > 62 && byte === 0x21 && bytes[i + 1] === 0xf9 && bytes[i + 2] === 4);
+  assert.ok(second > 0);
+  assert.equal(uint16(second + 4), 25);
+  const descriptor = second + 8;
+  assert.equal(bytes[descriptor], 0x2c);
+  assert.deepEqual([uint16(descriptor + 1), uint16(descriptor + 3), uint16(descriptor + 5), uint16(descriptor + 7)], [0, 0, 4, 4]);
+  assert.equal(bytes[bytes.length - 1], 0x3b);
+});
+
+// Frames of an .aseprite file, each with its header fields and chunks
+function readAsepriteFrames(bytes, frameCount) {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const frames = [];
+  let offset = 128;
+
+  for (let i = 0; i < frameCount; i++) {
+    const size = view.getUint32(offset, true);
+    const frame = {
+      size,
+      magic: view.getUint16(offset + 4, true),
+      oldChunkCount: view.getUint16(offset + 6, true),
+      durationMs: view.getUint16(offset + 8, true),
+      chunkCount: view.getUint32(offset + 12, true),
+      chunks: [],
+    };
+
+    let chunkOffset = offset + 16;
+    while (chunkOffset < offset + size) {
+      const chunkSize = view.getUint32(chunkOffset, true);
+      frame.chunks.push({
+        size: chunkSize,
+        type: view.getUint16(chunkOffset + 4, true),
+        data: bytes.subarray(chunkOffset + 6, chunkOffset + chunkSize),
+      });
+      chunkOffset += chunkSize;
+    }
+    assert.equal(chunkOffset, offset + size, `frame ${i} chunks overrun the frame`);
+
+    frames.push(frame);
+    offset += size;
+  }
+
+  assert.equal(offset, bytes.length);
+  return frames;
+}
+
+test('aseprite files round-trip their header, chunks and palette', async () => {
+  const shades = (x, y) => (x + y) % 4;
+  const frames = [
+    createFrame(8, 4, DMG_PALETTE, shades),
+    createFrame(8, 4, DMG_PALETTE, (x, y) => 3 - shades(x, y)),
+    createFrame(8, 4, DMG_PALETTE, (x, y) => 3 - shades(x, y)),
+  ];
+  const bytes = new Uint8Array(await (await aseprite.encodeAseprite(frames, 10, () => {}, { palette: DMG_PALETTE })).arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  assert.equal(view.getUint32(0, true), bytes.length);
+  assert.equal(view.getUint16(4, true), 0xa5e0);
+  assert.equal(view.getUint16(6, true), 3);
+  assert.equal(view.getUint16(8, true), 8);
+  assert.equal(view.getUint16(10, true), 4);
+  assert.equal(view.getUint16(12, true), 8);
+  assert.equal(view.getUint16(32, true), 4);
+
+  const parsed = readAsepriteFrames(bytes, 3);
+  for (const frame of parsed) {
+    assert.equal(frame.magic, 0xf1fa);
+    assert.equal(frame.durationMs, 100);
+    assert.equal(frame.chunkCount, frame.chunks.length);
+    assert.equal(frame.oldChunkCount, frame.chunks.length);
+  }
+  // Colour profile, palette and layer lead the first frame; every frame has one cel
+  assert.deepEqual(parsed[0].chunks.map((chunk) => chunk.type), [0x2007, 0x2019, 0x2004, 0x2005]);
+  assert.deepEqual(parsed[1].chunks.map((chunk) => chunk.type), [0x2005]);
+
+  const palette = parsed[0].chunks[1].data;
+  const paletteView = new DataView(palette.buffer, palette.byteOffset, palette.byteLength);
+  assert.deepEqual([0, 4, 8].map((at) => paletteView.getUint32(at, true)), [4, 0, 3]);
+  const entries = Array.from({ length: 4 }, (_, i) => Array.from(palette.subarray(20 + i * 6 + 2, 20 + i * 6 + 6)));
+  assert.deepEqual(entries, DMG_PALETTE.map((color) => [...color, 255]));
+
+  // Cel type sits after layer index, x, y and opacity
+  const celType = (frame) => frame.chunks.at(-1).data[7] | (frame.chunks.at(-1).data[8] << 8);
+  const firstCel = parsed[0].chunks.at(-1).data;
+  assert.equal(celType(parsed[0]), 2);
+  assert.deepEqual([firstCel[16] | (firstCel[17] << 8), firstCel[18] | (firstCel[19] << 8)], [8, 4]);
+  const indices = inflateSync(firstCel.subarray(20));
+  assert.deepEqual(Array.from(indices), Array.from({ length: 32 }, (_, i) => shades(i % 8, Math.floor(i / 8))));
+
+  // The repeated third frame links back to the second
+  assert.equal(celType(parsed[1]), 2);
+  assert.equal(celType(parsed[2]), 1);
+  const linked = parsed[2].chunks.at(-1).data;
+  assert.equal(linked[16] | (linked[17] << 8), 1);
+});
+
+test('h264 codec strings carry the level the output size needs', () => {
+  const { getAvcLevel, getWebCodecsCodecString } = videoCodecs;
+
+  assert.equal(getAvcLevel(256, 144, 30), 0x1f);
+  // NES preset at 4x: 3840 macroblocks, over level 3.1's 3600
+  assert.equal(getAvcLevel(1024, 960, 30), 0x20);
+  assert.equal(getAvcLevel(1920, 1080, 30), 0x28);
+  assert.equal(getAvcLevel(1920, 1080, 60), 0x2a);
+  assert.equal(getAvcLevel(3840, 2160, 30), 0x33);
+  assert.equal(getAvcLevel(3840, 2160, 60), 0x34);
+  // A 16:1 strip fits level 3.1's frame size but not its side limit
+  assert.equal(getAvcLevel(2720, 160, 30), 0x20);
+
+  assert.equal(getWebCodecsCodecString('h264', 160, 144, 30), 'avc1.42001f');
+  assert.equal(getWebCodecsCodecString('h264', 3840, 2160, 60), 'avc1.420034');
+  assert.equal(getWebCodecsCodecString('vp9', 3840, 2160, 60), videoCodecs.VIDEO_CODEC_INFO.vp9.webCodecsCodec);
+  assert.equal(getWebCodecsCodecString('ffv1', 160, 144, 30), null);
+});
+
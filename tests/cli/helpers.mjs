@@ -1,5 +1,5 @@
 import { spawn, execFileSync } from 'node:child_process';
-import { fileURLToPath } from 'node:url';
+import { fileURLToPath, pathToFileURL } from 'node:url';
 import path from 'node:path';
 import fs from 'node:fs/promises';
 
@@ -144,3 +144,37 @@ export async function runCli(args) {
     events,
   };
 }
+
+/**
+ * Bundle src/ modules with Vite into tests/tmp/<name> and import them, so
+ * pure modules can be tested in Node without Electron. Entries map a module
+ * name to a path relative to the project root.
+ */
+export async function bundleSourceModules(name, entries) {
+  const { build } = await import('vite');
+  const outDir = path.join(PROJECT_ROOT, 'tests/tmp', name);
+
+  await build({
+    configFile: false,
+    logLevel: 'silent',
+    build: {
+      outDir,
+      emptyOutDir: true,
+      minify: false,
+      lib: {
+        entry: Object.fromEntries(
+          Object.entries(entries).map(([entryName, entryPath]) => [entryName, path.join(PROJECT_ROOT, entryPath)])
+        ),
+        formats: ['es'],
+        fileName: (_format, entryName) => `${entryName}.mjs`,
+      },
+    },
+  });
+
+  const modules = {};
+  for (const entryName of Object.keys(entries)) {
+    modules[entryName] = await import(pathToFileURL(path.join(outDir, `${entryName}.mjs`)).href);
+  }
+  return modules;
+}
+
@@ -83,3 +83,105 @@ test('inspect resolves explicit crop settings', async () => {
   const ratio = (crop.width * inspectEvent.source.width) / (crop.height * inspectEvent.source.height);
   assert.ok(Math.abs(ratio - (8 / 7)) < 0.001);
 });
+
+test('inspect loads palette from settings.paletteFile', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/inspect-palette-file-'));
+  const jobPath = path.join(tempDir, 'inspect-palette-file-job.json');
+  const palettePath = path.join(tempDir, 'palette.gpl');
+
+  await fs.writeFile(palettePath, [
+    'GIMP Palette',
+    'Name: Six Shades',
+    '#',
+    '  0   0   0',
+    ' 51  51  51',
+    '102 102 102',
+    '153 153 153',
+    '204 204 204',
+    '255 255 255',
+  ].join('\n'));
+
+  await fs.writeFile(jobPath, JSON.stringify({
+    schemaVersion: 1,
+    inputPath: fixtureVideo,
+    modeConfig: { format: 'mp4' },
+    settings: {
+      palette: 'PocketGrey',
+      paletteFile: palettePath,
+    },
+  }, null, 2));
+
+  const result = await runCli(['inspect', '--job', jobPath]);
+  assert.equal(result.code, 0, `stdout:\n${result.stdout}\n\nstderr:\n${result.stderr}`);
+
+  const inspectEvent = result.events.find((event) => event.type === 'inspect_result');
+  assert.ok(inspectEvent, 'missing inspect_result event');
+  assert.match(inspectEvent.resolvedSettings.processing.palette, /^custom-/);
+});
+
+test('inspect reports letterboxed output for fit resolutions', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/inspect-fit-'));
+  const jobPath = path.join(tempDir, 'inspect-fit-job.json');
+
+  await fs.writeFile(jobPath, JSON.stringify({
+    schemaVersion: 1,
+    inputPath: fixtureVideo,
+    modeConfig: { format: 'mp4', resolution: { mode: 'fit', target: '1080p' } },
+  }, null, 2));
+
+  const result = await runCli(['inspect', '--job', jobPath]);
+  assert.equal(result.code, 0, `stdout:\n${result.stdout}\n\nstderr:\n${result.stderr}`);
+
+  const validated = result.events.find((event) => event.type === 'job_validated');
+  assert.deepEqual(validated.resolution, { mode: 'fit', target: '1080p' });
+  assert.equal(validated.dimensions.output.width, 1920);
+  assert.equal(validated.dimensions.output.height, 1080);
+});
+
+test('inspect resolves processing resolution presets', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/inspect-preset-'));
+  const jobPath = path.join(tempDir, 'inspect-preset-job.json');
+
+  await fs.writeFile(jobPath, JSON.stringify({
+    schemaVersion: 1,
+    inputPath: fixtureVideo,
+    modeConfig: { format: 'mp4', resolution: { mode: 'scale', scale: 1 } },
+    settings: {
+      processingResolution: { preset: 'gba', policy: 'fit' },
+    },
+  }, null, 2));
+
+  const result = await runCli(['inspect', '--job', jobPath]);
+  assert.equal(result.code, 0, `stdout:\n${result.stdout}\n\nstderr:\n${result.stderr}`);
+
+  const inspectEvent = result.events.find((event) => event.type === 'inspect_result');
+  assert.ok(inspectEvent, 'missing inspect_result event');
+  assert.equal(inspectEvent.resolvedSettings.processing.processingResolution.preset, 'gba');
+  assert.equal(inspectEvent.resolvedSettings.processing.processingResolution.policy, 'fit');
+  assert.deepEqual(inspectEvent.dimensions.processing, { width: 240, height: 160 });
+  assert.deepEqual(inspectEvent.dimensions.output, { width: 240, height: 160 });
+});
+
+test('inspect sizes output to the frame border', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/inspect-border-'));
+  const jobPath = path.join(tempDir, 'inspect-border-job.json');
+
+  await fs.writeFile(jobPath, JSON.stringify({
+    schemaVersion: 1,
+    inputPath: fixtureVideo,
+    modeConfig: { format: 'mp4', resolution: { mode: 'scale', scale: 2 } },
+    settings: {
+      processingResolution: { preset: 'dmg' },
+      frameBorder: 'superGameBoy',
+    },
+  }, null, 2));
+
+  const result = await runCli(['inspect', '--job', jobPath]);
+  assert.equal(result.code, 0, `stdout:\n${result.stdout}\n\nstderr:\n${result.stderr}`);
+
+  const inspectEvent = result.events.find((event) => event.type === 'inspect_result');
+  assert.ok(inspectEvent, 'missing inspect_result event');
+  assert.equal(inspectEvent.resolvedSettings.processing.frameBorder, 'superGameBoy');
+  assert.deepEqual(inspectEvent.dimensions.processing, { width: 160, height: 144 });
+  assert.deepEqual(inspectEvent.dimensions.output, { width: 512, height: 448 });
+});
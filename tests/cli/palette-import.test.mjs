@@ -0,0 +1,135 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { bundleSourceModules } from './helpers.mjs';
+
+let paletteImport;
+
+function luminance([r, g, b]) {
+  return 0.299 * r + 0.587 * g + 0.114 * b;
+}
+
+function assertDarkToLight(colors) {
+  for (let i = 1; i < colors.length; i++) {
+    assert.ok(luminance(colors[i - 1]) <= luminance(colors[i]), `colour ${i} is darker than colour ${i - 1}`);
+  }
+}
+
+// Grey ramp from black to white in shuffled order (count must not be a multiple of 7)
+function shuffledGreys(count) {
+  const greys = Array.from({ length: count }, (_, i) => {
+    const value = Math.round((i * 255) / (count - 1));
+    return [value, value, value];
+  });
+  return greys.map((_, i) => greys[(i * 7) % count]);
+}
+
+test.before(async () => {
+  ({ paletteImport } = await bundleSourceModules('palette-import', {
+    paletteImport: 'src/palettes/import.ts',
+  }));
+});
+
+test('jasc palettes parse with a BOM and CRLF line endings', () => {
+  const text = '\uFEFFJASC-PAL\r\n0100\r\n4\r\n15 56 15\r\n48 98 48\r\n139 172 15\r\n155 188 15\r\n';
+  const imported = paletteImport.parsePaletteFile('dmg.pal', text);
+
+  assert.equal(imported.format, 'jasc');
+  assert.equal(imported.name, 'dmg');
+  assert.deepEqual(imported.colors, [[15, 56, 15], [48, 98, 48], [139, 172, 15], [155, 188, 15]]);
+  assert.deepEqual(imported.warnings, []);
+});
+
+test('jasc colour count mismatch is returned as a warning', () => {
+  const text = 'JASC-PAL\n0100\n3\n0 0 0\n255 255 255\n';
+  const imported = paletteImport.parsePaletteFile('short.pal', text);
+
+  assert.deepEqual(imported.colors, [[0, 0, 0], [255, 255, 255]]);
+  assert.deepEqual(imported.warnings, ['JASC palette declares 3 colours but contains 2']);
+});
+
+test('jasc palettes reject invalid colour entries', () => {
+  assert.throws(
+    () => paletteImport.parsePaletteFile('bad.pal', 'JASC-PAL\n0100\n1\n0 0 300\n'),
+    { name: 'PaletteImportError', message: /Invalid colour entry in JASC palette/ }
+  );
+});
+
+test('gimp palettes read the name and skip comments and columns', () => {
+  const text = [
+    'GIMP Palette',
+    'Name: Pocket Grey',
+    'Columns: 4',
+    '# exported by hand',
+    '  0   0   0\tBlack',
+    '255 255 255\tWhite',
+    '',
+  ].join('\r\n');
+  const imported = paletteImport.parsePaletteFile('grey.gpl', text);
+
+  assert.equal(imported.format, 'gimp');
+  assert.equal(imported.name, 'Pocket Grey');
+  assert.deepEqual(imported.colors, [[0, 0, 0], [255, 255, 255]]);
+});
+
+test('hex lists parse with or without hashes and reject invalid hex', () => {
+  const imported = paletteImport.parsePaletteFile('duo.hex', '\uFEFF; comment\r\n#0f380f\r\n9bbc0f\r\n');
+  assert.equal(imported.format, 'hex');
+  assert.deepEqual(imported.colors, [[15, 56, 15], [155, 188, 15]]);
+
+  assert.throws(
+    () => paletteImport.parsePaletteFile('bad.hex', '0f380f\nnot-a-colour\n'),
+    { name: 'PaletteImportError', message: /Invalid hex colour: "not-a-colour"/ }
+  );
+  assert.throws(
+    () => paletteImport.parsePaletteFile('empty.hex', '; nothing here\n'),
+    { name: 'PaletteImportError', message: /no colours/ }
+  );
+});
+
+test('lospec json parses with a BOM and rejects invalid colours', () => {
+  const text = `\uFEFF${JSON.stringify({ name: 'Lospec Duo', colors: ['0f380f', '9bbc0f'] })}`;
+  const imported = paletteImport.parsePaletteFile('duo.json', text);
+
+  assert.equal(imported.format, 'lospec');
+  assert.equal(imported.name, 'Lospec Duo');
+  assert.deepEqual(imported.colors, [[15, 56, 15], [155, 188, 15]]);
+
+  // Unknown extension is sniffed from the content
+  assert.equal(paletteImport.parsePaletteFile('duo.txt', text).format, 'lospec');
+
+  assert.throws(
+    () => paletteImport.parsePaletteFile('bad.json', JSON.stringify({ colors: ['0f380f', 'zzzzzz'] })),
+    { name: 'PaletteImportError', message: /Invalid hex colour in Lospec palette/ }
+  );
+});
+
+test('auto reduce keeps the darkest and lightest of more than 16 colours, ordered dark to light', () => {
+  const colors = shuffledGreys(20);
+  const reduced = paletteImport.autoReducePalette(colors);
+
+  assert.equal(reduced.length, 16);
+  assert.deepEqual(reduced[0], [0, 0, 0]);
+  assert.deepEqual(reduced[15], [255, 255, 255]);
+  assert.equal(new Set(reduced.map((color) => color.join(','))).size, 16);
+  assertDarkToLight(reduced);
+});
+
+test('auto reduce stretches short lists and orders them dark to light', () => {
+  const reduced = paletteImport.autoReducePalette([[255, 255, 255], [0, 0, 0], [128, 128, 128]], 4);
+
+  assert.equal(reduced.length, 4);
+  assert.deepEqual(reduced[0], [0, 0, 0]);
+  assert.deepEqual(reduced[3], [255, 255, 255]);
+  assertDarkToLight(reduced);
+});
+
+test('only non-palette-size colour counts need a selection step', () => {
+  const withCount = (count) => ({ name: 'Test', format: 'hex', colors: shuffledGreys(count), warnings: [] });
+
+  for (const count of [2, 4, 8, 16]) {
+    assert.equal(paletteImport.needsColorSelection(withCount(count)), false, `${count} colours`);
+  }
+  for (const count of [3, 5, 12, 20]) {
+    assert.equal(paletteImport.needsColorSelection(withCount(count)), true, `${count} colours`);
+  }
+});
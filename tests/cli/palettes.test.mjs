@@ -0,0 +1,98 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { bundleSourceModules } from './helpers.mjs';
+
+let palettes;
+let storage;
+
+// Stands in for the Electron bridge: palettes:save writes the same JSON file
+// body as electron/main.ts and palettes:load parses it back
+function installPaletteFile(initialText = null) {
+  const file = { text: initialText };
+  globalThis.window = {
+    electronAPI: {
+      loadCustomPalettes: async () => {
+        if (file.text === null) return { success: true, palettes: [] };
+        const parsed = JSON.parse(file.text);
+        return { success: true, palettes: Array.isArray(parsed?.palettes) ? parsed.palettes : [] };
+      },
+      saveCustomPalettes: async (saved) => {
+        file.text = `${JSON.stringify({ version: 1, palettes: saved }, null, 2)}\n`;
+        return { success: true };
+      },
+    },
+  };
+  return file;
+}
+
+test.before(async () => {
+  ({ palettes, storage } = await bundleSourceModules('palettes', {
+    palettes: 'src/palettes/index.ts',
+    storage: 'src/palettes/storage.ts',
+  }));
+});
+
+test.afterEach(() => {
+  delete globalThis.window;
+});
+
+test('custom palettes survive a save and load round trip', async () => {
+  const file = installPaletteFile();
+  const saved = [
+    { id: 'custom-pocket', name: 'Pocket', colors: [[0, 0, 0], [85, 85, 85], [170, 170, 170], [255, 255, 255]] },
+    { id: 'custom-duo', name: 'Duo', colors: [[16, 32, 48], [240, 224, 208]] },
+  ];
+
+  await storage.saveStoredCustomPalettes(saved);
+  assert.match(file.text, /"version": 1/);
+  assert.deepEqual(await storage.loadStoredCustomPalettes(), saved);
+});
+
+test('custom palettes load as empty without the bridge and as null when the file fails', async () => {
+  globalThis.window = {};
+  assert.deepEqual(await storage.loadStoredCustomPalettes(), []);
+
+  globalThis.window = {
+    electronAPI: {
+      loadCustomPalettes: async () => ({ success: false, error: 'EACCES' }),
+    },
+  };
+  // Not an empty list: callers must not save over a file they couldn't read
+  assert.equal(await storage.loadStoredCustomPalettes(), null);
+});
+
+test('stored palettes with bad colour values are dropped or clamped', async () => {
+  installPaletteFile(JSON.stringify({
+    version: 1,
+    palettes: [
+      { id: 'custom-clamped', name: '  Clamped  ', colors: [[300, -5, 12.6], [0, 0, 0]] },
+      { id: 'custom-string', name: 'String', colors: [['255', 0, 0], [0, 0, 0]] },
+      { id: 'custom-nan', name: 'NaN', colors: [[null, 0, 0], [0, 0, 0]] },
+      { id: 'custom-short', name: 'Short', colors: [[255, 0], [0, 0, 0]] },
+      { id: 'custom-hex', name: 'Hex', colors: ['#ffffff', [0, 0, 0]] },
+      { id: 'custom-unnamed', name: '   ', colors: [[1, 2, 3], [4, 5, 6]] },
+    ],
+  }));
+
+  assert.deepEqual(await storage.loadStoredCustomPalettes(), [
+    { id: 'custom-clamped', name: 'Clamped', colors: [[255, 0, 13], [0, 0, 0]] },
+    { id: 'custom-unnamed', name: 'Custom Palette', colors: [[1, 2, 3], [4, 5, 6]] },
+  ]);
+});
+
+test('stored palettes outside the supported sizes or with bad ids are dropped', () => {
+  const colors = (count) => Array.from({ length: count }, (_, i) => [i, i, i]);
+  const sanitized = palettes.sanitizeCustomPalettes([
+    ...[1, 2, 3, 4, 8, 15, 16, 17, 32].map((count) => ({ id: `custom-${count}`, name: `${count}`, colors: colors(count) })),
+    { id: 'builtin-4', name: 'No prefix', colors: colors(4) },
+    { id: 'custom-4', name: 'Duplicate id', colors: colors(4) },
+    { name: 'No id', colors: colors(4) },
+    null,
+    'custom-text',
+  ]);
+
+  assert.deepEqual(sanitized.map((palette) => palette.id), ['custom-2', 'custom-4', 'custom-8', 'custom-16']);
+  assert.equal(sanitized[1].name, '4');
+  assert.equal(sanitized[3].colors.length, palettes.MAX_PALETTE_SIZE);
+  assert.deepEqual(palettes.sanitizeCustomPalettes({ palettes: [] }), []);
+});
@@ -3,6 +3,8 @@ import assert from 'node:assert/strict';
 import path from 'node:path';
 import fs from 'node:fs/promises';
 import crypto from 'node:crypto';
+import { inflateSync } from 'node:zlib';
+import JSZip from 'jszip';
 import { buildAppOnce, runCli, PROJECT_ROOT } from './helpers.mjs';
 
 const fixtureVideo = path.join(PROJECT_ROOT, 'tests/fixtures/tiny-sample.mp4');
@@ -11,6 +13,75 @@ function hashBuffer(buffer) {
   return crypto.createHash('sha256').update(buffer).digest('hex');
 }
 
+// The GPU stores diffused values at 8 bits per channel, so a few palette
+// decisions near a threshold can flip relative to the CPU's float buffer
+const MAX_BACKEND_PIXEL_MISMATCH = 0.02;
+
+// Decodes the 8-bit RGBA, non-interlaced PNGs that canvas.toBlob writes
+function readPngPixels(buffer) {
+  const width = buffer.readUInt32BE(16);
+  const height = buffer.readUInt32BE(20);
+  assert.equal(buffer[24], 8, 'PNG bit depth');
+  assert.equal(buffer[25], 6, 'PNG colour type');
+
+  const idat = [];
+  for (let offset = 8; offset < buffer.length;) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('ascii', offset + 4, offset + 8);
+    if (type === 'IDAT') idat.push(buffer.subarray(offset + 8, offset + 8 + length));
+    offset += 12 + length;
+  }
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const stride = width * 4;
+  const pixels = new Uint8Array(stride * height);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const row = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+    for (let x = 0; x < stride; x++) {
+      const a = x >= 4 ? pixels[y * stride + x - 4] : 0;
+      const b = y > 0 ? pixels[(y - 1) * stride + x] : 0;
+      const c = x >= 4 && y > 0 ? pixels[(y - 1) * stride + x - 4] : 0;
+      let predictor = 0;
+      if (filter === 1) predictor = a;
+      else if (filter === 2) predictor = b;
+      else if (filter === 3) predictor = (a + b) >> 1;
+      else if (filter === 4) {
+        const p = a + b - c;
+        const pa = Math.abs(p - a);
+        const pb = Math.abs(p - b);
+        const pc = Math.abs(p - c);
+        predictor = pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+      }
+      pixels[y * stride + x] = (row[x] + predictor) & 0xff;
+    }
+  }
+
+  return { width, height, pixels };
+}
+
+// 16-bit mono PCM WAV holding a sine tone
+async function writeToneWav(filePath, frequency, seconds, rate = 22050) {
+  const frames = Math.round(rate * seconds);
+  const buffer = Buffer.alloc(44 + frames * 2);
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + frames * 2, 4);
+  buffer.write('WAVEfmt ', 8);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20);
+  buffer.writeUInt16LE(1, 22);
+  buffer.writeUInt32LE(rate, 24);
+  buffer.writeUInt32LE(rate * 2, 28);
+  buffer.writeUInt16LE(2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(frames * 2, 40);
+  for (let i = 0; i < frames; i++) {
+    buffer.writeInt16LE(Math.round(16000 * Math.sin((2 * Math.PI * frequency * i) / rate)), 44 + i * 2);
+  }
+  await fs.writeFile(filePath, buffer);
+}
+
 async function runJob(tempDir, outputName, settings) {
   const outputPath = path.join(tempDir, outputName);
   const jobPath = path.join(tempDir, `${outputName}.json`);
@@ -36,6 +107,34 @@ async function runJob(tempDir, outputName, settings) {
   return hashBuffer(data);
 }
 
+// Renders a 1x sprite sheet so the exported pixels are the dithered frames
+async function renderSheetPixels(tempDir, outputName, settings) {
+  const outputPath = path.join(tempDir, outputName);
+  const jobPath = path.join(tempDir, `${outputName}.json`);
+
+  await fs.writeFile(jobPath, JSON.stringify({
+    schemaVersion: 1,
+    inputPath: fixtureVideo,
+    outputPath,
+    modeConfig: {
+      format: 'spritesheet',
+      resolution: { mode: 'scale', scale: 1 },
+      spriteSheet: { layout: 'grid' },
+    },
+    settings: {
+      targetFps: 10,
+      trim: { startSec: 0, endSec: 0.3 },
+      ...settings,
+    },
+  }, null, 2));
+  const result = await runCli(['run', '--job', jobPath]);
+
+  assert.equal(result.code, 0, `stdout:\n${result.stdout}\n\nstderr:\n${result.stderr}`);
+
+  const zip = await JSZip.loadAsync(await fs.readFile(outputPath));
+  return readPngPixels(await zip.file('sheet.png').async('nodebuffer'));
+}
+
 test.before(async () => {
   await buildAppOnce();
 });
@@ -144,3 +243,250 @@ test('game boy camera crop region changes exported output', async () => {
 
   assert.notEqual(centeredHash, tightHash);
 });
+
+test('palette size changes exported output', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/parity-palette-size-'));
+  const fourColorHash = await runJob(tempDir, 'four-color.mp4', {
+    ditherMode: 'bayer4x4',
+    palette: 'PocketGrey',
+    lcd: { enabled: false },
+  });
+
+  const oneBitHash = await runJob(tempDir, 'one-bit.mp4', {
+    ditherMode: 'bayer4x4',
+    palette: 'Mac1Bit',
+    lcd: { enabled: false },
+  });
+
+  assert.notEqual(fourColorHash, oneBitHash);
+});
+
+test('game boy color output differs from bayer4x4', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/parity-gbc-'));
+  const bayerHash = await runJob(tempDir, 'bayer.mp4', {
+    ditherMode: 'bayer4x4',
+    lcd: { enabled: false },
+  });
+
+  const gbcHash = await runJob(tempDir, 'gbc.mp4', {
+    ditherMode: 'gameBoyColor',
+    lcd: { enabled: false },
+  });
+
+  assert.notEqual(bayerHash, gbcHash);
+});
+
+test('perceptual color metric changes exported output', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/parity-color-metric-'));
+  const luminanceHash = await runJob(tempDir, 'luminance.mp4', {
+    ditherMode: 'floydSteinberg',
+    palette: 'Sepia8',
+    colorMetric: 'luminance',
+    lcd: { enabled: false },
+  });
+
+  const oklabHash = await runJob(tempDir, 'oklab.mp4', {
+    ditherMode: 'floydSteinberg',
+    palette: 'Sepia8',
+    colorMetric: 'oklab',
+    lcd: { enabled: false },
+  });
+
+  assert.notEqual(luminanceHash, oklabHash);
+});
+
+test('atkinson output differs from floyd steinberg', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/parity-atkinson-'));
+  const floydHash = await runJob(tempDir, 'floyd.mp4', {
+    ditherMode: 'floydSteinberg',
+    lcd: { enabled: false },
+  });
+
+  const atkinsonHash = await runJob(tempDir, 'atkinson.mp4', {
+    ditherMode: 'atkinson',
+    lcd: { enabled: false },
+  });
+
+  assert.notEqual(floydHash, atkinsonHash);
+});
+
+test('serpentine scanning changes error diffusion output', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/parity-serpentine-'));
+  const rasterHash = await runJob(tempDir, 'raster.mp4', {
+    ditherMode: 'stucki',
+    serpentine: false,
+    lcd: { enabled: false },
+  });
+
+  const serpentineHash = await runJob(tempDir, 'serpentine.mp4', {
+    ditherMode: 'stucki',
+    serpentine: true,
+    lcd: { enabled: false },
+  });
+
+  assert.notEqual(rasterHash, serpentineHash);
+});
+
+test('threshold matrix choice changes exported output', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/parity-threshold-'));
+  const bayerHash = await runJob(tempDir, 'bayer8x8.mp4', {
+    ditherMode: 'thresholdMatrix',
+    thresholdMatrix: 'bayer8x8',
+    lcd: { enabled: false },
+  });
+
+  const blueNoiseHash = await runJob(tempDir, 'blue-noise.mp4', {
+    ditherMode: 'thresholdMatrix',
+    thresholdMatrix: 'blueNoise',
+    lcd: { enabled: false },
+  });
+
+  assert.notEqual(bayerHash, blueNoiseHash);
+});
+
+test('custom threshold matrix file is applied', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/parity-threshold-file-'));
+  const matrixPath = path.join(tempDir, 'matrix.json');
+  await fs.writeFile(matrixPath, JSON.stringify([[0, 2], [3, 1]]));
+
+  const bayerHash = await runJob(tempDir, 'bayer8x8.mp4', {
+    ditherMode: 'thresholdMatrix',
+    thresholdMatrix: 'bayer8x8',
+    lcd: { enabled: false },
+  });
+
+  const customHash = await runJob(tempDir, 'custom.mp4', {
+    ditherMode: 'thresholdMatrix',
+    thresholdMatrixFile: matrixPath,
+    lcd: { enabled: false },
+  });
+
+  assert.notEqual(bayerHash, customHash);
+});
+
+test('temporal coherence changes exported output', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/parity-temporal-'));
+  const flickerHash = await runJob(tempDir, 'flicker.mp4', {
+    ditherMode: 'floydSteinberg',
+    temporalCoherence: false,
+    lcd: { enabled: false },
+  });
+
+  const stableHash = await runJob(tempDir, 'stable.mp4', {
+    ditherMode: 'floydSteinberg',
+    temporalCoherence: true,
+    temporalThreshold: 0.2,
+    lcd: { enabled: false },
+  });
+
+  assert.notEqual(flickerHash, stableHash);
+});
+
+test('apu audio mode changes exported output', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/parity-audio-mode-'));
+  const speakerHash = await runJob(tempDir, 'speaker.mp4', {
+    ditherMode: 'bayer4x4',
+    enableAudioBitcrush: true,
+    audio: { mode: 'speaker' },
+    lcd: { enabled: false },
+  });
+
+  const apuHash = await runJob(tempDir, 'apu.mp4', {
+    ditherMode: 'bayer4x4',
+    enableAudioBitcrush: true,
+    audio: { mode: 'apu' },
+    lcd: { enabled: false },
+  });
+
+  assert.notEqual(speakerHash, apuHash);
+});
+
+test('speaker character settings change exported output', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/parity-audio-speaker-'));
+  const plainHash = await runJob(tempDir, 'plain.mp4', {
+    ditherMode: 'bayer4x4',
+    enableAudioBitcrush: true,
+    audio: { mode: 'speaker' },
+    lcd: { enabled: false },
+  });
+
+  const characterHash = await runJob(tempDir, 'character.mp4', {
+    ditherMode: 'bayer4x4',
+    enableAudioBitcrush: true,
+    audio: { mode: 'speaker', crushRate: 4000, resonance: 9, mono: 100, noise: 40, limiter: -6 },
+    lcd: { enabled: false },
+  });
+
+  assert.notEqual(plainHash, characterHash);
+});
+
+test('audio track replaces or mixes with the exported audio', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/parity-audio-track-'));
+  const trackPath = path.join(tempDir, 'tone.wav');
+  await writeToneWav(trackPath, 440, 1);
+  const baseSettings = {
+    ditherMode: 'bayer4x4',
+    lcd: { enabled: false },
+  };
+
+  const sourceHash = await runJob(tempDir, 'source.mp4', baseSettings);
+  const replaceHash = await runJob(tempDir, 'replace.mp4', {
+    ...baseSettings,
+    audioTrack: { path: trackPath, mode: 'replace' },
+  });
+  const mixHash = await runJob(tempDir, 'mix.mp4', {
+    ...baseSettings,
+    audioTrack: { path: trackPath, mode: 'mix', offsetSec: 0.2, gainDb: -6, fadeOutSec: 0.3 },
+  });
+  const crushedHash = await runJob(tempDir, 'crushed.mp4', {
+    ...baseSettings,
+    enableAudioBitcrush: true,
+    audioTrack: { path: trackPath, mode: 'replace' },
+  });
+
+  assert.notEqual(sourceHash, replaceHash);
+  assert.notEqual(replaceHash, mixHash);
+  assert.notEqual(replaceHash, crushedHash);
+});
+
+test('gpu error diffusion matches the cpu kernels', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/parity-error-diffusion-backend-'));
+
+  for (const ditherMode of ['floydSteinberg', 'atkinson', 'jarvisJudiceNinke', 'stucki', 'burkes', 'sierra']) {
+    const baseSettings = {
+      ditherMode,
+      serpentine: false,
+      temporalCoherence: false,
+      lcd: { enabled: false },
+    };
+
+    const cpu = await renderSheetPixels(tempDir, `${ditherMode}-cpu.zip`, {
+      ...baseSettings,
+      errorDiffusionBackend: 'cpu',
+    });
+    const gpu = await renderSheetPixels(tempDir, `${ditherMode}-gpu.zip`, {
+      ...baseSettings,
+      errorDiffusionBackend: 'gpu',
+    });
+
+    assert.equal(gpu.width, cpu.width, ditherMode);
+    assert.equal(gpu.height, cpu.height, ditherMode);
+
+    let mismatched = 0;
+    for (let i = 0; i < cpu.pixels.length; i += 4) {
+      if (
+        cpu.pixels[i] !== gpu.pixels[i]
+        || cpu.pixels[i + 1] !== gpu.pixels[i + 1]
+        || cpu.pixels[i + 2] !== gpu.pixels[i + 2]
+      ) {
+        mismatched++;
+      }
+    }
+
+    const mismatchRatio = mismatched / (cpu.width * cpu.height);
+    assert.ok(
+      mismatchRatio <= MAX_BACKEND_PIXEL_MISMATCH,
+      `${ditherMode}: ${(mismatchRatio * 100).toFixed(2)}% of pixels differ between backends`
+    );
+  }
+});
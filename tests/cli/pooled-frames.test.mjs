@@ -0,0 +1,86 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { bundleSourceModules } from './helpers.mjs';
+
+let PooledFrameQueue;
+
+function deferred() {
+  let resolve;
+  let reject;
+  const promise = new Promise((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+}
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+test.before(async () => {
+  ({ queue: { PooledFrameQueue } } = await bundleSourceModules('pooled-frames', {
+    queue: 'src/processing/PooledFrameQueue.ts',
+  }));
+});
+
+test('pooled frames are handed on in capture order whatever order they finish in', async () => {
+  const queue = new PooledFrameQueue(8);
+  const results = [0, 1, 2, 3, 4].map(() => deferred());
+  const consumed = [];
+  const pushed = results.map((result, i) => queue.push(result.promise, (value) => {
+    consumed.push([i, value]);
+  }));
+
+  for (const i of [3, 1, 4, 0, 2]) {
+    results[i].resolve(`frame ${i}`);
+    await flush();
+  }
+  await Promise.all(pushed);
+
+  assert.deepEqual(consumed, [0, 1, 2, 3, 4].map((i) => [i, `frame ${i}`]));
+  assert.equal(queue.size, 0);
+});
+
+test('pooled frames wait for a slow consumer and count against the limit until consumed', async () => {
+  const queue = new PooledFrameQueue(2);
+  const encodes = [deferred(), deferred()];
+  const consumed = [];
+  const push = (i) => queue.push(Promise.resolve(i), async (value) => {
+    consumed.push(value);
+    await encodes[value].promise;
+  });
+
+  const pushed = [push(0), push(1)];
+  await flush();
+  // Both results are ready, but frame 1 is still waiting behind frame 0's encode
+  assert.deepEqual(consumed, [0]);
+  assert.equal(queue.isFull(), true);
+
+  let released = false;
+  const capacity = queue.waitForCapacity().then(() => {
+    released = true;
+  });
+  await flush();
+  assert.equal(released, false);
+
+  encodes[0].resolve();
+  await capacity;
+  assert.equal(queue.size, 1);
+  await flush();
+  assert.deepEqual(consumed, [0, 1]);
+
+  encodes[1].resolve();
+  await Promise.all(pushed);
+  assert.equal(queue.size, 0);
+});
+
+test('a failed frame rejects on its own and later frames still arrive', async () => {
+  const queue = new PooledFrameQueue(4);
+  const consumed = [];
+  const failed = queue.push(Promise.reject(new Error('worker died')), (value) => consumed.push(value));
+  const next = queue.push(Promise.resolve('frame 1'), (value) => consumed.push(value));
+
+  await assert.rejects(failed, /worker died/);
+  await next;
+  assert.deepEqual(consumed, ['frame 1']);
+  assert.equal(queue.size, 0);
+});
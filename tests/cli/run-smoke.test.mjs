@@ -2,6 +2,7 @@ import test from 'node:test';
 import assert from 'node:assert/strict';
 import path from 'node:path';
 import fs from 'node:fs/promises';
+import JSZip from 'jszip';
 import { buildAppOnce, runCli, PROJECT_ROOT } from './helpers.mjs';
 
 const fixtureVideo = path.join(PROJECT_ROOT, 'tests/fixtures/tiny-sample.mp4');
@@ -23,6 +24,7 @@ test('run exports mp4 and emits progress + completion events', async () => {
     settings: {
       contrast: 1.1,
       ditherMode: 'floydSteinberg',
+      benchmarkErrorDiffusion: true,
       palette: '1989Green',
       targetFps: 15,
       enableAudioBitcrush: true,
@@ -68,4 +70,150 @@ test('run exports mp4 and emits progress + completion events', async () => {
   assert.equal(completion.resolvedSettings.processing.ditherMode, 'floydSteinberg');
   assert.equal(completion.resolvedSettings.processing.cameraResponse, 0.8);
   assert.ok(completion.resolvedSettings.processing.cropRegion);
+  assert.equal(completion.resolvedSettings.processing.errorDiffusionBackend, 'gpu');
+  assert.ok(completion.frameTiming.frames > 0);
+  assert.ok(completion.frameTiming.averageMs > 0);
+  assert.equal(completion.resolvedSettings.benchmarkErrorDiffusion, true);
+  assert.ok(completion.errorDiffusionBenchmark.frames > 0);
+  assert.ok(completion.errorDiffusionBenchmark.cpuAverageMs > 0);
+  assert.ok(completion.errorDiffusionBenchmark.gpuAverageMs > 0);
+});
+
+test('run exports animated webp and apng', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/run-animated-'));
+
+  for (const [format, extension] of [['webp', 'webp'], ['apng', 'png']]) {
+    const outputPath = path.join(tempDir, `output.${extension}`);
+    const jobPath = path.join(tempDir, `${format}-job.json`);
+
+    await fs.writeFile(jobPath, JSON.stringify({
+      schemaVersion: 1,
+      inputPath: fixtureVideo,
+      outputPath,
+      modeConfig: { format },
+      settings: {
+        ditherMode: 'bayer4x4',
+        targetFps: 10,
+        trim: { startSec: 0, endSec: 0.5 },
+      },
+    }, null, 2));
+
+    const result = await runCli(['run', '--job', jobPath]);
+    assert.equal(result.code, 0, `stdout:\n${result.stdout}\n\nstderr:\n${result.stderr}`);
+
+    const data = await fs.readFile(outputPath);
+    if (format === 'webp') {
+      assert.equal(data.subarray(0, 4).toString('ascii'), 'RIFF');
+      assert.equal(data.subarray(8, 16).toString('ascii'), 'WEBPVP8X');
+      assert.ok(data.includes(Buffer.from('ANMF')), 'expected animation frames');
+    } else {
+      assert.equal(data.subarray(1, 4).toString('ascii'), 'PNG');
+      assert.ok(data.includes(Buffer.from('acTL')), 'expected animation control chunk');
+    }
+  }
+});
+
+test('run exports vp9 video as webm', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/run-webm-'));
+  const outputPath = path.join(tempDir, 'output.webm');
+  const jobPath = path.join(tempDir, 'webm-job.json');
+
+  await fs.writeFile(jobPath, JSON.stringify({
+    schemaVersion: 1,
+    inputPath: fixtureVideo,
+    outputPath,
+    modeConfig: { format: 'mp4', codec: 'vp9' },
+    settings: {
+      ditherMode: 'bayer4x4',
+      targetFps: 10,
+      trim: { startSec: 0, endSec: 0.5 },
+    },
+  }, null, 2));
+
+  const result = await runCli(['run', '--job', jobPath]);
+  assert.equal(result.code, 0, `stdout:\n${result.stdout}\n\nstderr:\n${result.stderr}`);
+
+  const validated = result.events.find((event) => event.type === 'job_validated');
+  assert.equal(validated.codec, 'vp9');
+
+  const data = await fs.readFile(outputPath);
+  // EBML magic, then the webm doctype in the header
+  assert.equal(data.subarray(0, 4).toString('hex'), '1a45dfa3');
+  assert.ok(data.subarray(0, 64).includes(Buffer.from('webm')), 'expected webm doctype');
+  assert.ok(data.includes(Buffer.from('V_VP9')), 'expected a VP9 track');
+});
+
+test('run exports lossless ffv1 video with only palette colours', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/run-lossless-'));
+  const outputPath = path.join(tempDir, 'output.mkv');
+  const jobPath = path.join(tempDir, 'lossless-job.json');
+
+  await fs.writeFile(jobPath, JSON.stringify({
+    schemaVersion: 1,
+    inputPath: fixtureVideo,
+    outputPath,
+    modeConfig: { format: 'mp4', codec: 'ffv1' },
+    settings: {
+      ditherMode: 'floydSteinberg',
+      palette: '1989Green',
+      targetFps: 10,
+      lcd: { enabled: true },
+      trim: { startSec: 0, endSec: 0.5 },
+    },
+  }, null, 2));
+
+  const result = await runCli(['run', '--job', jobPath]);
+  assert.equal(result.code, 0, `stdout:\n${result.stdout}\n\nstderr:\n${result.stderr}`);
+
+  const data = await fs.readFile(outputPath);
+  // EBML magic, then the matroska doctype in the header
+  assert.equal(data.subarray(0, 4).toString('hex'), '1a45dfa3');
+  assert.ok(data.subarray(0, 64).includes(Buffer.from('matroska')), 'expected matroska doctype');
+
+  const completion = result.events.find((event) => event.type === 'job_complete');
+  assert.ok(completion.paletteCheck, 'missing palette check');
+  assert.equal(completion.paletteCheck.verified, true, completion.paletteCheck.error);
+  assert.ok(completion.paletteCheck.framesChecked > 0);
+  assert.equal(completion.paletteCheck.offPalettePixels, 0, JSON.stringify(completion.paletteCheck.samples));
+  assert.equal(completion.paletteCheck.passed, true);
+});
+
+test('run exports a sprite sheet with atlas json', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/run-spritesheet-'));
+  const outputPath = path.join(tempDir, 'sheet.zip');
+  const jobPath = path.join(tempDir, 'job.json');
+
+  await fs.writeFile(jobPath, JSON.stringify({
+    schemaVersion: 1,
+    inputPath: fixtureVideo,
+    outputPath,
+    modeConfig: { format: 'spritesheet', spriteSheet: { layout: 'grid', scale: 2 } },
+    settings: {
+      ditherMode: 'bayer4x4',
+      targetFps: 10,
+      trim: { startSec: 0, endSec: 0.5 },
+    },
+  }, null, 2));
+
+  const result = await runCli(['run', '--job', jobPath]);
+  assert.equal(result.code, 0, `stdout:\n${result.stdout}\n\nstderr:\n${result.stderr}`);
+
+  const validated = result.events.find((event) => event.type === 'job_validated');
+  assert.deepEqual(validated.spriteSheet, { layout: 'grid' });
+  assert.deepEqual(validated.resolution, { mode: 'scale', scale: 2 });
+
+  const zip = await JSZip.loadAsync(await fs.readFile(outputPath));
+  const image = await zip.file('sheet.png').async('nodebuffer');
+  assert.equal(image.subarray(1, 4).toString('ascii'), 'PNG');
+
+  const atlas = JSON.parse(await zip.file('sheet.json').async('string'));
+  assert.equal(atlas.meta.image, 'sheet.png');
+  assert.equal(atlas.meta.scale, '2');
+  assert.ok(atlas.frames.length > 0);
+
+  const { w, h } = atlas.frames[0].frame;
+  assert.equal(w, validated.dimensions.output.width);
+  assert.equal(h, validated.dimensions.output.height);
+  const totalMs = atlas.frames.reduce((sum, frame) => sum + frame.duration, 0);
+  assert.equal(totalMs, Math.round((atlas.frames.length * 1000) / 10));
 });
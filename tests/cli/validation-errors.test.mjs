@@ -61,3 +61,68 @@ test('timeout exits with code 124', async () => {
   assert.ok(errorEvent, 'expected job_error event');
   assert.equal(errorEvent.code, 124);
 });
+
+test('unparseable palette file returns exit code 2', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/invalid-palette-file-'));
+  const jobPath = path.join(tempDir, 'job-invalid-palette-file.json');
+  const palettePath = path.join(tempDir, 'broken.hex');
+
+  await fs.writeFile(palettePath, 'not-a-colour\n');
+  await fs.writeFile(jobPath, JSON.stringify({
+    schemaVersion: 1,
+    inputPath: fixtureVideo,
+    modeConfig: { format: 'mp4' },
+    settings: {
+      paletteFile: palettePath,
+    },
+  }, null, 2));
+
+  const result = await runCli(['inspect', '--job', jobPath]);
+
+  assert.equal(result.code, 2, `stdout:\n${result.stdout}\n\nstderr:\n${result.stderr}`);
+  const errorEvent = result.events.find((event) => event.type === 'job_error');
+  assert.ok(errorEvent, 'expected job_error event');
+});
+
+test('missing audio track returns exit code 2', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/missing-audio-track-'));
+  const jobPath = path.join(tempDir, 'job-missing-audio-track.json');
+
+  await fs.writeFile(jobPath, JSON.stringify({
+    schemaVersion: 1,
+    inputPath: fixtureVideo,
+    modeConfig: { format: 'mp4' },
+    settings: {
+      audioTrack: { path: path.join(tempDir, 'does-not-exist.wav') },
+    },
+  }, null, 2));
+
+  const result = await runCli(['inspect', '--job', jobPath]);
+
+  assert.equal(result.code, 2, `stdout:\n${result.stdout}\n\nstderr:\n${result.stderr}`);
+  const errorEvent = result.events.find((event) => event.type === 'job_error');
+  assert.ok(errorEvent, 'expected job_error event');
+  assert.match(String(errorEvent.error), /settings\.audioTrack\.path/);
+});
+
+test('benchmarking error diffusion with an ordered dither returns exit code 2', async () => {
+  const tempDir = await fs.mkdtemp(path.join(PROJECT_ROOT, 'tests/tmp/benchmark-ordered-'));
+  const jobPath = path.join(tempDir, 'job-benchmark-ordered.json');
+
+  await fs.writeFile(jobPath, JSON.stringify({
+    schemaVersion: 1,
+    inputPath: fixtureVideo,
+    modeConfig: { format: 'mp4' },
+    settings: {
+      ditherMode: 'bayer4x4',
+      benchmarkErrorDiffusion: true,
+    },
+  }, null, 2));
+
+  const result = await runCli(['inspect', '--job', jobPath]);
+
+  assert.equal(result.code, 2, `stdout:\n${result.stdout}\n\nstderr:\n${result.stderr}`);
+  const errorEvent = result.events.find((event) => event.type === 'job_error');
+  assert.ok(errorEvent, 'expected job_error event');
+  assert.match(String(errorEvent.error), /settings\.benchmarkErrorDiffusion/);
+});